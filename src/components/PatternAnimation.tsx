@@ -0,0 +1,260 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, LayoutChangeEvent } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Pattern } from '../types';
+import { PatternSimulatorService } from '../services';
+
+interface PatternAnimationProps {
+  pattern: Pattern;
+}
+
+const BEAT_SECONDS = 0.25;
+const SPEEDS = [0.5, 1, 2];
+const STAGE_HEIGHT = 220;
+const FLOOR_OFFSET = 48;
+const PROP_SIZE = 12;
+const PROP_COLORS = ['#6366f1', '#ef4444', '#10b981', '#f59e0b', '#3b82f6', '#ec4899', '#14b8a6', '#8b5cf6'];
+
+/**
+ * Animated side view of a pattern driven by PatternSimulatorService,
+ * with play/pause, speed and per-juggler highlighting
+ */
+export default function PatternAnimation({ pattern }: PatternAnimationProps) {
+  const simulation = useMemo(() => PatternSimulatorService.simulate(pattern), [pattern]);
+  const [width, setWidth] = useState(0);
+  const [beat, setBeat] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+  const beatRef = useRef(0);
+
+  useEffect(() => {
+    if (!playing || !simulation.model) return;
+
+    let frame: number;
+    let last: number | null = null;
+    const tick = (now: number) => {
+      if (last !== null) {
+        beatRef.current += ((now - last) / 1000 / BEAT_SECONDS) * speed;
+        setBeat(beatRef.current);
+      }
+      last = now;
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, simulation.model]);
+
+  if (!simulation.model) {
+    return (
+      <View style={styles.unavailable}>
+        <Ionicons name="alert-circle-outline" size={20} color="#6b7280" />
+        <Text style={styles.unavailableText}>
+          Animation unavailable: {simulation.errors[0] || 'invalid siteswap'}
+        </Text>
+      </View>
+    );
+  }
+
+  const { model } = simulation;
+  const frame = PatternSimulatorService.getFrame(model, beat);
+  const { minX, maxX, maxY } = model.bounds;
+  const scaleX = width / (maxX - minX);
+  const scaleY = (STAGE_HEIGHT - FLOOR_OFFSET - PROP_SIZE) / maxY;
+  const toScreen = (x: number, y: number) => ({
+    left: (x - minX) * scaleX,
+    top: STAGE_HEIGHT - FLOOR_OFFSET - y * scaleY,
+  });
+  const isDimmed = (...jugglers: number[]) =>
+    highlighted !== null && !jugglers.includes(highlighted);
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={styles.stage}
+        onLayout={(event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width)}
+      >
+        {width > 0 && model.jugglers.map(juggler => {
+          const body = toScreen(juggler.x, 0);
+          return (
+            <View key={`juggler-${juggler.index}`} style={{ opacity: isDimmed(juggler.index) ? 0.3 : 1 }}>
+              <View
+                style={[
+                  styles.jugglerBody,
+                  { left: body.left - 20, top: body.top + 8 },
+                  highlighted === juggler.index && styles.jugglerBodyHighlighted,
+                ]}
+              >
+                <Text style={styles.jugglerLabel}>{juggler.name}</Text>
+              </View>
+              {juggler.hands.map((hand, handIndex) => {
+                const position = toScreen(hand.x, hand.y);
+                return (
+                  <View
+                    key={`hand-${juggler.index}-${handIndex}`}
+                    style={[styles.hand, { left: position.left - 8, top: position.top + PROP_SIZE / 2 }]}
+                  />
+                );
+              })}
+            </View>
+          );
+        })}
+
+        {width > 0 && frame.props.map(prop => {
+          const position = toScreen(prop.x, prop.y);
+          return (
+            <View
+              key={`prop-${prop.propId}`}
+              style={[
+                styles.prop,
+                {
+                  left: position.left - PROP_SIZE / 2,
+                  top: position.top - PROP_SIZE / 2,
+                  backgroundColor: PROP_COLORS[prop.propId % PROP_COLORS.length],
+                  opacity: isDimmed(prop.fromJuggler, prop.toJuggler) ? 0.2 : 1,
+                },
+              ]}
+            />
+          );
+        })}
+      </View>
+
+      <View style={styles.controls}>
+        <TouchableOpacity style={styles.playButton} onPress={() => setPlaying(!playing)}>
+          <Ionicons name={playing ? 'pause' : 'play'} size={18} color="#ffffff" />
+        </TouchableOpacity>
+        {SPEEDS.map(option => (
+          <TouchableOpacity
+            key={`speed-${option}`}
+            style={[styles.chip, speed === option && styles.chipSelected]}
+            onPress={() => setSpeed(option)}
+          >
+            <Text style={[styles.chipText, speed === option && styles.chipTextSelected]}>{option}x</Text>
+          </TouchableOpacity>
+        ))}
+        <Text style={styles.notation}>{model.notation}</Text>
+      </View>
+
+      {model.jugglers.length > 1 && (
+        <View style={styles.controls}>
+          <Text style={styles.controlLabel}>Highlight:</Text>
+          {model.jugglers.map(juggler => (
+            <TouchableOpacity
+              key={`highlight-${juggler.index}`}
+              style={[styles.chip, highlighted === juggler.index && styles.chipSelected]}
+              onPress={() => setHighlighted(highlighted === juggler.index ? null : juggler.index)}
+            >
+              <Text style={[styles.chipText, highlighted === juggler.index && styles.chipTextSelected]}>
+                {juggler.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  stage: {
+    height: STAGE_HEIGHT,
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  jugglerBody: {
+    position: 'absolute',
+    width: 40,
+    height: 32,
+    borderRadius: 8,
+    backgroundColor: '#e5e7eb',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  jugglerBodyHighlighted: {
+    backgroundColor: '#c7d2fe',
+  },
+  jugglerLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  hand: {
+    position: 'absolute',
+    width: 16,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#9ca3af',
+  },
+  prop: {
+    position: 'absolute',
+    width: PROP_SIZE,
+    height: PROP_SIZE,
+    borderRadius: PROP_SIZE / 2,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  playButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#6366f1',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+  },
+  chipSelected: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  controlLabel: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  notation: {
+    marginLeft: 'auto',
+    fontSize: 13,
+    fontFamily: 'monospace',
+    color: '#374151',
+  },
+  unavailable: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    backgroundColor: '#f3f4f6',
+    borderRadius: 8,
+  },
+  unavailableText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+});
@@ -0,0 +1,121 @@
+// Offline gazetteer for partner discovery: city centres plus the postcode
+// prefixes that belong to them. Coordinates are to two decimal places (about
+// 1 km), which is finer than the grid locations are rounded to before storing.
+
+export interface GazetteerPlace {
+  id: string;
+  name: string;
+  region?: string; // State or province where it helps tell places apart
+  country: string; // ISO 3166-1 alpha-2
+  latitude: number;
+  longitude: number;
+  aliases?: string[];
+  postcodes?: string[]; // Prefixes; GB and CA use postcode areas (letters only)
+}
+
+// Full postcodes (or GB/CA outward codes) each country's prefixes are checked against
+export const POSTCODE_FORMATS: { [country: string]: RegExp } = {
+  US: /^\d{5}(-\d{4})?$/,
+  CA: /^[A-Z]\d[A-Z](\s?\d[A-Z]\d)?$/,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]?(\s?\d[A-Z]{2})?$/,
+  IE: /^[A-Z]\d{2}(\s?[A-Z\d]{4})?$/,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  NL: /^\d{4}(\s?[A-Z]{2})?$/,
+  AT: /^\d{4}$/,
+  CH: /^\d{4}$/,
+};
+
+export const COUNTRY_NAMES: { [country: string]: string[] } = {
+  US: ['usa', 'united states', 'us', 'america'],
+  CA: ['canada'],
+  GB: ['uk', 'united kingdom', 'great britain', 'england', 'scotland', 'wales'],
+  IE: ['ireland'],
+  FR: ['france'],
+  DE: ['germany', 'deutschland'],
+  NL: ['netherlands', 'holland'],
+  BE: ['belgium'],
+  DK: ['denmark'],
+  SE: ['sweden'],
+  NO: ['norway'],
+  FI: ['finland'],
+  AT: ['austria'],
+  CH: ['switzerland'],
+  CZ: ['czechia', 'czech republic'],
+  PL: ['poland'],
+  HU: ['hungary'],
+  ES: ['spain'],
+  PT: ['portugal'],
+  IT: ['italy'],
+  AU: ['australia'],
+  NZ: ['new zealand'],
+  JP: ['japan'],
+};
+
+export const GAZETTEER: GazetteerPlace[] = [
+  // United States
+  { id: 'san-francisco-us', name: 'San Francisco', region: 'CA', country: 'US', latitude: 37.77, longitude: -122.42, aliases: ['sf'], postcodes: ['941'] },
+  { id: 'oakland-us', name: 'Oakland', region: 'CA', country: 'US', latitude: 37.80, longitude: -122.27, postcodes: ['946'] },
+  { id: 'berkeley-us', name: 'Berkeley', region: 'CA', country: 'US', latitude: 37.87, longitude: -122.27, postcodes: ['947'] },
+  { id: 'palo-alto-us', name: 'Palo Alto', region: 'CA', country: 'US', latitude: 37.44, longitude: -122.14, postcodes: ['943'] },
+  { id: 'stanford-us', name: 'Stanford', region: 'CA', country: 'US', latitude: 37.43, longitude: -122.17, postcodes: ['94305'] },
+  { id: 'san-jose-us', name: 'San Jose', region: 'CA', country: 'US', latitude: 37.34, longitude: -121.89, postcodes: ['950', '951'] },
+  { id: 'los-angeles-us', name: 'Los Angeles', region: 'CA', country: 'US', latitude: 34.05, longitude: -118.24, aliases: ['la'], postcodes: ['900'] },
+  { id: 'seattle-us', name: 'Seattle', region: 'WA', country: 'US', latitude: 47.61, longitude: -122.33, postcodes: ['981'] },
+  { id: 'portland-us', name: 'Portland', region: 'OR', country: 'US', latitude: 45.52, longitude: -122.68, postcodes: ['972'] },
+  { id: 'denver-us', name: 'Denver', region: 'CO', country: 'US', latitude: 39.74, longitude: -104.99, postcodes: ['802'] },
+  { id: 'austin-us', name: 'Austin', region: 'TX', country: 'US', latitude: 30.27, longitude: -97.74, postcodes: ['787'] },
+  { id: 'chicago-us', name: 'Chicago', region: 'IL', country: 'US', latitude: 41.88, longitude: -87.63, postcodes: ['606'] },
+  { id: 'boston-us', name: 'Boston', region: 'MA', country: 'US', latitude: 42.36, longitude: -71.06, postcodes: ['021'] },
+  { id: 'new-york-us', name: 'New York', region: 'NY', country: 'US', latitude: 40.71, longitude: -74.01, aliases: ['nyc', 'new york city', 'manhattan'], postcodes: ['100', '101', '102'] },
+  { id: 'brooklyn-us', name: 'Brooklyn', region: 'NY', country: 'US', latitude: 40.68, longitude: -73.94, postcodes: ['112'] },
+  { id: 'philadelphia-us', name: 'Philadelphia', region: 'PA', country: 'US', latitude: 39.95, longitude: -75.17, postcodes: ['191'] },
+  { id: 'washington-us', name: 'Washington', region: 'DC', country: 'US', latitude: 38.91, longitude: -77.04, aliases: ['washington dc', 'dc'], postcodes: ['200'] },
+
+  // Canada
+  { id: 'vancouver-ca', name: 'Vancouver', region: 'BC', country: 'CA', latitude: 49.28, longitude: -123.12, postcodes: ['V5', 'V6'] },
+  { id: 'toronto-ca', name: 'Toronto', region: 'ON', country: 'CA', latitude: 43.65, longitude: -79.38, postcodes: ['M'] },
+  { id: 'montreal-ca', name: 'Montreal', region: 'QC', country: 'CA', latitude: 45.50, longitude: -73.57, aliases: ['montréal'], postcodes: ['H'] },
+
+  // United Kingdom and Ireland
+  { id: 'london-gb', name: 'London', country: 'GB', latitude: 51.51, longitude: -0.13, postcodes: ['E', 'EC', 'N', 'NW', 'SE', 'SW', 'W', 'WC'] },
+  { id: 'bristol-gb', name: 'Bristol', country: 'GB', latitude: 51.45, longitude: -2.59, postcodes: ['BS'] },
+  { id: 'birmingham-gb', name: 'Birmingham', country: 'GB', latitude: 52.49, longitude: -1.89, postcodes: ['B'] },
+  { id: 'manchester-gb', name: 'Manchester', country: 'GB', latitude: 53.48, longitude: -2.24, postcodes: ['M'] },
+  { id: 'edinburgh-gb', name: 'Edinburgh', country: 'GB', latitude: 55.95, longitude: -3.19, postcodes: ['EH'] },
+  { id: 'glasgow-gb', name: 'Glasgow', country: 'GB', latitude: 55.86, longitude: -4.25, postcodes: ['G'] },
+  { id: 'dublin-ie', name: 'Dublin', country: 'IE', latitude: 53.35, longitude: -6.26, postcodes: ['D'] },
+
+  // Europe
+  { id: 'paris-fr', name: 'Paris', country: 'FR', latitude: 48.86, longitude: 2.35, postcodes: ['75'] },
+  { id: 'lyon-fr', name: 'Lyon', country: 'FR', latitude: 45.76, longitude: 4.84, postcodes: ['69'] },
+  { id: 'amsterdam-nl', name: 'Amsterdam', country: 'NL', latitude: 52.37, longitude: 4.90, postcodes: ['10'] },
+  { id: 'rotterdam-nl', name: 'Rotterdam', country: 'NL', latitude: 51.92, longitude: 4.48, postcodes: ['30'] },
+  { id: 'brussels-be', name: 'Brussels', country: 'BE', latitude: 50.85, longitude: 4.35, aliases: ['bruxelles', 'brussel'] },
+  { id: 'berlin-de', name: 'Berlin', country: 'DE', latitude: 52.52, longitude: 13.40, postcodes: ['10', '11', '12', '13', '14'] },
+  { id: 'hamburg-de', name: 'Hamburg', country: 'DE', latitude: 53.55, longitude: 9.99, postcodes: ['20', '21', '22'] },
+  { id: 'cologne-de', name: 'Cologne', country: 'DE', latitude: 50.94, longitude: 6.96, aliases: ['köln', 'koln'], postcodes: ['50', '51'] },
+  { id: 'frankfurt-de', name: 'Frankfurt', country: 'DE', latitude: 50.11, longitude: 8.68, aliases: ['frankfurt am main'], postcodes: ['60'] },
+  { id: 'karlsruhe-de', name: 'Karlsruhe', country: 'DE', latitude: 49.01, longitude: 8.40, postcodes: ['76'] },
+  { id: 'munich-de', name: 'Munich', country: 'DE', latitude: 48.14, longitude: 11.58, aliases: ['münchen', 'munchen'], postcodes: ['80', '81'] },
+  { id: 'copenhagen-dk', name: 'Copenhagen', country: 'DK', latitude: 55.68, longitude: 12.57, aliases: ['københavn'] },
+  { id: 'stockholm-se', name: 'Stockholm', country: 'SE', latitude: 59.33, longitude: 18.07 },
+  { id: 'oslo-no', name: 'Oslo', country: 'NO', latitude: 59.91, longitude: 10.75 },
+  { id: 'helsinki-fi', name: 'Helsinki', country: 'FI', latitude: 60.17, longitude: 24.94 },
+  { id: 'vienna-at', name: 'Vienna', country: 'AT', latitude: 48.21, longitude: 16.37, aliases: ['wien'], postcodes: ['1'] },
+  { id: 'zurich-ch', name: 'Zurich', country: 'CH', latitude: 47.38, longitude: 8.54, aliases: ['zürich'], postcodes: ['80'] },
+  { id: 'prague-cz', name: 'Prague', country: 'CZ', latitude: 50.08, longitude: 14.44, aliases: ['praha'] },
+  { id: 'warsaw-pl', name: 'Warsaw', country: 'PL', latitude: 52.23, longitude: 21.01, aliases: ['warszawa'] },
+  { id: 'budapest-hu', name: 'Budapest', country: 'HU', latitude: 47.50, longitude: 19.04 },
+  { id: 'madrid-es', name: 'Madrid', country: 'ES', latitude: 40.42, longitude: -3.70 },
+  { id: 'barcelona-es', name: 'Barcelona', country: 'ES', latitude: 41.39, longitude: 2.17 },
+  { id: 'lisbon-pt', name: 'Lisbon', country: 'PT', latitude: 38.72, longitude: -9.14, aliases: ['lisboa'] },
+  { id: 'milan-it', name: 'Milan', country: 'IT', latitude: 45.46, longitude: 9.19, aliases: ['milano'] },
+  { id: 'rome-it', name: 'Rome', country: 'IT', latitude: 41.90, longitude: 12.50, aliases: ['roma'] },
+
+  // Asia Pacific
+  { id: 'tokyo-jp', name: 'Tokyo', country: 'JP', latitude: 35.68, longitude: 139.65 },
+  { id: 'sydney-au', name: 'Sydney', region: 'NSW', country: 'AU', latitude: -33.87, longitude: 151.21 },
+  { id: 'melbourne-au', name: 'Melbourne', region: 'VIC', country: 'AU', latitude: -37.81, longitude: 144.96 },
+  { id: 'auckland-nz', name: 'Auckland', country: 'NZ', latitude: -36.85, longitude: 174.76 },
+];
@@ -1,5 +1,7 @@
-import { Pattern } from '../types';
+import { Pattern, PropCounts, PropType } from '../types';
 import { CURRICULUM_PATTERNS } from '../services/patternLibrary';
+import { PatternRatingService } from '../services/patternRatings';
+import { PropService } from '../services/props';
 
 // Enhanced search interfaces
 export interface PatternSearchOptions {
@@ -8,6 +10,7 @@ export interface PatternSearchOptions {
   includeSimilar?: boolean;
   maxResults?: number;
   sortBy?: 'relevance' | 'difficulty' | 'popularity' | 'name';
+  props?: PropType[] | PropCounts; // Only patterns that can be juggled with these props
 }
 
 export interface EnhancedPatternResult extends Pattern {
@@ -28,10 +31,10 @@ export const getPatternsByDifficulty = (difficulty: string): Pattern[] => {
   return patterns.filter(pattern => pattern.difficulty === difficulty);
 };
 
-export const getPatternsByProps = (props: string[]): Pattern[] => {
-  return patterns.filter(pattern => 
-    pattern.props.some(prop => props.includes(prop))
-  );
+// Patterns that can be juggled with the props given; with counts
+// ({ clubs: 7, balls: 1 }) patterns needing more of a prop are left out
+export const getPatternsByProps = (props: PropType[] | PropCounts): Pattern[] => {
+  return patterns.filter(pattern => PropService.fitsProps(pattern, props));
 };
 
 export const getPatternsByJugglerCount = (count: number): Pattern[] => {
@@ -125,18 +128,25 @@ export const enhancedPatternSearch = (
     includePrerequisites = true,
     includeSimilar = true,
     maxResults = 20,
-    sortBy = 'relevance'
+    sortBy = 'relevance',
+    props
   } = options;
+  const available = props ? patterns.filter(pattern => PropService.fitsProps(pattern, props)) : patterns;
 
   if (!query.trim()) {
-    return convertToEnhancedResults(patterns, '');
+    return convertToEnhancedResults(available, '');
   }
 
   const queryLower = query.toLowerCase().trim();
   const queryWords = queryLower.split(/\s+/);
+  const queryCounts = PropService.findPropCounts(queryLower);
+  const hasQueryCounts = Object.keys(queryCounts).length > 0;
   const results: EnhancedPatternResult[] = [];
 
-  for (const pattern of patterns) {
+  for (const pattern of available) {
+    // "7 clubs" in the query only matches patterns that use seven clubs
+    if (hasQueryCounts && !PropService.usesCounts(pattern, queryCounts)) continue;
+
     let searchScore = 0;
     const matchedFields: string[] = [];
 
@@ -171,13 +181,18 @@ export const enhancedPatternSearch = (
       matchedFields.push('difficulty');
     }
 
-    // Props matching
-    for (const prop of pattern.props) {
-      const propScore = calculateFieldScore(prop, queryWords, fuzzyMatch);
-      if (propScore > 0) {
-        searchScore += propScore * 1.0;
-        matchedFields.push('props');
-        break; // Only count props once
+    // Props matching (patterns without the counts asked for were skipped above)
+    if (hasQueryCounts) {
+      searchScore += 2.0;
+      matchedFields.push('props');
+    } else {
+      for (const prop of pattern.props) {
+        const propScore = calculateFieldScore(prop, queryWords, fuzzyMatch);
+        if (propScore > 0) {
+          searchScore += propScore * 1.0;
+          matchedFields.push('props');
+          break; // Only count props once
+        }
       }
     }
 
@@ -371,15 +386,10 @@ const sortPatternResults = (
       });
     
     case 'popularity':
-      return results.sort((a, b) => {
-        const aRating = a.communityRating || 0;
-        const bRating = b.communityRating || 0;
-        const aCount = a.ratingCount || 0;
-        const bCount = b.ratingCount || 0;
-        
-        // Sort by rating * count (popularity metric)
-        return (bRating * bCount) - (aRating * aCount);
-      });
+      // Bayesian average, so a few high ratings don't outrank many good ones
+      return results.sort((a, b) =>
+        PatternRatingService.getPopularityScore(b) - PatternRatingService.getPopularityScore(a)
+      );
     
     case 'name':
       return results.sort((a, b) => a.name.localeCompare(b.name));
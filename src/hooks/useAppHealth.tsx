@@ -11,7 +11,7 @@ import {
   CacheService, 
   ConfigService 
 } from '../services';
-import { SyncService } from '../services/sync';
+import { SyncService, SyncStatus } from '../services/sync';
 import { supabase } from '../services/supabase';
 
 export interface AppHealthStatus {
@@ -35,6 +35,12 @@ export interface AppHealthStatus {
     isOnline: boolean;
     lastSyncTime?: Date;
   };
+  sync: {
+    pending: number;
+    retrying: number;
+    failed: number;
+    lastError?: string;
+  };
   memory: {
     warningThreshold: boolean;
     estimatedUsage: number;
@@ -56,7 +62,8 @@ async function checkConnectivity(): Promise<boolean> {
   }
 }
 
-async function getLastSyncTime(): Promise<Date | undefined> {
+async function getLastSyncTime(syncStatus: SyncStatus): Promise<Date | undefined> {
+  if (syncStatus.lastSyncAt) return syncStatus.lastSyncAt;
   try {
     // Check for a sync timestamp in storage or from the sync service
     if (!supabase) return undefined;
@@ -117,6 +124,11 @@ export function useAppHealth() {
       issues.push('cache');
     }
 
+    // Changes that could not be synced
+    if (status.sync.failed > 0) {
+      issues.push('sync');
+    }
+
     if (issues.length === 0) return 'healthy';
     if (issues.length <= 2) return 'warning';
     return 'critical';
@@ -141,6 +153,8 @@ export function useAppHealth() {
       const cacheHitRate = cacheStats.totalItems > 0 ? 
         Math.max(0, (cacheStats.totalItems - cacheStats.expiredItems) / cacheStats.totalItems) : 1;
 
+      const syncStatus = await SyncService.getStatus();
+
       // Estimate memory usage (simplified)
       const estimatedMemoryUsage = cacheStats.totalSize + (perfStats.totalMetrics * 1024); // rough estimate
       const memoryWarningThreshold = estimatedMemoryUsage > 5 * 1024 * 1024; // 5MB threshold
@@ -163,7 +177,13 @@ export function useAppHealth() {
         },
         connectivity: {
           isOnline: await checkConnectivity(),
-          lastSyncTime: await getLastSyncTime(),
+          lastSyncTime: await getLastSyncTime(syncStatus),
+        },
+        sync: {
+          pending: syncStatus.pending,
+          retrying: syncStatus.retrying,
+          failed: syncStatus.failed,
+          lastError: syncStatus.lastError,
         },
         memory: {
           warningThreshold: memoryWarningThreshold,
@@ -266,6 +286,12 @@ export function useAppHealth() {
       `  Total Size: ${(healthStatus.cache.totalSize / 1024).toFixed(2)} KB`,
       `  Expired Items: ${healthStatus.cache.expiredItemsCount}`,
       ``,
+      `Sync:`,
+      `  Pending Changes: ${healthStatus.sync.pending}`,
+      `  Retrying: ${healthStatus.sync.retrying}`,
+      `  Failed: ${healthStatus.sync.failed}`,
+      `  Last Error: ${healthStatus.sync.lastError || 'None'}`,
+      ``,
       `Memory:`,
       `  Warning Threshold: ${healthStatus.memory.warningThreshold ? 'Yes' : 'No'}`,
       `  Estimated Usage: ${(healthStatus.memory.estimatedUsage / 1024 / 1024).toFixed(2)} MB`,
@@ -1,5 +1,15 @@
-import { useState, useEffect, useCallback } from 'react';
-import { ChatService, ChatMessage, ChatConversation } from '../services/chatService';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  ChatService,
+  ChatMessage,
+  ChatConversation,
+  ChatMember,
+  ChatMessageMetadata,
+  ChatPreferenceChanges,
+  SessionInviteResponse
+} from '../services/chatService';
+import { ChatDeliveryState, ChatOutboxService, OutboxMessage } from '../services/chatOutbox';
+import { ChatSearchService } from '../services/chatSearch';
 import { useAuth } from './useAuth';
 
 interface UseChatResult {
@@ -9,24 +19,47 @@ interface UseChatResult {
   refreshConversations: () => Promise<void>;
   
   // Message management
-  messages: ChatMessage[];
+  messages: ChatMessage[]; // Includes the user's unsent messages, which use their client ID as ID
   messagesLoading: boolean;
   currentConversationId: string | null;
+  currentMembers: ChatMember[]; // Kept current for read receipts
   
   // Actions
-  sendMessage: (recipientId: string, recipientName: string, messageText: string) => Promise<boolean>;
+  sendMessage: (
+    recipientId: string,
+    recipientName: string,
+    messageText: string,
+    messageType?: ChatMessage['messageType'],
+    metadata?: ChatMessageMetadata
+  ) => Promise<boolean>;
+  sendGroupMessage: (
+    conversationId: string,
+    messageText: string,
+    messageType?: ChatMessage['messageType'],
+    metadata?: ChatMessageMetadata
+  ) => Promise<boolean>;
+  respondToSessionInvite: (message: ChatMessage, response: SessionInviteResponse) => Promise<void>;
+  retryMessage: (clientId: string) => Promise<void>;
+  discardMessage: (clientId: string) => Promise<void>;
   markAsRead: (messageId: string) => Promise<boolean>;
   markConversationAsRead: (conversationId: string) => Promise<boolean>;
-  loadMessages: (conversationId: string) => Promise<void>;
+  loadMessages: (conversationId: string, aroundMessageId?: string) => Promise<void>; // Starts at aroundMessageId when given
+  updatePreferences: (conversationId: string, changes: ChatPreferenceChanges) => Promise<void>;
+  muteConversation: (conversationId: string, durationMs?: number) => Promise<void>; // Until unmuted without a duration
   
   // Real-time features
   startConversation: (recipientId: string, recipientName: string, initialMessage?: string) => Promise<string | null>;
   
   // Statistics
-  totalUnreadCount: number;
+  totalUnreadCount: number; // Leaves out muted conversations
+  outbox: OutboxMessage[]; // The user's messages that haven't reached the server
   
   // Utilities
   getOtherUser: (conversation: ChatConversation) => { id: string; name: string };
+  getConversationTitle: (conversation: ChatConversation) => string;
+  isMuted: (conversation: ChatConversation) => boolean;
+  getReadBy: (message: ChatMessage) => ChatMember[];
+  getMessageState: (message: ChatMessage) => ChatDeliveryState;
   isMessageFromCurrentUser: (message: ChatMessage) => boolean;
 }
 
@@ -43,7 +76,11 @@ export function useChat(): UseChatResult {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [messagesLoading, setMessagesLoading] = useState(false);
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
+  const [currentMembers, setCurrentMembers] = useState<ChatMember[]>([]);
   const [totalUnreadCount, setTotalUnreadCount] = useState(0);
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
+  const openConversationId = useRef<string | null>(null);
+  openConversationId.current = currentConversationId;
 
   // Load conversations on mount and when user changes
   useEffect(() => {
@@ -54,6 +91,7 @@ export function useChat(): UseChatResult {
       const unsubscribe = ChatService.subscribeToConversations(user.id, (updatedConversations) => {
         setConversations(updatedConversations);
         updateUnreadCount(updatedConversations);
+        markConversationsDelivered(updatedConversations);
       });
 
       return unsubscribe;
@@ -67,20 +105,49 @@ export function useChat(): UseChatResult {
   useEffect(() => {
     if (currentConversationId) {
       const unsubscribe = ChatService.subscribeToMessages(currentConversationId, (newMessage) => {
-        setMessages(prev => [...prev, newMessage]);
+        addMessages([newMessage]);
+        if (user?.id) ChatSearchService.addMessages(user.id, [newMessage]);
         
-        // Auto-mark as read if it's for the current user and conversation is open
-        if (newMessage.recipientId === user?.id && newMessage.senderId !== user?.id) {
+        // Auto-mark as read if someone else sent it and the conversation is open
+        if (user?.id && newMessage.senderId !== user.id) {
+          ChatService.markMessagesDelivered(currentConversationId, user.id);
           setTimeout(() => {
             ChatService.markMessageAsRead(newMessage.id, user?.id || '');
           }, 1000); // Mark as read after 1 second of viewing
         }
-      });
+      }, replaceMessage);
 
       return unsubscribe;
     }
   }, [currentConversationId, user?.id]);
 
+  // Show unsent messages straight away and swap in the saved copies as they go out
+  useEffect(() => {
+    if (!user?.id) {
+      setOutbox([]);
+      return;
+    }
+
+    ChatOutboxService.getOutbox(user.id).then(setOutbox);
+    return ChatOutboxService.subscribe((allQueued, sent) => {
+      setOutbox(allQueued.filter(message => message.senderId === user.id));
+      if (sent.length > 0) {
+        addMessages(sent.filter(message => message.conversationId === openConversationId.current));
+        ChatSearchService.addMessages(user.id, sent);
+        loadConversations();
+      }
+    });
+  }, [user?.id]);
+
+  // Keep the open conversation's members (and how far each has read) current
+  useEffect(() => {
+    if (currentConversationId) {
+      ChatService.getMembers(currentConversationId).then(setCurrentMembers);
+      return ChatService.subscribeToMembers(currentConversationId, setCurrentMembers);
+    }
+    setCurrentMembers([]);
+  }, [currentConversationId]);
+
   /**
    * Load conversations for the current user
    */
@@ -92,6 +159,7 @@ export function useChat(): UseChatResult {
       const loadedConversations = await ChatService.getConversations(user.id);
       setConversations(loadedConversations);
       updateUnreadCount(loadedConversations);
+      markConversationsDelivered(loadedConversations);
     } catch (error) {
       console.error('Error loading conversations:', error);
     } finally {
@@ -109,16 +177,20 @@ export function useChat(): UseChatResult {
   /**
    * Load messages for a specific conversation
    */
-  const loadMessages = useCallback(async (conversationId: string) => {
+  const loadMessages = useCallback(async (conversationId: string, aroundMessageId?: string) => {
     try {
       setMessagesLoading(true);
       setCurrentConversationId(conversationId);
       
-      const loadedMessages = await ChatService.getMessages(conversationId);
+      const loadedMessages = aroundMessageId
+        ? await ChatService.getMessagesAround(conversationId, aroundMessageId)
+        : await ChatService.getMessages(conversationId);
       setMessages(loadedMessages);
       
       // Mark conversation as read when opened
       if (user?.id) {
+        // The others' messages have now reached this device
+        ChatService.markMessagesDelivered(conversationId, user.id);
         await ChatService.markConversationAsRead(conversationId, user.id);
         // Refresh conversations to update unread count
         await loadConversations();
@@ -130,13 +202,33 @@ export function useChat(): UseChatResult {
     }
   }, [user?.id, loadConversations]);
 
+  /**
+   * Add messages to the open conversation, skipping ones already shown
+   * (a sent message can arrive through both the outbox and real-time)
+   */
+  const addMessages = useCallback((newMessages: ChatMessage[]) => {
+    setMessages(prev => {
+      const added = newMessages.filter(message => !prev.some(existing => existing.id === message.id));
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  }, []);
+
+  /**
+   * Swap in a changed copy of a message, e.g. an invite someone answered
+   */
+  const replaceMessage = useCallback((updated: ChatMessage) => {
+    setMessages(prev => prev.map(msg => msg.id === updated.id ? updated : msg));
+  }, []);
+
   /**
    * Send a message to another user
    */
   const sendMessage = useCallback(async (
     recipientId: string,
     recipientName: string,
-    messageText: string
+    messageText: string,
+    messageType: ChatMessage['messageType'] = 'text',
+    metadata?: ChatMessageMetadata
   ): Promise<boolean> => {
     if (!user?.id || !user?.name) {
       console.error('User not authenticated');
@@ -149,33 +241,117 @@ export function useChat(): UseChatResult {
     }
 
     try {
-      const message = await ChatService.sendMessage(
-        user.id,
-        user.name,
+      // Queued first so it survives having no signal; the outbox sends it
+      await ChatOutboxService.enqueue({
+        senderId: user.id,
+        senderName: user.name,
         recipientId,
-        messageText.trim(),
-        'text'
-      );
-
-      if (message) {
-        // If this is the current conversation, add message to local state
-        if (message.conversationId === currentConversationId) {
-          setMessages(prev => [...prev, message]);
-        }
-        
-        // Refresh conversations to update last message
-        await loadConversations();
-        
-        console.log(`Message sent successfully to ${recipientName}`);
-        return true;
-      }
+        conversationId: findDirectConversation(conversations, recipientId)?.id,
+        messageText: messageText.trim(),
+        messageType,
+        metadata
+      });
+      console.log(`Message to ${recipientName} queued`);
+      return true;
+    } catch (error) {
+      console.error('Error sending message:', error);
+      return false;
+    }
+  }, [user?.id, user?.name, conversations]);
 
+  /**
+   * Send a message to everyone in a group conversation
+   */
+  const sendGroupMessage = useCallback(async (
+    conversationId: string,
+    messageText: string,
+    messageType: ChatMessage['messageType'] = 'text',
+    metadata?: ChatMessageMetadata
+  ): Promise<boolean> => {
+    if (!user?.id || !user?.name) {
+      console.error('User not authenticated');
       return false;
+    }
+
+    if (!messageText.trim()) {
+      console.error('Message text is empty');
+      return false;
+    }
+
+    try {
+      await ChatOutboxService.enqueue({
+        senderId: user.id,
+        senderName: user.name,
+        conversationId,
+        messageText: messageText.trim(),
+        messageType,
+        metadata
+      });
+      return true;
     } catch (error) {
-      console.error('Error sending message:', error);
+      console.error('Error sending group message:', error);
       return false;
     }
-  }, [user?.id, user?.name, currentConversationId, loadConversations]);
+  }, [user?.id, user?.name]);
+
+  /**
+   * Accept or decline a session invite; throws with a message to show if it can't be answered
+   */
+  const respondToSessionInvite = useCallback(async (
+    message: ChatMessage,
+    response: SessionInviteResponse
+  ): Promise<void> => {
+    if (!user?.id || !user?.name) {
+      throw new Error('Please sign in to answer invites');
+    }
+
+    const updated = await ChatService.respondToSessionInvite(message.id, user.id, user.name, response);
+    replaceMessage(updated);
+  }, [user?.id, user?.name, replaceMessage]);
+
+  /**
+   * Send a failed message again
+   */
+  const retryMessage = useCallback(async (clientId: string): Promise<void> => {
+    await ChatOutboxService.retry(clientId);
+  }, []);
+
+  /**
+   * Drop a message that hasn't been sent
+   */
+  const discardMessage = useCallback(async (clientId: string): Promise<void> => {
+    await ChatOutboxService.discard(clientId);
+  }, []);
+
+  /**
+   * Pin, archive, or change notifications for a conversation
+   */
+  const updatePreferences = useCallback(async (
+    conversationId: string,
+    changes: ChatPreferenceChanges
+  ): Promise<void> => {
+    if (!user?.id) {
+      throw new Error('Please sign in to change chat settings');
+    }
+
+    await ChatService.updatePreferences(user.id, conversationId, changes);
+    await loadConversations();
+  }, [user?.id, loadConversations]);
+
+  const muteConversation = useCallback(async (conversationId: string, durationMs?: number): Promise<void> => {
+    if (!user?.id) {
+      throw new Error('Please sign in to change chat settings');
+    }
+
+    await ChatService.muteConversation(user.id, conversationId, durationMs);
+    await loadConversations();
+  }, [user?.id, loadConversations]);
+
+  /**
+   * Find the direct (two person) conversation with a user
+   */
+  const findDirectConversation = (conversationList: ChatConversation[], otherUserId: string) =>
+    conversationList.find(conv => !conv.isGroup && conv.members.some(member => member.userId === otherUserId));
 
   /**
    * Start a new conversation with a user
@@ -192,10 +368,7 @@ export function useChat(): UseChatResult {
 
     try {
       // Check if conversation already exists
-      const existingConversation = conversations.find(conv => 
-        (conv.user1Id === user.id && conv.user2Id === recipientId) ||
-        (conv.user1Id === recipientId && conv.user2Id === user.id)
-      );
+      const existingConversation = findDirectConversation(conversations, recipientId);
 
       if (existingConversation) {
         // Load existing conversation
@@ -218,10 +391,7 @@ export function useChat(): UseChatResult {
         await loadConversations();
         
         // Find and load the new conversation
-        const newConversation = conversations.find(conv => 
-          (conv.user1Id === user.id && conv.user2Id === recipientId) ||
-          (conv.user1Id === recipientId && conv.user2Id === user.id)
-        );
+        const newConversation = findDirectConversation(await ChatService.getConversations(user.id), recipientId);
         
         if (newConversation) {
           await loadMessages(newConversation.id);
@@ -293,20 +463,69 @@ export function useChat(): UseChatResult {
   }, [user?.id, loadConversations]);
 
   /**
-   * Get the other user in a conversation (not the current user)
+   * Get the other user in a direct conversation (not the current user)
    */
   const getOtherUser = useCallback((conversation: ChatConversation) => {
-    if (!user?.id) {
-      return { id: '', name: 'Unknown' };
-    }
-
-    if (conversation.user1Id === user.id) {
-      return { id: conversation.user2Id, name: conversation.user2Name };
-    } else {
-      return { id: conversation.user1Id, name: conversation.user1Name };
-    }
+    const other = conversation.members.find(member => member.userId !== user?.id);
+    return other ? { id: other.userId, name: other.name } : { id: '', name: 'Unknown' };
   }, [user?.id]);
 
+  /**
+   * The group's name, or the other person's for a direct conversation
+   */
+  const getConversationTitle = useCallback((conversation: ChatConversation): string => {
+    return conversation.isGroup ? conversation.title || 'Group' : getOtherUser(conversation).name;
+  }, [getOtherUser]);
+
+  /**
+   * Members of the open conversation who have read a message
+   */
+  const getReadBy = useCallback((message: ChatMessage): ChatMember[] => {
+    return ChatService.getReadBy(message, currentMembers);
+  }, [currentMembers]);
+
+  /**
+   * Queued or failed while in the outbox; once saved, read beats delivered
+   * beats sent
+   */
+  const getMessageState = useCallback((message: ChatMessage): ChatDeliveryState => {
+    const queued = outbox.find(item => item.clientId === message.id);
+    if (queued) return queued.failed ? 'failed' : 'queued';
+    if (message.readAt || getReadBy(message).length > 0) return 'read';
+    return message.deliveredAt ? 'delivered' : 'sent';
+  }, [outbox, getReadBy]);
+
+  /**
+   * The open conversation's messages followed by any of the user's that are
+   * still waiting to be sent. The first message to someone has no
+   * conversation yet, so direct messages also match on the recipient.
+   */
+  const visibleMessages = useMemo(() => {
+    const openConversation = conversations.find(conv => conv.id === currentConversationId);
+    const openRecipientId = openConversation && !openConversation.isGroup
+      ? openConversation.members.find(member => member.userId !== user?.id)?.userId
+      : undefined;
+
+    const unsent = outbox
+      .filter(item => (item.conversationId
+        ? item.conversationId === currentConversationId
+        : !!openRecipientId && item.recipientId === openRecipientId) &&
+        !messages.some(message => message.clientId === item.clientId))
+      .map((item): ChatMessage => ({
+        id: item.clientId,
+        conversationId: item.conversationId || currentConversationId!,
+        senderId: item.senderId,
+        senderName: item.senderName,
+        recipientId: item.recipientId,
+        clientId: item.clientId,
+        messageText: item.messageText,
+        messageType: item.messageType,
+        createdAt: new Date(item.createdAt),
+        metadata: item.metadata
+      }));
+    return unsent.length > 0 ? [...messages, ...unsent] : messages;
+  }, [messages, outbox, currentConversationId, conversations, user?.id]);
+
   /**
    * Check if a message is from the current user
    */
@@ -318,10 +537,23 @@ export function useChat(): UseChatResult {
    * Update total unread count
    */
   const updateUnreadCount = useCallback((conversationList: ChatConversation[]) => {
-    const total = conversationList.reduce((sum, conv) => sum + (conv.unreadCount || 0), 0);
+    const total = conversationList
+      .filter(conv => !ChatService.isMuted(conv.preferences))
+      .reduce((sum, conv) => sum + (conv.unreadCount || 0), 0);
     setTotalUnreadCount(total);
   }, []);
 
+  /**
+   * Unread messages in the conversation list have reached this device, even
+   * if their conversation hasn't been opened yet
+   */
+  const markConversationsDelivered = useCallback((conversationList: ChatConversation[]) => {
+    if (!user?.id) return;
+    conversationList
+      .filter(conv => (conv.unreadCount || 0) > 0)
+      .forEach(conv => ChatService.markMessagesDelivered(conv.id, user.id));
+  }, [user?.id]);
+
   return {
     // Conversation management
     conversations,
@@ -329,24 +561,36 @@ export function useChat(): UseChatResult {
     refreshConversations,
     
     // Message management
-    messages,
+    messages: visibleMessages,
     messagesLoading,
     currentConversationId,
+    currentMembers,
     
     // Actions
     sendMessage,
+    sendGroupMessage,
+    respondToSessionInvite,
+    retryMessage,
+    discardMessage,
     markAsRead,
     markConversationAsRead,
     loadMessages,
+    updatePreferences,
+    muteConversation,
     
     // Real-time features
     startConversation,
     
     // Statistics
     totalUnreadCount,
+    outbox,
     
     // Utilities
     getOtherUser,
+    getConversationTitle,
+    isMuted: (conversation: ChatConversation) => ChatService.isMuted(conversation.preferences),
+    getReadBy,
+    getMessageState,
     isMessageFromCurrentUser
   };
 }
@@ -1,15 +1,18 @@
 import { useState, useEffect, useCallback } from 'react';
-import { PatternStatus, UserPattern } from '../types';
+import { PatternProficiency, PatternStatus, UserPattern } from '../types';
 import { UserPatternService } from '../services';
 import { useAuth } from './useAuth';
 
 export interface UseUserPatternsReturn {
   userPatterns: Map<string, PatternStatus>;
+  proficiencies: Map<string, PatternProficiency>;
   loading: boolean;
   error: string | null;
   setPatternStatus: (patternId: string, status: PatternStatus) => Promise<void>;
   removePatternStatus: (patternId: string) => Promise<void>;
   getPatternStatus: (patternId: string) => PatternStatus | null;
+  setPatternProficiency: (patternId: string, proficiency: PatternProficiency) => Promise<void>;
+  getPatternProficiency: (patternId: string) => PatternProficiency | null;
   refreshUserPatterns: () => Promise<void>;
   stats: {
     known: number;
@@ -21,6 +24,7 @@ export interface UseUserPatternsReturn {
 export const useUserPatterns = (): UseUserPatternsReturn => {
   const { user, userProfile } = useAuth();
   const [userPatterns, setUserPatterns] = useState<Map<string, PatternStatus>>(new Map());
+  const [proficiencies, setProficiencies] = useState<Map<string, PatternProficiency>>(new Map());
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [stats, setStats] = useState({
@@ -36,14 +40,21 @@ export const useUserPatterns = (): UseUserPatternsReturn => {
     setError(null);
 
     try {
+      // Stored data from before proficiency levels gets its levels written once
+      await UserPatternService.migrateProficiency(user.id);
       const patterns = await UserPatternService.getUserPatterns(user.id);
       const patternMap = new Map<string, PatternStatus>();
+      const proficiencyMap = new Map<string, PatternProficiency>();
       
       patterns.forEach(pattern => {
         patternMap.set(pattern.patternId, pattern.status);
+        if (pattern.proficiency) {
+          proficiencyMap.set(pattern.patternId, pattern.proficiency);
+        }
       });
 
       setUserPatterns(patternMap);
+      setProficiencies(proficiencyMap);
 
       // Calculate stats
       const newStats = {
@@ -91,6 +102,18 @@ export const useUserPatterns = (): UseUserPatternsReturn => {
       
       if (success) {
         // Update local state
+        setProficiencies(prev => {
+          const newMap = new Map(prev);
+          const oldProficiency = newMap.get(patternId);
+          newMap.delete(patternId);
+          if (status === 'known') {
+            newMap.set(patternId, oldProficiency && oldProficiency !== 'learning' ? oldProficiency : 'solid');
+          } else if (status === 'want_to_learn' && oldProficiency === 'learning') {
+            newMap.set(patternId, oldProficiency);
+          }
+          return newMap;
+        });
+
         setUserPatterns(prev => {
           const newMap = new Map(prev);
           const oldStatus = newMap.get(patternId);
@@ -155,6 +178,12 @@ export const useUserPatterns = (): UseUserPatternsReturn => {
       
       if (success) {
         // Update local state
+        setProficiencies(prev => {
+          const newMap = new Map(prev);
+          newMap.delete(patternId);
+          return newMap;
+        });
+
         setUserPatterns(prev => {
           const newMap = new Map(prev);
           const oldStatus = newMap.get(patternId);
@@ -196,6 +225,36 @@ export const useUserPatterns = (): UseUserPatternsReturn => {
     return userPatterns.get(patternId) || null;
   }, [userPatterns]);
 
+  const setPatternProficiency = useCallback(async (patternId: string, proficiency: PatternProficiency) => {
+    if (!user?.id) {
+      setError('User not authenticated');
+      return;
+    }
+
+    try {
+      const success = await UserPatternService.setPatternProficiency(
+        user.id,
+        patternId,
+        proficiency,
+        userProfile?.name || 'Anonymous User'
+      );
+
+      if (success) {
+        // Proficiency can move a pattern between known and want-to-learn, so reload stats too
+        await loadUserPatterns();
+      } else {
+        setError('Failed to update pattern proficiency');
+      }
+    } catch (err) {
+      setError('Failed to update pattern proficiency');
+      console.error('Error setting pattern proficiency:', err);
+    }
+  }, [user?.id, loadUserPatterns]);
+
+  const getPatternProficiency = useCallback((patternId: string): PatternProficiency | null => {
+    return proficiencies.get(patternId) || null;
+  }, [proficiencies]);
+
   const refreshUserPatterns = useCallback(async () => {
     await loadUserPatterns();
   }, [loadUserPatterns]);
@@ -206,17 +265,21 @@ export const useUserPatterns = (): UseUserPatternsReturn => {
       loadUserPatterns();
     } else {
       setUserPatterns(new Map());
+      setProficiencies(new Map());
       setStats({ known: 0, wantToLearn: 0, wantToAvoid: 0 });
     }
   }, [user?.id, loadUserPatterns]);
 
   return {
     userPatterns,
+    proficiencies,
     loading,
     error,
     setPatternStatus,
     removePatternStatus,
     getPatternStatus,
+    setPatternProficiency,
+    getPatternProficiency,
     refreshUserPatterns,
     stats
   };
@@ -1,9 +1,10 @@
 import React, { useState } from 'react';
 import { View, Text, ActivityIndicator, StyleSheet, TouchableOpacity } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, LinkingOptions, NavigatorScreenParams } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
+import * as Linking from 'expo-linking';
 
 import { useAuth } from '../hooks/useAuth';
 import { useChat } from '../hooks/useChat';
@@ -22,15 +23,19 @@ import SettingsScreen from '../screens/SettingsScreen';
 import HelpSupportScreen from '../screens/HelpSupportScreen';
 import SupportChatScreen from '../screens/SupportChatScreen';
 import PatternContributionScreen from '../screens/PatternContributionScreen';
+import PatternDetailScreen from '../screens/PatternDetailScreen';
+import PatternReviewQueueScreen from '../screens/PatternReviewQueueScreen';
+import PatternHistoryScreen from '../screens/PatternHistoryScreen';
 import UserProfileViewScreen from '../screens/UserProfileViewScreen';
 import ScheduleScreen from '../screens/ScheduleScreen';
 import DebugScreen from '../screens/DebugScreen';
 import ChatScreen from '../screens/ChatScreen';
 import ChatDetailScreen from '../screens/ChatDetailScreen';
+import ChatSearchScreen from '../screens/ChatSearchScreen';
 
 export type RootStackParamList = {
   Welcome: undefined;
-  MainTabs: undefined;
+  MainTabs: NavigatorScreenParams<MainTabParamList> | undefined;
   ProfileEdit: undefined;
   AvailabilityManagement: undefined;
   SessionScheduling: {
@@ -42,13 +47,25 @@ export type RootStackParamList = {
   HelpSupport: undefined;
   SupportChat: undefined;
   PatternContribution: undefined;
+  PatternDetail: {
+    patternId: string;
+  };
+  PatternReviewQueue: undefined;
+  PatternHistory: {
+    patternId: string;
+  };
   Schedule: undefined;
   Chat: undefined;
   ChatDetail: {
     conversationId: string;
-    recipientId: string;
-    recipientName: string;
+    recipientId?: string; // Unset for group conversations
+    recipientName: string; // The group's name for group conversations
+    messageId?: string; // Open at this message, e.g. from a search result
   };
+  ChatSearch: {
+    conversationId?: string; // Search every conversation without one
+    title?: string;
+  } | undefined;
   UserProfileView: {
     userId: string;
     name: string;
@@ -65,11 +82,28 @@ export type RootStackParamList = {
 export type MainTabParamList = {
   Home: undefined;
   Matches: undefined;
-  Patterns: undefined;
+  Patterns: {
+    patternId?: string; // From a patternpals://pattern/... link
+    data?: string; // Shared pattern document carried by the link
+  } | undefined;
   Chat: undefined;
   Profile: undefined;
 };
 
+// patternpals://pattern/<id> and patternpals://pattern/shared?data=... open on the Patterns tab
+const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [Linking.createURL('/'), 'patternpals://'],
+  config: {
+    screens: {
+      MainTabs: {
+        screens: {
+          Patterns: 'pattern/:patternId',
+        },
+      },
+    },
+  },
+};
+
 const RootStack = createNativeStackNavigator<RootStackParamList>();
 const MainTab = createBottomTabNavigator<MainTabParamList>();
 
@@ -231,7 +265,7 @@ export default function AppNavigator() {
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer linking={linking}>
       <RootStack.Navigator
         screenOptions={{
           headerShown: false,
@@ -351,6 +385,51 @@ export default function AppNavigator() {
                 },
               }}
             />
+            <RootStack.Screen
+              name="PatternDetail"
+              component={PatternDetailScreen}
+              options={{
+                headerShown: true,
+                title: 'Pattern',
+                headerStyle: {
+                  backgroundColor: '#6366f1',
+                },
+                headerTintColor: '#fff',
+                headerTitleStyle: {
+                  fontWeight: 'bold',
+                },
+              }}
+            />
+            <RootStack.Screen
+              name="PatternReviewQueue"
+              component={PatternReviewQueueScreen}
+              options={{
+                headerShown: true,
+                title: 'Review Queue',
+                headerStyle: {
+                  backgroundColor: '#6366f1',
+                },
+                headerTintColor: '#fff',
+                headerTitleStyle: {
+                  fontWeight: 'bold',
+                },
+              }}
+            />
+            <RootStack.Screen
+              name="PatternHistory"
+              component={PatternHistoryScreen}
+              options={{
+                headerShown: true,
+                title: 'Revision History',
+                headerStyle: {
+                  backgroundColor: '#6366f1',
+                },
+                headerTintColor: '#fff',
+                headerTitleStyle: {
+                  fontWeight: 'bold',
+                },
+              }}
+            />
             <RootStack.Screen 
               name="UserProfileView" 
               component={UserProfileViewScreen}
@@ -396,6 +475,21 @@ export default function AppNavigator() {
                 },
               }}
             />
+            <RootStack.Screen 
+              name="ChatSearch" 
+              component={ChatSearchScreen}
+              options={{
+                headerShown: true,
+                title: 'Search Messages',
+                headerStyle: {
+                  backgroundColor: '#6366f1',
+                },
+                headerTintColor: '#fff',
+                headerTitleStyle: {
+                  fontWeight: 'bold',
+                },
+              }}
+            />
           </>
         )}
       </RootStack.Navigator>
@@ -13,6 +13,7 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { useAuth } from '../hooks/useAuth';
 import { TimeBlock, WeekDay } from '../types';
+import { AvailabilityService } from '../services';
 import DateTimePicker from '@react-native-community/datetimepicker';
 
 type AvailabilityScreenNavigationProp = NativeStackNavigationProp<
@@ -111,7 +112,7 @@ export default function AvailabilityManagementScreen({ navigation }: Props) {
   const handleSave = async () => {
     setLoading(true);
     try {
-      await updateProfile({ availability });
+      await updateProfile({ availability, timezone: AvailabilityService.getDeviceTimezone() });
       Alert.alert('Success', 'Availability updated successfully!', [
         { text: 'OK', onPress: () => navigation.goBack() }
       ]);
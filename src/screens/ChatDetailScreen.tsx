@@ -9,14 +9,29 @@ import {
   SafeAreaView,
   KeyboardAvoidingView,
   Platform,
-  Alert
+  Alert,
+  Linking,
+  Modal,
+  ScrollView
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RouteProp } from '@react-navigation/native';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { useChat } from '../hooks/useChat';
 import { useAuth } from '../hooks/useAuth';
-import { ChatMessage } from '../services/chatService';
+import {
+  ChatMember,
+  ChatMessage,
+  ChatService,
+  PatternShareMetadata,
+  SessionInviteMetadata,
+  SessionInviteResponse
+} from '../services/chatService';
+import { ConnectionService } from '../services/connections';
+import { PatternLibraryService } from '../services/patternLibrary';
+import { UserPatternService } from '../services/userPatterns';
+import { patterns as curriculumPatterns } from '../data/patterns';
+import { Pattern, PatternStatus } from '../types';
 import { Ionicons } from '@expo/vector-icons';
 
 type ChatDetailScreenProps = {
@@ -25,53 +40,122 @@ type ChatDetailScreenProps = {
 };
 
 /**
- * Chat detail screen for individual conversations
- * Shows messages and allows sending new messages
+ * Chat detail screen for direct and group conversations
+ * Shows messages and allows sending new messages; group members can see who
+ * has read what and manage the member list. Shared patterns and session
+ * invites show as cards.
  */
 export default function ChatDetailScreen({ navigation, route }: ChatDetailScreenProps) {
-  const { conversationId, recipientId, recipientName } = route.params;
+  const { conversationId, recipientId, recipientName, messageId } = route.params;
   const { user } = useAuth();
   const {
     messages,
     messagesLoading,
+    currentMembers,
     sendMessage,
+    sendGroupMessage,
+    respondToSessionInvite,
     loadMessages,
     markConversationAsRead,
+    getReadBy,
+    getMessageState,
+    retryMessage,
+    discardMessage,
     isMessageFromCurrentUser
   } = useChat();
 
   const [inputText, setInputText] = useState('');
   const [sending, setSending] = useState(false);
+  const [showMembers, setShowMembers] = useState(false);
+  const [partners, setPartners] = useState<{ id: string; name: string }[]>([]);
+  const [showPatternPicker, setShowPatternPicker] = useState(false);
+  const [patternQuery, setPatternQuery] = useState('');
+  const [libraryPatterns, setLibraryPatterns] = useState<Pattern[]>(curriculumPatterns);
+  const [patternStatuses, setPatternStatuses] = useState<{ [patternId: string]: PatternStatus }>({});
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
   const flatListRef = useRef<FlatList>(null);
+  // Opened at a search result: scroll there once it's loaded, and stay put
+  // instead of following new messages until the user sends one
+  const jumpTarget = useRef<string | undefined>(messageId);
+  const followLatest = useRef(!messageId);
+
+  // Direct conversations are opened with the other person's ID
+  const isGroup = !recipientId;
+  const isOwner = currentMembers.some(member => member.userId === user?.id && member.role === 'owner');
+  const lastOwnMessage = [...messages].reverse().find(message => isMessageFromCurrentUser(message));
 
   // Load messages when screen mounts
   useEffect(() => {
     if (conversationId) {
-      loadMessages(conversationId);
+      jumpTarget.current = messageId;
+      followLatest.current = !messageId;
+      loadMessages(conversationId, messageId);
       
       // Mark conversation as read when opened
       if (user?.id) {
         markConversationAsRead(conversationId);
       }
     }
-  }, [conversationId, user?.id]);
+  }, [conversationId, messageId, user?.id]);
+
+  // Shared pattern cards show whether the pattern is already on the user's lists
+  useEffect(() => {
+    if (!user?.id) return;
+    UserPatternService.getUserPatterns(user.id).then(userPatterns => {
+      setPatternStatuses(userPatterns.reduce((statuses, userPattern) =>
+        ({ ...statuses, [userPattern.patternId]: userPattern.status }), {}));
+    });
+  }, [user?.id]);
 
   // Set navigation title
   useEffect(() => {
     navigation.setOptions({
       title: recipientName,
-      headerBackTitle: 'Messages'
+      headerBackTitle: 'Messages',
+      headerRight: () => (
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('ChatSearch', { conversationId, title: recipientName })}
+            style={styles.headerButton}
+          >
+            <Ionicons name="search" size={22} color="#fff" />
+          </TouchableOpacity>
+          {isGroup && (
+            <TouchableOpacity onPress={openMembers} style={styles.headerButton}>
+              <Ionicons name="people" size={22} color="#fff" />
+            </TouchableOpacity>
+          )}
+        </View>
+      )
     });
-  }, [navigation, recipientName]);
+  }, [navigation, conversationId, recipientName, isGroup]);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Auto-scroll to bottom when new messages arrive, or to the message the screen was opened at
   useEffect(() => {
-    if (messages.length > 0) {
+    if (messages.length === 0 || messagesLoading) return;
+
+    const targetIndex = jumpTarget.current
+      ? messages.findIndex(message => message.id === jumpTarget.current)
+      : -1;
+    if (targetIndex >= 0) {
+      const target = messages[targetIndex].id;
+      jumpTarget.current = undefined;
+      setHighlightedId(target);
+      setTimeout(() => {
+        flatListRef.current?.scrollToIndex({ index: targetIndex, animated: true, viewPosition: 0.5 });
+      }, 100);
+      setTimeout(() => setHighlightedId(current => (current === target ? null : current)), 3000);
+      return;
+    }
+
+    if (isMessageFromCurrentUser(messages[messages.length - 1])) followLatest.current = true;
+    if (followLatest.current) {
       setTimeout(() => {
         flatListRef.current?.scrollToEnd({ animated: true });
       }, 100);
     }
-  }, [messages.length]);
+  }, [messages.length, messagesLoading]);
 
   /**
    * Send a new message
@@ -84,7 +168,9 @@ export default function ChatDetailScreen({ navigation, route }: ChatDetailScreen
     setSending(true);
 
     try {
-      const success = await sendMessage(recipientId, recipientName, messageToSend);
+      const success = isGroup
+        ? await sendGroupMessage(conversationId, messageToSend)
+        : await sendMessage(recipientId, recipientName, messageToSend);
       
       if (!success) {
         // Restore input text if sending failed
@@ -100,6 +186,141 @@ export default function ChatDetailScreen({ navigation, route }: ChatDetailScreen
     }
   };
 
+  /**
+   * Share a pattern, or (in direct conversations) invite to a session
+   */
+  const handleAttach = () => {
+    Alert.alert('Share', undefined, [
+      { text: 'Share a Pattern', onPress: openPatternPicker },
+      ...(!isGroup ? [{
+        text: 'Invite to Session',
+        onPress: () => navigation.navigate('SessionScheduling', { partnerId: recipientId, partnerName: recipientName })
+      }] : []),
+      { text: 'Cancel', style: 'cancel' as const }
+    ]);
+  };
+
+  const openPatternPicker = async () => {
+    setPatternQuery('');
+    setShowPatternPicker(true);
+    const contributed = await PatternLibraryService.getUserContributedPatterns();
+    setLibraryPatterns([...curriculumPatterns, ...contributed]);
+  };
+
+  const handleSharePattern = async (pattern: Pattern) => {
+    setShowPatternPicker(false);
+    const { messageText, metadata } = ChatService.createPatternShare(pattern);
+    const success = isGroup
+      ? await sendGroupMessage(conversationId, messageText, 'pattern_share', metadata)
+      : await sendMessage(recipientId, recipientName, messageText, 'pattern_share', metadata);
+    if (!success) {
+      Alert.alert('Error', 'Failed to share the pattern. Please try again.');
+    }
+  };
+
+  const handleWantToLearn = async (share: PatternShareMetadata) => {
+    if (!user) return;
+    const added = await ChatService.addSharedPatternToWantToLearn(user.id, share);
+    if (added) {
+      setPatternStatuses(prev => ({ ...prev, [share.patternId]: 'want_to_learn' }));
+    } else {
+      Alert.alert('Error', 'Could not add this pattern to your list. Please try again.');
+    }
+  };
+
+  const handleInviteResponse = async (message: ChatMessage, response: SessionInviteResponse) => {
+    setRespondingId(message.id);
+    try {
+      await respondToSessionInvite(message, response);
+    } catch (error) {
+      Alert.alert('Invite Not Answered', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  /**
+   * Open the member list, with the connections who could be added
+   */
+  const openMembers = async () => {
+    setShowMembers(true);
+    if (!user) return;
+    const connections = await ConnectionService.getConnectionsForUser(user.id);
+    setPartners(connections.map(connection => connection.userId1 === user.id
+      ? { id: connection.userId2, name: connection.userName2 }
+      : { id: connection.userId1, name: connection.userName1 }));
+  };
+
+  // Group changes report problems (not an owner, not connected) as errors
+  const runGroupAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      Alert.alert('Group Not Updated', error instanceof Error ? error.message : 'Please try again.');
+    }
+  };
+
+  const handleAddMember = (partnerId: string) => {
+    if (!user) return;
+    runGroupAction(() => ChatService.addMembers(conversationId, user.id, [partnerId]));
+  };
+
+  const handleRemoveMember = (member: ChatMember) => {
+    if (!user) return;
+    Alert.alert('Remove Member', `Remove ${member.name} from ${recipientName}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => runGroupAction(() => ChatService.removeMember(conversationId, user.id, member.userId))
+      }
+    ]);
+  };
+
+  const handleToggleOwner = (member: ChatMember) => {
+    if (!user) return;
+    const role = member.role === 'owner' ? 'member' : 'owner';
+    runGroupAction(() => ChatService.setMemberRole(conversationId, user.id, member.userId, role));
+  };
+
+  const handleLeaveGroup = () => {
+    if (!user) return;
+    Alert.alert('Leave Group', `You'll stop getting messages from ${recipientName}.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: () => runGroupAction(async () => {
+          await ChatService.leaveGroup(conversationId, user.id);
+          setShowMembers(false);
+          navigation.goBack();
+        })
+      }
+    ]);
+  };
+
+  /**
+   * "Read by Alex and Sam", or "Read by everyone" once every other member has
+   */
+  const formatReadBy = (message: ChatMessage): string | null => {
+    const readBy = getReadBy(message);
+    if (readBy.length === 0) return null;
+    if (readBy.length === currentMembers.length - 1) return 'Read by everyone';
+    const names = readBy.map(member => member.name.split(' ')[0]);
+    return `Read by ${names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0]}`;
+  };
+
+  /**
+   * "Sam accepted, Alex declined" for the person who sent an invite
+   */
+  const formatInviteResponses = (invite: SessionInviteMetadata): string => {
+    const answers = Object.entries(invite.responses).map(([userId, response]) => {
+      const name = currentMembers.find(member => member.userId === userId)?.name || recipientName;
+      return `${name.split(' ')[0]} ${response}`;
+    });
+    return answers.length > 0 ? answers.join(', ') : 'Waiting for an answer';
+  };
+
   /**
    * Format timestamp for message display
    */
@@ -118,9 +339,11 @@ export default function ChatDetailScreen({ navigation, route }: ChatDetailScreen
     const isCurrentUser = isMessageFromCurrentUser(item);
     const showTimestamp = index === 0 || 
       Math.abs(item.createdAt.getTime() - messages[index - 1].createdAt.getTime()) > 5 * 60 * 1000; // 5 minutes
+    // In groups, name the sender at the start of each run of their messages
+    const showSender = isGroup && !isCurrentUser && (index === 0 || messages[index - 1].senderId !== item.senderId);
 
     return (
-      <View style={styles.messageContainer}>
+      <View style={[styles.messageContainer, item.id === highlightedId && styles.highlightedMessage]}>
         {showTimestamp && (
           <View style={styles.timestampContainer}>
             <Text style={styles.timestampText}>
@@ -128,38 +351,157 @@ export default function ChatDetailScreen({ navigation, route }: ChatDetailScreen
             </Text>
           </View>
         )}
+
+        {showSender && <Text style={styles.senderName}>{item.senderName}</Text>}
         
-        <View style={[
-          styles.messageBubble,
-          isCurrentUser ? styles.currentUserBubble : styles.otherUserBubble
-        ]}>
-          <Text style={[
-            styles.messageText,
-            isCurrentUser ? styles.currentUserText : styles.otherUserText
-          ]}>
-            {item.messageText}
+        {renderContent(item, isCurrentUser)}
+
+        {isCurrentUser && getMessageState(item) === 'failed' && (
+          <TouchableOpacity onPress={() => handleFailedMessage(item)}>
+            <Text style={styles.failedText}>Not sent. Tap to try again.</Text>
+          </TouchableOpacity>
+        )}
+
+        {isGroup && item.id === lastOwnMessage?.id && formatReadBy(item) && (
+          <Text style={styles.readReceipt}>{formatReadBy(item)}</Text>
+        )}
+      </View>
+    );
+  };
+
+  /**
+   * Delivery state of the current user's messages: a clock while queued, one
+   * tick once sent, two once delivered, turning purple when read
+   */
+  const renderStatus = (item: ChatMessage) => {
+    const state = getMessageState(item);
+    if (state === 'queued' || state === 'failed') {
+      return (
+        <View style={styles.messageStatus}>
+          <Ionicons
+            name={state === 'queued' ? 'time-outline' : 'alert-circle'}
+            size={12}
+            color={state === 'queued' ? '#9ca3af' : '#dc2626'}
+          />
+        </View>
+      );
+    }
+
+    const color = state === 'read' ? '#6366f1' : '#9ca3af';
+    return (
+      <View style={styles.messageStatus}>
+        <Ionicons name="checkmark" size={12} color={color} />
+        {state !== 'sent' && (
+          <Ionicons name="checkmark" size={12} color={color} style={{ marginLeft: -4 }} />
+        )}
+      </View>
+    );
+  };
+
+  const handleFailedMessage = (message: ChatMessage) => {
+    Alert.alert('Message Not Sent', undefined, [
+      { text: 'Try Again', onPress: () => retryMessage(message.id) },
+      { text: 'Delete', style: 'destructive', onPress: () => discardMessage(message.id) },
+      { text: 'Cancel', style: 'cancel' }
+    ]);
+  };
+
+  /**
+   * A card for shared patterns and session invites, otherwise a text bubble.
+   * Messages whose metadata doesn't check out fall back to their text.
+   */
+  const renderContent = (item: ChatMessage, isCurrentUser: boolean) => {
+    const share = ChatService.getPatternShare(item);
+    if (share) {
+      const status = patternStatuses[share.patternId];
+      return (
+        <View style={[styles.card, isCurrentUser ? styles.currentUserCard : styles.otherUserCard]}>
+          <Text style={styles.cardLabel}>🤹 Shared pattern</Text>
+          <Text style={styles.cardTitle}>{share.patternName}</Text>
+          {share.siteswap && <Text style={styles.cardSiteswap}>{share.siteswap}</Text>}
+          <Text style={styles.cardDetail}>
+            {share.difficulty} • {share.requiredJugglers} juggler{share.requiredJugglers === 1 ? '' : 's'}
           </Text>
-          
-          {isCurrentUser && (
-            <View style={styles.messageStatus}>
-              {item.deliveredAt && (
-                <Ionicons 
-                  name="checkmark" 
-                  size={12} 
-                  color={item.readAt ? "#6366f1" : "#9ca3af"} 
-                />
-              )}
-              {item.readAt && (
-                <Ionicons 
-                  name="checkmark" 
-                  size={12} 
-                  color="#6366f1" 
-                  style={{ marginLeft: -4 }}
-                />
-              )}
+          <View style={styles.cardActions}>
+            <TouchableOpacity style={styles.cardButton} onPress={() => Linking.openURL(share.link)}>
+              <Text style={styles.cardButtonText}>Open</Text>
+            </TouchableOpacity>
+            {!isCurrentUser && (status ? (
+              <Text style={styles.cardNote}>{status === 'known' ? 'You know this' : status === 'want_to_learn' ? '✓ On your list' : 'Avoiding'}</Text>
+            ) : (
+              <TouchableOpacity style={[styles.cardButton, styles.cardPrimaryButton]} onPress={() => handleWantToLearn(share)}>
+                <Text style={[styles.cardButtonText, styles.cardPrimaryButtonText]}>Want to learn</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {isCurrentUser && <View style={styles.cardStatus}>{renderStatus(item)}</View>}
+        </View>
+      );
+    }
+
+    const invite = ChatService.getSessionInvite(item);
+    if (invite) {
+      const time = new Date(invite.scheduledTime);
+      const isPast = time <= new Date();
+      const myResponse = user ? invite.responses[user.id] : undefined;
+      const responding = respondingId === item.id;
+      return (
+        <View style={[styles.card, isCurrentUser ? styles.currentUserCard : styles.otherUserCard]}>
+          <Text style={styles.cardLabel}>📅 Session invite</Text>
+          <Text style={styles.cardTitle}>
+            {time.toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric' })}
+          </Text>
+          <Text style={styles.cardDetail}>
+            {time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} ({invite.duration} min)
+          </Text>
+          <Text style={styles.cardDetail}>📍 {invite.location}</Text>
+          {invite.plannedPatterns.length > 0 && (
+            <Text style={styles.cardDetail}>Patterns: {invite.plannedPatterns.join(', ')}</Text>
+          )}
+          {invite.notes && <Text style={styles.cardNotes}>{invite.notes}</Text>}
+
+          {isCurrentUser ? (
+            <Text style={styles.cardNote}>{formatInviteResponses(invite)}</Text>
+          ) : isPast ? (
+            <Text style={styles.cardNote}>{myResponse === 'accepted' ? 'You went to this session' : 'This session has passed'}</Text>
+          ) : (
+            <View style={styles.cardActions}>
+              {(['accepted', 'declined'] as SessionInviteResponse[]).map(response => (
+                <TouchableOpacity
+                  key={response}
+                  style={[styles.cardButton, myResponse === response && styles.cardPrimaryButton]}
+                  onPress={() => handleInviteResponse(item, response)}
+                  disabled={responding || myResponse === response}
+                >
+                  <Text style={[styles.cardButtonText, myResponse === response && styles.cardPrimaryButtonText]}>
+                    {response === 'accepted'
+                      ? (myResponse === response ? '✓ Accepted' : 'Accept')
+                      : (myResponse === response ? 'Declined' : 'Decline')}
+                  </Text>
+                </TouchableOpacity>
+              ))}
             </View>
           )}
+          {isCurrentUser && <View style={styles.cardStatus}>{renderStatus(item)}</View>}
         </View>
+      );
+    }
+
+    return (
+      <View
+        style={[
+          styles.messageBubble,
+          isCurrentUser ? styles.currentUserBubble : styles.otherUserBubble
+        ]}
+      >
+        <Text style={[
+          styles.messageText,
+          isCurrentUser ? styles.currentUserText : styles.otherUserText
+        ]}>
+          {item.messageText}
+        </Text>
+        
+        {isCurrentUser && renderStatus(item)}
       </View>
     );
   };
@@ -205,12 +547,23 @@ export default function ChatDetailScreen({ navigation, route }: ChatDetailScreen
           ListEmptyComponent={renderEmptyState}
           contentContainerStyle={messages.length === 0 ? styles.emptyContainer : styles.messagesList}
           showsVerticalScrollIndicator={false}
-          onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: false })}
+          onContentSizeChange={() => followLatest.current && flatListRef.current?.scrollToEnd({ animated: false })}
+          onScrollToIndexFailed={({ index, averageItemLength }) => {
+            // The row isn't laid out yet; get close, then try again
+            flatListRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+            setTimeout(() => {
+              flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+            }, 100);
+          }}
         />
 
         {/* Message Input */}
         <View style={styles.inputContainer}>
           <View style={styles.inputWrapper}>
+            <TouchableOpacity style={styles.attachButton} onPress={handleAttach} disabled={sending}>
+              <Ionicons name="add-circle-outline" size={24} color="#6366f1" />
+            </TouchableOpacity>
+
             <TextInput
               style={styles.textInput}
               value={inputText}
@@ -239,6 +592,103 @@ export default function ChatDetailScreen({ navigation, route }: ChatDetailScreen
           </View>
         </View>
       </KeyboardAvoidingView>
+
+      <Modal
+        visible={showPatternPicker}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowPatternPicker(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Share a Pattern</Text>
+            <TextInput
+              style={styles.searchInput}
+              value={patternQuery}
+              onChangeText={setPatternQuery}
+              placeholder="Search by name or siteswap"
+              placeholderTextColor="#9ca3af"
+              autoCorrect={false}
+            />
+            <ScrollView style={styles.memberList}>
+              {libraryPatterns
+                .filter(pattern => {
+                  const query = patternQuery.trim().toLowerCase();
+                  return !query ||
+                    pattern.name.toLowerCase().includes(query) ||
+                    (pattern.siteswap.global || '').toLowerCase().includes(query);
+                })
+                .slice(0, 30)
+                .map(pattern => (
+                  <TouchableOpacity key={pattern.id} style={styles.memberRow} onPress={() => handleSharePattern(pattern)}>
+                    <Text style={styles.memberName}>{pattern.name}</Text>
+                    <Text style={styles.patternDifficulty}>{pattern.difficulty}</Text>
+                  </TouchableOpacity>
+                ))}
+            </ScrollView>
+            <TouchableOpacity style={styles.closeButton} onPress={() => setShowPatternPicker(false)}>
+              <Text style={styles.closeButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={showMembers}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowMembers(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{recipientName}</Text>
+            <ScrollView style={styles.memberList}>
+              <Text style={styles.modalLabel}>{currentMembers.length} members</Text>
+              {currentMembers.map(member => (
+                <View key={member.userId} style={styles.memberRow}>
+                  <View style={styles.memberInfo}>
+                    <Text style={styles.memberName}>{member.userId === user.id ? 'You' : member.name}</Text>
+                    {member.role === 'owner' && <Text style={styles.ownerBadge}>Owner</Text>}
+                  </View>
+                  {isOwner && member.userId !== user.id && (
+                    <View style={styles.memberActions}>
+                      <TouchableOpacity onPress={() => handleToggleOwner(member)}>
+                        <Text style={styles.memberActionText}>{member.role === 'owner' ? 'Make member' : 'Make owner'}</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity onPress={() => handleRemoveMember(member)}>
+                        <Text style={[styles.memberActionText, styles.removeText]}>Remove</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              ))}
+
+              {isOwner && partners.some(partner => !currentMembers.some(member => member.userId === partner.id)) && (
+                <>
+                  <Text style={[styles.modalLabel, styles.addLabel]}>Add people</Text>
+                  {partners
+                    .filter(partner => !currentMembers.some(member => member.userId === partner.id))
+                    .map(partner => (
+                      <View key={partner.id} style={styles.memberRow}>
+                        <Text style={styles.memberName}>{partner.name}</Text>
+                        <TouchableOpacity onPress={() => handleAddMember(partner.id)}>
+                          <Text style={styles.memberActionText}>Add</Text>
+                        </TouchableOpacity>
+                      </View>
+                    ))}
+                </>
+              )}
+            </ScrollView>
+
+            <TouchableOpacity style={styles.leaveButton} onPress={handleLeaveGroup}>
+              <Text style={styles.leaveButtonText}>Leave Group</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.closeButton} onPress={() => setShowMembers(false)}>
+              <Text style={styles.closeButtonText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -258,6 +708,10 @@ const styles = StyleSheet.create({
   messageContainer: {
     marginBottom: 8,
   },
+  highlightedMessage: {
+    backgroundColor: '#fef3c7',
+    borderRadius: 12,
+  },
   timestampContainer: {
     alignItems: 'center',
     marginVertical: 8,
@@ -363,4 +817,225 @@ const styles = StyleSheet.create({
   sendButtonDisabled: {
     backgroundColor: '#f3f4f6',
   },
+  attachButton: {
+    marginRight: 8,
+    paddingBottom: 2,
+  },
+  card: {
+    width: '80%',
+    backgroundColor: 'white',
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 14,
+  },
+  currentUserCard: {
+    alignSelf: 'flex-end',
+    borderColor: '#c7d2fe',
+    borderBottomRightRadius: 6,
+  },
+  otherUserCard: {
+    alignSelf: 'flex-start',
+    borderColor: '#e5e7eb',
+    borderBottomLeftRadius: 6,
+  },
+  cardLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6366f1',
+    marginBottom: 4,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  cardSiteswap: {
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: '#374151',
+    marginBottom: 4,
+  },
+  cardDetail: {
+    fontSize: 14,
+    color: '#4b5563',
+    marginBottom: 2,
+  },
+  cardNotes: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  cardNote: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 10,
+    alignSelf: 'center',
+  },
+  cardStatus: {
+    alignSelf: 'flex-end',
+    marginTop: 6,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  cardButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#6366f1',
+  },
+  cardPrimaryButton: {
+    backgroundColor: '#6366f1',
+  },
+  cardButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  cardPrimaryButtonText: {
+    color: '#ffffff',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerButton: {
+    paddingHorizontal: 8,
+  },
+  senderName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginLeft: 12,
+    marginBottom: 2,
+  },
+  failedText: {
+    fontSize: 12,
+    color: '#dc2626',
+    alignSelf: 'flex-end',
+    marginTop: 2,
+    marginRight: 4,
+  },
+  readReceipt: {
+    fontSize: 11,
+    color: '#9ca3af',
+    alignSelf: 'flex-end',
+    marginTop: 2,
+    marginRight: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  modalLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  addLabel: {
+    marginTop: 16,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  patternDifficulty: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  memberList: {
+    maxHeight: 360,
+    marginBottom: 16,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  memberInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  memberName: {
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  ownerBadge: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#6366f1',
+    backgroundColor: '#eef2ff',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    marginLeft: 8,
+    overflow: 'hidden',
+  },
+  memberActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  memberActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  removeText: {
+    color: '#dc2626',
+  },
+  leaveButton: {
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#dc2626',
+    marginBottom: 8,
+  },
+  leaveButtonText: {
+    color: '#dc2626',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  closeButton: {
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: '#6366f1',
+  },
+  closeButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
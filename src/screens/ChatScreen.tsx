@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -7,18 +7,31 @@ import {
   TouchableOpacity,
   SafeAreaView,
   RefreshControl,
-  Alert
+  Alert,
+  Modal,
+  TextInput,
+  ScrollView
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { useChat } from '../hooks/useChat';
 import { useAuth } from '../hooks/useAuth';
-import { ChatConversation } from '../services/chatService';
+import { ChatConversation, ChatService } from '../services/chatService';
+import { ConnectionService } from '../services/connections';
 
 type ChatScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'Chat'>;
 };
 
+const HOUR = 60 * 60 * 1000;
+const MUTE_OPTIONS: { label: string; durationMs?: number }[] = [
+  { label: '1 hour', durationMs: HOUR },
+  { label: '8 hours', durationMs: 8 * HOUR },
+  { label: '1 week', durationMs: 7 * 24 * HOUR },
+  { label: 'Until I turn it back on' },
+];
+
 /**
  * Main chat screen showing list of conversations
  * Users can see all their chat conversations and start new ones
@@ -30,16 +43,40 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
     conversationsLoading,
     refreshConversations,
     totalUnreadCount,
-    getOtherUser
+    getOtherUser,
+    getConversationTitle,
+    isMuted,
+    updatePreferences,
+    muteConversation
   } = useChat();
 
+  const [showNewGroup, setShowNewGroup] = useState(false);
+  const [groupTitle, setGroupTitle] = useState('');
+  const [partners, setPartners] = useState<{ id: string; name: string }[]>([]);
+  const [selectedMemberIds, setSelectedMemberIds] = useState<string[]>([]);
+  const [creatingGroup, setCreatingGroup] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+
+  // Archived conversations come last in the list and stay hidden until asked for
+  const archivedCount = conversations.filter(conversation => conversation.preferences?.isArchived).length;
+  const visibleConversations = showArchived
+    ? conversations
+    : conversations.filter(conversation => !conversation.preferences?.isArchived);
+
   // Set up navigation options
   useEffect(() => {
     navigation.setOptions({
       title: 'Messages',
-      headerRight: () => totalUnreadCount > 0 && (
-        <View style={styles.headerBadge}>
-          <Text style={styles.headerBadgeText}>{totalUnreadCount}</Text>
+      headerRight: () => (
+        <View style={styles.headerActions}>
+          {totalUnreadCount > 0 && (
+            <View style={styles.headerBadge}>
+              <Text style={styles.headerBadgeText}>{totalUnreadCount}</Text>
+            </View>
+          )}
+          <TouchableOpacity onPress={() => navigation.navigate('ChatSearch')} style={styles.headerButton}>
+            <Ionicons name="search" size={22} color="#fff" />
+          </TouchableOpacity>
         </View>
       ),
     });
@@ -49,6 +86,14 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
    * Handle conversation tap - navigate to chat detail screen
    */
   const handleConversationPress = (conversation: ChatConversation) => {
+    if (conversation.isGroup) {
+      navigation.navigate('ChatDetail', {
+        conversationId: conversation.id,
+        recipientName: getConversationTitle(conversation)
+      });
+      return;
+    }
+
     const otherUser = getOtherUser(conversation);
     
     navigation.navigate('ChatDetail', {
@@ -58,6 +103,41 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
     });
   };
 
+  /**
+   * Long-press options: pin, mute and archive
+   */
+  const handleConversationOptions = (conversation: ChatConversation) => {
+    const { isPinned = false, isArchived = false } = conversation.preferences || {};
+    const muted = isMuted(conversation);
+    const run = (change: Promise<void>) => change.catch(error => {
+      Alert.alert('Could Not Update Chat', error instanceof Error ? error.message : 'Please try again.');
+    });
+
+    Alert.alert(getConversationTitle(conversation), undefined, [
+      {
+        text: isPinned ? 'Unpin' : 'Pin',
+        onPress: () => run(updatePreferences(conversation.id, { isPinned: !isPinned }))
+      },
+      {
+        text: muted ? 'Unmute' : 'Mute',
+        onPress: () => muted
+          ? run(updatePreferences(conversation.id, { isMuted: false, mutedUntil: undefined }))
+          : Alert.alert('Mute Notifications', 'For how long?', [
+            ...MUTE_OPTIONS.map(option => ({
+              text: option.label,
+              onPress: () => run(muteConversation(conversation.id, option.durationMs))
+            })),
+            { text: 'Cancel', style: 'cancel' as const }
+          ])
+      },
+      {
+        text: isArchived ? 'Unarchive' : 'Archive',
+        onPress: () => run(updatePreferences(conversation.id, { isArchived: !isArchived, isPinned: false }))
+      },
+      { text: 'Cancel', style: 'cancel' }
+    ]);
+  };
+
   /**
    * Format timestamp for conversation list
    */
@@ -82,29 +162,38 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
    * Render conversation item
    */
   const renderConversation = ({ item }: { item: ChatConversation }) => {
-    const otherUser = getOtherUser(item);
+    const title = getConversationTitle(item);
     const hasUnread = (item.unreadCount || 0) > 0;
+    const muted = isMuted(item);
     const isFromCurrentUser = item.lastMessageSenderId === user?.id;
+    // In groups, say who sent the last message
+    const lastSender = item.isGroup && !isFromCurrentUser
+      ? item.members.find(member => member.userId === item.lastMessageSenderId)
+      : undefined;
     
     return (
       <TouchableOpacity
         style={[styles.conversationItem, hasUnread && styles.unreadConversation]}
         onPress={() => handleConversationPress(item)}
+        onLongPress={() => handleConversationOptions(item)}
         activeOpacity={0.7}
       >
         {/* User Avatar/Initial */}
         <View style={[styles.avatar, hasUnread && styles.unreadAvatar]}>
           <Text style={[styles.avatarText, hasUnread && styles.unreadAvatarText]}>
-            {otherUser.name.charAt(0).toUpperCase()}
+            {item.isGroup ? '👥' : title.charAt(0).toUpperCase()}
           </Text>
         </View>
 
         {/* Conversation Details */}
         <View style={styles.conversationDetails}>
           <View style={styles.headerRow}>
-            <Text style={[styles.userName, hasUnread && styles.unreadUserName]}>
-              {otherUser.name}
+            <Text style={[styles.userName, hasUnread && styles.unreadUserName]} numberOfLines={1}>
+              {title}
+              {item.isGroup && <Text style={styles.memberCount}> · {item.members.length}</Text>}
             </Text>
+            {item.preferences?.isPinned && <Ionicons name="pin" size={14} color="#9ca3af" style={styles.statusIcon} />}
+            {muted && <Ionicons name="notifications-off" size={14} color="#9ca3af" style={styles.statusIcon} />}
             <Text style={[styles.timestamp, hasUnread && styles.unreadTimestamp]}>
               {formatTimestamp(item.lastMessageAt)}
             </Text>
@@ -116,11 +205,12 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
               numberOfLines={2}
             >
               {isFromCurrentUser && (item.lastMessage ? 'You: ' : '')}
+              {lastSender && item.lastMessage ? `${lastSender.name.split(' ')[0]}: ` : ''}
               {item.lastMessage || 'No messages yet'}
             </Text>
             
             {hasUnread && (
-              <View style={styles.unreadBadge}>
+              <View style={[styles.unreadBadge, muted && styles.mutedBadge]}>
                 <Text style={styles.unreadBadgeText}>
                   {item.unreadCount! > 99 ? '99+' : item.unreadCount}
                 </Text>
@@ -138,9 +228,13 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
   const handleNewConversation = () => {
     Alert.alert(
       'Start New Chat',
-      'To start a new conversation, go to the Matches screen and connect with someone first!',
+      'To start a new conversation, go to the Matches screen and connect with someone first! You can also start a group with people you\'re connected to.',
       [
         { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'New Group',
+          onPress: openNewGroup
+        },
         {
           text: 'Go to Matches',
           onPress: () => navigation.navigate('MainTabs')
@@ -149,6 +243,41 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
     );
   };
 
+  /**
+   * Open the new group form with the people the user is connected to
+   */
+  const openNewGroup = async () => {
+    if (!user) return;
+    const connections = await ConnectionService.getConnectionsForUser(user.id);
+    setPartners(connections.map(connection => connection.userId1 === user.id
+      ? { id: connection.userId2, name: connection.userName2 }
+      : { id: connection.userId1, name: connection.userName1 }));
+    setGroupTitle('');
+    setSelectedMemberIds([]);
+    setShowNewGroup(true);
+  };
+
+  const toggleMember = (memberId: string) => {
+    setSelectedMemberIds(prev => prev.includes(memberId)
+      ? prev.filter(id => id !== memberId)
+      : [...prev, memberId]);
+  };
+
+  const handleCreateGroup = async () => {
+    if (!user) return;
+    setCreatingGroup(true);
+    try {
+      const conversationId = await ChatService.createGroupConversation(user.id, user.name, groupTitle, selectedMemberIds);
+      setShowNewGroup(false);
+      await refreshConversations();
+      navigation.navigate('ChatDetail', { conversationId, recipientName: groupTitle.trim() });
+    } catch (error) {
+      Alert.alert('Could Not Create Group', error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      setCreatingGroup(false);
+    }
+  };
+
   /**
    * Render empty state
    */
@@ -180,9 +309,17 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
   return (
     <SafeAreaView style={styles.container}>
       <FlatList
-        data={conversations}
+        data={visibleConversations}
         keyExtractor={(item) => item.id}
         renderItem={renderConversation}
+        ListFooterComponent={archivedCount > 0 ? (
+          <TouchableOpacity style={styles.archivedToggle} onPress={() => setShowArchived(show => !show)}>
+            <Ionicons name="archive-outline" size={18} color="#6b7280" />
+            <Text style={styles.archivedToggleText}>
+              {showArchived ? 'Hide archived' : `Archived (${archivedCount})`}
+            </Text>
+          </TouchableOpacity>
+        ) : null}
         refreshControl={
           <RefreshControl
             refreshing={conversationsLoading}
@@ -190,7 +327,7 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
             tintColor="#6366f1"
           />
         }
-        ListEmptyComponent={renderEmptyState}
+        ListEmptyComponent={conversations.length === 0 ? renderEmptyState : null}
         contentContainerStyle={conversations.length === 0 ? styles.emptyContainer : undefined}
         showsVerticalScrollIndicator={false}
       />
@@ -200,6 +337,53 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
           <Text style={styles.fabText}>+</Text>
         </TouchableOpacity>
       )}
+
+      <Modal
+        visible={showNewGroup}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowNewGroup(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>New Group</Text>
+            <TextInput
+              style={styles.modalInput}
+              value={groupTitle}
+              onChangeText={setGroupTitle}
+              placeholder="Group name, e.g. Tuesday passing"
+              autoCapitalize="sentences"
+            />
+            <Text style={styles.modalLabel}>Members ({selectedMemberIds.length} selected)</Text>
+            <ScrollView style={styles.memberList}>
+              {partners.length === 0 && (
+                <Text style={styles.emptyStateSubtitle}>Connect with other jugglers to add them to a group.</Text>
+              )}
+              {partners.map(partner => {
+                const selected = selectedMemberIds.includes(partner.id);
+                return (
+                  <TouchableOpacity key={partner.id} style={styles.memberOption} onPress={() => toggleMember(partner.id)}>
+                    <Text style={styles.memberOptionText}>{partner.name}</Text>
+                    <Text style={[styles.memberCheck, selected && styles.memberCheckSelected]}>{selected ? '✓' : '○'}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+            <View style={styles.modalButtonContainer}>
+              <TouchableOpacity style={[styles.modalButton, styles.modalCancelButton]} onPress={() => setShowNewGroup(false)}>
+                <Text style={styles.modalCancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.modalCreateButton]}
+                onPress={handleCreateGroup}
+                disabled={creatingGroup}
+              >
+                <Text style={styles.modalCreateButtonText}>{creatingGroup ? 'Creating...' : 'Create'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -212,6 +396,31 @@ const styles = StyleSheet.create({
   emptyContainer: {
     flex: 1,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerButton: {
+    paddingHorizontal: 8,
+  },
+  statusIcon: {
+    marginRight: 4,
+  },
+  mutedBadge: {
+    backgroundColor: '#9ca3af',
+  },
+  archivedToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  archivedToggleText: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
   headerBadge: {
     backgroundColor: '#ef4444',
     borderRadius: 10,
@@ -276,6 +485,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#111827',
   },
+  memberCount: {
+    fontSize: 13,
+    fontWeight: 'normal',
+    color: '#9ca3af',
+  },
   timestamp: {
     fontSize: 12,
     color: '#9ca3af',
@@ -365,4 +579,90 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: 'bold',
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  modalLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  memberList: {
+    maxHeight: 260,
+    marginBottom: 16,
+  },
+  memberOption: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  memberOptionText: {
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  memberCheck: {
+    fontSize: 18,
+    color: '#9ca3af',
+  },
+  memberCheckSelected: {
+    color: '#6366f1',
+    fontWeight: 'bold',
+  },
+  modalButtonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  modalCancelButton: {
+    backgroundColor: '#f3f4f6',
+  },
+  modalCreateButton: {
+    backgroundColor: '#6366f1',
+  },
+  modalCancelButtonText: {
+    color: '#374151',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  modalCreateButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  SafeAreaView,
+  TextInput,
+  ActivityIndicator
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useChat } from '../hooks/useChat';
+import { useAuth } from '../hooks/useAuth';
+import { ChatSearchResult, ChatSearchService } from '../services/chatSearch';
+
+type ChatSearchScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'ChatSearch'>;
+  route: RouteProp<RootStackParamList, 'ChatSearch'>;
+};
+
+/**
+ * Search through chat history, across every conversation or within one
+ * Tapping a result opens the conversation at that message.
+ */
+export default function ChatSearchScreen({ navigation, route }: ChatSearchScreenProps) {
+  const { conversationId, title } = route.params || {};
+  const { user } = useAuth();
+  const { conversations, getOtherUser, getConversationTitle } = useChat();
+
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ChatSearchResult[]>([]);
+  const [indexing, setIndexing] = useState(true);
+
+  useEffect(() => {
+    navigation.setOptions({ title: title ? `Search ${title}` : 'Search Messages' });
+  }, [navigation, title]);
+
+  // Catch the index up with anything that arrived while the app was closed
+  useEffect(() => {
+    if (!user?.id) return;
+    setIndexing(true);
+    ChatSearchService.refresh(user.id).finally(() => setIndexing(false));
+  }, [user?.id]);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    if (!user?.id || indexing) return;
+    const timer = setTimeout(() => {
+      ChatSearchService.search(user.id, query, { conversationId }).then(setResults);
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [user?.id, query, conversationId, indexing]);
+
+  const handleResultPress = (result: ChatSearchResult) => {
+    const conversation = conversations.find(item => item.id === result.conversationId);
+    if (!conversation) return;
+
+    const otherUser = conversation.isGroup ? undefined : getOtherUser(conversation);
+    navigation.navigate('ChatDetail', {
+      conversationId: conversation.id,
+      recipientId: otherUser?.id,
+      recipientName: otherUser ? otherUser.name : getConversationTitle(conversation),
+      messageId: result.messageId
+    });
+  };
+
+  /**
+   * The snippet with the matched words in bold
+   */
+  const renderSnippet = (result: ChatSearchResult) => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    result.highlights.forEach((highlight, index) => {
+      if (highlight.start > position) parts.push(result.snippet.slice(position, highlight.start));
+      parts.push(
+        <Text key={index} style={styles.highlight}>
+          {result.snippet.slice(highlight.start, highlight.end)}
+        </Text>
+      );
+      position = highlight.end;
+    });
+    parts.push(result.snippet.slice(position));
+
+    return <Text style={styles.snippet} numberOfLines={3}>{parts}</Text>;
+  };
+
+  const renderResult = ({ item }: { item: ChatSearchResult }) => {
+    const conversation = conversations.find(candidate => candidate.id === item.conversationId);
+    const isOwnMessage = item.senderId === user?.id;
+
+    return (
+      <TouchableOpacity style={styles.resultItem} onPress={() => handleResultPress(item)} activeOpacity={0.7}>
+        <View style={styles.resultHeader}>
+          <Text style={styles.senderName} numberOfLines={1}>
+            {isOwnMessage ? 'You' : item.senderName}
+            {!conversationId && conversation && (
+              <Text style={styles.conversationTitle}> · {getConversationTitle(conversation)}</Text>
+            )}
+          </Text>
+          <Text style={styles.date}>{item.createdAt.toLocaleDateString()}</Text>
+        </View>
+        {renderSnippet(item)}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyState = () => {
+    if (indexing) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color="#6366f1" />
+          <Text style={styles.emptyStateSubtext}>Indexing messages…</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name="search-outline" size={64} color="#d1d5db" />
+        <Text style={styles.emptyStateText}>
+          {query.trim() ? 'No messages found' : 'Search your messages'}
+        </Text>
+        <Text style={styles.emptyStateSubtext}>
+          {query.trim()
+            ? 'Try fewer or different words'
+            : 'Find messages, shared patterns and session invites'}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={18} color="#9ca3af" />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder={title ? `Search ${title}` : 'Search all conversations'}
+          placeholderTextColor="#9ca3af"
+          autoCorrect={false}
+          autoCapitalize="none"
+          autoFocus
+          returnKeyType="search"
+        />
+        {query.length > 0 && (
+          <TouchableOpacity onPress={() => setQuery('')}>
+            <Ionicons name="close-circle" size={18} color="#9ca3af" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <FlatList
+        data={results}
+        keyExtractor={(item) => item.messageId}
+        renderItem={renderResult}
+        ListEmptyComponent={renderEmptyState}
+        contentContainerStyle={results.length === 0 ? styles.emptyContainer : undefined}
+        keyboardShouldPersistTaps="handled"
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    margin: 12,
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  resultItem: {
+    padding: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  senderName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginRight: 8,
+  },
+  conversationTitle: {
+    fontWeight: '400',
+    color: '#6b7280',
+  },
+  date: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  snippet: {
+    fontSize: 14,
+    color: '#4b5563',
+    lineHeight: 20,
+  },
+  highlight: {
+    fontWeight: 'bold',
+    color: '#1f2937',
+    backgroundColor: '#fef3c7',
+  },
+  emptyContainer: {
+    flexGrow: 1,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyStateText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#4b5563',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateSubtext: {
+    fontSize: 14,
+    color: '#9ca3af',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
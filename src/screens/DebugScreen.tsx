@@ -108,6 +108,14 @@ export default function DebugScreen() {
           <Text style={styles.metric}>Expired Items: {healthStatus.cache.expiredItemsCount}</Text>
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Sync</Text>
+          <Text style={styles.metric}>Pending Changes: {healthStatus.sync.pending}</Text>
+          <Text style={styles.metric}>Retrying: {healthStatus.sync.retrying}</Text>
+          <Text style={styles.metric}>Failed: {healthStatus.sync.failed > 0 ? `⚠️ ${healthStatus.sync.failed}` : '✅ 0'}</Text>
+          <Text style={styles.metric}>Last Error: {healthStatus.sync.lastError || 'None'}</Text>
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>App Metrics</Text>
           <Text style={styles.metric}>Uptime: {(metrics.uptime / 1000 / 60).toFixed(1)} minutes</Text>
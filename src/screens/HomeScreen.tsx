@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -10,12 +10,22 @@ import {
 import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../hooks/useAuth';
 import { useUserPatterns } from '../hooks/useUserPatterns';
-import { patterns } from '../data/patterns';
+import { getPatternById, patterns } from '../data/patterns';
+import { PracticeService, PracticeSuggestion } from '../services';
 
 export default function HomeScreen() {
   const navigation = useNavigation<any>();
-  const { userProfile } = useAuth();
+  const { user, userProfile } = useAuth();
   const { stats } = useUserPatterns();
+  const [practiceSuggestions, setPracticeSuggestions] = useState<PracticeSuggestion[]>([]);
+
+  // Practice logged on a pattern's page changes what's due, so reload on focus
+  useEffect(() => {
+    if (!user) return;
+    const load = () => PracticeService.getPracticeSuggestions(user.id).then(setPracticeSuggestions);
+    load();
+    return navigation.addListener('focus', load);
+  }, [navigation, user]);
 
   if (!userProfile) {
     return (
@@ -139,6 +149,27 @@ export default function HomeScreen() {
           </View>
         </View>
 
+        {practiceSuggestions.length > 0 && (
+          <View style={styles.recentActivity}>
+            <Text style={styles.sectionTitle}>Practice Today</Text>
+            {practiceSuggestions.map(suggestion => (
+              <TouchableOpacity
+                key={suggestion.patternId}
+                style={styles.activityItem}
+                onPress={() => navigation.navigate('PatternDetail', { patternId: suggestion.patternId })}
+              >
+                <Text style={styles.activityIcon}>🔁</Text>
+                <View style={styles.activityContent}>
+                  <Text style={styles.activityTitle}>
+                    {getPatternById(suggestion.patternId)?.name || suggestion.patternId}
+                  </Text>
+                  <Text style={styles.activitySubtitle}>{suggestion.reason}</Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         <View style={styles.recentActivity}>
           <Text style={styles.sectionTitle}>Recent Activity</Text>
           {recentActivity.map((activity) => (
@@ -16,6 +16,9 @@ import { useAuth } from '../hooks/useAuth';
 import { UserSearchService, UserProfile } from '../services/userSearch';
 import { ConnectionService } from '../services/connections';
 import { SyncService } from '../services/sync';
+import { AvailabilityService } from '../services/availability';
+import { MatchScore } from '../services/matchScoring';
+import { LocationService } from '../services/location';
 
 interface MatchesScreenProps {
   navigation: any;
@@ -34,6 +37,9 @@ interface ConnectionRequest {
 
 type ConnectionState = 'none' | 'pending_out' | 'pending_in' | 'connected';
 
+// Search radius choices in km; undefined is any distance
+const RADIUS_OPTIONS: (number | undefined)[] = [undefined, 10, 25, 50, 100];
+
 export default function MatchesScreen({ navigation }: MatchesScreenProps) {
   const { user, userProfile } = useAuth();
   const [selectedTab, setSelectedTab] = useState<'matches' | 'search' | 'requests'>('matches');
@@ -41,6 +47,7 @@ export default function MatchesScreen({ navigation }: MatchesScreenProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<UserProfile[]>([]);
   const [searching, setSearching] = useState(false);
+  const [radiusKm, setRadiusKm] = useState<number | undefined>(undefined);
   const [connectionRequests, setConnectionRequests] = useState<ConnectionRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [connectionStates, setConnectionStates] = useState<Map<string, ConnectionState>>(new Map());
@@ -266,10 +273,10 @@ export default function MatchesScreen({ navigation }: MatchesScreenProps) {
     }
   };
 
-  const handleSearch = async (query: string) => {
+  const handleSearch = async (query: string, radius: number | undefined = radiusKm) => {
     setSearchQuery(query);
     
-    if (query.trim() === '') {
+    if (query.trim() === '' && radius === undefined) {
       setSearchResults([]);
       return;
     }
@@ -287,7 +294,8 @@ export default function MatchesScreen({ navigation }: MatchesScreenProps) {
         includePatterns: true,
         includeBio: true,
         includeLocation: true,
-        maxDistance: 0.6
+        maxDistance: 0.6,
+        radiusKm: radius,
       });
       
       // Convert enhanced results back to UserProfile format for compatibility
@@ -298,6 +306,7 @@ export default function MatchesScreen({ navigation }: MatchesScreenProps) {
         experience: result.experience,
         preferredProps: result.preferredProps,
         location: result.location,
+        coordinates: result.coordinates,
         lastActive: result.lastActive,
         bio: result.bio,
         knownPatterns: result.knownPatterns,
@@ -499,46 +508,41 @@ export default function MatchesScreen({ navigation }: MatchesScreenProps) {
       sharedPatterns,
       canTeach,
       canLearn,
-      distance: profile.location || 'Location not set',
+      distance: getLocationLabel(profile) || 'Location not set',
       lastActive: profile.lastActive,
     });
   };
 
-  const getCompatibilityScore = (profile: UserProfile): number => {
-    if (!userProfile) return 0;
-    
-    let score = 0;
-    
-    // Experience level compatibility
-    const experienceLevels = ['Beginner', 'Intermediate', 'Advanced'];
-    const userExpIndex = experienceLevels.indexOf(userProfile.experience);
-    const profileExpIndex = experienceLevels.indexOf(profile.experience);
-    const expDiff = Math.abs(userExpIndex - profileExpIndex);
-    score += Math.max(0, 40 - (expDiff * 15));
-    
-    // Pattern compatibility
-    const userPatterns = userProfile.knownPatterns || [];
-    const profilePatterns = profile.knownPatterns || [];
-    const commonPatterns = userPatterns.filter((pattern: string) => 
-      profilePatterns.includes(pattern)
-    );
-    score += Math.min(30, commonPatterns.length * 10);
-    
-    // Teaching opportunities
-    const canTeach = userPatterns.filter((pattern: string) => 
-      profile.wantToLearnPatterns.includes(pattern)
-    );
-    const canLearn = profilePatterns.filter((pattern: string) => 
-      userProfile.wantToLearnPatterns.includes(pattern)
-    );
-    score += Math.min(20, (canTeach.length + canLearn.length) * 5);
-    
-    // Location compatibility (simplified)
-    if (userProfile.name && profile.location) { // Simple location check
-      score += 10;
+  // Scored by the matching algorithm version in ConfigService
+  const getCompatibility = (profile: UserProfile): MatchScore | null => {
+    if (!userProfile) return null;
+    return UserSearchService.getCompatibilityBreakdown(userProfile, profile);
+  };
+
+  const getCompatibilityScore = (profile: UserProfile): number => getCompatibility(profile)?.total ?? 0;
+
+  const handleRadiusChange = (radius: number | undefined) => {
+    setRadiusKm(radius);
+    if (radius === undefined && searchQuery.trim() === '') {
+      loadAllUsers();
+    } else {
+      handleSearch(searchQuery, radius);
     }
-    
-    return Math.min(100, score);
+  };
+
+  // "Oakland, CA · 12 km" when both of you have a location
+  const getLocationLabel = (profile: UserProfile): string => {
+    const distance = LocationService.distanceBetween(userProfile?.coordinates, profile.coordinates);
+    const parts = [profile.location, distance !== undefined ? LocationService.formatDistance(distance) : undefined];
+    return parts.filter(Boolean).join(' · ');
+  };
+
+  const getSharedAvailability = (profile: UserProfile) => {
+    if (!userProfile) return [];
+    return AvailabilityService.findSharedWindows([
+      { availability: userProfile.availability || [], timezone: userProfile.timezone },
+      { availability: profile.availability || [], timezone: profile.timezone },
+    ]);
   };
 
   const getScoreColor = (score: number): string => {
@@ -560,8 +564,11 @@ export default function MatchesScreen({ navigation }: MatchesScreenProps) {
   };
 
   const renderMatchItem = ({ item }: { item: UserProfile }) => {
-    const compatibilityScore = getCompatibilityScore(item);
+    const compatibility = getCompatibility(item);
+    const compatibilityScore = compatibility?.total ?? 0;
+    const topFactors = (compatibility?.factors || []).filter(factor => factor.points > 0).slice(0, 3);
     const buttonConfig = getConnectionButtonConfig(item.id);
+    const sharedAvailability = getSharedAvailability(item);
     
     return (
       <TouchableOpacity
@@ -571,7 +578,7 @@ export default function MatchesScreen({ navigation }: MatchesScreenProps) {
         <View style={styles.matchHeader}>
           <View style={styles.matchInfo}>
             <Text style={styles.matchName}>{item.name}</Text>
-            <Text style={styles.matchLocation}>{item.location}</Text>
+            <Text style={styles.matchLocation}>{getLocationLabel(item)}</Text>
           </View>
           <View style={styles.compatibilityBadge}>
             <Text style={[styles.compatibilityScore, { color: getScoreColor(compatibilityScore) }]}>
@@ -590,6 +597,23 @@ export default function MatchesScreen({ navigation }: MatchesScreenProps) {
         <Text style={styles.matchBio} numberOfLines={2}>
           {item.bio}
         </Text>
+
+        {sharedAvailability.length > 0 && (
+          <Text style={styles.matchAvailability}>
+            🗓️ You're both free {AvailabilityService.formatTimeBlock(sharedAvailability[0])}
+            {sharedAvailability.length > 1 ? ` +${sharedAvailability.length - 1} more` : ''}
+          </Text>
+        )}
+
+        {topFactors.length > 0 && (
+          <View style={styles.matchFactors}>
+            {topFactors.map(factor => (
+              <Text key={factor.id} style={styles.matchFactorText} numberOfLines={1}>
+                <Text style={styles.matchFactorPoints}>+{Math.round(factor.points)}</Text> {factor.label}: {factor.detail}
+              </Text>
+            ))}
+          </View>
+        )}
         
         <View style={styles.matchPatterns}>
           {(item.knownPatterns || []).slice(0, 3).map((pattern: string, index: number) => (
@@ -644,7 +668,7 @@ export default function MatchesScreen({ navigation }: MatchesScreenProps) {
         <View style={styles.searchResultHeader}>
           <View style={styles.searchResultInfo}>
             <Text style={styles.searchResultName}>{item.name}</Text>
-            <Text style={styles.searchResultLocation}>{item.location}</Text>
+            <Text style={styles.searchResultLocation}>{getLocationLabel(item)}</Text>
             <Text style={styles.searchResultSkill}>
               {item.experience} level
             </Text>
@@ -814,6 +838,23 @@ export default function MatchesScreen({ navigation }: MatchesScreenProps) {
               autoCorrect={false}
               clearButtonMode="while-editing"
             />
+            {userProfile?.coordinates ? (
+              <View style={styles.radiusRow}>
+                {RADIUS_OPTIONS.map(option => (
+                  <TouchableOpacity
+                    key={option ?? 'any'}
+                    style={[styles.radiusChip, radiusKm === option && styles.radiusChipSelected]}
+                    onPress={() => handleRadiusChange(option)}
+                  >
+                    <Text style={[styles.radiusChipText, radiusKm === option && styles.radiusChipTextSelected]}>
+                      {option === undefined ? 'Any distance' : `${option} km`}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ) : (
+              <Text style={styles.radiusHint}>Add your location to your profile to search by distance</Text>
+            )}
           </View>
           
           {searchResults.length > 0 ? (
@@ -1018,6 +1059,24 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: 12,
   },
+  matchAvailability: {
+    fontSize: 13,
+    color: '#059669',
+    fontWeight: '500',
+    marginBottom: 12,
+  },
+  matchFactors: {
+    marginBottom: 12,
+  },
+  matchFactorText: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 2,
+  },
+  matchFactorPoints: {
+    fontWeight: '600',
+    color: '#6366f1',
+  },
   matchPatterns: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -1068,6 +1127,35 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     fontSize: 16,
   },
+  radiusRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  radiusChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f3f4f6',
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  radiusChipSelected: {
+    backgroundColor: '#6366f1',
+  },
+  radiusChipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  radiusChipTextSelected: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  radiusHint: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 8,
+  },
   searchResultCard: {
     backgroundColor: '#ffffff',
     borderRadius: 12,
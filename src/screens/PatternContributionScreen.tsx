@@ -11,8 +11,16 @@ import {
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
-import { Pattern } from '../types';
-import { PatternLibraryService } from '../services';
+import { Pattern, PropCounts, PropType } from '../types';
+import {
+  PatternModerationService,
+  PatternDerivationService,
+  PrechacService,
+  ValidationService,
+  CompletedSiteswap,
+  PROP_TYPES,
+} from '../services';
+import { useAuth } from '../hooks/useAuth';
 
 type PatternContributionNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -24,19 +32,42 @@ interface Props {
 }
 
 const DIFFICULTY_LEVELS = ['Beginner', 'Intermediate', 'Advanced'];
-const PROP_TYPES = ['clubs', 'balls', 'scarves', 'rings'];
+
+/**
+ * Passing notation ("<3p|3p>") lists each juggler's local siteswap, decimals
+ * ("3.5p") are Prechac notation, and anything else is the local siteswap
+ * every juggler performs. The remaining forms are generated from the one entered.
+ */
+const buildSiteswap = (notation: string, jugglers: number): CompletedSiteswap => {
+  const trimmed = notation.trim();
+  if (!trimmed) return { siteswap: {}, errors: [] };
+
+  const names = Array.from({ length: jugglers }, (_, i) => String.fromCharCode(65 + i));
+  const parts = trimmed.startsWith('<')
+    ? trimmed.replace(/^<|>$/g, '').split('|')
+    : names.map(() => trimmed);
+  const byJuggler = names.reduce((map, name, i) => {
+    map[name] = (parts[i] || '').trim();
+    return map;
+  }, {} as { [juggler: string]: string });
+
+  const siteswap: Pattern['siteswap'] = /\d\.\d/.test(trimmed) ? { prechac: byJuggler } : { local: byJuggler };
+  return jugglers > 1 ? PrechacService.complete(siteswap, names) : { siteswap, errors: [] };
+};
 
 export default function PatternContributionScreen({ navigation }: Props) {
+  const { user } = useAuth();
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [difficulty, setDifficulty] = useState('Beginner');
   const [requiredJugglers, setRequiredJugglers] = useState('2');
-  const [selectedProps, setSelectedProps] = useState<string[]>(['clubs']);
+  const [selectedProps, setSelectedProps] = useState<PropType[]>(['clubs']);
+  const [propCounts, setPropCounts] = useState<{ [prop: string]: string }>({});
   const [notation, setNotation] = useState('');
   const [tips, setTips] = useState('');
   const [loading, setLoading] = useState(false);
 
-  const toggleProp = (prop: string) => {
+  const toggleProp = (prop: PropType) => {
     setSelectedProps(prev => 
       prev.includes(prop)
         ? prev.filter(p => p !== prop)
@@ -55,37 +86,81 @@ export default function PatternContributionScreen({ navigation }: Props) {
       return;
     }
 
+    const jugglers = parseInt(requiredJugglers, 10) || 2;
+    const { siteswap, errors: conversionErrors } = buildSiteswap(notation, jugglers);
+    const siteswapCheck = notation.trim() ? ValidationService.validateSiteswap(siteswap) : null;
+
+    if (conversionErrors.length > 0 || (siteswapCheck && !siteswapCheck.isValid)) {
+      Alert.alert('Invalid Notation', [...conversionErrors, ...(siteswapCheck?.errors || [])].join('\n'));
+      return;
+    }
+
+    // Counts are optional, but a mixed pattern needs one for every prop if any are given
+    const counts = selectedProps.reduce((all, prop) => {
+      const count = parseInt(propCounts[prop] || '', 10);
+      return count > 0 ? { ...all, [prop]: count } : all;
+    }, {} as PropCounts);
+    const counted = Object.keys(counts).length;
+    const countTotal = Object.values(counts).reduce((sum, count) => sum + (count || 0), 0);
+    if (counted > 0 && counted < selectedProps.length) {
+      Alert.alert('Prop Counts', 'Enter a count for every prop, or leave them all blank');
+      return;
+    }
+    if (counted > 0 && siteswapCheck?.numberOfProps !== undefined && countTotal !== siteswapCheck.numberOfProps) {
+      Alert.alert('Prop Counts', `The counts add up to ${countTotal} but the notation uses ${siteswapCheck.numberOfProps} props`);
+      return;
+    }
+
     setLoading(true);
     try {
+      const numberOfProps = siteswapCheck?.numberOfProps ?? (countTotal || selectedProps.length);
       const newPattern: Pattern = {
         id: `user_${Date.now()}`,
         name,
         difficulty: difficulty as any,
-        requiredJugglers: parseInt(requiredJugglers, 10) || 2,
-        props: selectedProps as any,
+        requiredJugglers: jugglers,
+        props: selectedProps,
+        propCounts: counted > 0
+          ? counts
+          : selectedProps.length === 1 && siteswapCheck?.numberOfProps !== undefined
+            ? { [selectedProps[0]]: numberOfProps }
+            : undefined,
         description,
         tags: [],
         source: {
           name: 'User Submission',
           type: 'user_contributed',
-          contributorId: 'local',
+          contributorId: user?.id || 'local',
           dateAdded: new Date().toISOString(),
           verificationStatus: 'pending'
         },
         prerequisites: [],
         timing: 'fully_async',
-        createdBy: 'local',
+        createdBy: user?.id || 'local',
         communityRating: undefined,
         ratingCount: undefined,
         isPublic: true,
         lastModified: new Date().toISOString(),
-        numberOfProps: selectedProps.length,
-        period: 4,
-        siteswap: {},
+        numberOfProps,
+        period: siteswapCheck?.period ?? 4,
+        isGroundState: siteswapCheck?.isGroundState,
+        siteswap,
         wordDescriptions: {},
       } as any;
 
-      await PatternLibraryService.addUserPattern(newPattern);
+      // Fill orbits and squeezes as well as the fields checked above
+      const derivedPattern = PatternDerivationService.applyDerivedFields(newPattern);
+      const validation = await PatternModerationService.validateSubmission(derivedPattern);
+      if (!validation.isValid) {
+        Alert.alert('Invalid Pattern', validation.errors.join('\n'));
+        return;
+      }
+
+      const submitted = await PatternModerationService.submitPattern(derivedPattern, user?.id || 'local');
+      if (!submitted) {
+        Alert.alert('Pattern Not Submitted', 'Your pattern could not be saved for review. Please try again.');
+        return;
+      }
 
       Alert.alert(
         'Pattern Submitted!',
@@ -196,6 +271,22 @@ export default function PatternContributionScreen({ navigation }: Props) {
                 </TouchableOpacity>
               ))}
             </View>
+            {selectedProps.length > 1 && (
+              <View style={styles.countsContainer}>
+                {selectedProps.map(prop => (
+                  <View key={prop} style={styles.countRow}>
+                    <Text style={styles.countLabel}>{prop.charAt(0).toUpperCase() + prop.slice(1)}</Text>
+                    <TextInput
+                      style={[styles.input, styles.countInput]}
+                      value={propCounts[prop] || ''}
+                      onChangeText={value => setPropCounts(prev => ({ ...prev, [prop]: value }))}
+                      placeholder="How many?"
+                      keyboardType="numeric"
+                    />
+                  </View>
+                ))}
+              </View>
+            )}
           </View>
 
           <View style={styles.inputContainer}>
@@ -204,7 +295,7 @@ export default function PatternContributionScreen({ navigation }: Props) {
               style={styles.input}
               value={notation}
               onChangeText={setNotation}
-              placeholder="Siteswap or other notation"
+              placeholder="Siteswap, <3p|3p> or Prechac (3.5p)"
             />
           </View>
 
@@ -294,6 +385,23 @@ const styles = StyleSheet.create({
     fontSize: 16,
     backgroundColor: '#ffffff',
   },
+  countsContainer: {
+    marginTop: 12,
+    gap: 8,
+  },
+  countRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  countLabel: {
+    width: 80,
+    fontSize: 14,
+    color: '#374151',
+  },
+  countInput: {
+    flex: 1,
+    paddingVertical: 8,
+  },
   textArea: {
     height: 100,
     textAlignVertical: 'top',
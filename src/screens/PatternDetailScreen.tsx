@@ -0,0 +1,660 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Share,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { getPatternById } from '../data/patterns';
+import {
+  ConfigService,
+  PatternLibraryService,
+  PatternModerationService,
+  PatternRatingService,
+  PatternRatingSummary,
+  PatternShareService,
+  PropService,
+  PracticeLog,
+  PracticeService,
+  GroupFinderService,
+  GroupCandidate,
+  ReviewQueueItem,
+} from '../services';
+import { Pattern, PatternRating, PatternReviewDecision } from '../types';
+import { useAuth } from '../hooks/useAuth';
+import PatternAnimation from '../components/PatternAnimation';
+
+type PatternDetailScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'PatternDetail'>;
+  route: RouteProp<RootStackParamList, 'PatternDetail'>;
+};
+
+const REVIEW_LABELS: { [decision in PatternReviewDecision]: string } = {
+  approve: '✅ Approved',
+  request_changes: '✏️ Changes requested',
+  reject: '❌ Rejected',
+};
+
+/**
+ * Pattern detail screen
+ * Shows a pattern's animation, notation and prerequisites, the user's practice
+ * log for it, its ratings and reviews, and the review state of user
+ * contributed patterns
+ */
+export default function PatternDetailScreen({ navigation, route }: PatternDetailScreenProps) {
+  const { patternId } = route.params;
+  const [pattern, setPattern] = useState<Pattern | null>(getPatternById(patternId) || null);
+  const [loading, setLoading] = useState(!pattern);
+  const { user } = useAuth();
+  const [groups, setGroups] = useState<GroupCandidate[] | null>(null);
+  const [findingGroups, setFindingGroups] = useState(false);
+  const [moderation, setModeration] = useState<ReviewQueueItem | null>(null);
+  const [reviewComment, setReviewComment] = useState('');
+  const [submittingReview, setSubmittingReview] = useState(false);
+  const [ratings, setRatings] = useState<PatternRating[]>([]);
+  const [ratingSummary, setRatingSummary] = useState<PatternRatingSummary | null>(null);
+  const [myRating, setMyRating] = useState(0);
+  const [myReview, setMyReview] = useState('');
+  const [savingRating, setSavingRating] = useState(false);
+  const [practiceLogs, setPracticeLogs] = useState<PracticeLog[]>([]);
+  const [practiceMinutes, setPracticeMinutes] = useState('');
+  const [practiceCatches, setPracticeCatches] = useState('');
+  const [practiceNotes, setPracticeNotes] = useState('');
+  const [savingPractice, setSavingPractice] = useState(false);
+
+  // User contributed patterns live in local storage rather than the curriculum,
+  // or only in the review queue when someone else contributed them
+  useEffect(() => {
+    const loadPattern = async () => {
+      const curriculum = getPatternById(patternId);
+      const status = curriculum ? null : await PatternModerationService.getModerationStatus(patternId);
+      setModeration(status);
+      if (pattern?.id === patternId) return;
+
+      setLoading(true);
+      const contributed = await PatternLibraryService.getUserContributedPatterns();
+      setPattern(curriculum || contributed.find(p => p.id === patternId) || status?.pattern || null);
+      setLoading(false);
+    };
+    loadPattern();
+  }, [patternId]);
+
+  useEffect(() => {
+    const loadRatings = async () => {
+      const [all, summaries] = await Promise.all([
+        PatternRatingService.getRatings(patternId),
+        PatternRatingService.getSummaries([patternId]),
+      ]);
+      setRatings(all);
+      setRatingSummary(summaries[patternId] || null);
+      const mine = user ? all.find(rating => rating.userId === user.id) : undefined;
+      setMyRating(mine?.rating || 0);
+      setMyReview(mine?.review || '');
+    };
+    loadRatings();
+  }, [patternId, user]);
+
+  useEffect(() => {
+    if (!user) return;
+    PracticeService.getPracticeLogs(user.id, patternId).then(setPracticeLogs);
+  }, [patternId, user]);
+
+  useEffect(() => {
+    if (pattern) {
+      navigation.setOptions({ title: pattern.name });
+    }
+  }, [navigation, pattern]);
+
+  const handleFindGroups = async () => {
+    if (!user) return;
+    setFindingGroups(true);
+    setGroups(await GroupFinderService.findGroups(user.id, patternId));
+    setFindingGroups(false);
+  };
+
+  const handleReview = async (decision: PatternReviewDecision) => {
+    if (!user) return;
+    setSubmittingReview(true);
+    const result = await PatternModerationService.reviewPattern(patternId, user.id, decision, reviewComment, user.name);
+    setSubmittingReview(false);
+
+    if (!result.success) {
+      Alert.alert('Review Not Saved', result.error || 'Please try again.');
+      return;
+    }
+    setReviewComment('');
+    setModeration(await PatternModerationService.getModerationStatus(patternId));
+    if (result.status === 'verified') {
+      Alert.alert('Pattern Verified', 'This pattern now has enough approvals to be community verified.');
+    }
+  };
+
+  const handleSaveRating = async () => {
+    if (!user || myRating === 0) return;
+    setSavingRating(true);
+    const summary = await PatternRatingService.ratePattern(patternId, user.id, myRating, myReview, user.name);
+    setSavingRating(false);
+
+    if (!summary) {
+      Alert.alert('Rating Not Saved', 'Please try again.');
+      return;
+    }
+    setRatingSummary(summary);
+    setRatings(await PatternRatingService.getRatings(patternId));
+  };
+
+  const handleLogPractice = async () => {
+    if (!user) return;
+    const duration = parseInt(practiceMinutes, 10);
+    const catches = practiceCatches.trim() ? parseInt(practiceCatches, 10) : undefined;
+    if (!duration || duration <= 0 || (catches !== undefined && (isNaN(catches) || catches < 0))) {
+      Alert.alert('Check Your Practice', 'Enter the minutes you practiced and, optionally, your best run of catches.');
+      return;
+    }
+
+    setSavingPractice(true);
+    const log = await PracticeService.logPractice(user.id, {
+      patternId,
+      practicedAt: new Date(),
+      duration,
+      maxCatches: catches,
+      notes: practiceNotes.trim() || undefined,
+    });
+    setSavingPractice(false);
+
+    if (!log) {
+      Alert.alert('Practice Not Saved', 'Please try again.');
+      return;
+    }
+    setPracticeMinutes('');
+    setPracticeCatches('');
+    setPracticeNotes('');
+    setPracticeLogs(await PracticeService.getPracticeLogs(user.id, patternId));
+  };
+
+  const handleDeletePractice = (log: PracticeLog) => {
+    if (!user) return;
+    Alert.alert('Delete Practice Session', `Remove the ${log.duration} minute session from ${log.practicedAt.toLocaleDateString()}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await PracticeService.deletePracticeLog(user.id, log.id);
+          setPracticeLogs(await PracticeService.getPracticeLogs(user.id, patternId));
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.centerContainer}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </SafeAreaView>
+    );
+  }
+
+  if (!pattern) {
+    return (
+      <SafeAreaView style={styles.centerContainer}>
+        <Text style={styles.emptyText}>Pattern not found</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const requiredApprovals = ConfigService.getValue('app', 'requiredPatternApprovals');
+  const canReview = !!user && !!moderation &&
+    moderation.contributorId !== user.id &&
+    (moderation.status === 'pending' || moderation.status === 'needs_review') &&
+    !moderation.reviews.some(review => review.reviewerId === user.id && review.createdAt >= moderation.revisedAt);
+
+  const practiceReview = practiceLogs.length > 0 ? PracticeService.getReview(patternId, practiceLogs) : null;
+
+  const notationRows = [
+    ...(pattern.siteswap.global ? [{ label: 'Global', value: pattern.siteswap.global }] : []),
+    ...Object.entries(pattern.siteswap.local || {}).map(([juggler, value]) => ({ label: `Local ${juggler}`, value })),
+    ...Object.entries(pattern.siteswap.prechac || {}).map(([juggler, value]) => ({ label: `Prechac ${juggler}`, value })),
+  ];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.title}>{pattern.name}</Text>
+        <Text style={styles.description}>{pattern.description}</Text>
+
+        <View style={styles.section}>
+          <PatternAnimation pattern={pattern} />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Details</Text>
+          <Text style={styles.detailText}>Difficulty: {pattern.difficulty}</Text>
+          <Text style={styles.detailText}>
+            Jugglers: {pattern.requiredJugglers} · Props: {PropService.formatProps(pattern)}
+          </Text>
+          <Text style={styles.detailText}>
+            Period: {pattern.period} · Timing: {pattern.timing.replace('_', ' ')}
+          </Text>
+          {pattern.handOrder && <Text style={styles.detailText}>Hand order: {pattern.handOrder}</Text>}
+        </View>
+
+        {notationRows.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Notation</Text>
+            {notationRows.map(row => (
+              <View key={row.label} style={styles.notationRow}>
+                <Text style={styles.notationLabel}>{row.label}</Text>
+                <Text style={styles.notationValue}>{row.value}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {pattern.prerequisites.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Learn First</Text>
+            {pattern.prerequisites.map(prerequisiteId => (
+              <TouchableOpacity
+                key={prerequisiteId}
+                style={styles.prerequisite}
+                onPress={() => navigation.push('PatternDetail', { patternId: prerequisiteId })}
+              >
+                <Text style={styles.prerequisiteText}>
+                  {getPatternById(prerequisiteId)?.name || prerequisiteId}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {pattern.requiredJugglers >= 3 && user && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Find a Group</Text>
+            <TouchableOpacity style={styles.findButton} onPress={handleFindGroups} disabled={findingGroups}>
+              {findingGroups ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.findButtonText}>
+                  Find {pattern.requiredJugglers - 1} connections to juggle with
+                </Text>
+              )}
+            </TouchableOpacity>
+            {groups && groups.length === 0 && (
+              <Text style={styles.detailText}>
+                No groups yet - connections need to know or want this pattern, share a prop and have overlapping availability.
+              </Text>
+            )}
+            {groups && groups.map(group => (
+              <View key={group.members.map(member => member.id).join('-')} style={styles.groupCard}>
+                <View style={styles.groupHeader}>
+                  <Text style={styles.groupMembers}>
+                    {group.members.map(member => member.id === user.id ? 'You' : member.name).join(', ')}
+                  </Text>
+                  <Text style={styles.groupScore}>{group.score}%</Text>
+                </View>
+                {group.factors.map(factor => (
+                  <Text key={factor.label} style={styles.groupFactor}>
+                    {factor.label} ({factor.points}/{factor.maxPoints}): {factor.detail}
+                  </Text>
+                ))}
+              </View>
+            ))}
+          </View>
+        )}
+
+        {user && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Practice</Text>
+            {practiceReview ? (
+              <>
+                <Text style={styles.detailText}>
+                  {practiceReview.sessionCount} session{practiceReview.sessionCount === 1 ? '' : 's'} · {practiceReview.totalMinutes} min
+                  {practiceReview.bestCatches !== undefined ? ` · Best run: ${practiceReview.bestCatches} catches` : ''}
+                </Text>
+                <Text style={styles.detailText}>
+                  Next practice: {practiceReview.dueDate.toLocaleDateString()}
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.detailText}>Log a session to get reminders when it's time to practice again.</Text>
+            )}
+            <View style={styles.practiceInputs}>
+              <TextInput
+                style={[styles.reviewInput, styles.practiceInput]}
+                value={practiceMinutes}
+                onChangeText={setPracticeMinutes}
+                placeholder="Minutes"
+                keyboardType="number-pad"
+              />
+              <TextInput
+                style={[styles.reviewInput, styles.practiceInput]}
+                value={practiceCatches}
+                onChangeText={setPracticeCatches}
+                placeholder="Best catches (optional)"
+                keyboardType="number-pad"
+              />
+            </View>
+            <TextInput
+              style={styles.reviewInput}
+              value={practiceNotes}
+              onChangeText={setPracticeNotes}
+              placeholder="Notes (optional)"
+              multiline
+            />
+            <TouchableOpacity
+              style={[styles.reviewButton, styles.reviewButtonPrimary]}
+              onPress={handleLogPractice}
+              disabled={savingPractice}
+            >
+              <Text style={[styles.reviewButtonText, styles.findButtonText]}>
+                {savingPractice ? 'Saving...' : 'Log Practice'}
+              </Text>
+            </TouchableOpacity>
+            {practiceLogs.slice(-3).reverse().map(log => (
+              <TouchableOpacity key={log.id} style={styles.reviewCard} onLongPress={() => handleDeletePractice(log)}>
+                <Text style={styles.reviewHeader}>
+                  {log.practicedAt.toLocaleDateString()} · {log.duration} min
+                  {log.maxCatches !== undefined ? ` · ${log.maxCatches} catches` : ''}
+                </Text>
+                {log.notes && <Text style={styles.groupFactor}>{log.notes}</Text>}
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Ratings & Reviews</Text>
+          <Text style={styles.detailText}>
+            {ratingSummary && ratingSummary.ratingCount > 0
+              ? `⭐ ${ratingSummary.communityRating} from ${ratingSummary.ratingCount} rating${ratingSummary.ratingCount === 1 ? '' : 's'}`
+              : 'No ratings yet'}
+          </Text>
+          {user && (
+            <>
+              <View style={styles.starRow}>
+                {[1, 2, 3, 4, 5].map(star => (
+                  <TouchableOpacity key={star} onPress={() => setMyRating(star)} disabled={savingRating}>
+                    <Text style={styles.star}>{star <= myRating ? '★' : '☆'}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TextInput
+                style={styles.reviewInput}
+                value={myReview}
+                onChangeText={setMyReview}
+                placeholder="Write a review (optional)"
+                multiline
+              />
+              <TouchableOpacity
+                style={[styles.reviewButton, styles.reviewButtonPrimary]}
+                onPress={handleSaveRating}
+                disabled={savingRating || myRating === 0}
+              >
+                <Text style={[styles.reviewButtonText, styles.findButtonText]}>
+                  {ratings.some(rating => rating.userId === user.id) ? 'Update Rating' : 'Submit Rating'}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+          {ratings.filter(rating => rating.userId !== user?.id && rating.review).map(rating => (
+            <View key={rating.id} style={styles.reviewCard}>
+              <Text style={styles.reviewHeader}>
+                {'★'.repeat(rating.rating)}{'☆'.repeat(5 - rating.rating)} {rating.userName || 'A juggler'}
+              </Text>
+              <Text style={styles.groupFactor}>{rating.review}</Text>
+            </View>
+          ))}
+        </View>
+
+        {moderation && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Community Review</Text>
+            <Text style={styles.detailText}>
+              Status: {moderation.status.replace('_', ' ')} · {moderation.approvals} of {requiredApprovals} approvals
+            </Text>
+            <TouchableOpacity onPress={() => navigation.navigate('PatternHistory', { patternId })}>
+              <Text style={styles.historyLink}>View revision history</Text>
+            </TouchableOpacity>
+            {moderation.reviews.map(review => (
+              <View key={review.id} style={styles.reviewCard}>
+                <Text style={styles.reviewHeader}>
+                  {REVIEW_LABELS[review.decision]} by {review.reviewerId === user?.id ? 'you' : review.reviewerName || 'a reviewer'}
+                </Text>
+                {review.comment && <Text style={styles.groupFactor}>{review.comment}</Text>}
+              </View>
+            ))}
+            {canReview && (
+              <>
+                <TextInput
+                  style={styles.reviewInput}
+                  value={reviewComment}
+                  onChangeText={setReviewComment}
+                  placeholder="Comment (required to request changes or reject)"
+                  multiline
+                />
+                <View style={styles.reviewActions}>
+                  {(Object.keys(REVIEW_LABELS) as PatternReviewDecision[]).map(decision => (
+                    <TouchableOpacity
+                      key={decision}
+                      style={[styles.reviewButton, decision === 'approve' && styles.reviewButtonPrimary]}
+                      onPress={() => handleReview(decision)}
+                      disabled={submittingReview}
+                    >
+                      <Text style={[styles.reviewButtonText, decision === 'approve' && styles.findButtonText]}>
+                        {decision === 'approve' ? 'Approve' : decision === 'reject' ? 'Reject' : 'Request Changes'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <TouchableOpacity
+            style={styles.findButton}
+            onPress={() => Share.share({ message: `${pattern.name}\n${PatternShareService.createPatternLink(pattern)}` })}
+          >
+            <Text style={styles.findButtonText}>Share Pattern</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  content: {
+    padding: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 16,
+    color: '#6b7280',
+    lineHeight: 22,
+    marginBottom: 16,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  notationRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  notationLabel: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  notationValue: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    color: '#1f2937',
+  },
+  prerequisite: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  prerequisiteText: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  findButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  findButtonText: {
+    fontSize: 14,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  groupCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  groupMembers: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  groupScore: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#10b981',
+  },
+  groupFactor: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginBottom: 2,
+  },
+  reviewCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  reviewHeader: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  reviewInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    backgroundColor: '#ffffff',
+    minHeight: 60,
+    marginBottom: 8,
+  },
+  practiceInputs: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  practiceInput: {
+    flex: 1,
+    minHeight: 0,
+  },
+  reviewActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  reviewButton: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 10,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+  },
+  reviewButtonPrimary: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  reviewButtonText: {
+    fontSize: 13,
+    color: '#374151',
+    fontWeight: '600',
+  },
+  historyLink: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  starRow: {
+    flexDirection: 'row',
+    gap: 4,
+    marginVertical: 8,
+  },
+  star: {
+    fontSize: 28,
+    color: '#f59e0b',
+  },
+});
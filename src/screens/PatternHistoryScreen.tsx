@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useAuth } from '../hooks/useAuth';
+import { PatternModerationService } from '../services';
+import { PatternRevision } from '../types';
+
+type PatternHistoryScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'PatternHistory'>;
+  route: RouteProp<RootStackParamList, 'PatternHistory'>;
+};
+
+/**
+ * Pattern revision history screen
+ * Lists every revision of a contributed pattern with what changed, and lets
+ * the contributor revert to an earlier one
+ */
+export default function PatternHistoryScreen({ route }: PatternHistoryScreenProps) {
+  const { patternId } = route.params;
+  const { user } = useAuth();
+  const [revisions, setRevisions] = useState<PatternRevision[]>([]);
+  const [contributorId, setContributorId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [reverting, setReverting] = useState(false);
+
+  const loadHistory = async () => {
+    const [history, status] = await Promise.all([
+      PatternModerationService.getRevisions(patternId),
+      PatternModerationService.getModerationStatus(patternId),
+    ]);
+    setRevisions(history);
+    setContributorId(status?.contributorId || null);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, [patternId]);
+
+  const handleRevert = (revision: PatternRevision) => {
+    if (!user) return;
+    Alert.alert(
+      'Revert Pattern',
+      `Restore revision ${revision.revision}? The pattern will go back into the review queue.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revert',
+          onPress: async () => {
+            setReverting(true);
+            let contribution;
+            try {
+              contribution = await PatternModerationService.revertToRevision(patternId, revision.revision, user.id);
+            } catch (error) {
+              Alert.alert('Not Reverted', error instanceof Error ? error.message : 'The pattern could not be saved.');
+              return;
+            } finally {
+              setReverting(false);
+            }
+            if (!contribution) {
+              Alert.alert('Not Reverted', 'The pattern already matches that revision, or it could not be saved.');
+              return;
+            }
+            setExpanded(null);
+            loadHistory();
+          },
+        },
+      ]
+    );
+  };
+
+  const latest = revisions[0]?.revision;
+  const canRevert = !!user && user.id === contributorId;
+
+  const renderItem = ({ item }: { item: PatternRevision }) => (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={() => setExpanded(expanded === item.revision ? null : item.revision)}
+    >
+      <View style={styles.cardHeader}>
+        <Text style={styles.revisionNumber}>Revision {item.revision}</Text>
+        {item.revision === latest && <Text style={styles.current}>Current</Text>}
+      </View>
+      <Text style={styles.summary}>{item.summary || 'No summary'}</Text>
+      <Text style={styles.meta}>
+        {item.authorId === user?.id ? 'You' : item.authorId === contributorId ? 'Contributor' : 'Another juggler'} · {item.createdAt.toLocaleString()}
+      </Text>
+
+      {expanded === item.revision && (
+        <View style={styles.diff}>
+          {item.diff.length === 0 && <Text style={styles.meta}>First version of the pattern</Text>}
+          {item.diff.map(change => (
+            <View key={change.field} style={styles.change}>
+              <Text style={styles.field}>{change.field}</Text>
+              <Text style={styles.removed}>− {formatValue(change.before)}</Text>
+              <Text style={styles.added}>+ {formatValue(change.after)}</Text>
+            </View>
+          ))}
+          {canRevert && item.revision !== latest && (
+            <TouchableOpacity style={styles.revertButton} onPress={() => handleRevert(item)} disabled={reverting}>
+              <Text style={styles.revertButtonText}>Revert to this revision</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.centerContainer}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <FlatList
+        data={revisions}
+        renderItem={renderItem}
+        keyExtractor={item => item.id}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>This pattern has no revision history.</Text>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+// Diff values are whole pattern fields: text, lists or per-juggler siteswaps
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(none)';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(none)';
+  if (typeof value === 'object') {
+    return Object.entries(value as object)
+      .map(([key, entry]) => `${key}: ${typeof entry === 'object' ? JSON.stringify(entry) : entry}`)
+      .join('\n');
+  }
+  return String(value);
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+  },
+  list: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  revisionNumber: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  current: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  summary: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  diff: {
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  change: {
+    marginBottom: 8,
+  },
+  field: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 2,
+  },
+  removed: {
+    fontSize: 13,
+    color: '#dc2626',
+    fontFamily: 'monospace',
+  },
+  added: {
+    fontSize: 13,
+    color: '#16a34a',
+    fontFamily: 'monospace',
+  },
+  revertButton: {
+    borderRadius: 8,
+    padding: 10,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#6366f1',
+  },
+  revertButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
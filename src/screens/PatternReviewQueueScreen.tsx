@@ -0,0 +1,155 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { useAuth } from '../hooks/useAuth';
+import { ConfigService, PatternModerationService, ReviewQueueItem } from '../services';
+
+type PatternReviewQueueNavigationProp = NativeStackNavigationProp<RootStackParamList, 'PatternReviewQueue'>;
+
+/**
+ * Review queue screen
+ * Lists contributed patterns the current user can review, flagging any the
+ * library health and consistency checks have problems with
+ */
+export default function PatternReviewQueueScreen() {
+  const navigation = useNavigation<PatternReviewQueueNavigationProp>();
+  const { user } = useAuth();
+  const [queue, setQueue] = useState<ReviewQueueItem[]>([]);
+  const [issues, setIssues] = useState<{ [patternId: string]: string[] }>({});
+  const [loading, setLoading] = useState(true);
+  const requiredApprovals = ConfigService.getValue('app', 'requiredPatternApprovals');
+
+  // Reload on focus so patterns reviewed on the detail screen drop out
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      const loadQueue = async () => {
+        setLoading(true);
+        const [items, libraryIssues] = await Promise.all([
+          PatternModerationService.getReviewQueue(user.id),
+          PatternModerationService.getLibraryIssues(),
+        ]);
+        setQueue(items);
+        setIssues(libraryIssues);
+        setLoading(false);
+      };
+      loadQueue();
+    }, [user])
+  );
+
+  const renderItem = ({ item }: { item: ReviewQueueItem }) => (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={() => navigation.navigate('PatternDetail', { patternId: item.pattern.id })}
+    >
+      <View style={styles.cardHeader}>
+        <Text style={styles.patternName}>{item.pattern.name}</Text>
+        <Text style={[styles.status, item.status === 'needs_review' && styles.statusChanges]}>
+          {item.status === 'needs_review' ? 'Changes requested' : 'Pending'}
+        </Text>
+      </View>
+      <Text style={styles.description} numberOfLines={2}>{item.pattern.description}</Text>
+      {issues[item.pattern.id]?.map(issue => (
+        <Text key={issue} style={styles.issue}>⚠️ {issue}</Text>
+      ))}
+      <Text style={styles.meta}>
+        {item.approvals} of {requiredApprovals} approvals · {item.reviews.length} review{item.reviews.length === 1 ? '' : 's'}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.centerContainer}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <FlatList
+        data={queue}
+        renderItem={renderItem}
+        keyExtractor={item => item.pattern.id}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No patterns are waiting for your review.</Text>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+  },
+  list: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  patternName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  status: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  statusChanges: {
+    color: '#f59e0b',
+  },
+  description: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 6,
+  },
+  issue: {
+    fontSize: 12,
+    color: '#dc2626',
+    marginBottom: 4,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
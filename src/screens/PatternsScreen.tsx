@@ -10,41 +10,117 @@ import {
   FlatList,
   Alert,
 } from 'react-native';
-import { useNavigation, useFocusEffect } from '@react-navigation/native';
-import { patterns, enhancedPatternSearch, EnhancedPatternResult } from '../data/patterns';
-import { PatternLibraryService } from '../services';
-import { Pattern, PatternStatus } from '../types';
+import { useNavigation, useFocusEffect, useRoute, RouteProp } from '@react-navigation/native';
+import { patterns, enhancedPatternSearch, EnhancedPatternResult, PatternSearchOptions } from '../data/patterns';
+import { PatternLibraryService, PatternRatingService, PatternShareService, PropService, PROFICIENCY_LEVELS } from '../services';
+import { MainTabParamList } from '../navigation/AppNavigator';
+import { Pattern, PatternProficiency, PatternStatus } from '../types';
 import { useUserPatterns } from '../hooks/useUserPatterns';
 
+type PatternSort = Extract<PatternSearchOptions['sortBy'], 'relevance' | 'popularity'>;
+
 export default function PatternsScreen() {
   const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<MainTabParamList, 'Patterns'>>();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedDifficulty, setSelectedDifficulty] = useState<string>('All');
   const [allPatterns, setAllPatterns] = useState<Pattern[]>(patterns);
   const [filteredPatterns, setFilteredPatterns] = useState<Pattern[]>(patterns);
+  const [sortBy, setSortBy] = useState<PatternSort>('relevance');
   
   const {
     getPatternStatus,
     setPatternStatus,
     removePatternStatus,
+    getPatternProficiency,
+    setPatternProficiency,
     loading: patternsLoading,
     error: patternsError
   } = useUserPatterns();
 
   const difficulties = ['All', 'Beginner', 'Intermediate', 'Advanced'];
+  const sortOptions: { key: PatternSort; label: string }[] = [
+    { key: 'relevance', label: 'Best Match' },
+    { key: 'popularity', label: 'Most Popular' },
+  ];
 
   useFocusEffect(
     useCallback(() => {
       const loadCustom = async () => {
+        // Patterns saved before prop counts existed get them written once
+        await PatternLibraryService.migrateProps();
         const custom = await PatternLibraryService.getUserContributedPatterns();
-        const combined = [...patterns, ...custom];
+        const combined = await PatternRatingService.applyRatings([...patterns, ...custom]);
         setAllPatterns(combined);
         filterPatterns(searchQuery, selectedDifficulty, combined);
       };
       loadCustom();
-    }, [searchQuery, selectedDifficulty])
+    }, [searchQuery, selectedDifficulty, sortBy])
   );
 
+  // Open patterns shared as patternpals://pattern/... links
+  useEffect(() => {
+    if (!route.params?.patternId) return;
+    const target = PatternShareService.resolveLinkParams(route.params.patternId, route.params.data);
+    navigation.setParams({ patternId: undefined, data: undefined });
+
+    const openLink = async () => {
+      if (!target) {
+        Alert.alert('Invalid Link', 'This pattern link could not be read.');
+        return;
+      }
+
+      if (target.type === 'id') {
+        const custom = await PatternLibraryService.getUserContributedPatterns();
+        if ([...patterns, ...custom].some(pattern => pattern.id === target.patternId)) {
+          navigation.navigate('PatternDetail', { patternId: target.patternId });
+        } else {
+          Alert.alert('Pattern Not Found', 'This pattern is not in your library.');
+        }
+        return;
+      }
+
+      // Patterns already in the library open directly; new ones are only saved once confirmed
+      const existing = await PatternShareService.findInLibrary(target.pattern);
+      if (existing) {
+        navigation.navigate('PatternDetail', { patternId: existing.id });
+        return;
+      }
+
+      const shared = target.pattern;
+      const siteswap = shared.siteswap?.global || Object.values(shared.siteswap?.local || {}).join(' | ');
+      Alert.alert(
+        'Import Shared Pattern?',
+        [
+          shared.name,
+          `${shared.difficulty} · ${shared.requiredJugglers} juggler${shared.requiredJugglers === 1 ? '' : 's'} · ${PropService.formatProps(shared)}`,
+          siteswap ? `Siteswap: ${siteswap}` : '',
+          shared.description,
+        ].filter(Boolean).join('\n\n'),
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Import', onPress: () => importLinkedPattern(shared) },
+        ]
+      );
+    };
+
+    const importLinkedPattern = async (shared: Pattern) => {
+      const result = await PatternShareService.importSharedPattern(shared);
+      if (!result.pattern) {
+        Alert.alert('Could Not Import Pattern', result.errors.join('\n'));
+        return;
+      }
+      if (result.status === 'imported') {
+        const custom = await PatternLibraryService.getUserContributedPatterns();
+        const combined = await PatternRatingService.applyRatings([...patterns, ...custom]);
+        setAllPatterns(combined);
+        filterPatterns(searchQuery, selectedDifficulty, combined);
+      }
+      navigation.navigate('PatternDetail', { patternId: result.pattern.id });
+    };
+    openLink();
+  }, [route.params?.patternId, route.params?.data]);
+
   const handleSearch = (query: string) => {
     setSearchQuery(query);
     filterPatterns(query, selectedDifficulty);
@@ -55,10 +131,16 @@ export default function PatternsScreen() {
     filterPatterns(searchQuery, difficulty);
   };
 
+  const handleSort = (sort: PatternSort) => {
+    setSortBy(sort);
+    filterPatterns(searchQuery, selectedDifficulty, allPatterns, sort);
+  };
+
   const filterPatterns = (
     query: string,
     difficulty: string,
-    base: Pattern[] = allPatterns
+    base: Pattern[] = allPatterns,
+    sort: PatternSort = sortBy
   ) => {
     let filtered = base;
 
@@ -72,13 +154,16 @@ export default function PatternsScreen() {
         sortBy: 'relevance'
       });
       
-      // Convert enhanced results back to Pattern format
+      // Convert enhanced results back to Pattern format. Search runs over the bundled
+      // patterns, so ratings come from the loaded library.
+      const rated = new Map(base.map(pattern => [pattern.id, pattern]));
       filtered = enhancedResults.map((result: EnhancedPatternResult) => ({
         id: result.id,
         name: result.name,
         difficulty: result.difficulty,
         requiredJugglers: result.requiredJugglers,
         props: result.props,
+        propCounts: result.propCounts,
         description: result.description,
         tags: result.tags,
         source: result.source,
@@ -89,8 +174,8 @@ export default function PatternsScreen() {
         squeezes: result.squeezes,
         isPublic: result.isPublic,
         createdBy: result.createdBy,
-        communityRating: result.communityRating,
-        ratingCount: result.ratingCount,
+        communityRating: rated.get(result.id)?.communityRating ?? result.communityRating,
+        ratingCount: rated.get(result.id)?.ratingCount ?? result.ratingCount,
         lastModified: result.lastModified,
         siteswap: result.siteswap,
         wordDescriptions: result.wordDescriptions,
@@ -105,6 +190,12 @@ export default function PatternsScreen() {
       filtered = filtered.filter(pattern => pattern.difficulty === difficulty);
     }
 
+    if (sort === 'popularity') {
+      filtered = [...filtered].sort((a, b) =>
+        PatternRatingService.getPopularityScore(b) - PatternRatingService.getPopularityScore(a)
+      );
+    }
+
     setFilteredPatterns(filtered);
   };
 
@@ -146,6 +237,14 @@ export default function PatternsScreen() {
     }
   };
 
+  const handleProficiency = async (patternId: string, proficiency: PatternProficiency) => {
+    try {
+      await setPatternProficiency(patternId, proficiency);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update proficiency. Please try again.');
+    }
+  };
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
       case 'Beginner':
@@ -161,9 +260,13 @@ export default function PatternsScreen() {
 
   const renderPatternItem = ({ item }: { item: Pattern }) => {
     const currentStatus = getPatternStatus(item.id);
+    const currentProficiency = getPatternProficiency(item.id);
     
     return (
-      <TouchableOpacity style={styles.patternCard}>
+      <TouchableOpacity
+        style={styles.patternCard}
+        onPress={() => navigation.navigate('PatternDetail', { patternId: item.id })}
+      >
         <View style={styles.patternHeader}>
           <Text style={styles.patternName}>{item.name}</Text>
           <View style={styles.patternMeta}>
@@ -197,14 +300,11 @@ export default function PatternsScreen() {
             👥 {item.requiredJugglers} juggler{item.requiredJugglers > 1 ? 's' : ''}
           </Text>
           <Text style={styles.detailText}>
-            🤹 {item.props.join(', ')}
+            🤹 {PropService.formatProps(item)}
           </Text>
           <Text style={styles.detailText}>
             ⏱️ {item.timing.replace('_', ' ')}
           </Text>
-          <Text style={styles.detailText}>
-            🎯 {item.numberOfProps} props
-          </Text>
         </View>
 
         <View style={styles.patternTags}>
@@ -252,6 +352,28 @@ export default function PatternsScreen() {
             </Text>
           </TouchableOpacity>
         </View>
+
+        {(currentStatus === 'known' || currentStatus === 'want_to_learn') && (
+          <View style={styles.proficiencyRow}>
+            {PROFICIENCY_LEVELS.map(level => (
+              <TouchableOpacity
+                key={`proficiency-${level.value}`}
+                style={[
+                  styles.proficiencyChip,
+                  currentProficiency === level.value && styles.proficiencyChipActive
+                ]}
+                onPress={() => handleProficiency(item.id, level.value)}
+              >
+                <Text style={[
+                  styles.proficiencyChipText,
+                  currentProficiency === level.value && styles.proficiencyChipTextActive
+                ]}>
+                  {level.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
       </TouchableOpacity>
     );
   };
@@ -291,6 +413,32 @@ export default function PatternsScreen() {
             </TouchableOpacity>
           ))}
         </ScrollView>
+
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={[styles.filterContainer, styles.sortContainer]}
+        >
+          {sortOptions.map(({ key, label }) => (
+            <TouchableOpacity
+              key={key}
+              style={[
+                styles.filterButton,
+                sortBy === key && styles.filterButtonActive
+              ]}
+              onPress={() => handleSort(key)}
+            >
+              <Text
+                style={[
+                  styles.filterButtonText,
+                  sortBy === key && styles.filterButtonTextActive
+                ]}
+              >
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
         
         <TouchableOpacity 
           style={styles.contributeButton}
@@ -298,6 +446,9 @@ export default function PatternsScreen() {
         >
           <Text style={styles.contributeButtonText}>+ Contribute Pattern</Text>
         </TouchableOpacity>
+        <TouchableOpacity onPress={() => navigation.navigate('PatternReviewQueue')}>
+          <Text style={styles.reviewLinkText}>Review community patterns</Text>
+        </TouchableOpacity>
       </View>
 
       <FlatList
@@ -341,6 +492,9 @@ const styles = StyleSheet.create({
   filterContainer: {
     flexDirection: 'row',
   },
+  sortContainer: {
+    marginTop: 8,
+  },
   filterButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -474,6 +628,33 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     fontWeight: '600',
   },
+  proficiencyRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+    marginHorizontal: 4,
+  },
+  proficiencyChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#ffffff',
+  },
+  proficiencyChipActive: {
+    backgroundColor: '#10b981',
+    borderColor: '#10b981',
+  },
+  proficiencyChipText: {
+    fontSize: 11,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
+  proficiencyChipTextActive: {
+    color: '#ffffff',
+  },
   userContributedTag: {
     backgroundColor: '#fef3c7',
     borderColor: '#f59e0b',
@@ -509,4 +690,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  reviewLinkText: {
+    color: '#6366f1',
+    fontSize: 14,
+    fontWeight: '500',
+    textAlign: 'center',
+  },
 });
@@ -13,6 +13,7 @@ import {
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { useAuth } from '../hooks/useAuth';
+import { LOCATION_GRID_KM, LocationService, PROP_TYPES } from '../services';
 import { ExperienceLevel, PropType } from '../types';
 import * as ImagePicker from 'expo-image-picker';
 
@@ -26,7 +27,6 @@ interface Props {
 }
 
 const EXPERIENCE_LEVELS: ExperienceLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
-const PROP_TYPES: PropType[] = ['clubs', 'balls', 'rings'];
 
 export default function ProfileEditScreen({ navigation }: Props) {
   const { userProfile, updateProfile } = useAuth();
@@ -35,6 +35,7 @@ export default function ProfileEditScreen({ navigation }: Props) {
   const [experience, setExperience] = useState<ExperienceLevel>(userProfile?.experience || 'Beginner');
   const [selectedProps, setSelectedProps] = useState<PropType[]>(userProfile?.preferredProps || []);
   const [avatar, setAvatar] = useState(userProfile?.avatar || '');
+  const [location, setLocation] = useState(userProfile?.location || '');
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
@@ -43,9 +44,13 @@ export default function ProfileEditScreen({ navigation }: Props) {
       setExperience(userProfile.experience);
       setSelectedProps(userProfile.preferredProps);
       setAvatar(userProfile.avatar || '');
+      setLocation(userProfile.location || '');
     }
   }, [userProfile]);
 
+  const resolvedLocation = location.trim() ? LocationService.resolve(location) : null;
+  const locationSuggestions = location.trim() && !resolvedLocation ? LocationService.suggest(location, 4) : [];
+
   const toggleProp = (prop: PropType) => {
     setSelectedProps(prev => 
       prev.includes(prop) 
@@ -91,6 +96,10 @@ export default function ProfileEditScreen({ navigation }: Props) {
         experience,
         preferredProps: selectedProps,
         avatar,
+        location: resolvedLocation?.label || location.trim(),
+        coordinates: resolvedLocation
+          ? { latitude: resolvedLocation.latitude, longitude: resolvedLocation.longitude }
+          : undefined,
       });
       Alert.alert('Success', 'Profile updated successfully!', [
         { text: 'OK', onPress: () => navigation.goBack() }
@@ -142,6 +151,38 @@ export default function ProfileEditScreen({ navigation }: Props) {
             />
           </View>
 
+          {/* Location */}
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>Location</Text>
+            <TextInput
+              style={styles.input}
+              value={location}
+              onChangeText={setLocation}
+              placeholder="City or postcode, e.g. Berkeley, CA"
+              autoCapitalize="words"
+            />
+            <Text style={styles.helperText}>
+              {!location.trim()
+                ? 'Lets jugglers nearby find you. Only your approximate area is shared.'
+                : resolvedLocation
+                  ? `📍 ${resolvedLocation.label} (shared to within ${LOCATION_GRID_KM} km)`
+                  : 'Place not recognised, so distance search won\'t find you'}
+            </Text>
+            {locationSuggestions.length > 0 && (
+              <View style={styles.optionsContainer}>
+                {locationSuggestions.map(suggestion => (
+                  <TouchableOpacity
+                    key={suggestion.placeId}
+                    style={styles.option}
+                    onPress={() => setLocation(suggestion.label)}
+                  >
+                    <Text style={styles.optionText}>{suggestion.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+
           {/* Experience Level */}
           <View style={styles.inputContainer}>
             <Text style={styles.label}>Experience Level</Text>
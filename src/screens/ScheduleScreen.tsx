@@ -9,13 +9,16 @@ import {
   FlatList,
   Alert,
   RefreshControl,
+  Share,
+  Modal,
+  TextInput,
 } from 'react-native';
 import { Calendar, DateData } from 'react-native-calendars';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { useAuth } from '../hooks/useAuth';
-import { ScheduleService, ScheduledSession } from '../services';
+import { ScheduleService, ScheduledSession, RecurrenceFrequency } from '../services';
 
 type ScheduleScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -24,6 +27,12 @@ interface DayGroup {
   sessions: ScheduledSession[];
 }
 
+const REPEAT_LABELS: { [frequency in RecurrenceFrequency]: string } = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+};
+
 export default function ScheduleScreen() {
   const navigation = useNavigation<ScheduleScreenNavigationProp>();
   const { user } = useAuth();
@@ -34,6 +43,9 @@ export default function ScheduleScreen() {
   const [viewMode, setViewMode] = useState<'list' | 'calendar'>('calendar');
   const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
   const [markedDates, setMarkedDates] = useState<{[key: string]: any}>({});
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importing, setImporting] = useState(false);
 
   useEffect(() => {
     loadSessions();
@@ -212,6 +224,45 @@ export default function ScheduleScreen() {
     );
   };
 
+  const handleExport = async () => {
+    if (!user?.id) return;
+    try {
+      const ics = await ScheduleService.exportToICS(user.id);
+      await Share.share({ title: 'PatternPals sessions.ics', message: ics });
+    } catch (error) {
+      console.error('Error exporting sessions:', error);
+      Alert.alert('Error', 'Failed to export sessions. Please try again.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user?.id || !importText.trim()) return;
+    setImporting(true);
+    try {
+      const { imported, skipped, errors } = await ScheduleService.importFromICS(user.id, importText);
+      if (imported === 0 && skipped === 0 && errors.length > 0) {
+        Alert.alert('Import Failed', errors[0]);
+        return;
+      }
+
+      setShowImport(false);
+      setImportText('');
+      await loadSessions();
+
+      const details = [
+        `${imported} session${imported === 1 ? '' : 's'} imported.`,
+        skipped > 0 ? `${skipped} already in your schedule.` : '',
+        errors.length > 0 ? `${errors.length} event${errors.length === 1 ? '' : 's'} could not be read.` : '',
+      ].filter(Boolean).join('\n');
+      Alert.alert('Import Complete', details);
+    } catch (error) {
+      console.error('Error importing sessions:', error);
+      Alert.alert('Error', 'Failed to import sessions. Please try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleNewSession = () => {
     navigation.navigate('SessionScheduling', {});
   };
@@ -245,6 +296,7 @@ export default function ScheduleScreen() {
           </Text>
           <Text style={styles.sessionTime}>
             {formatTime(item.scheduledTime)} ({item.duration} min)
+            {item.recurrence && ` · 🔁 ${REPEAT_LABELS[item.recurrence.frequency]}`}
           </Text>
         </View>
         <View style={styles.statusContainer}>
@@ -305,6 +357,12 @@ export default function ScheduleScreen() {
               📋
             </Text>
           </TouchableOpacity>
+          <TouchableOpacity style={styles.viewToggle} onPress={handleExport}>
+            <Text style={styles.viewToggleText}>📤</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.viewToggle} onPress={() => setShowImport(true)}>
+            <Text style={styles.viewToggleText}>📥</Text>
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.newSessionButton}
             onPress={handleNewSession}
@@ -451,6 +509,45 @@ export default function ScheduleScreen() {
           )}
         </>
       )}
+
+      <Modal
+        visible={showImport}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setShowImport(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Import Sessions</Text>
+            <Text style={styles.modalLabel}>Paste the contents of a calendar (.ics) file</Text>
+            <TextInput
+              style={styles.importInput}
+              value={importText}
+              onChangeText={setImportText}
+              placeholder="BEGIN:VCALENDAR..."
+              placeholderTextColor="#9ca3af"
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <View style={styles.modalButtonContainer}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.modalCancelButton]}
+                onPress={() => setShowImport(false)}
+              >
+                <Text style={styles.modalCancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.modalImportButton, (!importText.trim() || importing) && styles.modalButtonDisabled]}
+                onPress={handleImport}
+                disabled={!importText.trim() || importing}
+              >
+                <Text style={styles.modalImportButtonText}>{importing ? 'Importing...' : 'Import'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -699,4 +796,70 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  modalLabel: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  importInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    height: 160,
+    fontSize: 12,
+    color: '#1f2937',
+    textAlignVertical: 'top',
+    marginBottom: 16,
+  },
+  modalButtonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  modalButtonDisabled: {
+    opacity: 0.5,
+  },
+  modalCancelButton: {
+    backgroundColor: '#f3f4f6',
+  },
+  modalImportButton: {
+    backgroundColor: '#6366f1',
+  },
+  modalCancelButtonText: {
+    color: '#374151',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  modalImportButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
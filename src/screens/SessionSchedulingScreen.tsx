@@ -12,7 +12,9 @@ import {
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { useAuth } from '../hooks/useAuth';
-import { ScheduleService } from '../services';
+import { ScheduleService, RecurrenceFrequency } from '../services';
+import { ChatService } from '../services/chatService';
+import { ChatOutboxService } from '../services/chatOutbox';
 import DateTimePicker from '@react-native-community/datetimepicker';
 
 type SessionSchedulingNavigationProp = NativeStackNavigationProp<
@@ -30,6 +32,13 @@ interface Props {
   };
 }
 
+const REPEAT_OPTIONS: { value: RecurrenceFrequency | null; label: string }[] = [
+  { value: null, label: 'Does not repeat' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
 export default function SessionSchedulingScreen({ navigation, route }: Props) {
   const { user } = useAuth();
   const [sessionDate, setSessionDate] = useState(new Date());
@@ -41,6 +50,7 @@ export default function SessionSchedulingScreen({ navigation, route }: Props) {
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [repeat, setRepeat] = useState<RecurrenceFrequency | null>(null);
 
   const { partnerId } = route.params || {};
 
@@ -80,6 +90,7 @@ export default function SessionSchedulingScreen({ navigation, route }: Props) {
         plannedPatterns: patternList,
         status: 'scheduled' as const,
         notes: notes.trim() || undefined,
+        recurrence: repeat ? { frequency: repeat } : undefined,
       };
 
       // Save to schedule service
@@ -88,6 +99,31 @@ export default function SessionSchedulingScreen({ navigation, route }: Props) {
       console.log('Save result:', success);
 
       if (success) {
+        // Partners get an invite in chat that they can accept or decline; it
+        // goes through the outbox so it's sent later if there's no signal
+        let invited = false;
+        if (partnerId && user.name) {
+          try {
+            const invite = ChatService.createSessionInvite({
+              scheduledTime: scheduledDateTime,
+              duration: sessionData.duration,
+              location: sessionData.location,
+              plannedPatterns: patternList,
+              notes: sessionData.notes,
+            });
+            await ChatOutboxService.enqueue({
+              senderId: user.id,
+              senderName: user.name,
+              recipientId: partnerId,
+              messageType: 'session_invite',
+              ...invite,
+            });
+            invited = true;
+          } catch (error) {
+            console.error('Error sending session invite:', error);
+          }
+        }
+
         // Verify the session was saved by checking if it's in storage
         const allSessions = await ScheduleService.getAllSessions(user.id);
         console.log('All sessions after save:', allSessions.length, 'sessions');
@@ -101,7 +137,7 @@ export default function SessionSchedulingScreen({ navigation, route }: Props) {
         
         Alert.alert(
           'Session Scheduled!',
-          `Your practice session${partnerName.trim() ? ` with ${partnerName.trim()}` : ''} has been scheduled for ${sessionDate.toLocaleDateString()} at ${sessionTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`,
+          `Your practice session${partnerName.trim() ? ` with ${partnerName.trim()}` : ''} has been scheduled for ${sessionDate.toLocaleDateString()} at ${sessionTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.${invited ? ` We've sent ${partnerName.trim() || 'your partner'} an invite in chat.` : ''}`,
           [
             { 
               text: 'View Schedule', 
@@ -185,6 +221,23 @@ export default function SessionSchedulingScreen({ navigation, route }: Props) {
             </TouchableOpacity>
           </View>
 
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>Repeat</Text>
+            <View style={styles.repeatOptions}>
+              {REPEAT_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.label}
+                  style={[styles.repeatChip, repeat === option.value && styles.repeatChipSelected]}
+                  onPress={() => setRepeat(option.value)}
+                >
+                  <Text style={[styles.repeatChipText, repeat === option.value && styles.repeatChipTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
           <View style={styles.inputContainer}>
             <Text style={styles.label}>Location *</Text>
             <TextInput
@@ -320,6 +373,30 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#374151',
   },
+  repeatOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  repeatChip: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#ffffff',
+  },
+  repeatChipSelected: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  repeatChipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  repeatChipTextSelected: {
+    color: '#ffffff',
+  },
   buttonContainer: {
     flexDirection: 'row',
     gap: 12,
@@ -10,6 +10,7 @@ import {
   Alert,
 } from 'react-native';
 import { useAuth } from '../hooks/useAuth';
+import { PROP_TYPES } from '../services';
 import type { PropType, ExperienceLevel } from '../types';
 
 interface Props {
@@ -17,7 +18,6 @@ interface Props {
 }
 
 const experienceLevels: ExperienceLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
-const propTypes: PropType[] = ['clubs', 'balls', 'rings'];
 
 export default function OnboardingScreen({ navigation }: Props) {
   const { createUser } = useAuth();
@@ -121,7 +121,7 @@ export default function OnboardingScreen({ navigation }: Props) {
               Select all that you practice with or want to learn
             </Text>
             <View style={styles.optionsGrid}>
-              {propTypes.map((prop) => (
+              {PROP_TYPES.map((prop) => (
                 <TouchableOpacity
                   key={prop}
                   style={[
@@ -0,0 +1,224 @@
+/**
+ * Availability service
+ * Finds the weekly windows when two or more jugglers are all free.
+ * Each TimeBlock is read in its owner's timezone, converted to minutes of a
+ * UTC week, intersected, and converted back to TimeBlocks for the viewer.
+ */
+
+import { TimeBlock, WeekDay } from '../types';
+
+export interface AvailabilitySchedule {
+  availability: TimeBlock[];
+  timezone?: string; // IANA name, e.g. "America/Los_Angeles"; blocks are read as UTC without one
+}
+
+export interface WeekInterval {
+  start: number; // Minutes since Monday 00:00 UTC
+  end: number;
+}
+
+export const WEEK_DAYS: WeekDay[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const DAY_MINUTES = 24 * 60;
+const WEEK_MINUTES = 7 * DAY_MINUTES;
+const MIN_SHARED_MINUTES = 30; // Shorter overlaps aren't worth a session
+const DAY_LABELS: { [day in WeekDay]: string } = {
+  monday: 'Mon',
+  tuesday: 'Tue',
+  wednesday: 'Wed',
+  thursday: 'Thu',
+  friday: 'Fri',
+  saturday: 'Sat',
+  sunday: 'Sun',
+};
+
+export class AvailabilityService {
+  /**
+   * Windows of at least 30 minutes when everyone is free,
+   * expressed in `displayTimezone` (defaults to the first schedule's timezone)
+   */
+  static findSharedWindows(schedules: AvailabilitySchedule[], displayTimezone?: string): TimeBlock[] {
+    if (schedules.length < 2) return [];
+    const timezone = displayTimezone ?? schedules[0].timezone;
+    return this.toTimeBlocks(this.getSharedIntervals(schedules), timezone);
+  }
+
+  /**
+   * Total minutes per week when everyone is free
+   */
+  static getOverlapMinutes(schedules: AvailabilitySchedule[]): number {
+    if (schedules.length < 2) return 0;
+    return this.getSharedIntervals(schedules)
+      .reduce((total, interval) => total + interval.end - interval.start, 0);
+  }
+
+  /**
+   * Match score bonus (0-20) for shared weekly free time: 5 hours or more earns the full bonus
+   */
+  static getAvailabilityScore(overlapMinutes: number): number {
+    return Math.min(20, Math.round(overlapMinutes / 15));
+  }
+
+  /**
+   * Format a block for display, e.g. "Tue 18:00–20:00"
+   */
+  static formatTimeBlock(block: TimeBlock): string {
+    return `${DAY_LABELS[block.day]} ${block.startTime}–${block.endTime}`;
+  }
+
+  /**
+   * Convert a schedule to sorted, merged intervals of the UTC week
+   */
+  static toWeekIntervals(schedule: AvailabilitySchedule): WeekInterval[] {
+    const offset = this.getTimezoneOffset(schedule.timezone);
+    const intervals: WeekInterval[] = [];
+
+    schedule.availability.forEach(block => {
+      const dayIndex = WEEK_DAYS.indexOf(block.day);
+      const start = parseTime(block.startTime);
+      let end = parseTime(block.endTime);
+      if (dayIndex === -1 || start === null || end === null) return;
+      if (end <= start) end += DAY_MINUTES; // Runs past midnight
+
+      // Local time = UTC + offset, so UTC = local - offset
+      const utcStart = dayIndex * DAY_MINUTES + start - offset;
+      intervals.push(...splitAtWeekBoundary(utcStart, utcStart + (end - start)));
+    });
+
+    return mergeIntervals(intervals);
+  }
+
+  /**
+   * Minutes a timezone is ahead of UTC at `date` (0 when unknown or unsupported)
+   */
+  static getTimezoneOffset(timezone?: string, date: Date = new Date()): number {
+    if (!timezone) return 0;
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+      }).formatToParts(date);
+      const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+      const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour') % 24, value('minute'));
+      const wholeMinutes = Math.floor(date.getTime() / 60000) * 60000;
+      return Math.round((asUtc - wholeMinutes) / 60000);
+    } catch (error) {
+      console.error('Error reading timezone offset:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * The device's IANA timezone, if the platform reports one
+   */
+  static getDeviceTimezone(): string | undefined {
+    try {
+      return Intl.DateTimeFormat().resolvedOptions().timeZone;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Intervals when everyone is free that are long enough for a session. A
+   * window over the end of the UTC week is joined up before it's measured.
+   */
+  private static getSharedIntervals(schedules: AvailabilitySchedule[]): WeekInterval[] {
+    const shared = schedules
+      .map(schedule => this.toWeekIntervals(schedule))
+      .reduce((common, intervals) => intersectIntervals(common, intervals));
+    return joinAcrossWeekBoundary(shared).filter(interval => interval.end - interval.start >= MIN_SHARED_MINUTES);
+  }
+
+  /**
+   * Convert UTC week intervals back to per-day TimeBlocks in a timezone,
+   * splitting windows that cross midnight
+   */
+  private static toTimeBlocks(intervals: WeekInterval[], timezone?: string): TimeBlock[] {
+    const offset = this.getTimezoneOffset(timezone);
+    const local = mergeIntervals(
+      intervals.flatMap(interval => splitAtWeekBoundary(interval.start + offset, interval.end + offset))
+    );
+
+    const blocks: TimeBlock[] = [];
+    local.forEach(interval => {
+      let start = interval.start;
+      while (start < interval.end) {
+        const dayIndex = Math.floor(start / DAY_MINUTES);
+        const dayEnd = Math.min(interval.end, (dayIndex + 1) * DAY_MINUTES);
+        blocks.push({
+          day: WEEK_DAYS[dayIndex],
+          startTime: formatTime(start - dayIndex * DAY_MINUTES),
+          endTime: formatTime(dayEnd - dayIndex * DAY_MINUTES),
+        });
+        start = dayEnd;
+      }
+    });
+    return blocks;
+  }
+}
+
+function parseTime(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+function formatTime(minutes: number): string {
+  // Midnight at the end of a day is written 24:00 so the block still reads forwards
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function splitAtWeekBoundary(start: number, end: number): WeekInterval[] {
+  const shift = Math.floor(start / WEEK_MINUTES) * WEEK_MINUTES;
+  const from = start - shift;
+  const to = end - shift;
+  if (to <= WEEK_MINUTES) return [{ start: from, end: to }];
+  return [{ start: from, end: WEEK_MINUTES }, { start: 0, end: to - WEEK_MINUTES }];
+}
+
+// Ends past WEEK_MINUTES when a window runs from Sunday into Monday (UTC)
+function joinAcrossWeekBoundary(intervals: WeekInterval[]): WeekInterval[] {
+  if (intervals.length < 2) return intervals;
+  const first = intervals[0];
+  const last = intervals[intervals.length - 1];
+  if (first.start > 0 || last.end < WEEK_MINUTES) return intervals;
+  return [...intervals.slice(1, -1), { start: last.start, end: WEEK_MINUTES + first.end }];
+}
+
+function mergeIntervals(intervals: WeekInterval[]): WeekInterval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: WeekInterval[] = [];
+  sorted.forEach(interval => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  });
+  return merged;
+}
+
+function intersectIntervals(a: WeekInterval[], b: WeekInterval[]): WeekInterval[] {
+  const result: WeekInterval[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i].start, b[j].start);
+    const end = Math.min(a[i].end, b[j].end);
+    if (start < end) result.push({ start, end });
+    if (a[i].end < b[j].end) i++;
+    else j++;
+  }
+  return result;
+}
@@ -0,0 +1,320 @@
+/**
+ * Chat outbox
+ * Messages are saved on the device with a client-generated ID before they're
+ * sent, so nothing typed without signal is lost. While offline they wait and
+ * are sent once the server can be reached again (checked periodically and
+ * whenever the app comes back to the foreground). Other failures are retried
+ * with exponential backoff and marked failed after MAX_ATTEMPTS, when the user
+ * can retry or discard them. The client ID makes a resend of a message the
+ * server already has a no-op.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { ChatMessage, ChatMessageMetadata, ChatService } from './chatService';
+import { RepositoryProvider } from './repositoryProvider';
+import { SyncService } from './sync';
+
+/**
+ * Where a message is on its way to the other members: waiting in the outbox,
+ * saved on the server, on a recipient's device, read, or given up on
+ */
+export type ChatDeliveryState = 'queued' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface OutboxMessage {
+  clientId: string;
+  senderId: string;
+  senderName: string;
+  conversationId?: string; // Unset for a direct message that starts a conversation
+  recipientId?: string; // Unset for group messages
+  messageText: string;
+  messageType: ChatMessage['messageType'];
+  metadata?: ChatMessageMetadata;
+  createdAt: string;
+  attempts: number; // Failed attempts while online
+  nextAttemptAt?: number;
+  lastError?: string;
+  failed?: boolean; // Out of attempts; waits for the user to retry or discard it
+}
+
+export type OutboxListener = (outbox: OutboxMessage[], sent: ChatMessage[]) => void;
+
+const OUTBOX_KEY = 'chat_outbox';
+
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const OFFLINE_RETRY_MS = 30 * 1000; // How often to check whether the connection is back
+
+export class ChatOutboxService {
+  private static listeners: Set<OutboxListener> = new Set();
+  private static flushing: Promise<void> | null = null;
+  private static nextFlush: Promise<void> | null = null;
+  private static mutations: Promise<void> = Promise.resolve(); // Outbox writes, one after another
+  private static retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private static appStateSubscription: NativeEventSubscription | null = null;
+
+  /**
+   * Save a message to the outbox and try to send it straight away. Resolves
+   * once that attempt is over, whether or not it got through; throws only if
+   * the message could never be sent (e.g. an empty message).
+   */
+  static async enqueue(
+    message: Omit<OutboxMessage, 'clientId' | 'createdAt' | 'attempts'>
+  ): Promise<OutboxMessage> {
+    if (!message.recipientId && !message.conversationId) {
+      throw new Error('Messages need a recipient or a conversation');
+    }
+    ChatService.requireValidMessage(message.messageType, message.messageText, message.metadata);
+
+    const queued: OutboxMessage = {
+      ...message,
+      clientId: `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    };
+    await this.mutate(outbox => [...outbox, queued]);
+
+    await this.flush();
+    return queued;
+  }
+
+  /**
+   * Unsent messages from a user, oldest first
+   */
+  static async getOutbox(userId: string): Promise<OutboxMessage[]> {
+    const outbox = await this.getAll();
+    return outbox.filter(message => message.senderId === userId);
+  }
+
+  /**
+   * Try a failed message again from scratch
+   */
+  static async retry(clientId: string): Promise<void> {
+    await this.mutate(outbox => outbox.map(message => message.clientId === clientId
+      ? { ...message, attempts: 0, failed: false, nextAttemptAt: undefined, lastError: undefined }
+      : message));
+    await this.flush();
+  }
+
+  /**
+   * Drop a message that hasn't been sent
+   */
+  static async discard(clientId: string): Promise<void> {
+    await this.mutate(outbox => outbox.filter(message => message.clientId !== clientId));
+  }
+
+  /**
+   * Send every message that's due. Only one flush runs at a time; asking for
+   * another while one is running queues a single follow-up flush.
+   */
+  static flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.sendDue()
+        .catch(error => {
+          console.error('💬 Outbox: Error flushing outbox:', error);
+        })
+        .finally(() => {
+          this.flushing = null;
+          this.scheduleRetry();
+        });
+      return this.flushing;
+    }
+
+    if (!this.nextFlush) {
+      this.nextFlush = this.flushing.then(() => {
+        this.nextFlush = null;
+        return this.flush();
+      });
+    }
+    return this.nextFlush;
+  }
+
+  /**
+   * Hear about outbox changes and messages that have been sent. The first
+   * listener starts resending when the app comes back to the foreground.
+   */
+  static subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+        if (state === 'active') this.flush();
+      });
+      this.flush();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.appStateSubscription?.remove();
+        this.appStateSubscription = null;
+        if (this.retryTimer) clearTimeout(this.retryTimer);
+        this.retryTimer = null;
+      }
+    };
+  }
+
+  static cleanup(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.listeners.clear();
+  }
+
+  /**
+   * Messages go out oldest first. Once one in a conversation can't be sent,
+   * later ones in the same conversation wait so they stay in order, including
+   * behind a failed message until it's retried or discarded.
+   */
+  private static async sendDue(): Promise<void> {
+    await this.mutations;
+    const outbox = await this.getAll();
+    const now = Date.now();
+    const waiting = new Set<string>();
+    const results = new Map<string, OutboxMessage | null>(); // null once sent
+    const sent: ChatMessage[] = [];
+    let offline: boolean | null = null;
+
+    for (const message of outbox) {
+      const key = this.getOrderKey(message);
+      if (waiting.has(key)) continue;
+      if (message.failed || (message.nextAttemptAt && message.nextAttemptAt > now)) {
+        waiting.add(key);
+        continue;
+      }
+
+      try {
+        sent.push(await this.send(message));
+        results.set(message.clientId, null);
+      } catch (error) {
+        waiting.add(key);
+        if (offline === null) offline = await this.isOffline();
+        const lastError = error instanceof Error ? error.message : String(error);
+
+        if (offline) {
+          // Not the message's fault; keep it queued until the connection is back
+          results.set(message.clientId, { ...message, lastError, nextAttemptAt: now + OFFLINE_RETRY_MS });
+        } else {
+          const attempts = message.attempts + 1;
+          console.error(`💬 Outbox: Attempt ${attempts} to send ${message.clientId} failed:`, lastError);
+          results.set(message.clientId, {
+            ...message,
+            attempts,
+            lastError,
+            failed: attempts >= MAX_ATTEMPTS,
+            nextAttemptAt: now + this.getBackoff(attempts),
+          });
+        }
+      }
+    }
+
+    if (results.size === 0) return;
+
+    // Messages may have been queued, retried or discarded while these were being sent
+    await this.mutate(latest => latest
+      .map(message => (results.has(message.clientId) ? results.get(message.clientId)! : message))
+      .filter((message): message is OutboxMessage => message !== null), sent);
+  }
+
+  private static async send(message: OutboxMessage): Promise<ChatMessage> {
+    const sent = message.recipientId
+      ? await ChatService.sendMessage(
+        message.senderId,
+        message.senderName,
+        message.recipientId,
+        message.messageText,
+        message.messageType,
+        message.metadata,
+        message.clientId
+      )
+      : await ChatService.sendGroupMessage(
+        message.conversationId!,
+        message.senderId,
+        message.senderName,
+        message.messageText,
+        message.messageType,
+        message.metadata,
+        message.clientId
+      );
+    if (!sent) throw new Error('Message was not saved');
+    return sent;
+  }
+
+  // The on-device store is always reachable; only the server can be offline
+  private static async isOffline(): Promise<boolean> {
+    return RepositoryProvider.isRemote() && !(await SyncService.isOnline());
+  }
+
+  /**
+   * Wake up when the next waiting message is due
+   */
+  private static async scheduleRetry(): Promise<void> {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+
+    // Messages behind a failed one wait for the user, not the timer
+    const blocked = new Set<string>();
+    const due: number[] = [];
+    (await this.getAll()).forEach(message => {
+      const key = this.getOrderKey(message);
+      if (message.failed) blocked.add(key);
+      else if (!blocked.has(key)) due.push(message.nextAttemptAt || 0);
+    });
+    if (due.length === 0) return;
+
+    const delay = Math.max(Math.min(...due) - Date.now(), 1000);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  // Messages with the same key are delivered in the order they were sent
+  private static getOrderKey(message: OutboxMessage): string {
+    return message.recipientId ? `direct:${message.recipientId}` : message.conversationId!;
+  }
+
+  private static async getAll(): Promise<OutboxMessage[]> {
+    try {
+      const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+      const outbox: OutboxMessage[] = stored ? JSON.parse(stored) : [];
+      return outbox.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } catch (error) {
+      console.error('💬 Outbox: Error loading outbox:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read, change and save the outbox. Every change goes through here, one at a
+   * time, so no change is saved over another made in the meantime.
+   */
+  private static mutate(
+    change: (outbox: OutboxMessage[]) => OutboxMessage[],
+    sent: ChatMessage[] = []
+  ): Promise<void> {
+    const next = this.mutations.then(async () => {
+      await this.save(change(await this.getAll()), sent);
+    });
+    this.mutations = next.catch(error => {
+      console.error('💬 Outbox: Error saving outbox:', error);
+    });
+    return next;
+  }
+
+  private static async save(outbox: OutboxMessage[], sent: ChatMessage[]): Promise<void> {
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+    this.listeners.forEach(listener => {
+      try {
+        listener(outbox, sent);
+      } catch (error) {
+        console.error('💬 Outbox: Error in outbox listener:', error);
+      }
+    });
+  }
+
+  private static getBackoff(attempts: number): number {
+    return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+  }
+}
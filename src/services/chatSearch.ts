@@ -0,0 +1,357 @@
+/**
+ * Chat search
+ * A full-text index of the user's chat history kept on the device, so old
+ * messages can be found without scrolling. It covers message text, shared
+ * pattern names and siteswaps, session invite details and sender names.
+ * The index is saved to AsyncStorage and caught up incrementally: each
+ * conversation remembers how far it has been indexed, and messages that
+ * arrive in real time are added as they come.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ChatMessage, ChatService } from './chatService';
+
+export interface ChatSearchOptions {
+  conversationId?: string; // Only search this conversation
+  limit?: number;
+}
+
+export interface ChatSearchResult {
+  messageId: string;
+  conversationId: string;
+  senderId: string;
+  senderName: string;
+  createdAt: Date;
+  snippet: string; // The part of the message around the first match
+  highlights: { start: number; end: number }[]; // Matched words in the snippet
+  score: number;
+}
+
+interface IndexedMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  senderName: string;
+  text: string; // Everything searchable apart from the sender's name
+  createdAt: string;
+}
+
+interface StoredIndex {
+  version: number;
+  messages: IndexedMessage[];
+  indexedUntil: { [conversationId: string]: string }; // created_at of the newest message the backfill has reached
+}
+
+const INDEX_KEY = 'chat_search_index';
+const INDEX_VERSION = 1;
+
+const PAGE_SIZE = 500;
+const SNIPPET_RADIUS = 40; // Characters of context either side of the first match
+const SENDER_WEIGHT = 0.5; // A sender's name counts for less than what they wrote
+const PREFIX_WEIGHT = 0.6; // "sitesw" finding "siteswap" ranks below an exact word
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'at', 'for', 'i', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'that', 'this']);
+
+export class ChatSearchService {
+  private static userId: string | null = null;
+  private static loading: Promise<void> | null = null;
+  private static messages: Map<string, IndexedMessage> = new Map();
+  private static indexedUntil: { [conversationId: string]: string } = {};
+  private static postings: Map<string, Map<string, number>> = new Map(); // token -> message ID -> weight
+  private static vocabulary: string[] | null = null; // Sorted tokens for prefix lookups; rebuilt when stale
+
+  /**
+   * Index any messages in the user's conversations that aren't indexed yet,
+   * and forget conversations the user is no longer in
+   */
+  static async refresh(userId: string): Promise<void> {
+    try {
+      await this.load(userId);
+      const conversations = await ChatService.getConversations(userId);
+      const conversationIds = new Set(conversations.map(conversation => conversation.id));
+
+      Array.from(this.messages.values())
+        .filter(message => !conversationIds.has(message.conversationId))
+        .forEach(message => this.remove(message.id));
+      Object.keys(this.indexedUntil)
+        .filter(conversationId => !conversationIds.has(conversationId))
+        .forEach(conversationId => delete this.indexedUntil[conversationId]);
+
+      for (const conversation of conversations) {
+        const indexedUntil = this.indexedUntil[conversation.id];
+        if (indexedUntil && new Date(indexedUntil) >= conversation.lastMessageAt) continue;
+
+        let since = indexedUntil ? new Date(indexedUntil) : undefined;
+        for (;;) {
+          const page = await ChatService.getMessagesSince(conversation.id, since, PAGE_SIZE);
+          page.forEach(message => this.add(message));
+          const last = page[page.length - 1];
+          // Only the backfill moves this on; live messages can arrive before the history is indexed
+          if (last) this.indexedUntil[conversation.id] = last.createdAt.toISOString();
+          // A full page may have more after it; stop if it didn't move us forward
+          if (page.length < PAGE_SIZE || !last || (since && last.createdAt.getTime() === since.getTime())) break;
+          since = last.createdAt;
+        }
+      }
+
+      await this.save();
+    } catch (error) {
+      console.error('🔍 Chat search: Error refreshing index:', error);
+    }
+  }
+
+  /**
+   * Add messages as they arrive, e.g. from subscribeToMessages
+   */
+  static async addMessages(userId: string, messages: ChatMessage[]): Promise<void> {
+    try {
+      await this.load(userId);
+      messages.forEach(message => this.add(message));
+      await this.save();
+    } catch (error) {
+      console.error('🔍 Chat search: Error adding messages:', error);
+    }
+  }
+
+  /**
+   * Messages matching a query, best first. Query words also match longer
+   * words they start, so results show up while typing. Messages
+   * matching more of the words rank first, then rarer words and exact matches
+   * beat common words and prefixes, and newer messages edge out older ones.
+   */
+  static async search(userId: string, query: string, options: ChatSearchOptions = {}): Promise<ChatSearchResult[]> {
+    await this.load(userId);
+    const terms = Array.from(new Set(this.tokenize(query).filter(term => !STOP_WORDS.has(term))));
+    if (terms.length === 0) return [];
+
+    const total = this.messages.size;
+    const scores = new Map<string, { score: number; matched: number; tokens: Set<string> }>();
+
+    terms.forEach(term => {
+      const tokens = this.findTokens(term);
+      const best = new Map<string, { score: number; token: string }>();
+
+      tokens.forEach(token => {
+        const postings = this.postings.get(token)!;
+        const idf = Math.log(1 + total / postings.size);
+        const quality = token === term ? 1 : PREFIX_WEIGHT;
+        postings.forEach((weight, messageId) => {
+          const score = idf * quality * Math.log2(1 + weight);
+          const current = best.get(messageId);
+          if (!current || score > current.score) best.set(messageId, { score, token });
+        });
+      });
+
+      best.forEach(({ score, token }, messageId) => {
+        const entry = scores.get(messageId) || { score: 0, matched: 0, tokens: new Set<string>() };
+        entry.score += score;
+        entry.matched += 1;
+        entry.tokens.add(token);
+        scores.set(messageId, entry);
+      });
+    });
+
+    const now = Date.now();
+    const results: ChatSearchResult[] = [];
+    scores.forEach((entry, messageId) => {
+      const message = this.messages.get(messageId)!;
+      if (options.conversationId && message.conversationId !== options.conversationId) return;
+
+      const ageDays = Math.max(0, now - new Date(message.createdAt).getTime()) / (24 * 60 * 60 * 1000);
+      const recency = 1 + 0.25 * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+      const coverage = entry.matched / terms.length;
+      const { snippet, highlights } = this.createSnippet(message.text || message.senderName, Array.from(entry.tokens));
+
+      results.push({
+        messageId,
+        conversationId: message.conversationId,
+        senderId: message.senderId,
+        senderName: message.senderName,
+        createdAt: new Date(message.createdAt),
+        snippet,
+        highlights,
+        score: entry.score * coverage * coverage * recency,
+      });
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score || b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, options.limit ?? 50);
+  }
+
+  /**
+   * Forget the index, e.g. on sign out
+   */
+  static async clear(userId: string): Promise<void> {
+    await AsyncStorage.removeItem(`${INDEX_KEY}_${userId}`);
+    if (this.userId === userId) this.reset(null);
+  }
+
+  /**
+   * Lowercase words and numbers without accents. Siteswaps split on their
+   * punctuation, so "(6p,6p)(6,6)" gives "6p" and "6".
+   */
+  static tokenize(text: string): string[] {
+    return normalize(text).match(/[a-z0-9]+/g) || [];
+  }
+
+  /**
+   * What a message is found by: its text, plus the details of shared patterns
+   * and session invites that the text doesn't spell out
+   */
+  private static getSearchableText(message: ChatMessage): string {
+    const share = ChatService.getPatternShare(message);
+    if (share) {
+      return [share.patternName, share.siteswap, share.difficulty].filter(Boolean).join(' • ');
+    }
+    const invite = ChatService.getSessionInvite(message);
+    if (invite) {
+      return [message.messageText, invite.plannedPatterns.join(', '), invite.notes].filter(Boolean).join(' • ');
+    }
+    return message.messageText;
+  }
+
+  private static add(message: ChatMessage): void {
+    // Unsent messages only have a client ID; they're indexed once they're saved
+    if (message.clientId && message.id === message.clientId) return;
+
+    this.remove(message.id);
+    const indexed: IndexedMessage = {
+      id: message.id,
+      conversationId: message.conversationId,
+      senderId: message.senderId,
+      senderName: message.senderName,
+      text: this.getSearchableText(message),
+      createdAt: message.createdAt.toISOString(),
+    };
+    this.messages.set(indexed.id, indexed);
+    this.addPostings(indexed);
+  }
+
+  private static addPostings(message: IndexedMessage): void {
+    const weights = new Map<string, number>();
+    this.tokenize(message.text).forEach(token => weights.set(token, (weights.get(token) || 0) + 1));
+    this.tokenize(message.senderName).forEach(token => weights.set(token, (weights.get(token) || 0) + SENDER_WEIGHT));
+
+    weights.forEach((weight, token) => {
+      if (!this.postings.has(token)) {
+        this.postings.set(token, new Map());
+        this.vocabulary = null;
+      }
+      this.postings.get(token)!.set(message.id, weight);
+    });
+  }
+
+  private static remove(messageId: string): void {
+    const existing = this.messages.get(messageId);
+    if (!existing) return;
+    this.messages.delete(messageId);
+    [...this.tokenize(existing.text), ...this.tokenize(existing.senderName)].forEach(token => {
+      const postings = this.postings.get(token);
+      postings?.delete(messageId);
+      if (postings && postings.size === 0) {
+        this.postings.delete(token);
+        this.vocabulary = null;
+      }
+    });
+  }
+
+  /**
+   * The term itself and every indexed token it's a prefix of
+   */
+  private static findTokens(term: string): string[] {
+    if (!this.vocabulary) this.vocabulary = Array.from(this.postings.keys()).sort();
+    const vocabulary = this.vocabulary;
+
+    // Binary search for the first token >= term; prefix matches follow it
+    let low = 0;
+    let high = vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (vocabulary[mid] < term) low = mid + 1;
+      else high = mid;
+    }
+
+    const tokens: string[] = [];
+    for (let i = low; i < vocabulary.length && vocabulary[i].startsWith(term); i++) {
+      tokens.push(vocabulary[i]);
+    }
+    return tokens;
+  }
+
+  /**
+   * Up to SNIPPET_RADIUS characters either side of the first matching word,
+   * with every matching word marked
+   */
+  private static createSnippet(text: string, tokens: string[]): Pick<ChatSearchResult, 'snippet' | 'highlights'> {
+    const words: { start: number; end: number }[] = [];
+    const wordPattern = /[a-z0-9\u00c0-\u024f]+/gi;
+    let match: RegExpExecArray | null;
+    while ((match = wordPattern.exec(text)) !== null) {
+      const word = normalize(match[0]);
+      if (tokens.some(token => word.startsWith(token))) {
+        words.push({ start: match.index, end: match.index + match[0].length });
+      }
+    }
+
+    const first = words[0];
+    const start = first && first.start > SNIPPET_RADIUS ? text.lastIndexOf(' ', first.start - SNIPPET_RADIUS) + 1 : 0;
+    const endSearch = first ? first.end + SNIPPET_RADIUS : SNIPPET_RADIUS * 2;
+    const spaceAfter = text.indexOf(' ', endSearch);
+    const end = endSearch >= text.length || spaceAfter === -1 ? text.length : spaceAfter;
+
+    const prefix = start > 0 ? '…' : '';
+    const snippet = `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+    const highlights = words
+      .filter(word => word.start >= start && word.end <= end)
+      .map(word => ({ start: word.start - start + prefix.length, end: word.end - start + prefix.length }));
+    return { snippet, highlights };
+  }
+
+  private static load(userId: string): Promise<void> {
+    if (this.userId === userId && this.loading) return this.loading;
+
+    this.reset(userId);
+    this.loading = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(`${INDEX_KEY}_${userId}`);
+        const index: StoredIndex | null = stored ? JSON.parse(stored) : null;
+        // Indexes from older versions are rebuilt by the next refresh
+        if (!index || index.version !== INDEX_VERSION || this.userId !== userId) return;
+
+        index.messages.forEach(message => {
+          this.messages.set(message.id, message);
+          this.addPostings(message);
+        });
+        this.indexedUntil = index.indexedUntil;
+      } catch (error) {
+        console.error('🔍 Chat search: Error loading index:', error);
+      }
+    })();
+    return this.loading;
+  }
+
+  private static async save(): Promise<void> {
+    if (!this.userId) return;
+    const index: StoredIndex = {
+      version: INDEX_VERSION,
+      messages: Array.from(this.messages.values()),
+      indexedUntil: this.indexedUntil,
+    };
+    await AsyncStorage.setItem(`${INDEX_KEY}_${this.userId}`, JSON.stringify(index));
+  }
+
+  private static reset(userId: string | null): void {
+    this.userId = userId;
+    this.loading = null;
+    this.messages = new Map();
+    this.indexedUntil = {};
+    this.postings = new Map();
+    this.vocabulary = null;
+  }
+}
+
+function normalize(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
@@ -1,111 +1,206 @@
-import { supabase, isSupabaseConfigured } from './supabase';
+import { DataRepository, RepositoryError, Row, eq, gt, gte, isIn, isNull, lt, neq } from './repository';
+import { RepositoryProvider } from './repositoryProvider';
+import { PatternShareService } from './patternShare';
+import { ScheduleService, ScheduledSession } from './schedule';
+import { UserPatternService } from './userPatterns';
+import { ValidationService } from './validationService';
+import { getPatternById } from '../data/patterns';
+import { ExperienceLevel, Pattern } from '../types';
 
 export interface ChatMessage {
   id: string;
   conversationId: string;
   senderId: string;
   senderName: string;
-  recipientId: string;
+  recipientId?: string; // Unset in group conversations, where every member receives it
+  clientId?: string; // Set by the sending device; resending the same clientId doesn't duplicate the message
   messageText: string;
   messageType: 'text' | 'image' | 'pattern_share' | 'session_invite';
   readAt?: Date;
   deliveredAt?: Date;
   createdAt: Date;
-  metadata?: any;
+  metadata?: ChatMessageMetadata; // Set on pattern_share and session_invite messages
+}
+
+/**
+ * A shared pattern; carries enough to show the card without loading the pattern
+ */
+export interface PatternShareMetadata {
+  patternId: string;
+  patternName: string;
+  link: string; // patternpals:// link; contributed patterns carry the whole pattern
+  siteswap?: string;
+  difficulty: ExperienceLevel;
+  requiredJugglers: number;
+}
+
+export type SessionInviteResponse = 'accepted' | 'declined';
+
+/**
+ * A proposed practice session; each recipient's answer is kept on the message
+ */
+export interface SessionInviteMetadata {
+  scheduledTime: string; // ISO 8601
+  duration: number; // minutes
+  location: string;
+  plannedPatterns: string[];
+  notes?: string;
+  responses: { [userId: string]: SessionInviteResponse };
+}
+
+export type ChatMessageMetadata = PatternShareMetadata | SessionInviteMetadata;
+
+export type SessionInviteDetails = Pick<ScheduledSession, 'scheduledTime' | 'duration' | 'plannedPatterns' | 'notes'> & {
+  location: string;
+};
+
+export type ChatMemberRole = 'owner' | 'member';
+
+export interface ChatMember {
+  userId: string;
+  name: string;
+  role: ChatMemberRole; // Owners manage a group's members and name
+  joinedAt: Date;
+  lastReadAt?: Date; // Messages sent up to this time have been read
 }
 
 export interface ChatConversation {
   id: string;
-  user1Id: string;
-  user2Id: string;
-  user1Name: string;
-  user2Name: string;
+  isGroup: boolean;
+  title?: string; // Group name; direct conversations are named after the other member
+  members: ChatMember[];
+  createdBy?: string;
   createdAt: Date;
   updatedAt: Date;
   lastMessageAt: Date;
   lastMessage?: string;
   lastMessageSenderId?: string;
   unreadCount?: number;
+  preferences?: ChatPreferences; // The current user's settings; unset until they change one
 }
 
 export interface ChatPreferences {
   id: string;
   userId: string;
   conversationId: string;
-  isMuted: boolean;
-  isPinned: boolean;
+  isMuted: boolean; // No notifications and left out of the unread badge
+  mutedUntil?: Date; // When a timed mute ends; unset mutes until turned off
+  isPinned: boolean; // Listed first
+  isArchived: boolean; // Listed last, under Archived
   lastReadMessageId?: string;
-  notificationEnabled: boolean;
+  notificationEnabled: boolean; // Notifications only; unlike a mute, still counts as unread
   updatedAt: Date;
 }
 
+export type ChatPreferenceChanges = Partial<Pick<
+  ChatPreferences,
+  'isMuted' | 'mutedUntil' | 'isPinned' | 'isArchived' | 'lastReadMessageId' | 'notificationEnabled'
+>>;
+
+// Passing groups are usually 3-6 jugglers; this leaves room for a club night
+const MAX_GROUP_MEMBERS = 12;
+
 /**
  * Service for managing in-app chat between connected users
- * Provides real-time messaging capabilities with offline support
+ * Provides real-time messaging capabilities with offline support. Every
+ * conversation has a member list; direct conversations have two members and
+ * groups are created by an owner who manages who's in them.
  */
 export class ChatService {
-  private static conversationListeners: Map<string, any> = new Map();
-  private static messageListeners: Map<string, any> = new Map();
+  private static conversationListeners: Map<string, () => void> = new Map();
+  private static messageListeners: Map<string, () => void> = new Map();
+  private static memberListeners: Map<string, () => void> = new Map();
 
   /**
    * Get all conversations for the current user
    */
   static async getConversations(userId: string): Promise<ChatConversation[]> {
     try {
-      if (!isSupabaseConfigured() || !supabase) {
-        console.log('💬 Chat: Supabase not configured, using demo conversations');
-        return this.getDemoConversations(userId);
+      const conversations = await this.selectConversations(RepositoryProvider.get(), userId);
+      console.log(`💬 Chat: Loaded ${conversations.length} conversations for user`);
+      return conversations;
+    } catch (error) {
+      console.error('💬 Chat: Error fetching conversations, using local repository:', error);
+      try {
+        return await this.selectConversations(RepositoryProvider.getLocal(), userId);
+      } catch (fallbackError) {
+        console.error('💬 Chat: Error in getConversations:', fallbackError);
+        return [];
       }
+    }
+  }
 
-      const { data, error } = await supabase
-        .from('chat_conversations')
-        .select(`
-          id,
-          user1_id,
-          user2_id,
-          user1_name,
-          user2_name,
-          created_at,
-          updated_at,
-          last_message_at,
-          last_message,
-          last_message_sender_id
-        `)
-        .or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
-        .order('last_message_at', { ascending: false });
-
-      if (error) {
-        console.error('💬 Chat: Error fetching conversations:', error);
-        return this.getDemoConversations(userId);
-      }
+  private static async selectConversations(repository: DataRepository, userId: string): Promise<ChatConversation[]> {
+    const isLocal = RepositoryProvider.isLocalStore(repository);
+    const membershipQuery = { filters: [eq('user_id', userId)] };
+    if (isLocal) await this.migrateDirectConversations(repository, userId);
+    let memberships = await repository.select('chat_conversation_members', membershipQuery);
+    if (memberships.length === 0 && isLocal) {
+      await this.seedDemoChat(repository, userId);
+      await this.migrateDirectConversations(repository, userId);
+      memberships = await repository.select('chat_conversation_members', membershipQuery);
+    }
+    if (memberships.length === 0) return [];
+
+    const conversationIds = memberships.map(membership => membership.conversation_id);
+    const [rows, memberRows, preferenceRows] = await Promise.all([
+      repository.select('chat_conversations', {
+        filters: [isIn('id', conversationIds)],
+        orderBy: { column: 'last_message_at', ascending: false },
+      }),
+      repository.select('chat_conversation_members', { filters: [isIn('conversation_id', conversationIds)] }),
+      // Conversations still list without preferences
+      repository.select('chat_preferences', { filters: [eq('user_id', userId)] }).catch(error => {
+        console.error('💬 Chat: Error loading chat preferences:', error);
+        return [] as Row[];
+      }),
+    ]);
+
+    // Get unread count for each conversation
+    const conversations = await Promise.all(rows.map(async conv => {
+      const membership = memberships.find(row => row.conversation_id === conv.id)!;
+      const preferences = preferenceRows.find(row => row.conversation_id === conv.id);
+      return {
+        ...this.toConversation(conv, memberRows.filter(row => row.conversation_id === conv.id)),
+        unreadCount: await this.countUnread(repository, conv.id, userId, membership.last_read_at),
+        preferences: preferences ? this.toPreferences(preferences) : undefined,
+      };
+    }));
 
-      // Get unread count for each conversation
-      const conversations: ChatConversation[] = await Promise.all(
-        (data || []).map(async (conv: any) => {
-          const unreadCount = await this.getUnreadMessageCount(userId, conv.id);
-          
-          return {
-            id: conv.id,
-            user1Id: conv.user1_id,
-            user2Id: conv.user2_id,
-            user1Name: conv.user1_name,
-            user2Name: conv.user2_name,
-            createdAt: new Date(conv.created_at),
-            updatedAt: new Date(conv.updated_at),
-            lastMessageAt: new Date(conv.last_message_at),
-            lastMessage: conv.last_message,
-            lastMessageSenderId: conv.last_message_sender_id,
-            unreadCount
-          };
-        })
-      );
+    // Pinned first and archived last, each newest first
+    const rank = (conversation: ChatConversation) =>
+      conversation.preferences?.isArchived ? 2 : conversation.preferences?.isPinned ? 0 : 1;
+    return conversations.sort((a, b) => rank(a) - rank(b) || b.lastMessageAt.getTime() - a.lastMessageAt.getTime());
+  }
 
-      console.log(`💬 Chat: Loaded ${conversations.length} conversations for user`);
-      return conversations;
+  /**
+   * Get one conversation with its members
+   */
+  static async getConversation(conversationId: string): Promise<ChatConversation | null> {
+    try {
+      const repository = RepositoryProvider.get();
+      const [row] = await repository.select('chat_conversations', { filters: [eq('id', conversationId)], limit: 1 });
+      if (!row) return null;
+      const members = await repository.select('chat_conversation_members', { filters: [eq('conversation_id', conversationId)] });
+      return this.toConversation(row, members);
+    } catch (error) {
+      console.error('💬 Chat: Error in getConversation:', error);
+      return null;
+    }
+  }
 
+  /**
+   * Get the members of a conversation, owners first
+   */
+  static async getMembers(conversationId: string): Promise<ChatMember[]> {
+    try {
+      const rows = await RepositoryProvider.get().select('chat_conversation_members', {
+        filters: [eq('conversation_id', conversationId)],
+      });
+      return this.toMembers(rows);
     } catch (error) {
-      console.error('💬 Chat: Error in getConversations:', error);
-      return this.getDemoConversations(userId);
+      console.error('💬 Chat: Error in getMembers:', error);
+      return [];
     }
   }
 
@@ -117,57 +212,79 @@ export class ChatService {
     limit: number = 50,
     offset: number = 0
   ): Promise<ChatMessage[]> {
-    try {
-      if (!isSupabaseConfigured() || !supabase) {
-        console.log('💬 Chat: Supabase not configured, using demo messages');
-        return this.getDemoMessages(conversationId);
-      }
+    const query = {
+      filters: [eq('conversation_id', conversationId)],
+      orderBy: { column: 'created_at', ascending: false },
+      limit,
+      offset,
+    };
 
-      const { data, error } = await supabase
-        .from('chat_messages')
-        .select(`
-          id,
-          conversation_id,
-          sender_id,
-          sender_name,
-          recipient_id,
-          message_text,
-          message_type,
-          read_at,
-          delivered_at,
-          created_at,
-          metadata
-        `)
-        .eq('conversation_id', conversationId)
-        .order('created_at', { ascending: false })
-        .limit(limit)
-        .range(offset, offset + limit - 1);
-
-      if (error) {
-        console.error('💬 Chat: Error fetching messages:', error);
-        return this.getDemoMessages(conversationId);
+    try {
+      let rows: Row[];
+      try {
+        rows = await RepositoryProvider.get().select('chat_messages', query);
+      } catch (error) {
+        console.error('💬 Chat: Error fetching messages, using local repository:', error);
+        rows = await RepositoryProvider.getLocal().select('chat_messages', query);
       }
 
-      const messages: ChatMessage[] = (data || []).map((msg: any) => ({
-        id: msg.id,
-        conversationId: msg.conversation_id,
-        senderId: msg.sender_id,
-        senderName: msg.sender_name,
-        recipientId: msg.recipient_id,
-        messageText: msg.message_text,
-        messageType: msg.message_type,
-        readAt: msg.read_at ? new Date(msg.read_at) : undefined,
-        deliveredAt: msg.delivered_at ? new Date(msg.delivered_at) : undefined,
-        createdAt: new Date(msg.created_at),
-        metadata: msg.metadata
-      })).reverse(); // Reverse to show oldest first
-
+      const messages = rows.map(row => this.toChatMessage(row)).reverse(); // Reverse to show oldest first
       console.log(`💬 Chat: Loaded ${messages.length} messages for conversation ${conversationId}`);
       return messages;
 
     } catch (error) {
       console.error('💬 Chat: Error in getMessages:', error);
-      return this.getDemoMessages(conversationId);
+      return [];
+    }
+  }
+
+  /**
+   * Messages sent at or after a time, oldest first; from the start of the
+   * conversation without one. Used to catch up the search index.
+   */
+  static async getMessagesSince(conversationId: string, since?: Date, limit: number = 500): Promise<ChatMessage[]> {
+    try {
+      const rows = await RepositoryProvider.get().select('chat_messages', {
+        filters: [eq('conversation_id', conversationId), ...(since ? [gte('created_at', since.toISOString())] : [])],
+        orderBy: { column: 'created_at', ascending: true },
+        limit,
+      });
+      return rows.map(row => this.toChatMessage(row));
+
+    } catch (error) {
+      console.error('💬 Chat: Error in getMessagesSince:', error);
+      return [];
+    }
+  }
+
+  /**
+   * A message with the ones before it for context and everything since, so a
+   * conversation can be opened at an older message
+   */
+  static async getMessagesAround(conversationId: string, messageId: string, before: number = 20): Promise<ChatMessage[]> {
+    try {
+      const repository = RepositoryProvider.get();
+      const [target] = await repository.select('chat_messages', {
+        filters: [eq('id', messageId), eq('conversation_id', conversationId)]
+      });
+      if (!target) return this.getMessages(conversationId);
+
+      const [earlier, later] = await Promise.all([
+        repository.select('chat_messages', {
+          filters: [eq('conversation_id', conversationId), lt('created_at', target.created_at)],
+          orderBy: { column: 'created_at', ascending: false },
+          limit: before,
+        }),
+        repository.select('chat_messages', {
+          filters: [eq('conversation_id', conversationId), gte('created_at', target.created_at)],
+          orderBy: { column: 'created_at', ascending: true },
+        }),
+      ]);
+      return [...earlier.reverse(), ...later].map(row => this.toChatMessage(row));
+
+    } catch (error) {
+      console.error('💬 Chat: Error in getMessagesAround:', error);
+      return this.getMessages(conversationId);
     }
   }
 
@@ -180,13 +297,18 @@ export class ChatService {
     recipientId: string,
     messageText: string,
     messageType: ChatMessage['messageType'] = 'text',
-    metadata?: any
+    metadata?: ChatMessageMetadata,
+    clientId?: string
   ): Promise<ChatMessage | null> {
     try {
-      if (!isSupabaseConfigured() || !supabase) {
-        console.log('💬 Chat: Supabase not configured, creating demo message');
-        return this.createDemoMessage(senderId, senderName, recipientId, messageText, messageType);
-      }
+      const repository = RepositoryProvider.get();
+
+      // A resend of a message that already reached the server; checked first
+      // because it may no longer pass validation (e.g. an invite that has expired)
+      const alreadySent = clientId ? await this.findSentMessage(repository, senderId, clientId) : null;
+      if (alreadySent) return alreadySent;
+
+      this.requireValidMessage(messageType, messageText, metadata);
 
       // First, ensure users are connected
       const areConnected = await this.checkUsersConnected(senderId, recipientId);
@@ -199,43 +321,20 @@ export class ChatService {
       const conversationId = await this.getOrCreateConversation(senderId, recipientId);
 
       // Send the message
-      const { data, error } = await supabase
-        .from('chat_messages')
-        .insert({
-          conversation_id: conversationId,
-          sender_id: senderId,
-          sender_name: senderName,
-          recipient_id: recipientId,
-          message_text: messageText,
-          message_type: messageType,
-          metadata
-        })
-        .select()
-        .single();
-
-      if (error) {
-        console.error('💬 Chat: Error sending message:', error);
-        throw error;
-      }
-
-      const message: ChatMessage = {
-        id: data.id,
-        conversationId: data.conversation_id,
-        senderId: data.sender_id,
-        senderName: data.sender_name,
-        recipientId: data.recipient_id,
-        messageText: data.message_text,
-        messageType: data.message_type,
-        readAt: data.read_at ? new Date(data.read_at) : undefined,
-        deliveredAt: data.delivered_at ? new Date(data.delivered_at) : undefined,
-        createdAt: new Date(data.created_at),
-        metadata: data.metadata
-      };
-
+      const message = await this.insertMessage(repository, {
+        conversation_id: conversationId,
+        sender_id: senderId,
+        sender_name: senderName,
+        recipient_id: recipientId,
+        message_text: messageText,
+        message_type: messageType,
+        metadata,
+        ...(clientId ? { client_id: clientId } : {}),
+      });
       console.log(`💬 Chat: Message sent successfully from ${senderName} to recipient ${recipientId}`);
 
       // Send real-time notification
-      await this.sendMessageNotification(recipientId, senderName, messageText);
+      await this.sendMessageNotification(conversationId, recipientId, senderName, messageText);
 
       return message;
 
@@ -246,25 +345,253 @@ export class ChatService {
   }
 
   /**
-   * Mark a message as read
+   * Send a message to every member of a group conversation
    */
-  static async markMessageAsRead(messageId: string, userId: string): Promise<boolean> {
+  static async sendGroupMessage(
+    conversationId: string,
+    senderId: string,
+    senderName: string,
+    messageText: string,
+    messageType: ChatMessage['messageType'] = 'text',
+    metadata?: ChatMessageMetadata,
+    clientId?: string
+  ): Promise<ChatMessage | null> {
     try {
-      if (!isSupabaseConfigured() || !supabase) {
-        console.log('💬 Chat: Supabase not configured, marking demo message as read');
-        return true;
+      const repository = RepositoryProvider.get();
+
+      const alreadySent = clientId ? await this.findSentMessage(repository, senderId, clientId) : null;
+      if (alreadySent) return alreadySent;
+
+      this.requireValidMessage(messageType, messageText, metadata);
+
+      const { conversation, members } = await this.requireGroup(repository, conversationId, senderId);
+
+      const message = await this.insertMessage(repository, {
+        conversation_id: conversationId,
+        sender_id: senderId,
+        sender_name: senderName,
+        recipient_id: null,
+        message_text: messageText,
+        message_type: messageType,
+        metadata,
+        ...(clientId ? { client_id: clientId } : {}),
+      });
+      console.log(`💬 Chat: Message sent from ${senderName} to group ${conversation.title}`);
+
+      await Promise.all(members
+        .filter(member => member.user_id !== senderId)
+        .map(member => this.sendMessageNotification(
+          conversationId,
+          member.user_id,
+          `${senderName} in ${conversation.title}`,
+          messageText
+        )));
+
+      return message;
+
+    } catch (error) {
+      console.error('💬 Chat: Error in sendGroupMessage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a pattern as a card the recipient can open or add to their want-to-learn list
+   */
+  static async sendPatternShare(
+    senderId: string,
+    senderName: string,
+    recipientId: string,
+    pattern: Pattern
+  ): Promise<ChatMessage | null> {
+    const { messageText, metadata } = this.createPatternShare(pattern);
+    return this.sendMessage(senderId, senderName, recipientId, messageText, 'pattern_share', metadata);
+  }
+
+  /**
+   * Invite a connection to a practice session they can accept or decline
+   */
+  static async sendSessionInvite(
+    senderId: string,
+    senderName: string,
+    recipientId: string,
+    session: SessionInviteDetails
+  ): Promise<ChatMessage | null> {
+    const { messageText, metadata } = this.createSessionInvite(session);
+    return this.sendMessage(senderId, senderName, recipientId, messageText, 'session_invite', metadata);
+  }
+
+  /**
+   * Text and metadata of a pattern_share message. The text is what the
+   * conversation list shows.
+   */
+  static createPatternShare(pattern: Pattern): { messageText: string; metadata: PatternShareMetadata } {
+    const { global, local } = pattern.siteswap || {};
+    const siteswap = global || Object.values(local || {}).join(' | ');
+    return {
+      messageText: `Shared a pattern: ${pattern.name}`,
+      metadata: {
+        patternId: pattern.id,
+        patternName: pattern.name,
+        link: PatternShareService.createPatternLink(pattern),
+        siteswap: siteswap || undefined,
+        difficulty: pattern.difficulty,
+        requiredJugglers: pattern.requiredJugglers,
+      }
+    };
+  }
+
+  /**
+   * Text and metadata of a session_invite message
+   */
+  static createSessionInvite(session: SessionInviteDetails): { messageText: string; metadata: SessionInviteMetadata } {
+    const when = session.scheduledTime.toLocaleString([], {
+      weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit'
+    });
+    return {
+      messageText: `Session invite: ${when} at ${session.location}`,
+      metadata: {
+        scheduledTime: session.scheduledTime.toISOString(),
+        duration: session.duration,
+        location: session.location,
+        plannedPatterns: session.plannedPatterns,
+        notes: session.notes,
+        responses: {},
       }
+    };
+  }
+
+  /**
+   * A pattern_share message's metadata, or null if it isn't one or the
+   * metadata is malformed
+   */
+  static getPatternShare(message: ChatMessage): PatternShareMetadata | null {
+    if (message.messageType !== 'pattern_share') return null;
+    return ValidationService.validateChatMessage(message.messageType, message.messageText, message.metadata).isValid
+      ? message.metadata as PatternShareMetadata
+      : null;
+  }
 
-      const { error } = await supabase
-        .from('chat_messages')
-        .update({ read_at: new Date().toISOString() })
-        .eq('id', messageId)
-        .eq('recipient_id', userId); // Only recipient can mark as read
+  /**
+   * A session_invite message's metadata, or null if it isn't one or the
+   * metadata is malformed
+   */
+  static getSessionInvite(message: ChatMessage): SessionInviteMetadata | null {
+    if (message.messageType !== 'session_invite') return null;
+    return ValidationService.validateChatMessage(message.messageType, message.messageText, message.metadata).isValid
+      ? message.metadata as SessionInviteMetadata
+      : null;
+  }
 
-      if (error) {
-        console.error('💬 Chat: Error marking message as read:', error);
+  /**
+   * Add a shared pattern to the user's want-to-learn list. Contributed
+   * patterns are imported from the link first, like opening it would.
+   */
+  static async addSharedPatternToWantToLearn(userId: string, share: PatternShareMetadata): Promise<boolean> {
+    try {
+      let patternId = getPatternById(share.patternId)?.id;
+      if (!patternId) {
+        const target = PatternShareService.parsePatternLink(share.link);
+        if (target?.type === 'id') {
+          patternId = target.patternId;
+        } else if (target?.type === 'pattern') {
+          const imported = await PatternShareService.importSharedPattern(target.pattern);
+          patternId = imported.pattern?.id;
+        }
+      }
+      if (!patternId) {
+        console.error('💬 Chat: Shared pattern could not be found or imported:', share.patternId);
         return false;
       }
+      return await UserPatternService.setPatternStatus(userId, patternId, 'want_to_learn');
+
+    } catch (error) {
+      console.error('💬 Chat: Error adding shared pattern to want-to-learn:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Accept or decline a session invite. Accepting adds the session to the
+   * user's schedule; declining an invite they'd accepted cancels it again.
+   */
+  static async respondToSessionInvite(
+    messageId: string,
+    userId: string,
+    userName: string,
+    response: SessionInviteResponse
+  ): Promise<ChatMessage> {
+    const repository = RepositoryProvider.get();
+    const [row] = await repository.select('chat_messages', { filters: [eq('id', messageId)] });
+    const message = row ? this.toChatMessage(row) : null;
+    const invite = message ? this.getSessionInvite(message) : null;
+    if (!message || !invite) throw new Error('This invite is no longer available');
+    if (message.senderId === userId) throw new Error("You can't answer your own invite");
+
+    const isMember = await repository.count('chat_conversation_members', {
+      filters: [eq('conversation_id', message.conversationId), eq('user_id', userId)]
+    });
+    if (!isMember) throw new Error('This invite is no longer available');
+
+    const scheduledTime = new Date(invite.scheduledTime);
+    if (scheduledTime <= new Date()) throw new Error('This session has already started');
+
+    const previous = invite.responses[userId];
+    if (previous !== response) {
+      const scheduled = response === 'accepted'
+        ? await ScheduleService.addSession(userId, {
+          hostId: userId, // The copy in this user's schedule is theirs to sync
+          partnerId: message.senderId,
+          partnerName: message.senderName,
+          scheduledTime,
+          duration: invite.duration,
+          location: invite.location,
+          plannedPatterns: invite.plannedPatterns,
+          status: 'scheduled',
+          notes: invite.notes,
+        })
+        : await this.cancelInvitedSession(userId, message.senderId, scheduledTime);
+      if (!scheduled) throw new Error('Your schedule could not be updated');
+    }
+
+    // On Supabase only the database function may write another sender's message, and only this user's answer
+    const metadata: SessionInviteMetadata = { ...invite, responses: { ...invite.responses, [userId]: response } };
+    const [updated]: Row[] = repository.kind === 'supabase'
+      ? (await repository.rpc('respond_to_session_invite', { target_message_id: messageId, invite_response: response })) || []
+      : await repository.update('chat_messages', { metadata }, { filters: [eq('id', messageId)] });
+
+    if (previous !== response) {
+      await this.sendMessageNotification(
+        message.conversationId,
+        message.senderId,
+        userName,
+        `${response === 'accepted' ? 'Accepted' : 'Declined'} your session invite`
+      );
+    }
+
+    return this.toChatMessage(updated || { ...row, metadata });
+  }
+
+  /**
+   * Mark a message, and everything before it in the conversation, as read
+   */
+  static async markMessageAsRead(messageId: string, userId: string): Promise<boolean> {
+    try {
+      const repository = RepositoryProvider.get();
+      const [message] = await repository.select('chat_messages', { filters: [eq('id', messageId)], limit: 1 });
+      if (!message) return false;
+
+      if (message.recipient_id === userId && !message.read_at) {
+        await repository.update('chat_messages', { read_at: new Date().toISOString() }, {
+          filters: [eq('id', messageId), eq('recipient_id', userId)] // Only recipient can mark as read
+        });
+      }
+
+      // Move the member's read marker up to this message, never back
+      await repository.update('chat_conversation_members', { last_read_at: message.created_at }, {
+        filters: [eq('conversation_id', message.conversation_id), eq('user_id', userId)],
+        anyOf: [[isNull('last_read_at')], [lt('last_read_at', message.created_at)]],
+      });
 
       console.log(`💬 Chat: Message ${messageId} marked as read`);
       return true;
@@ -280,22 +607,15 @@ export class ChatService {
    */
   static async markConversationAsRead(conversationId: string, userId: string): Promise<boolean> {
     try {
-      if (!isSupabaseConfigured() || !supabase) {
-        console.log('💬 Chat: Supabase not configured, marking demo conversation as read');
-        return true;
-      }
-
-      const { error } = await supabase
-        .from('chat_messages')
-        .update({ read_at: new Date().toISOString() })
-        .eq('conversation_id', conversationId)
-        .eq('recipient_id', userId)
-        .is('read_at', null); // Only update unread messages
-
-      if (error) {
-        console.error('💬 Chat: Error marking conversation as read:', error);
-        return false;
-      }
+      const repository = RepositoryProvider.get();
+      const now = new Date().toISOString();
+      await repository.update('chat_conversation_members', { last_read_at: now }, {
+        filters: [eq('conversation_id', conversationId), eq('user_id', userId)]
+      });
+      // Direct messages also carry their own read time
+      await repository.update('chat_messages', { read_at: now }, {
+        filters: [eq('conversation_id', conversationId), eq('recipient_id', userId), isNull('read_at')] // Only update unread messages
+      });
 
       console.log(`💬 Chat: Conversation ${conversationId} marked as read`);
       return true;
@@ -307,39 +627,135 @@ export class ChatService {
   }
 
   /**
-   * Get unread message count for a user in a specific conversation
+   * Mark messages from others in a conversation as delivered once they've been
+   * fetched to this device. In groups the first member's device marks it.
    */
-  static async getUnreadMessageCount(userId: string, conversationId?: string): Promise<number> {
+  static async markMessagesDelivered(conversationId: string, userId: string): Promise<boolean> {
     try {
-      if (!isSupabaseConfigured() || !supabase) {
-        return 0;
+      const repository = RepositoryProvider.get();
+      // Members can't update other people's messages on Supabase; the function sets only delivered_at
+      if (repository.kind === 'supabase') {
+        await repository.rpc('mark_messages_delivered', { target_conversation_id: conversationId });
+        return true;
       }
 
-      let query = supabase
-        .from('chat_messages')
-        .select('id', { count: 'exact', head: true })
-        .eq('recipient_id', userId)
-        .is('read_at', null);
+      await repository.update('chat_messages', { delivered_at: new Date().toISOString() }, {
+        filters: [
+          eq('conversation_id', conversationId),
+          neq('sender_id', userId),
+          isNull('delivered_at')
+        ]
+      });
+      return true;
+
+    } catch (error) {
+      console.error('💬 Chat: Error in markMessagesDelivered:', error);
+      return false;
+    }
+  }
 
+  /**
+   * Get unread message count for a user in a specific conversation, or the
+   * total for the unread badge, which leaves out muted conversations
+   */
+  static async getUnreadMessageCount(userId: string, conversationId?: string): Promise<number> {
+    try {
+      const repository = RepositoryProvider.get();
+      const filters = [eq('user_id', userId)];
       if (conversationId) {
-        query = query.eq('conversation_id', conversationId);
+        filters.push(eq('conversation_id', conversationId));
       }
+      const [memberships, preferenceRows] = await Promise.all([
+        repository.select('chat_conversation_members', { filters }),
+        conversationId ? Promise.resolve([] as Row[]) : repository.select('chat_preferences', { filters: [eq('user_id', userId)] }),
+      ]);
+      const muted = new Set(preferenceRows
+        .map(row => this.toPreferences(row))
+        .filter(preferences => this.isMuted(preferences))
+        .map(preferences => preferences.conversationId));
+
+      const counts = await Promise.all(memberships
+        .filter(membership => !muted.has(membership.conversation_id))
+        .map(membership => this.countUnread(repository, membership.conversation_id, userId, membership.last_read_at)));
+      return counts.reduce((sum, count) => sum + count, 0);
 
-      const { count, error } = await query;
+    } catch (error) {
+      console.error('💬 Chat: Error in getUnreadMessageCount:', error);
+      return 0;
+    }
+  }
 
-      if (error) {
-        console.error('💬 Chat: Error getting unread count:', error);
-        return 0;
-      }
+  /**
+   * Members other than the sender who have read a message
+   */
+  static getReadBy(message: ChatMessage, members: ChatMember[]): ChatMember[] {
+    return members.filter(member =>
+      member.userId !== message.senderId && !!member.lastReadAt && member.lastReadAt >= message.createdAt);
+  }
 
-      return count || 0;
+  /**
+   * A user's settings for a conversation, or null if they haven't changed any
+   */
+  static async getPreferences(userId: string, conversationId: string): Promise<ChatPreferences | null> {
+    try {
+      const [row] = await RepositoryProvider.get().select('chat_preferences', {
+        filters: [eq('user_id', userId), eq('conversation_id', conversationId)]
+      });
+      return row ? this.toPreferences(row) : null;
 
     } catch (error) {
-      console.error('💬 Chat: Error in getUnreadMessageCount:', error);
-      return 0;
+      console.error('💬 Chat: Error in getPreferences:', error);
+      return null;
     }
   }
 
+  /**
+   * Change some of a user's settings for a conversation, keeping the rest
+   */
+  static async updatePreferences(
+    userId: string,
+    conversationId: string,
+    changes: ChatPreferenceChanges
+  ): Promise<ChatPreferences> {
+    const repository = RepositoryProvider.get();
+    const isMember = await repository.count('chat_conversation_members', {
+      filters: [eq('conversation_id', conversationId), eq('user_id', userId)]
+    }) > 0;
+    if (!isMember) throw new Error('You are not in this conversation');
+
+    const row: Row = { user_id: userId, conversation_id: conversationId, updated_at: new Date().toISOString() };
+    if (changes.isMuted !== undefined) row.is_muted = changes.isMuted;
+    if ('mutedUntil' in changes) row.muted_until = changes.mutedUntil?.toISOString() ?? null;
+    if (changes.isPinned !== undefined) row.is_pinned = changes.isPinned;
+    if (changes.isArchived !== undefined) row.is_archived = changes.isArchived;
+    if (changes.lastReadMessageId !== undefined) row.last_read_message_id = changes.lastReadMessageId;
+    if (changes.notificationEnabled !== undefined) row.notification_enabled = changes.notificationEnabled;
+
+    const [saved] = await repository.upsert('chat_preferences', row, ['user_id', 'conversation_id']);
+    return this.toPreferences(saved);
+  }
+
+  /**
+   * Mute a conversation for a while, or until it's unmuted without a duration
+   */
+  static async muteConversation(userId: string, conversationId: string, durationMs?: number): Promise<ChatPreferences> {
+    return this.updatePreferences(userId, conversationId, {
+      isMuted: true,
+      mutedUntil: durationMs ? new Date(Date.now() + durationMs) : undefined,
+    });
+  }
+
+  static async unmuteConversation(userId: string, conversationId: string): Promise<ChatPreferences> {
+    return this.updatePreferences(userId, conversationId, { isMuted: false, mutedUntil: undefined });
+  }
+
+  /**
+   * Whether a conversation is muted right now; timed mutes end on their own
+   */
+  static isMuted(preferences: ChatPreferences | null | undefined, at: Date = new Date()): boolean {
+    return !!preferences?.isMuted && (!preferences.mutedUntil || preferences.mutedUntil > at);
+  }
+
   /**
    * Subscribe to real-time conversation updates
    */
@@ -347,34 +763,52 @@ export class ChatService {
     userId: string,
     onUpdate: (conversations: ChatConversation[]) => void
   ): () => void {
-    if (!isSupabaseConfigured() || !supabase) {
-      console.log('💬 Chat: Supabase not configured, no real-time conversation updates');
-      return () => {};
-    }
-
     try {
-      const subscription = supabase
-        .channel(`conversations_${userId}`)
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'chat_conversations',
-            filter: `user1_id=eq.${userId},user2_id=eq.${userId}`
-          },
-          async () => {
-            console.log('💬 Chat: Conversation updated, refreshing...');
-            const conversations = await this.getConversations(userId);
-            onUpdate(conversations);
-          }
-        )
-        .subscribe();
+      const repository = RepositoryProvider.get();
+      const refresh = async () => {
+        console.log('💬 Chat: Conversation updated, refreshing...');
+        const conversations = await this.getConversations(userId);
+        onUpdate(conversations);
+      };
+
+      // Realtime filters can't follow membership, so check rows here
+      const unsubscribeConversations = repository.subscribe(
+        `conversations_${userId}`,
+        { table: 'chat_conversations', event: '*' },
+        async event => {
+          const conversationId = event.new.id || event.old.id;
+          const isMember = await repository.count('chat_conversation_members', {
+            filters: [eq('conversation_id', conversationId), eq('user_id', userId)],
+          }) > 0;
+          if (isMember) await refresh();
+        }
+      );
+
+      // Being added to or removed from a group
+      const unsubscribeMemberships = repository.subscribe(
+        `memberships_${userId}`,
+        { table: 'chat_conversation_members', event: '*', filter: eq('user_id', userId) },
+        async event => {
+          if (event.eventType !== 'UPDATE') await refresh();
+        }
+      );
+
+      // Preferences changed on another device
+      const unsubscribePreferences = repository.subscribe(
+        `chat_preferences_${userId}`,
+        { table: 'chat_preferences', event: '*', filter: eq('user_id', userId) },
+        refresh
+      );
 
-      this.conversationListeners.set(userId, subscription);
+      const unsubscribe = () => {
+        unsubscribeConversations();
+        unsubscribeMemberships();
+        unsubscribePreferences();
+      };
+      this.conversationListeners.set(userId, unsubscribe);
 
       return () => {
-        subscription.unsubscribe();
+        unsubscribe();
         this.conversationListeners.delete(userId);
       };
 
@@ -385,53 +819,59 @@ export class ChatService {
   }
 
   /**
-   * Subscribe to real-time message updates for a specific conversation
+   * Subscribe to member changes in a conversation: joins, leaves, roles and read receipts
    */
-  static subscribeToMessages(
+  static subscribeToMembers(
     conversationId: string,
-    onNewMessage: (message: ChatMessage) => void
+    onUpdate: (members: ChatMember[]) => void
   ): () => void {
-    if (!isSupabaseConfigured() || !supabase) {
-      console.log('💬 Chat: Supabase not configured, no real-time message updates');
+    try {
+      const unsubscribe = RepositoryProvider.get().subscribe(
+        `members_${conversationId}`,
+        { table: 'chat_conversation_members', event: '*', filter: eq('conversation_id', conversationId) },
+        async () => onUpdate(await this.getMembers(conversationId))
+      );
+
+      this.memberListeners.set(conversationId, unsubscribe);
+
+      return () => {
+        unsubscribe();
+        this.memberListeners.delete(conversationId);
+      };
+
+    } catch (error) {
+      console.error('💬 Chat: Error subscribing to members:', error);
       return () => {};
     }
+  }
 
+  /**
+   * Subscribe to real-time message updates for a specific conversation.
+   * Changed messages (read, or an invite answered) go to onMessageUpdated.
+   */
+  static subscribeToMessages(
+    conversationId: string,
+    onNewMessage: (message: ChatMessage) => void,
+    onMessageUpdated?: (message: ChatMessage) => void
+  ): () => void {
     try {
-      const subscription = supabase
-        .channel(`messages_${conversationId}`)
-        .on(
-          'postgres_changes',
-          {
-            event: 'INSERT',
-            schema: 'public',
-            table: 'chat_messages',
-            filter: `conversation_id=eq.${conversationId}`
-          },
-          (payload: any) => {
-            console.log('💬 Chat: New message received via real-time:', payload);
-            const data = payload.new;
-            const message: ChatMessage = {
-              id: data.id,
-              conversationId: data.conversation_id,
-              senderId: data.sender_id,
-              senderName: data.sender_name,
-              recipientId: data.recipient_id,
-              messageText: data.message_text,
-              messageType: data.message_type,
-              readAt: data.read_at ? new Date(data.read_at) : undefined,
-              deliveredAt: data.delivered_at ? new Date(data.delivered_at) : undefined,
-              createdAt: new Date(data.created_at),
-              metadata: data.metadata
-            };
-            onNewMessage(message);
+      const unsubscribe = RepositoryProvider.get().subscribe(
+        `messages_${conversationId}`,
+        { table: 'chat_messages', event: '*', filter: eq('conversation_id', conversationId) },
+        event => {
+          if (event.eventType === 'INSERT') {
+            console.log('💬 Chat: New message received via real-time:', event.new.id);
+            onNewMessage(this.toChatMessage(event.new));
+          } else if (event.eventType === 'UPDATE') {
+            onMessageUpdated?.(this.toChatMessage(event.new));
           }
-        )
-        .subscribe();
+        }
+      );
 
-      this.messageListeners.set(conversationId, subscription);
+      this.messageListeners.set(conversationId, unsubscribe);
 
       return () => {
-        subscription.unsubscribe();
+        unsubscribe();
         this.messageListeners.delete(conversationId);
       };
 
@@ -445,27 +885,17 @@ export class ChatService {
    * Get or create a conversation between two users
    */
   static async getOrCreateConversation(user1Id: string, user2Id: string): Promise<string> {
-    if (!isSupabaseConfigured() || !supabase) {
-      // For demo purposes, return a mock conversation ID
-      return `demo_conversation_${user1Id}_${user2Id}`.replace(/[^a-zA-Z0-9_]/g, '');
-    }
-
     try {
+      const repository = RepositoryProvider.get();
+
       // Ensure user1Id < user2Id for the check constraint
       const [smallerId, largerId] = user1Id < user2Id ? [user1Id, user2Id] : [user2Id, user1Id];
       
       // First, try to find existing conversation
-      const { data: existingConv, error: findError } = await supabase
-        .from('chat_conversations')
-        .select('id')
-        .eq('user1_id', smallerId)
-        .eq('user2_id', largerId)
-        .single();
-
-      if (findError && findError.code !== 'PGRST116') {
-        console.error('💬 Chat: Error finding conversation:', findError);
-        throw findError;
-      }
+      const [existingConv] = await repository.select('chat_conversations', {
+        filters: [eq('user1_id', smallerId), eq('user2_id', largerId)],
+        limit: 1
+      });
 
       if (existingConv) {
         console.log(`💬 Chat: Found existing conversation ${existingConv.id}`);
@@ -473,34 +903,25 @@ export class ChatService {
       }
 
       // Get user names for the conversation
-      const { data: users, error: usersError } = await supabase
-        .from('users')
-        .select('id, name')
-        .in('id', [user1Id, user2Id]);
-
-      if (usersError) {
-        console.error('💬 Chat: Error fetching user names:', usersError);
-        throw usersError;
-      }
-
+      const users = await repository.select('users', { filters: [isIn('id', [user1Id, user2Id])] });
       const user1Name = users.find(u => u.id === smallerId)?.name || 'Unknown';
       const user2Name = users.find(u => u.id === largerId)?.name || 'Unknown';
 
       // Create new conversation
-      const { data: newConv, error: createError } = await supabase
-        .from('chat_conversations')
-        .insert({
-          user1_id: smallerId,
-          user2_id: largerId,
-          user1_name: user1Name,
-          user2_name: user2Name
-        })
-        .select('id')
-        .single();
-
-      if (createError) {
-        console.error('💬 Chat: Error creating conversation:', createError);
-        throw createError;
+      const [newConv] = await repository.insert('chat_conversations', {
+        is_group: false,
+        user1_id: smallerId,
+        user2_id: largerId,
+        user1_name: user1Name,
+        user2_name: user2Name,
+        ...(repository.kind === 'memory' ? { last_message_at: new Date().toISOString() } : {})
+      });
+      // On Supabase the add_members_on_new_conversation trigger adds both members
+      if (repository.kind === 'memory') {
+        await repository.insert('chat_conversation_members', [
+          { conversation_id: newConv.id, user_id: smallerId, user_name: user1Name, role: 'member' },
+          { conversation_id: newConv.id, user_id: largerId, user_name: user2Name, role: 'member' },
+        ]);
       }
 
       console.log(`💬 Chat: Created new conversation ${newConv.id}`);
@@ -513,29 +934,241 @@ export class ChatService {
   }
 
   /**
-   * Check if two users are connected (can chat)
+   * Create a group conversation. Everyone added must be connected to the owner.
    */
-  private static async checkUsersConnected(user1Id: string, user2Id: string): Promise<boolean> {
-    if (!isSupabaseConfigured() || !supabase) {
-      return true; // Allow demo messages
+  static async createGroupConversation(
+    ownerId: string,
+    ownerName: string,
+    title: string,
+    memberIds: string[]
+  ): Promise<string> {
+    try {
+      const repository = RepositoryProvider.get();
+      const name = title.trim();
+      const others = Array.from(new Set(memberIds)).filter(id => id !== ownerId);
+      if (!name) throw new Error('Give the group a name');
+      if (others.length < 2) throw new Error('A group needs at least two other members');
+      if (others.length + 1 > MAX_GROUP_MEMBERS) throw new Error(`Groups can have up to ${MAX_GROUP_MEMBERS} members`);
+      await this.requireConnected(ownerId, others);
+
+      const now = new Date().toISOString();
+      const [conversation] = await repository.insert('chat_conversations', {
+        is_group: true,
+        title: name,
+        created_by: ownerId,
+        ...(repository.kind === 'memory' ? { last_message_at: now } : {})
+      });
+      const names = await this.getUserNames(repository, others);
+      await repository.insert('chat_conversation_members', [
+        { conversation_id: conversation.id, user_id: ownerId, user_name: ownerName, role: 'owner', joined_at: now, last_read_at: now },
+        ...others.map(id => ({ conversation_id: conversation.id, user_id: id, user_name: names[id], role: 'member', joined_at: now })),
+      ]);
+
+      console.log(`💬 Chat: Created group ${name} with ${others.length + 1} members`);
+      return conversation.id;
+
+    } catch (error) {
+      console.error('💬 Chat: Error in createGroupConversation:', error);
+      throw error;
     }
+  }
 
+  /**
+   * Add people to a group; only owners can, and only people they're connected to
+   */
+  static async addMembers(conversationId: string, actorId: string, userIds: string[]): Promise<ChatMember[]> {
     try {
-      const { data, error } = await supabase
-        .from('connections')
-        .select('id')
-        .or(
-          `and(user1_id.eq.${user1Id},user2_id.eq.${user2Id}),and(user1_id.eq.${user2Id},user2_id.eq.${user1Id})`
-        )
-        .eq('status', 'active')
-        .single();
-
-      if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
-        console.error('💬 Chat: Error checking connection:', error);
-        return false;
+      const repository = RepositoryProvider.get();
+      const { members } = await this.requireGroup(repository, conversationId, actorId, true);
+      const added = Array.from(new Set(userIds)).filter(id => !members.some(member => member.user_id === id));
+      if (added.length === 0) return [];
+      if (members.length + added.length > MAX_GROUP_MEMBERS) {
+        throw new Error(`Groups can have up to ${MAX_GROUP_MEMBERS} members`);
+      }
+      await this.requireConnected(actorId, added);
+
+      const names = await this.getUserNames(repository, added);
+      const now = new Date().toISOString();
+      const rows = await repository.insert('chat_conversation_members', added.map(id => ({
+        conversation_id: conversationId,
+        user_id: id,
+        user_name: names[id],
+        role: 'member',
+        joined_at: now,
+      })));
+      await this.touchConversation(repository, conversationId);
+
+      console.log(`💬 Chat: Added ${rows.length} members to group ${conversationId}`);
+      return this.toMembers(rows);
+
+    } catch (error) {
+      console.error('💬 Chat: Error in addMembers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove someone from a group. Owners can remove anyone and members can
+   * remove themselves; if the last owner leaves, the longest-standing member
+   * takes over.
+   */
+  static async removeMember(conversationId: string, actorId: string, userId: string): Promise<boolean> {
+    try {
+      const repository = RepositoryProvider.get();
+      const { members } = await this.requireGroup(repository, conversationId, actorId, actorId !== userId);
+      if (!members.some(member => member.user_id === userId)) return false;
+
+      // Hand over ownership first, while the leaving owner is still allowed to change roles
+      const remaining = this.toMembers(members.filter(member => member.user_id !== userId));
+      if (remaining.length > 0 && !remaining.some(member => member.role === 'owner')) {
+        const successor = [...remaining].sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime())[0];
+        await repository.update('chat_conversation_members', { role: 'owner' }, {
+          filters: [eq('conversation_id', conversationId), eq('user_id', successor.userId)]
+        });
       }
 
-      return !!data;
+      await repository.delete('chat_conversation_members', {
+        filters: [eq('conversation_id', conversationId), eq('user_id', userId)]
+      });
+      await this.touchConversation(repository, conversationId);
+
+      console.log(`💬 Chat: Removed ${userId} from group ${conversationId}`);
+      return true;
+
+    } catch (error) {
+      console.error('💬 Chat: Error in removeMember:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Leave a group conversation
+   */
+  static async leaveGroup(conversationId: string, userId: string): Promise<boolean> {
+    return this.removeMember(conversationId, userId, userId);
+  }
+
+  /**
+   * Make a member an owner or back to a member. A group always keeps an owner.
+   */
+  static async setMemberRole(conversationId: string, actorId: string, userId: string, role: ChatMemberRole): Promise<boolean> {
+    try {
+      const repository = RepositoryProvider.get();
+      const { members } = await this.requireGroup(repository, conversationId, actorId, true);
+      const member = members.find(row => row.user_id === userId);
+      if (!member || member.role === role) return false;
+      if (role === 'member' && members.filter(row => row.role === 'owner').length === 1) {
+        throw new Error('A group needs at least one owner');
+      }
+
+      await repository.update('chat_conversation_members', { role }, {
+        filters: [eq('conversation_id', conversationId), eq('user_id', userId)]
+      });
+      return true;
+
+    } catch (error) {
+      console.error('💬 Chat: Error in setMemberRole:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a group; only owners can
+   */
+  static async renameGroup(conversationId: string, actorId: string, title: string): Promise<boolean> {
+    try {
+      const repository = RepositoryProvider.get();
+      const name = title.trim();
+      if (!name) throw new Error('Give the group a name');
+      await this.requireGroup(repository, conversationId, actorId, true);
+
+      await repository.update('chat_conversations', { title: name, updated_at: new Date().toISOString() }, {
+        filters: [eq('id', conversationId)]
+      });
+      return true;
+
+    } catch (error) {
+      console.error('💬 Chat: Error in renameGroup:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A group conversation and its member rows, if the actor may act on it
+   */
+  private static async requireGroup(
+    repository: DataRepository,
+    conversationId: string,
+    actorId: string,
+    ownerOnly: boolean = false
+  ): Promise<{ conversation: Row; members: Row[] }> {
+    const [conversation] = await repository.select('chat_conversations', { filters: [eq('id', conversationId)], limit: 1 });
+    if (!conversation?.is_group) throw new Error('This is not a group conversation');
+    const members = await repository.select('chat_conversation_members', { filters: [eq('conversation_id', conversationId)] });
+    const actor = members.find(member => member.user_id === actorId);
+    if (!actor) throw new Error('You are not a member of this group');
+    if (ownerOnly && actor.role !== 'owner') throw new Error('Only group owners can do that');
+    return { conversation, members };
+  }
+
+  private static async requireConnected(userId: string, otherIds: string[]): Promise<void> {
+    const connected = await Promise.all(otherIds.map(id => this.checkUsersConnected(userId, id)));
+    if (connected.some(isConnected => !isConnected)) {
+      throw new Error('You can only add people you are connected with');
+    }
+  }
+
+  private static async getUserNames(repository: DataRepository, userIds: string[]): Promise<{ [userId: string]: string }> {
+    const users = await repository.select('users', { filters: [isIn('id', userIds)] });
+    return userIds.reduce((names, id) => ({ ...names, [id]: users.find(u => u.id === id)?.name || 'Unknown' }), {});
+  }
+
+  // Bump a conversation so members' lists refresh after membership changes
+  private static async touchConversation(repository: DataRepository, conversationId: string): Promise<void> {
+    await repository.update('chat_conversations', { updated_at: new Date().toISOString() }, {
+      filters: [eq('id', conversationId)]
+    });
+  }
+
+  /**
+   * Throw if a message can't be sent as it is, e.g. a pattern share without
+   * pattern details or an invite to a session that's already started
+   */
+  static requireValidMessage(
+    messageType: ChatMessage['messageType'],
+    messageText: string,
+    metadata?: ChatMessageMetadata
+  ): void {
+    const validation = ValidationService.validateChatMessage(messageType, messageText, metadata);
+    if (!validation.isValid) throw new Error(validation.errors[0]);
+    if (messageType === 'session_invite' && new Date((metadata as SessionInviteMetadata).scheduledTime) <= new Date()) {
+      throw new Error('Session invites must be for a time in the future');
+    }
+  }
+
+  // The session an accepted invite added; nothing to cancel if there isn't one
+  private static async cancelInvitedSession(userId: string, inviterId: string, scheduledTime: Date): Promise<boolean> {
+    const sessions = await ScheduleService.getAllSessions(userId);
+    const session = sessions.find(candidate =>
+      candidate.partnerId === inviterId &&
+      candidate.scheduledTime.getTime() === scheduledTime.getTime() &&
+      candidate.status !== 'cancelled');
+    return session ? ScheduleService.cancelSession(userId, session.id) : true;
+  }
+
+  /**
+   * Check if two users are connected (can chat)
+   */
+  private static async checkUsersConnected(user1Id: string, user2Id: string): Promise<boolean> {
+    try {
+      const count = await RepositoryProvider.get().count('connections', {
+        filters: [eq('status', 'active')],
+        anyOf: [
+          [eq('user1_id', user1Id), eq('user2_id', user2Id)],
+          [eq('user1_id', user2Id), eq('user2_id', user1Id)]
+        ]
+      });
+      return count > 0;
 
     } catch (error) {
       console.error('💬 Chat: Error in checkUsersConnected:', error);
@@ -543,15 +1176,172 @@ export class ChatService {
     }
   }
 
+  private static async findSentMessage(repository: DataRepository, senderId: string, clientId: string): Promise<ChatMessage | null> {
+    const [row] = await repository.select('chat_messages', {
+      filters: [eq('sender_id', senderId), eq('client_id', clientId)]
+    });
+    return row ? this.toChatMessage(row) : null;
+  }
+
+  private static toChatMessage(row: Row): ChatMessage {
+    return {
+      id: row.id,
+      conversationId: row.conversation_id,
+      senderId: row.sender_id,
+      senderName: row.sender_name,
+      recipientId: row.recipient_id ?? undefined,
+      clientId: row.client_id ?? undefined,
+      messageText: row.message_text,
+      messageType: row.message_type,
+      readAt: row.read_at ? new Date(row.read_at) : undefined,
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined,
+      createdAt: new Date(row.created_at),
+      metadata: row.metadata ?? undefined
+    };
+  }
+
+  private static toConversation(row: Row, memberRows: Row[]): ChatConversation {
+    return {
+      id: row.id,
+      isGroup: !!row.is_group,
+      title: row.title ?? undefined,
+      members: this.toMembers(memberRows),
+      createdBy: row.created_by ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      lastMessageAt: new Date(row.last_message_at),
+      lastMessage: row.last_message ?? undefined,
+      lastMessageSenderId: row.last_message_sender_id ?? undefined,
+    };
+  }
+
+  private static toMembers(rows: Row[]): ChatMember[] {
+    return rows
+      .map(row => ({
+        userId: row.user_id,
+        name: row.user_name,
+        role: row.role,
+        joinedAt: new Date(row.joined_at || row.created_at),
+        lastReadAt: row.last_read_at ? new Date(row.last_read_at) : undefined,
+      }))
+      .sort((a, b) => (a.role === b.role ? a.name.localeCompare(b.name) : a.role === 'owner' ? -1 : 1));
+  }
+
+  private static toPreferences(row: Row): ChatPreferences {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      conversationId: row.conversation_id,
+      isMuted: !!row.is_muted,
+      mutedUntil: row.muted_until ? new Date(row.muted_until) : undefined,
+      isPinned: !!row.is_pinned,
+      isArchived: !!row.is_archived,
+      lastReadMessageId: row.last_read_message_id ?? undefined,
+      notificationEnabled: row.notification_enabled ?? true,
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  /**
+   * Insert a message and bring the conversation summary and the sender's read
+   * marker up to date
+   */
+  private static async insertMessage(repository: DataRepository, row: Row): Promise<ChatMessage> {
+    const now = new Date().toISOString();
+    let inserted: Row;
+    try {
+      [inserted] = await repository.insert('chat_messages', {
+        ...row,
+        ...(repository.kind === 'memory' ? { created_at: now } : {})
+      });
+    } catch (error) {
+      // Another attempt at the same message got there first
+      const existing = error instanceof RepositoryError && error.code === '23505' && row.client_id
+        ? await this.findSentMessage(repository, row.sender_id, row.client_id)
+        : null;
+      if (existing) return existing;
+      throw error;
+    }
+
+    if (repository.kind === 'memory') {
+      // Database triggers keep the conversation summary current on Supabase
+      await repository.update('chat_conversations', {
+        last_message: row.message_text,
+        last_message_sender_id: row.sender_id,
+        last_message_at: now,
+        updated_at: now
+      }, { filters: [eq('id', row.conversation_id)] });
+    }
+
+    // Sending means the sender has seen the conversation up to here
+    await repository.update('chat_conversation_members', { last_read_at: inserted.created_at }, {
+      filters: [eq('conversation_id', row.conversation_id), eq('user_id', row.sender_id)]
+    });
+
+    return this.toChatMessage(inserted);
+  }
+
+  /**
+   * Messages from other members sent after the user's read marker
+   */
+  private static countUnread(repository: DataRepository, conversationId: string, userId: string, lastReadAt?: string | null): Promise<number> {
+    const filters = [eq('conversation_id', conversationId), neq('sender_id', userId)];
+    if (lastReadAt) filters.push(gt('created_at', lastReadAt));
+    return repository.count('chat_messages', { filters });
+  }
+
+  /**
+   * Give direct conversations saved before group chat their two members.
+   * Each member has read up to the last message they sent or were marked as
+   * having read.
+   */
+  private static async migrateDirectConversations(repository: DataRepository, userId: string): Promise<void> {
+    const direct = await repository.select('chat_conversations', {
+      anyOf: [[eq('user1_id', userId)], [eq('user2_id', userId)]]
+    });
+    if (direct.length === 0) return;
+
+    const ids = direct.map(conv => conv.id);
+    const existing = await repository.select('chat_conversation_members', { filters: [isIn('conversation_id', ids)] });
+    const missing = direct.flatMap(conv => [
+      { conv, id: conv.user1_id, name: conv.user1_name },
+      { conv, id: conv.user2_id, name: conv.user2_name },
+    ]).filter(({ conv, id }) => !existing.some(row => row.conversation_id === conv.id && row.user_id === id));
+    if (missing.length === 0) return;
+
+    const messages = await repository.select('chat_messages', {
+      filters: [isIn('conversation_id', ids)],
+      orderBy: { column: 'created_at', ascending: false },
+    });
+    await repository.insert('chat_conversation_members', missing.map(({ conv, id, name }) => ({
+      conversation_id: conv.id,
+      user_id: id,
+      user_name: name,
+      role: 'member',
+      joined_at: conv.created_at,
+      last_read_at: messages.find(message => message.conversation_id === conv.id &&
+        (message.sender_id === id || (message.recipient_id === id && message.read_at)))?.created_at ?? null,
+    })));
+    console.log(`💬 Chat: Added members to ${new Set(missing.map(({ conv }) => conv.id)).size} direct conversations`);
+  }
+
   /**
    * Send notification for new chat message
    */
   private static async sendMessageNotification(
+    conversationId: string,
     recipientId: string,
     senderName: string,
     messageText: string
   ): Promise<void> {
     try {
+      // The recipient may have muted the conversation or turned its notifications off
+      const preferences = await this.getPreferences(recipientId, conversationId);
+      if (this.isMuted(preferences) || preferences?.notificationEnabled === false) {
+        console.log(`💬 Chat: Skipping notification, conversation muted by recipient ${recipientId}`);
+        return;
+      }
+
       // Import notification service dynamically to avoid circular dependency
       const { RealTimeNotificationManager } = await import('./realTimeNotificationManager');
       
@@ -562,6 +1352,7 @@ export class ChatService {
         messageText.length > 50 ? `${messageText.substring(0, 50)}...` : messageText,
         {
           type: 'chat_message',
+          conversationId,
           senderId: recipientId,
           senderName,
           messagePreview: messageText.substring(0, 100)
@@ -575,120 +1366,89 @@ export class ChatService {
   }
 
   /**
-   * Demo conversation data for offline mode
-   */
-  private static getDemoConversations(userId: string): ChatConversation[] {
-    return [
-      {
-        id: 'demo_conv_1',
-        user1Id: userId,
-        user2Id: 'demo_user_1',
-        user1Name: 'You',
-        user2Name: 'Alex Chen',
-        createdAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-        updatedAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
-        lastMessageAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
-        lastMessage: "Let's practice the 4-ball column pattern together!",
-        lastMessageSenderId: 'demo_user_1',
-        unreadCount: 2
-      },
-      {
-        id: 'demo_conv_2',
-        user1Id: userId,
-        user2Id: 'demo_user_2',
-        user1Name: 'You',
-        user2Name: 'Sarah Williams',
-        createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
-        updatedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
-        lastMessageAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
-        lastMessage: "Thanks for the juggling tips! Really helpful.",
-        lastMessageSenderId: userId,
-        unreadCount: 0
-      }
+   * Give a user on the on-device store two demo conversations, with the
+   * connections that let them keep chatting
+   */
+  private static async seedDemoChat(repository: DataRepository, userId: string): Promise<void> {
+    const hour = 60 * 60 * 1000;
+    const at = (msAgo: number) => new Date(Date.now() - msAgo).toISOString();
+    const partners = [
+      { id: 'alex_chen', name: 'Alex Chen', startedAgo: 7 * 24 * hour },
+      { id: 'sarah_johnson', name: 'Sarah Johnson', startedAgo: 3 * 24 * hour },
     ];
-  }
 
-  /**
-   * Demo message data for offline mode
-   */
-  private static getDemoMessages(conversationId: string): ChatMessage[] {
-    const baseTime = Date.now() - 2 * 60 * 60 * 1000; // 2 hours ago
-    
-    return [
-      {
-        id: 'demo_msg_1',
-        conversationId,
-        senderId: 'demo_user_1',
-        senderName: 'Alex Chen',
-        recipientId: 'current_user',
-        messageText: "Hey! I saw your pattern interests. Want to practice together?",
-        messageType: 'text',
-        deliveredAt: new Date(baseTime),
-        createdAt: new Date(baseTime),
-        readAt: new Date(baseTime + 5 * 60 * 1000)
-      },
-      {
-        id: 'demo_msg_2',
-        conversationId,
-        senderId: 'current_user',
-        senderName: 'You',
-        recipientId: 'demo_user_1',
-        messageText: "Absolutely! I've been working on the 4-ball column.",
-        messageType: 'text',
-        deliveredAt: new Date(baseTime + 10 * 60 * 1000),
-        createdAt: new Date(baseTime + 10 * 60 * 1000),
-        readAt: new Date(baseTime + 12 * 60 * 1000)
-      },
-      {
-        id: 'demo_msg_3',
-        conversationId,
-        senderId: 'demo_user_1',
-        senderName: 'Alex Chen',
-        recipientId: 'current_user',
-        messageText: "Perfect! Let's practice the 4-ball column pattern together!",
-        messageType: 'text',
-        deliveredAt: new Date(baseTime + 20 * 60 * 1000),
-        createdAt: new Date(baseTime + 20 * 60 * 1000)
-        // Not read yet
-      }
-    ];
-  }
+    for (const partner of partners) {
+      const [user1, user2] = userId < partner.id
+        ? [{ id: userId, name: 'You' }, partner]
+        : [partner, { id: userId, name: 'You' }];
+      await repository.insert('connections', {
+        user1_id: user1.id,
+        user2_id: user2.id,
+        user1_name: user1.name,
+        user2_name: user2.name,
+        status: 'active',
+        connected_at: at(partner.startedAgo)
+      });
+      await repository.insert('chat_conversations', {
+        is_group: false,
+        user1_id: user1.id,
+        user2_id: user2.id,
+        user1_name: user1.name,
+        user2_name: user2.name,
+        created_at: at(partner.startedAgo),
+        updated_at: at(partner.startedAgo),
+        last_message_at: at(partner.startedAgo)
+      });
+    }
 
-  /**
-   * Create demo message for offline mode
-   */
-  private static createDemoMessage(
-    senderId: string,
-    senderName: string,
-    recipientId: string,
-    messageText: string,
-    messageType: ChatMessage['messageType']
-  ): ChatMessage {
-    return {
-      id: `demo_msg_${Date.now()}`,
-      conversationId: 'demo_conv_1',
-      senderId,
-      senderName,
-      recipientId,
-      messageText,
-      messageType,
-      deliveredAt: new Date(),
-      createdAt: new Date()
-    };
+    const conversations = await repository.select('chat_conversations', {
+      anyOf: [[eq('user1_id', userId)], [eq('user2_id', userId)]]
+    });
+    const conversationWith = (partnerId: string) =>
+      conversations.find(conv => conv.user1_id === partnerId || conv.user2_id === partnerId)!;
+
+    const messages = [
+      { partner: partners[0], fromPartner: true, ago: 2 * hour + 20 * 60 * 1000, read: true, text: "Hey! I saw your pattern interests. Want to practice together?" },
+      { partner: partners[0], fromPartner: false, ago: 2 * hour + 10 * 60 * 1000, read: true, text: "Absolutely! I've been working on the 4-ball column." },
+      { partner: partners[0], fromPartner: true, ago: 2 * hour, read: false, text: "Perfect! Let's practice the 4-ball column pattern together!" },
+      { partner: partners[1], fromPartner: false, ago: 24 * hour, read: true, text: "Thanks for the juggling tips! Really helpful." },
+    ];
+    for (const message of messages) {
+      const conv = conversationWith(message.partner.id);
+      const [senderId, senderName, recipientId] = message.fromPartner
+        ? [message.partner.id, message.partner.name, userId]
+        : [userId, 'You', message.partner.id];
+      await repository.insert('chat_messages', {
+        conversation_id: conv.id,
+        sender_id: senderId,
+        sender_name: senderName,
+        recipient_id: recipientId,
+        message_text: message.text,
+        message_type: 'text',
+        delivered_at: at(message.ago),
+        read_at: message.read ? at(message.ago - 5 * 60 * 1000) : null,
+        created_at: at(message.ago)
+      });
+      await repository.update('chat_conversations', {
+        last_message: message.text,
+        last_message_sender_id: senderId,
+        last_message_at: at(message.ago),
+        updated_at: at(message.ago)
+      }, { filters: [eq('id', conv.id)] });
+    }
   }
 
   /**
    * Cleanup subscriptions
    */
   static cleanup(): void {
-    this.conversationListeners.forEach(subscription => {
-      subscription.unsubscribe();
-    });
+    this.conversationListeners.forEach(unsubscribe => unsubscribe());
     this.conversationListeners.clear();
 
-    this.messageListeners.forEach(subscription => {
-      subscription.unsubscribe();
-    });
+    this.messageListeners.forEach(unsubscribe => unsubscribe());
     this.messageListeners.clear();
+
+    this.memberListeners.forEach(unsubscribe => unsubscribe());
+    this.memberListeners.clear();
   }
 }
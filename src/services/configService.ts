@@ -54,8 +54,9 @@ export interface AppConfig {
   app: {
     maxConnectionRequests: number;
     maxPatternContributions: number;
+    requiredPatternApprovals: number; // Independent approvals before a contributed pattern is community verified
     sessionReminderTime: number; // minutes before session
-    matchingAlgorithmVersion: string;
+    matchingAlgorithmVersion: string; // Which MatchScoringService weights to use ('1.0' or '2.0')
   };
 }
 
@@ -104,6 +105,7 @@ class ConfigService {
     app: {
       maxConnectionRequests: 50,
       maxPatternContributions: 10,
+      requiredPatternApprovals: 3,
       sessionReminderTime: 30, // 30 minutes
       matchingAlgorithmVersion: '1.0',
     },
@@ -1,11 +1,12 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { supabase, isSupabaseConfigured } from './supabase';
 import { SyncService } from './sync';
 import { ErrorService, ErrorType, ErrorSeverity } from './errorService';
 import { PerformanceService } from './performanceService';
 import { ValidationService } from './validationService';
 import { CacheService, CacheKeys } from './cacheService';
 import { RealTimeSyncService } from './realTimeSync';
+import { DataRepository, Row, eq } from './repository';
+import { RepositoryProvider } from './repositoryProvider';
 
 export interface ConnectionRequest {
   id: string;
@@ -30,9 +31,8 @@ export interface Connection {
 }
 
 export class ConnectionService {
-  private static CONNECTION_REQUESTS_KEY = 'connection_requests_global'; // Fallback for offline
-  private static CONNECTIONS_KEY = 'connections_global'; // Fallback for offline
-  private static USE_SUPABASE = true; // Enable Supabase backend (will fallback to local if not configured)
+  private static CONNECTION_REQUESTS_KEY = 'connection_requests_global'; // Used before the local repository
+  private static CONNECTIONS_KEY = 'connections_global'; // Used before the local repository
 
   /**
    * Generate a proper UUID format for Supabase compatibility
@@ -45,15 +45,8 @@ export class ConnectionService {
     });
   }
 
-  /**
-   * Check if Supabase is properly configured
-   */
-  private static isSupabaseConfigured(): boolean {
-    const configured = isSupabaseConfigured() === true;
-    console.log('🔧 ConnectionService: Supabase configured?', configured);
-    console.log('🔧 ConnectionService: Supabase client exists?', !!supabase);
-    console.log('🔧 ConnectionService: USE_SUPABASE flag?', this.USE_SUPABASE);
-    return configured;
+  private static isValidUUID(id: string): boolean {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(id);
   }
 
   /**
@@ -102,70 +95,48 @@ export class ConnectionService {
       }
 
       console.log(`ConnectionService: Sending request from ${fromUserName} (${fromUserId}) to ${toUserName} (${toUserId})`);
-      
-      if (this.USE_SUPABASE && this.isSupabaseConfigured() && supabase) {
-        // Validate UUIDs - if they're not valid UUIDs, fall back to local storage
-        const isValidUUID = (id: string) => {
-          const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-          return uuidRegex.test(id);
-        };
-        
-        if (!isValidUUID(fromUserId) || !isValidUUID(toUserId)) {
-          console.log('ConnectionService: Invalid UUID format, falling back to local storage');
-          const result = await this.sendConnectionRequestLocal(fromUserId, toUserId, fromUserName, toUserName, message);
-          PerformanceService.endMetric(metricId, { success: result, backend: 'local', reason: 'invalid_uuid' });
-          return result;
-        }
-        
-        // Use Supabase for real backend
-        const { data, error } = await supabase
-          .from('connection_requests')
-          .insert({
-            from_user_id: fromUserId,
-            to_user_id: toUserId,
-            from_user_name: fromUserName,
-            to_user_name: toUserName,
-            message,
-            status: 'pending'
-          })
-          .select()
-          .single();
-
-        if (error) {
-          ErrorService.logError(error, ErrorType.DATABASE, ErrorSeverity.MEDIUM, {
-            fromUserId,
-            toUserId,
-            supabaseError: error.message
-          });
-          console.log('ConnectionService: Falling back to local storage due to Supabase error');
-          const result = await this.sendConnectionRequestLocal(fromUserId, toUserId, fromUserName, toUserName, message);
-          PerformanceService.endMetric(metricId, { success: result, backend: 'local', reason: 'supabase_error' });
-          return result;
-        }
 
-        // Invalidate cache for connection requests
-        await CacheService.invalidatePattern(`connection_requests_${toUserId}`);
-        
+      const repository = RepositoryProvider.get();
+
+      // Demo users don't have UUIDs, which the Supabase columns require
+      if (repository.kind === 'supabase' && (!this.isValidUUID(fromUserId) || !this.isValidUUID(toUserId))) {
+        console.log('ConnectionService: Invalid UUID format, falling back to local repository');
+        const result = await this.sendConnectionRequestLocal(fromUserId, toUserId, fromUserName, toUserName, message);
+        PerformanceService.endMetric(metricId, { success: result, backend: 'local', reason: 'invalid_uuid' });
+        return result;
+      }
+
+      const request = await this.insertRequest(repository, fromUserId, toUserId, fromUserName, toUserName, message);
+      if (!request) {
+        PerformanceService.endMetric(metricId, { success: false, backend: repository.kind, reason: 'duplicate' });
+        return false;
+      }
+
+      // Invalidate cache for connection requests
+      await CacheService.invalidatePattern(`connection_requests_${toUserId}`);
+
+      if (repository.kind === 'supabase') {
         // 🚀 REAL-TIME FEATURE: Instantly notify target user
         await RealTimeSyncService.broadcastConnectionRequest(fromUserId, fromUserName, toUserId, toUserName);
-        
-        console.log('ConnectionService: Successfully sent request via Supabase');
-        PerformanceService.endMetric(metricId, { success: true, backend: 'supabase' });
-        return true;
       } else {
-        // Fallback to AsyncStorage for development/testing
-        console.log('ConnectionService: Using local storage (Supabase not configured or disabled)');
-        const result = await this.sendConnectionRequestLocal(fromUserId, toUserId, fromUserName, toUserName, message);
-        PerformanceService.endMetric(metricId, { success: result, backend: 'local' });
-        return result;
+        await this.queueSync('sendRequest', request, repository, [request.fromUserId, request.toUserId]);
       }
+
+      console.log(`ConnectionService: Successfully sent request via ${this.getCurrentBackend()}`);
+      PerformanceService.endMetric(metricId, { success: true, backend: repository.kind });
+      return true;
     } catch (error) {
-      ErrorService.logError(error instanceof Error ? error : new Error(String(error)), ErrorType.UNKNOWN, ErrorSeverity.HIGH, {
+      ErrorService.logError(error instanceof Error ? error : new Error(String(error)), ErrorType.DATABASE, ErrorSeverity.HIGH, {
         fromUserId,
         toUserId,
         operation: 'sendConnectionRequest'
       });
-      console.log('ConnectionService: Falling back to local storage due to error');
+      if (!RepositoryProvider.isRemote()) {
+        PerformanceService.endMetric(metricId, { success: false, error: 'local_failure' });
+        return false;
+      }
+
+      console.log('ConnectionService: Falling back to local repository due to error');
       try {
         const result = await this.sendConnectionRequestLocal(fromUserId, toUserId, fromUserName, toUserName, message);
         PerformanceService.endMetric(metricId, { success: result, backend: 'local', reason: 'exception_fallback' });
@@ -183,7 +154,7 @@ export class ConnectionService {
   }
 
   /**
-   * Send connection request locally (AsyncStorage fallback)
+   * Send connection request through the on-device repository (fallback)
    */
   private static async sendConnectionRequestLocal(
     fromUserId: string,
@@ -192,49 +163,57 @@ export class ConnectionService {
     toUserName: string,
     message?: string
   ): Promise<boolean> {
-    try {
-      const requests = await this.getConnectionRequests();
-      console.log(`ConnectionService: Current requests count: ${requests.length}`);
-      
-      // Check if request already exists
-      const existingRequest = requests.find(
-        req => req.fromUserId === fromUserId && req.toUserId === toUserId && req.status === 'pending'
-      );
-      
-      if (existingRequest) {
-        console.log('ConnectionService: Request already exists');
-        return false;
-      }
+    const local = RepositoryProvider.getLocal();
+    const request = await this.insertRequest(local, fromUserId, toUserId, fromUserName, toUserName, message);
+    if (!request) return false;
+    await this.queueSync('sendRequest', request, local, [request.fromUserId, request.toUserId]);
+    return true;
+  }
 
-      const newRequest: ConnectionRequest = {
-        id: this.generateUUID(),
-        fromUserId,
-        toUserId,
-        fromUserName,
-        toUserName,
-        status: 'pending',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        message,
-      };
-
-      const updatedRequests = [...requests, newRequest];
-      await AsyncStorage.setItem(this.CONNECTION_REQUESTS_KEY, JSON.stringify(updatedRequests));
-      
-      // Queue sync operation for when online
-      await SyncService.queueOperation({
-        service: 'connections',
-        action: 'sendRequest',
-        data: newRequest,
-        timestamp: Date.now(),
-      });
-      
-      console.log(`ConnectionService: Successfully saved request locally. New count: ${updatedRequests.length}`);
-      return true;
-    } catch (error) {
-      console.error('Error sending connection request locally:', error);
-      return false;
+  /**
+   * Store a new pending request, or return null if one is already pending
+   */
+  private static async insertRequest(
+    repository: DataRepository,
+    fromUserId: string,
+    toUserId: string,
+    fromUserName: string,
+    toUserName: string,
+    message?: string
+  ): Promise<ConnectionRequest | null> {
+    await this.seedLocalData(repository);
+    const existing = await repository.count('connection_requests', {
+      filters: [eq('from_user_id', fromUserId), eq('to_user_id', toUserId), eq('status', 'pending')],
+    });
+    if (existing > 0) {
+      console.log('ConnectionService: Request already exists');
+      return null;
     }
+
+    const [row] = await repository.insert('connection_requests', {
+      from_user_id: fromUserId,
+      to_user_id: toUserId,
+      from_user_name: fromUserName,
+      to_user_name: toUserName,
+      message,
+      status: 'pending'
+    });
+    return this.toConnectionRequest(row);
+  }
+
+  /**
+   * Queue a change made on the device so it reaches the server once we're online.
+   * Demo users only exist on the device, so changes involving them stay there.
+   */
+  private static async queueSync(action: string, data: any, repository: DataRepository, userIds: string[]): Promise<void> {
+    if (!RepositoryProvider.isLocalStore(repository)) return;
+    if (!userIds.every(userId => this.isValidUUID(userId))) return;
+    await SyncService.queueOperation({
+      service: 'connections',
+      action,
+      data,
+      timestamp: Date.now(),
+    });
   }
 
   /**
@@ -242,79 +221,112 @@ export class ConnectionService {
    */
   static async getConnectionRequests(): Promise<ConnectionRequest[]> {
     try {
-      console.log('🔧 ConnectionService: Getting connection requests...');
-      console.log('🔧 ConnectionService: USE_SUPABASE:', this.USE_SUPABASE);
-      console.log('🔧 ConnectionService: isSupabaseConfigured():', this.isSupabaseConfigured());
-      console.log('🔧 ConnectionService: supabase exists:', !!supabase);
-      
-      if (this.USE_SUPABASE && this.isSupabaseConfigured() && supabase) {
-        console.log('🔧 ConnectionService: Using Supabase backend');
-        // Use Supabase for real backend
-        const { data, error } = await supabase
-          .from('connection_requests')
-          .select('*')
-          .order('created_at', { ascending: false });
-
-        if (error) {
-          console.error('🔧 Supabase error getting connection requests:', error);
-          console.log('🔧 ConnectionService: Falling back to local storage due to Supabase error');
-          return this.getConnectionRequestsLocal();
-        }
-
-        console.log('🔧 ConnectionService: Successfully fetched from Supabase:', data?.length || 0, 'requests');
-        
-        // Transform Supabase data to our format
-        return data.map((req: any) => ({
-          id: req.id,
-          fromUserId: req.from_user_id,
-          toUserId: req.to_user_id,
-          fromUserName: req.from_user_name,
-          toUserName: req.to_user_name,
-          status: req.status,
-          createdAt: new Date(req.created_at),
-          updatedAt: new Date(req.updated_at || req.created_at),
-          message: req.message,
-        }));
-      } else {
-        // Fallback to AsyncStorage for development/testing
-        console.log('🔧 ConnectionService: Using local storage for getting requests (Supabase not configured or disabled)');
-        return this.getConnectionRequestsLocal();
-      }
+      const requests = await this.selectRequests(RepositoryProvider.get());
+      console.log(`🔧 ConnectionService: Loaded ${requests.length} requests from ${this.getCurrentBackend()}`);
+      return requests;
     } catch (error) {
       console.error('🔧 Error getting connection requests:', error);
-      console.log('🔧 ConnectionService: Falling back to local storage due to error');
+      console.log('🔧 ConnectionService: Falling back to local repository due to error');
       return this.getConnectionRequestsLocal();
     }
   }
 
   /**
-   * Get connection requests from local storage (fallback)
+   * Get connection requests from the on-device repository (fallback)
    */
   private static async getConnectionRequestsLocal(): Promise<ConnectionRequest[]> {
     try {
-      const stored = await AsyncStorage.getItem(this.CONNECTION_REQUESTS_KEY);
-      if (stored) {
-        const requests = JSON.parse(stored);
-        return requests.map((req: any) => ({
-          ...req,
-          createdAt: new Date(req.createdAt),
-          updatedAt: new Date(req.updatedAt),
-        }));
-      }
-      
-      // For testing: Create some demo requests if none exist
-      return this.createDemoRequestsIfEmpty();
+      return await this.selectRequests(RepositoryProvider.getLocal());
     } catch (error) {
-      console.error('Error getting connection requests from local storage:', error);
+      console.error('Error getting connection requests from the local repository:', error);
       return [];
     }
   }
 
+  private static async selectRequests(repository: DataRepository): Promise<ConnectionRequest[]> {
+    await this.seedLocalData(repository);
+    const rows = await repository.select('connection_requests', {
+      orderBy: { column: 'created_at', ascending: false },
+    });
+    return rows.map(row => this.toConnectionRequest(row));
+  }
+
+  /**
+   * Fill a new on-device repository with requests and connections saved by
+   * older versions, or with demo requests
+   */
+  private static async seedLocalData(repository: DataRepository): Promise<void> {
+    await RepositoryProvider.seedLocalTable(repository, 'connection_requests', async () => {
+      const stored = await AsyncStorage.getItem(this.CONNECTION_REQUESTS_KEY);
+      const requests: ConnectionRequest[] = stored ? JSON.parse(stored) : await this.createDemoRequests();
+      if (stored) await AsyncStorage.removeItem(this.CONNECTION_REQUESTS_KEY);
+      return requests.map(request => this.toRequestRow(request));
+    });
+    await RepositoryProvider.seedLocalTable(repository, 'connections', async () => {
+      const stored = await AsyncStorage.getItem(this.CONNECTIONS_KEY);
+      if (!stored) return [];
+      await AsyncStorage.removeItem(this.CONNECTIONS_KEY);
+      return JSON.parse(stored).map((connection: Connection) => this.toConnectionRow(connection));
+    });
+  }
+
+  private static toConnectionRequest(row: Row): ConnectionRequest {
+    return {
+      id: row.id,
+      fromUserId: row.from_user_id,
+      toUserId: row.to_user_id,
+      fromUserName: row.from_user_name,
+      toUserName: row.to_user_name,
+      status: row.status,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at || row.created_at),
+      message: row.message ?? undefined,
+    };
+  }
+
+  private static toRequestRow(request: ConnectionRequest): Row {
+    return {
+      id: request.id,
+      from_user_id: request.fromUserId,
+      to_user_id: request.toUserId,
+      from_user_name: request.fromUserName,
+      to_user_name: request.toUserName,
+      message: request.message,
+      status: request.status,
+      created_at: new Date(request.createdAt).toISOString(),
+      updated_at: new Date(request.updatedAt).toISOString(),
+    };
+  }
+
+  private static toConnection(row: Row): Connection {
+    return {
+      id: row.id,
+      userId1: row.user1_id,
+      userId2: row.user2_id,
+      userName1: row.user1_name,
+      userName2: row.user2_name,
+      connectedAt: new Date(row.connected_at || row.created_at),
+      status: row.status as 'active' | 'blocked',
+    };
+  }
+
+  private static toConnectionRow(connection: Connection): Row {
+    return {
+      id: connection.id,
+      user1_id: connection.userId1,
+      user2_id: connection.userId2,
+      user1_name: connection.userName1,
+      user2_name: connection.userName2,
+      status: connection.status,
+      connected_at: new Date(connection.connectedAt).toISOString(),
+    };
+  }
+
   /**
    * Create demo connection requests for testing cross-user functionality
    * Updated to use REAL user IDs from current app users for cross-user testing
    */
-  private static async createDemoRequestsIfEmpty(): Promise<ConnectionRequest[]> {
+  private static async createDemoRequests(): Promise<ConnectionRequest[]> {
     try {
       // Get current users from the app to create realistic cross-user requests
       const { UserSearchService } = await import('./userSearch');
@@ -391,7 +403,6 @@ export class ConnectionService {
         );
       }
 
-      await AsyncStorage.setItem(this.CONNECTION_REQUESTS_KEY, JSON.stringify(demoRequests));
       console.log(`🎯 Created ${demoRequests.length} realistic connection requests for cross-user testing`);
       
       if (demoRequests.length > 0) {
@@ -452,51 +463,19 @@ export class ConnectionService {
         toName: r.toUserName
       })));
       
-      if (this.USE_SUPABASE && this.isSupabaseConfigured() && supabase) {
-        // Try to add to Supabase with proper error handling
-        try {
-          const supabaseRequests = testRequests.map(req => ({
-            id: req.id,
-            from_user_id: req.fromUserId,
-            to_user_id: req.toUserId,
-            from_user_name: req.fromUserName,
-            to_user_name: req.toUserName,
-            message: req.message,
-            status: req.status,
-            created_at: req.createdAt?.toISOString(),
-            updated_at: req.updatedAt?.toISOString()
-          }));
-          
-          console.log('🧪 Inserting to Supabase:', supabaseRequests);
-          
-          const { data, error } = await supabase
-            .from('connection_requests')
-            .insert(supabaseRequests);
-          
-          if (error) {
-            console.error('Error adding test requests to Supabase:', error);
-            // Fallback to local storage
-            const existingRequests = await this.getConnectionRequests();
-            const allRequests = [...existingRequests, ...testRequests];
-            await AsyncStorage.setItem(this.CONNECTION_REQUESTS_KEY, JSON.stringify(allRequests));
-            console.log('🧪 Fell back to local storage due to Supabase error');
-          } else {
-            console.log('🧪 Successfully added test requests to Supabase');
-          }
-        } catch (supabaseError) {
-          console.error('Supabase insertion failed:', supabaseError);
-          // Fallback to local storage
-          const existingRequests = await this.getConnectionRequests();
-          const allRequests = [...existingRequests, ...testRequests];
-          await AsyncStorage.setItem(this.CONNECTION_REQUESTS_KEY, JSON.stringify(allRequests));
-          console.log('🧪 Fell back to local storage due to Supabase exception');
-        }
-      } else {
-        // Add to local storage
-        const existingRequests = await this.getConnectionRequests();
-        const allRequests = [...existingRequests, ...testRequests];
-        await AsyncStorage.setItem(this.CONNECTION_REQUESTS_KEY, JSON.stringify(allRequests));
-        console.log('🧪 Successfully added test requests to local storage');
+      const rows = testRequests.map(request => this.toRequestRow(request));
+      try {
+        const repository = RepositoryProvider.get();
+        await this.seedLocalData(repository);
+        await repository.insert('connection_requests', rows);
+        console.log(`🧪 Successfully added test requests to ${this.getCurrentBackend()}`);
+      } catch (insertError) {
+        console.error('Error adding test requests:', insertError);
+        if (!RepositoryProvider.isRemote()) throw insertError;
+        const local = RepositoryProvider.getLocal();
+        await this.seedLocalData(local);
+        await local.insert('connection_requests', rows);
+        console.log('🧪 Fell back to local repository');
       }
       
       console.log(`🧪 Created ${testRequests.length} test incoming requests for ${currentUserName}`);
@@ -598,115 +577,61 @@ export class ConnectionService {
    */
   static async acceptConnectionRequest(requestId: string): Promise<boolean> {
     try {
-      if (this.USE_SUPABASE && this.isSupabaseConfigured()) {
-        // Use Supabase for real backend
-        const { data: request, error: fetchError } = await supabase!
-          .from('connection_requests')
-          .select('*')
-          .eq('id', requestId)
-          .single();
-
-        if (fetchError || !request) {
-          console.error('Error fetching connection request:', fetchError);
-          return this.acceptConnectionRequestLocal(requestId);
-        }
-
-        // Update request status to accepted
-        const { error: updateError } = await supabase!
-          .from('connection_requests')
-          .update({ 
-            status: 'accepted',
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', requestId);
-
-        if (updateError) {
-          console.error('Error updating connection request:', updateError);
-          return this.acceptConnectionRequestLocal(requestId);
-        }
-
-        // Create connection in Supabase
-        const { error: connectionError } = await supabase!
-          .from('connections')
-          .insert({
-            user1_id: request.from_user_id,
-            user2_id: request.to_user_id,
-            user1_name: request.from_user_name,
-            user2_name: request.to_user_name,
-            status: 'active'
-          });
-
-        if (connectionError) {
-          console.error('Error creating connection:', connectionError);
-          // Connection creation failed, but request was accepted
-          // This is still a partial success
-        }
-
-        console.log('ConnectionService: Successfully accepted request via Supabase');
-        return true;
-      } else {
-        // Fallback to AsyncStorage for development/testing
-        console.log('ConnectionService: Using local storage for accepting request (Supabase not configured or disabled)');
+      const repository = RepositoryProvider.get();
+      const accepted = await this.acceptRequest(repository, requestId);
+      if (!accepted && repository.kind === 'supabase') {
+        // Requests involving demo users only exist on the device
         return this.acceptConnectionRequestLocal(requestId);
       }
+      return accepted;
     } catch (error) {
       console.error('Error accepting connection request:', error);
-      console.log('ConnectionService: Falling back to local storage due to error');
+      if (!RepositoryProvider.isRemote()) return false;
+      console.log('ConnectionService: Falling back to local repository due to error');
       return this.acceptConnectionRequestLocal(requestId);
     }
   }
 
   /**
-   * Accept connection request locally (fallback)
+   * Accept connection request in the on-device repository (fallback)
    */
   private static async acceptConnectionRequestLocal(requestId: string): Promise<boolean> {
     try {
-      const requests = await this.getConnectionRequestsLocal();
-      const requestIndex = requests.findIndex(req => req.id === requestId);
-      
-      if (requestIndex === -1) {
-        return false;
-      }
+      return await this.acceptRequest(RepositoryProvider.getLocal(), requestId);
+    } catch (error) {
+      console.error('Error accepting connection request locally:', error);
+      return false;
+    }
+  }
 
-      const request = requests[requestIndex];
-      
-      // Update request status
-      requests[requestIndex] = {
-        ...request,
-        status: 'accepted',
-        updatedAt: new Date(),
-      };
-
-      await AsyncStorage.setItem(this.CONNECTION_REQUESTS_KEY, JSON.stringify(requests));
-
-      // Create connection
-      const connection: Connection = {
-        id: this.generateUUID(),
-        userId1: request.fromUserId,
-        userId2: request.toUserId,
-        userName1: request.fromUserName,
-        userName2: request.toUserName,
-        connectedAt: new Date(),
-        status: 'active',
-      };
+  private static async acceptRequest(repository: DataRepository, requestId: string): Promise<boolean> {
+    await this.seedLocalData(repository);
+    const [updated] = await repository.update('connection_requests', {
+      status: 'accepted',
+      updated_at: new Date().toISOString()
+    }, { filters: [eq('id', requestId)] });
+    if (!updated) return false;
+    const request = this.toConnectionRequest(updated);
 
-      const connections = await this.getConnections();
-      const updatedConnections = [...connections, connection];
-      await AsyncStorage.setItem(this.CONNECTIONS_KEY, JSON.stringify(updatedConnections));
-
-      // Queue sync operation for when online
-      await SyncService.queueOperation({
-        service: 'connections',
-        action: 'acceptRequest',
-        data: { request: requests[requestIndex], connection },
-        timestamp: Date.now(),
+    let connection: Connection | undefined;
+    try {
+      const [row] = await repository.insert('connections', {
+        user1_id: request.fromUserId,
+        user2_id: request.toUserId,
+        user1_name: request.fromUserName,
+        user2_name: request.toUserName,
+        status: 'active',
+        connected_at: new Date().toISOString()
       });
-
-      return true;
+      connection = this.toConnection(row);
     } catch (error) {
-      console.error('Error accepting connection request locally:', error);
-      return false;
+      // The request was still accepted, which is a partial success
+      console.error('Error creating connection:', error);
     }
+
+    await this.queueSync('acceptRequest', { request, connection }, repository, [request.fromUserId, request.toUserId]);
+    console.log(`ConnectionService: Successfully accepted request via ${repository.kind}`);
+    return true;
   }
 
   /**
@@ -714,120 +639,80 @@ export class ConnectionService {
    */
   static async declineConnectionRequest(requestId: string): Promise<boolean> {
     try {
-      if (this.USE_SUPABASE && this.isSupabaseConfigured()) {
-        // Use Supabase for real backend
-        const { error } = await supabase!
-          .from('connection_requests')
-          .update({ 
-            status: 'declined',
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', requestId);
-
-        if (error) {
-          console.error('Supabase error declining connection request:', error);
-          return this.declineConnectionRequestLocal(requestId);
-        }
-
-        console.log('ConnectionService: Successfully declined request via Supabase');
-        return true;
-      } else {
-        // Fallback to AsyncStorage for development/testing
-        console.log('ConnectionService: Using local storage for declining request (Supabase not configured or disabled)');
+      const repository = RepositoryProvider.get();
+      const declined = await this.declineRequest(repository, requestId);
+      if (!declined && repository.kind === 'supabase') {
         return this.declineConnectionRequestLocal(requestId);
       }
+      return declined;
     } catch (error) {
       console.error('Error declining connection request:', error);
-      console.log('ConnectionService: Falling back to local storage due to error');
+      if (!RepositoryProvider.isRemote()) return false;
+      console.log('ConnectionService: Falling back to local repository due to error');
       return this.declineConnectionRequestLocal(requestId);
     }
   }
 
   /**
-   * Decline connection request locally (fallback)
+   * Decline connection request in the on-device repository (fallback)
    */
   private static async declineConnectionRequestLocal(requestId: string): Promise<boolean> {
     try {
-      const requests = await this.getConnectionRequestsLocal();
-      const requestIndex = requests.findIndex(req => req.id === requestId);
-      
-      if (requestIndex === -1) {
-        return false;
-      }
-
-      requests[requestIndex] = {
-        ...requests[requestIndex],
-        status: 'declined',
-        updatedAt: new Date(),
-      };
-
-      await AsyncStorage.setItem(this.CONNECTION_REQUESTS_KEY, JSON.stringify(requests));
-      
-      // Queue sync operation for when online
-      await SyncService.queueOperation({
-        service: 'connections',
-        action: 'declineRequest',
-        data: { request: requests[requestIndex] },
-        timestamp: Date.now(),
-      });
-      
-      return true;
+      return await this.declineRequest(RepositoryProvider.getLocal(), requestId);
     } catch (error) {
       console.error('Error declining connection request locally:', error);
       return false;
     }
   }
 
+  private static async declineRequest(repository: DataRepository, requestId: string): Promise<boolean> {
+    await this.seedLocalData(repository);
+    const [updated] = await repository.update('connection_requests', {
+      status: 'declined',
+      updated_at: new Date().toISOString()
+    }, { filters: [eq('id', requestId)] });
+    if (!updated) return false;
+
+    const request = this.toConnectionRequest(updated);
+    await this.queueSync('declineRequest', { request }, repository, [request.fromUserId, request.toUserId]);
+    return true;
+  }
+
   /**
-   * Get all connections
+   * Get all active connections
    */
   static async getConnections(): Promise<Connection[]> {
     try {
-      if (this.USE_SUPABASE && this.isSupabaseConfigured() && supabase) {
-        // Try to get connections from Supabase first
-        const { data: supabaseConnections, error } = await supabase
-          .from('connections')
-          .select('*')
-          .eq('status', 'active');
-
-        if (!error && supabaseConnections) {
-          console.log(`ConnectionService: Loaded ${supabaseConnections.length} connections from Supabase`);
-          
-          // Convert Supabase format to our format
-          const connections: Connection[] = supabaseConnections.map((conn: any) => ({
-            id: conn.id,
-            userId1: conn.user1_id,
-            userId2: conn.user2_id,
-            userName1: conn.user1_name,
-            userName2: conn.user2_name,
-            connectedAt: new Date(conn.created_at),
-            status: conn.status as 'active' | 'blocked'
-          }));
-
-          // Also store locally for offline access
-          await AsyncStorage.setItem(this.CONNECTIONS_KEY, JSON.stringify(connections));
-          return connections;
-        } else {
-          console.log('ConnectionService: Supabase connections query failed, using local storage');
-        }
-      }
-
-      // Fallback to local storage
-      const stored = await AsyncStorage.getItem(this.CONNECTIONS_KEY);
-      if (stored) {
-        const connections = JSON.parse(stored);
-        return connections.map((conn: any) => ({
-          ...conn,
-          connectedAt: new Date(conn.connectedAt),
-        }));
+      const repository = RepositoryProvider.get();
+      const connections = await this.selectConnections(repository);
+      console.log(`ConnectionService: Loaded ${connections.length} connections from ${this.getCurrentBackend()}`);
+
+      if (repository.kind === 'supabase') {
+        // Also keep a copy on the device for offline access
+        const local = RepositoryProvider.getLocal();
+        await this.seedLocalData(local);
+        await local.upsert('connections', connections.map(connection => this.toConnectionRow(connection)));
       }
-      return [];
+      return connections;
     } catch (error) {
       console.error('Error getting connections:', error);
-      return [];
+      if (!RepositoryProvider.isRemote()) return [];
+      console.log('ConnectionService: Connections query failed, using local repository');
+      try {
+        return await this.selectConnections(RepositoryProvider.getLocal());
+      } catch (fallbackError) {
+        console.error('Error getting connections from the local repository:', fallbackError);
+        return [];
+      }
     }
   }
 
+  private static async selectConnections(repository: DataRepository): Promise<Connection[]> {
+    await this.seedLocalData(repository);
+    const rows = await repository.select('connections', { filters: [eq('status', 'active')] });
+    return rows.map(row => this.toConnection(row));
+  }
+
   /**
    * Get connections for a specific user
    */
@@ -884,9 +769,16 @@ export class ConnectionService {
    */
   static async removeConnection(connectionId: string): Promise<boolean> {
     try {
-      const connections = await this.getConnections();
-      const filteredConnections = connections.filter(conn => conn.id !== connectionId);
-      await AsyncStorage.setItem(this.CONNECTIONS_KEY, JSON.stringify(filteredConnections));
+      let repository = RepositoryProvider.get();
+      let removed = await repository.delete('connections', { filters: [eq('id', connectionId)] });
+      if (removed.length === 0 && RepositoryProvider.isRemote()) {
+        repository = RepositoryProvider.getLocal();
+        removed = await repository.delete('connections', { filters: [eq('id', connectionId)] });
+      }
+
+      // Otherwise the next pull brings the connection back
+      const [row] = removed;
+      if (row) await this.queueSync('removeConnection', { connectionId }, repository, [row.user1_id, row.user2_id]);
       return true;
     } catch (error) {
       console.error('Error removing connection:', error);
@@ -895,10 +787,13 @@ export class ConnectionService {
   }
 
   /**
-   * Clear all connection data (for testing/reset)
+   * Clear all connection data on the device (for testing/reset)
    */
   static async clearAllConnectionData(): Promise<boolean> {
     try {
+      const local = RepositoryProvider.getLocal();
+      await local.delete('connection_requests', {});
+      await local.delete('connections', {});
       await AsyncStorage.removeItem(this.CONNECTION_REQUESTS_KEY);
       await AsyncStorage.removeItem(this.CONNECTIONS_KEY);
       return true;
@@ -927,18 +822,18 @@ export class ConnectionService {
   }
 
   /**
-   * Toggle between Supabase and local storage for testing
+   * Toggle between Supabase and the on-device repository for testing
    */
   static toggleBackend(useSupabase: boolean = false) {
-    this.USE_SUPABASE = useSupabase;
-    console.log(`ConnectionService: Switched to ${useSupabase ? 'Supabase' : 'Local Storage'} backend`);
+    RepositoryProvider.set(useSupabase ? null : RepositoryProvider.getLocal());
+    console.log(`ConnectionService: Switched to ${this.getCurrentBackend()} backend`);
   }
 
   /**
    * Check current backend mode
    */
   static getCurrentBackend(): string {
-    return this.USE_SUPABASE ? 'Supabase' : 'Local Storage';
+    return RepositoryProvider.isRemote() ? 'Supabase' : 'Local Storage';
   }
 
   /**
@@ -946,50 +841,39 @@ export class ConnectionService {
    */
   static async cancelConnectionRequest(requestId: string): Promise<boolean> {
     try {
-      if (this.USE_SUPABASE && this.isSupabaseConfigured()) {
-        // Use Supabase for real backend
-        const { error } = await supabase!
-          .from('connection_requests')
-          .delete()
-          .eq('id', requestId);
-
-        if (error) {
-          console.error('Supabase error canceling connection request:', error);
-          return this.cancelConnectionRequestLocal(requestId);
-        }
-
-        console.log('ConnectionService: Successfully canceled request via Supabase');
+      const repository = RepositoryProvider.get();
+      const removed = await repository.delete('connection_requests', { filters: [eq('id', requestId)] });
+      if (removed.length > 0) {
+        await this.queueCancel(removed[0], repository);
+        console.log(`ConnectionService: Successfully canceled request via ${this.getCurrentBackend()}`);
         return true;
-      } else {
-        // Fallback to AsyncStorage for development/testing
-        console.log('ConnectionService: Using local storage for canceling request (Supabase not configured or disabled)');
-        return this.cancelConnectionRequestLocal(requestId);
       }
+      return RepositoryProvider.isRemote() ? this.cancelConnectionRequestLocal(requestId) : false;
     } catch (error) {
       console.error('Error canceling connection request:', error);
-      console.log('ConnectionService: Falling back to local storage due to error');
+      if (!RepositoryProvider.isRemote()) return false;
+      console.log('ConnectionService: Falling back to local repository due to error');
       return this.cancelConnectionRequestLocal(requestId);
     }
   }
 
   /**
-   * Cancel connection request locally (fallback)
+   * Cancel connection request in the on-device repository (fallback)
    */
   private static async cancelConnectionRequestLocal(requestId: string): Promise<boolean> {
     try {
-      const requests = await this.getConnectionRequestsLocal();
-      const filteredRequests = requests.filter(req => req.id !== requestId);
-      
-      if (filteredRequests.length === requests.length) {
-        // Request not found
-        return false;
-      }
-
-      await AsyncStorage.setItem(this.CONNECTION_REQUESTS_KEY, JSON.stringify(filteredRequests));
+      const local = RepositoryProvider.getLocal();
+      const removed = await local.delete('connection_requests', { filters: [eq('id', requestId)] });
+      if (removed.length === 0) return false;
+      await this.queueCancel(removed[0], local);
       return true;
     } catch (error) {
       console.error('Error canceling connection request locally:', error);
       return false;
     }
   }
+
+  private static async queueCancel(row: Row, repository: DataRepository): Promise<void> {
+    await this.queueSync('cancelRequest', { requestId: row.id }, repository, [row.from_user_id, row.to_user_id]);
+  }
 }
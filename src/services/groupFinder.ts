@@ -0,0 +1,230 @@
+/**
+ * Group finder service
+ * Assembles groups of connected jugglers for patterns that need three or more
+ * people, and explains how each group's score was reached.
+ */
+
+import { Pattern, TimeBlock } from '../types';
+import { getPatternById } from '../data/patterns';
+import { UserSearchService, UserProfile } from './userSearch';
+import { ConnectionService } from './connections';
+import { AvailabilityService } from './availability';
+import { PatternLibraryService } from './patternLibrary';
+
+export interface GroupScoreFactor {
+  label: string;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+export interface GroupCandidate {
+  patternId: string;
+  members: UserProfile[]; // Organizer first
+  score: number; // 0-100
+  knowers: string[]; // Member IDs who already know the pattern
+  learners: string[]; // Member IDs who want to learn it
+  sharedProps: string[];
+  sharedAvailability: TimeBlock[];
+  factors: GroupScoreFactor[];
+}
+
+export interface GroupSearchOptions {
+  groupSize?: number; // Defaults to the pattern's requiredJugglers
+  maxGroups?: number;
+}
+
+const MAX_CANDIDATES = 12; // Keeps the number of combinations to check small
+const EXPERIENCE_LEVELS = ['Beginner', 'Intermediate', 'Advanced'];
+
+export class GroupFinderService {
+  /**
+   * Find and rank groups for a pattern made up of the organizer and people
+   * they are connected with who know or want to learn it
+   */
+  static async findGroups(
+    organizerId: string,
+    patternId: string,
+    options: GroupSearchOptions = {}
+  ): Promise<GroupCandidate[]> {
+    try {
+      const pattern = await this.getPattern(patternId);
+      if (!pattern) {
+        console.error(`GroupFinderService: Pattern ${patternId} not found`);
+        return [];
+      }
+
+      const groupSize = options.groupSize ?? pattern.requiredJugglers;
+      const maxGroups = options.maxGroups ?? 5;
+      if (groupSize < 2) return [];
+
+      const [allUsers, connections] = await Promise.all([
+        UserSearchService.getAllUsers(''),
+        ConnectionService.getConnections()
+      ]);
+
+      const organizer = allUsers.find(user => user.id === organizerId);
+      if (!organizer) {
+        console.error(`GroupFinderService: Organizer ${organizerId} not found`);
+        return [];
+      }
+
+      const connected = new Set<string>();
+      connections
+        .filter(conn => conn.status === 'active')
+        .forEach(conn => connected.add(pairKey(conn.userId1, conn.userId2)));
+      const areConnected = (a: string, b: string) => connected.has(pairKey(a, b));
+
+      // Connected users who know or want the pattern and juggle one of its props
+      const candidates = allUsers
+        .filter(user => user.id !== organizerId && areConnected(organizerId, user.id))
+        .filter(user => this.knowsPattern(user, pattern) || this.wantsPattern(user, pattern))
+        .filter(user => this.getSharedProps([organizer, user], pattern).length > 0)
+        .sort((a, b) =>
+          UserSearchService.calculateCompatibilityScore(organizer, b) -
+          UserSearchService.calculateCompatibilityScore(organizer, a))
+        .slice(0, MAX_CANDIDATES);
+
+      const groups: GroupCandidate[] = [];
+      combinations(candidates, groupSize - 1).forEach(others => {
+        const group = this.scoreGroup([organizer, ...others], pattern, areConnected);
+        if (group) groups.push(group);
+      });
+
+      return groups.sort((a, b) => b.score - a.score).slice(0, maxGroups);
+    } catch (error) {
+      console.error('Error finding groups:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Score a group, or return null if it can't juggle the pattern together:
+   * someone neither knows nor wants the pattern, no prop in common, or no shared free time
+   */
+  static scoreGroup(
+    members: UserProfile[],
+    pattern: Pattern,
+    areConnected: (userId1: string, userId2: string) => boolean
+  ): GroupCandidate | null {
+    const knowers = members.filter(user => this.knowsPattern(user, pattern)).map(user => user.id);
+    const learners = members
+      .filter(user => !knowers.includes(user.id) && this.wantsPattern(user, pattern))
+      .map(user => user.id);
+    const sharedProps = this.getSharedProps(members, pattern);
+    const schedules = members.map(user => ({ availability: user.availability || [], timezone: user.timezone }));
+    const sharedAvailability = AvailabilityService.findSharedWindows(schedules);
+    const overlapMinutes = AvailabilityService.getOverlapMinutes(schedules);
+
+    if (knowers.length + learners.length < members.length || sharedProps.length === 0 || overlapMinutes === 0) {
+      return null;
+    }
+
+    const factors: GroupScoreFactor[] = [];
+
+    // Someone who already knows the pattern can lead; a group of only learners is a stretch
+    const knowerPoints = knowers.length === 0 ? 0 : Math.round(35 * Math.min(1, knowers.length / Math.ceil(members.length / 2)));
+    factors.push({
+      label: 'Pattern experience',
+      points: knowerPoints,
+      maxPoints: 35,
+      detail: knowers.length === 0
+        ? `Nobody knows ${pattern.name} yet - everyone would be learning`
+        : `${knowers.length} of ${members.length} already know ${pattern.name}` +
+          (learners.length > 0 ? `, ${learners.length} ${learners.length === 1 ? 'wants' : 'want'} to learn it` : ''),
+    });
+
+    const availabilityPoints = Math.min(25, Math.round(overlapMinutes / 12));
+    factors.push({
+      label: 'Shared free time',
+      points: availabilityPoints,
+      maxPoints: 25,
+      detail: `Free together ${formatHours(overlapMinutes)} a week` +
+        (sharedAvailability.length > 0 ? `, e.g. ${AvailabilityService.formatTimeBlock(sharedAvailability[0])}` : ''),
+    });
+
+    factors.push({
+      label: 'Props',
+      points: 15,
+      maxPoints: 15,
+      detail: `Everyone juggles ${sharedProps.join(' or ')}`,
+    });
+
+    const pairs = members.length * (members.length - 1) / 2;
+    let connectedPairs = 0;
+    members.forEach((a, i) => members.slice(i + 1).forEach(b => {
+      if (areConnected(a.id, b.id)) connectedPairs++;
+    }));
+    factors.push({
+      label: 'Connections',
+      points: Math.round(15 * connectedPairs / pairs),
+      maxPoints: 15,
+      detail: `${connectedPairs} of ${pairs} pairs are connected`,
+    });
+
+    const levels = members.map(user => EXPERIENCE_LEVELS.indexOf(user.experience));
+    const spread = Math.max(...levels) - Math.min(...levels);
+    factors.push({
+      label: 'Experience',
+      points: spread === 0 ? 10 : spread === 1 ? 5 : 0,
+      maxPoints: 10,
+      detail: spread === 0 ? 'Everyone is at the same level' : spread === 1 ? 'Experience levels are close' : 'Experience levels are far apart',
+    });
+
+    return {
+      patternId: pattern.id,
+      members,
+      score: Math.min(100, factors.reduce((total, factor) => total + factor.points, 0)),
+      knowers,
+      learners,
+      sharedProps,
+      sharedAvailability,
+      factors,
+    };
+  }
+
+  /**
+   * Props every member prefers that the pattern can be juggled with
+   */
+  private static getSharedProps(members: UserProfile[], pattern: Pattern): string[] {
+    const patternProps: string[] = pattern.props.length > 0 ? pattern.props : members[0].preferredProps;
+    return patternProps.filter(prop => members.every(user => (user.preferredProps || []).includes(prop)));
+  }
+
+  // Pattern lists may hold pattern IDs or names depending on where the profile came from
+  private static knowsPattern(user: UserProfile, pattern: Pattern): boolean {
+    return user.knownPatterns.includes(pattern.id) || user.knownPatterns.includes(pattern.name);
+  }
+
+  private static wantsPattern(user: UserProfile, pattern: Pattern): boolean {
+    return user.wantToLearnPatterns.includes(pattern.id) || user.wantToLearnPatterns.includes(pattern.name);
+  }
+
+  private static async getPattern(patternId: string): Promise<Pattern | undefined> {
+    const curriculum = getPatternById(patternId);
+    if (curriculum) return curriculum;
+    const contributed = await PatternLibraryService.getUserContributedPatterns();
+    return contributed.find(pattern => pattern.id === patternId);
+  }
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  if (items.length < size) return [];
+  const [first, ...rest] = items;
+  return [
+    ...combinations(rest, size - 1).map(combo => [first, ...combo]),
+    ...combinations(rest, size),
+  ];
+}
+
+function formatHours(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+  if (hours === 0) return `${remainder}m`;
+  return remainder === 0 ? `${hours}h` : `${hours}h ${remainder}m`;
+}
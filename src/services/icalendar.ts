@@ -0,0 +1,495 @@
+/**
+ * iCalendar (RFC 5545) service
+ * Writes sessions as VEVENTs and reads them back from .ics text, so sessions
+ * can move between the app and standard calendar apps.
+ * One-off sessions are written in UTC; recurring series use floating local
+ * time so every session stays at the same wall-clock time across DST changes.
+ */
+
+import type { ScheduledSession, SessionRecurrence } from './schedule';
+import { AvailabilityService } from './availability';
+
+export type ImportedSession = Omit<ScheduledSession, 'id' | 'hostId' | 'createdAt' | 'updatedAt'> & {
+  icalUid: string;
+};
+
+export interface ICSParseResult {
+  sessions: ImportedSession[];
+  errors: string[]; // "Line 12: ..." messages for events that were skipped
+}
+
+interface ContentLine {
+  name: string;
+  params: { [key: string]: string };
+  value: string;
+  line: number;
+}
+
+const PRODID = '-//PatternPals//Juggling Sessions//EN';
+const UID_DOMAIN = 'patternpals';
+const MAX_LINE_OCTETS = 75;
+const DEFAULT_DURATION = 60; // minutes, for events with neither DTEND nor DURATION
+const PATTERNS_PREFIX = 'Patterns: ';
+const SESSION_STATUSES: ScheduledSession['status'][] = ['scheduled', 'active', 'completed', 'cancelled'];
+
+export class ICalendarService {
+  /**
+   * The UID a session is exported under; imported sessions keep their original UID
+   */
+  static getUid(session: ScheduledSession): string {
+    return session.icalUid || `${session.id}@${UID_DOMAIN}`;
+  }
+
+  /**
+   * Write sessions as a VCALENDAR document with CRLF line endings
+   */
+  static exportSessions(sessions: ScheduledSession[], now: Date = new Date()): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODID}`,
+      'CALSCALE:GREGORIAN',
+      ...sessions.flatMap(session => this.toEvent(session, now)),
+      'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Read every VEVENT in an .ics document. Events that can't be represented as
+   * sessions are skipped with an error naming the line they start on.
+   */
+  static parseSessions(text: string): ICSParseResult {
+    const sessions: ImportedSession[] = [];
+    const errors: string[] = [];
+    const lines = unfoldLines(text);
+
+    if (!lines.some(line => line.name === 'BEGIN' && line.value.toUpperCase() === 'VCALENDAR')) {
+      return { sessions, errors: ['No calendar data found'] };
+    }
+
+    let event: ContentLine[] | null = null;
+    let eventStart = 0;
+    let nestedDepth = 0; // VALARMs and other components inside an event
+
+    lines.forEach(line => {
+      const component = line.value.toUpperCase();
+      if (line.name === 'BEGIN' && component === 'VEVENT') {
+        event = [];
+        eventStart = line.line;
+      } else if (line.name === 'END' && component === 'VEVENT' && event) {
+        try {
+          sessions.push(this.toSession(event, eventStart));
+        } catch (error) {
+          errors.push(error instanceof Error ? error.message : `Line ${eventStart}: could not read event`);
+        }
+        event = null;
+      } else if (event && line.name === 'BEGIN') {
+        nestedDepth++;
+      } else if (event && line.name === 'END') {
+        nestedDepth = Math.max(0, nestedDepth - 1);
+      } else if (event && nestedDepth === 0) {
+        event.push(line);
+      }
+    });
+
+    if (event) {
+      errors.push(`Line ${eventStart}: event is missing END:VEVENT`);
+    }
+
+    return { sessions, errors };
+  }
+
+  private static toEvent(session: ScheduledSession, now: Date): string[] {
+    const { recurrence } = session;
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${escapeText(this.getUid(session))}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `DTSTART:${recurrence ? formatFloating(session.scheduledTime) : formatUtc(session.scheduledTime)}`,
+      `DURATION:PT${Math.max(0, Math.round(session.duration))}M`,
+      `SUMMARY:${escapeText(session.partnerName ? `Juggling session with ${session.partnerName}` : 'Juggling session')}`,
+    ];
+
+    if (recurrence) {
+      lines.push(`RRULE:${formatRule(recurrence)}`);
+      (recurrence.exceptions || []).forEach(date => {
+        lines.push(`EXDATE:${date.replace(/-/g, '')}T${formatFloating(session.scheduledTime).split('T')[1]}`);
+      });
+    }
+    if (session.location) {
+      lines.push(`LOCATION:${escapeText(session.location)}`);
+    }
+
+    const description = [
+      session.notes,
+      session.plannedPatterns.length > 0 ? PATTERNS_PREFIX + session.plannedPatterns.join(', ') : undefined,
+    ].filter(Boolean).join('\n\n');
+    if (description) {
+      lines.push(`DESCRIPTION:${escapeText(description)}`);
+    }
+
+    lines.push(`STATUS:${session.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`);
+    lines.push(`X-PATTERNPALS-STATUS:${session.status}`);
+    if (session.plannedPatterns.length > 0) {
+      lines.push(`X-PATTERNPALS-PATTERNS:${session.plannedPatterns.map(escapeText).join(',')}`);
+    }
+    if (session.partnerId) {
+      lines.push(`X-PATTERNPALS-PARTNER-ID:${escapeText(session.partnerId)}`);
+    }
+    if (session.partnerName) {
+      lines.push(`X-PATTERNPALS-PARTNER-NAME:${escapeText(session.partnerName)}`);
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+  }
+
+  private static toSession(lines: ContentLine[], eventStart: number): ImportedSession {
+    const get = (name: string) => lines.find(line => line.name === name);
+    const getText = (name: string) => {
+      const line = get(name);
+      return line ? unescapeText(line.value) : undefined;
+    };
+
+    const recurrenceId = get('RECURRENCE-ID');
+    if (recurrenceId) {
+      throw new Error(`Line ${recurrenceId.line}: changes to a single occurrence (RECURRENCE-ID) are not supported`);
+    }
+
+    const dtstart = get('DTSTART');
+    if (!dtstart) {
+      throw new Error(`Line ${eventStart}: event has no DTSTART`);
+    }
+    const start = parseDateTime(dtstart);
+    if (!start) {
+      throw new Error(`Line ${dtstart.line}: invalid DTSTART "${dtstart.value}"`);
+    }
+
+    const duration = this.readDuration(get('DTEND'), get('DURATION'), start);
+
+    let recurrence: SessionRecurrence | undefined;
+    const rrule = get('RRULE');
+    if (rrule) {
+      recurrence = parseRule(rrule, start.date);
+      const exceptions = lines
+        .filter(line => line.name === 'EXDATE')
+        .flatMap(line => line.value.split(',').map(value => {
+          const exdate = parseDateTime({ ...line, value: value.trim() });
+          if (!exdate) {
+            throw new Error(`Line ${line.line}: invalid EXDATE "${value}"`);
+          }
+          return toDateKey(exdate.date);
+        }));
+      if (exceptions.length > 0) {
+        recurrence.exceptions = Array.from(new Set(exceptions)).sort();
+      }
+    }
+
+    const appStatus = getText('X-PATTERNPALS-STATUS') as ScheduledSession['status'] | undefined;
+    const status = appStatus && SESSION_STATUSES.includes(appStatus)
+      ? appStatus
+      : getText('STATUS')?.toUpperCase() === 'CANCELLED' ? 'cancelled' : 'scheduled';
+
+    // Patterns come from our own field when present, otherwise from a "Patterns:" line we wrote
+    const patternsLine = get('X-PATTERNPALS-PATTERNS');
+    let plannedPatterns = patternsLine ? splitList(patternsLine.value).map(unescapeText).filter(Boolean) : [];
+    let notes = getText('DESCRIPTION');
+    if (notes) {
+      const paragraphs = notes.split('\n\n');
+      const last = paragraphs[paragraphs.length - 1];
+      if (last.startsWith(PATTERNS_PREFIX)) {
+        if (plannedPatterns.length === 0) {
+          plannedPatterns = last.slice(PATTERNS_PREFIX.length).split(',').map(name => name.trim()).filter(Boolean);
+        }
+        notes = paragraphs.slice(0, -1).join('\n\n');
+      }
+    }
+
+    // Events from other calendars keep their title as the first line of the notes
+    const summary = getText('SUMMARY');
+    const isOwnEvent = lines.some(line => line.name.startsWith('X-PATTERNPALS-'));
+    if (summary && !isOwnEvent) {
+      notes = notes ? `${summary}\n\n${notes}` : summary;
+    }
+
+    const uid = getText('UID') || `${formatUtc(start.date)}-${summary || 'session'}@import`;
+
+    return {
+      icalUid: uid,
+      partnerId: getText('X-PATTERNPALS-PARTNER-ID'),
+      partnerName: getText('X-PATTERNPALS-PARTNER-NAME'),
+      scheduledTime: start.date,
+      duration,
+      location: getText('LOCATION') || undefined,
+      plannedPatterns,
+      status,
+      notes: notes || undefined,
+      recurrence,
+    };
+  }
+
+  private static readDuration(
+    dtend: ContentLine | undefined,
+    durationLine: ContentLine | undefined,
+    start: { date: Date; allDay: boolean }
+  ): number {
+    if (dtend) {
+      const end = parseDateTime(dtend);
+      if (!end || end.date < start.date) {
+        throw new Error(`Line ${dtend.line}: invalid DTEND "${dtend.value}"`);
+      }
+      return Math.round((end.date.getTime() - start.date.getTime()) / 60000);
+    }
+    if (durationLine) {
+      const minutes = parseDuration(durationLine.value);
+      if (minutes === null) {
+        throw new Error(`Line ${durationLine.line}: invalid DURATION "${durationLine.value}"`);
+      }
+      return minutes;
+    }
+    return start.allDay ? 24 * 60 : DEFAULT_DURATION;
+  }
+}
+
+function unfoldLines(text: string): ContentLine[] {
+  const result: ContentLine[] = [];
+  const rawLines = text.split(/\r\n|\n|\r/);
+  let current: { text: string; line: number } | null = null;
+
+  const flush = () => {
+    if (current && current.text.trim()) {
+      const parsed = parseContentLine(current.text, current.line);
+      if (parsed) result.push(parsed);
+    }
+  };
+
+  rawLines.forEach((raw, index) => {
+    if ((raw.startsWith(' ') || raw.startsWith('\t')) && current) {
+      current.text += raw.slice(1);
+    } else {
+      flush();
+      current = { text: raw, line: index + 1 };
+    }
+  });
+  flush();
+
+  return result;
+}
+
+function parseContentLine(text: string, line: number): ContentLine | null {
+  // The value starts at the first colon that isn't inside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') inQuotes = !inQuotes;
+    if (text[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = text.slice(0, colon).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: { [key: string]: string } = {};
+  paramParts.forEach(part => {
+    const equals = part.indexOf('=');
+    if (equals > 0) {
+      params[part.slice(0, equals).toUpperCase()] = part.slice(equals + 1).replace(/^"|"$/g, '');
+    }
+  });
+
+  return { name: name.toUpperCase(), params, value: text.slice(colon + 1), line };
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets, continuing with a space
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) || 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Split a comma-separated value on commas that aren't escaped
+function splitList(value: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  items.push(current);
+  return items;
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function formatUtc(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function formatFloating(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatRule(recurrence: SessionRecurrence): string {
+  const parts = recurrence.frequency === 'monthly'
+    ? ['FREQ=MONTHLY']
+    : ['FREQ=WEEKLY', ...(recurrence.frequency === 'biweekly' ? ['INTERVAL=2'] : [])];
+  if (recurrence.count !== undefined) {
+    parts.push(`COUNT=${recurrence.count}`);
+  } else if (recurrence.until) {
+    // UNTIL must match DTSTART's floating time, so use the end of the last day
+    parts.push(`UNTIL=${formatFloating(recurrence.until).split('T')[0]}T235959`);
+  }
+  return parts.join(';');
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Read the RRULEs sessions can express: weekly, every two weeks, or monthly on
+ * the start date's day, optionally limited by UNTIL or COUNT
+ */
+function parseRule(line: ContentLine, start: Date): SessionRecurrence {
+  const unsupported = (detail: string) =>
+    new Error(`Line ${line.line}: unsupported RRULE (${detail}); only weekly, every 2 weeks and monthly repeats can be imported`);
+
+  const parts: { [key: string]: string } = {};
+  line.value.split(';').filter(Boolean).forEach(part => {
+    const [key, value = ''] = part.split('=');
+    parts[key.toUpperCase()] = value.toUpperCase();
+  });
+
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+  let frequency: SessionRecurrence['frequency'];
+  if (parts.FREQ === 'WEEKLY' && interval === 1) {
+    frequency = 'weekly';
+  } else if (parts.FREQ === 'WEEKLY' && interval === 2) {
+    frequency = 'biweekly';
+  } else if (parts.FREQ === 'MONTHLY' && interval === 1) {
+    frequency = 'monthly';
+  } else {
+    throw unsupported(`FREQ=${parts.FREQ || '?'}${interval !== 1 ? `;INTERVAL=${parts.INTERVAL}` : ''}`);
+  }
+
+  // BYDAY / BYMONTHDAY are fine when they just repeat the start date
+  if (parts.BYDAY !== undefined && (frequency === 'monthly' || parts.BYDAY !== WEEKDAY_CODES[start.getDay()])) {
+    throw unsupported(`BYDAY=${parts.BYDAY}`);
+  }
+  if (parts.BYMONTHDAY !== undefined && (frequency !== 'monthly' || Number(parts.BYMONTHDAY) !== start.getDate())) {
+    throw unsupported(`BYMONTHDAY=${parts.BYMONTHDAY}`);
+  }
+  const allowed = ['FREQ', 'INTERVAL', 'UNTIL', 'COUNT', 'WKST', 'BYDAY', 'BYMONTHDAY'];
+  const extra = Object.keys(parts).find(key => !allowed.includes(key));
+  if (extra) {
+    throw unsupported(extra);
+  }
+
+  const recurrence: SessionRecurrence = { frequency };
+  if (parts.COUNT !== undefined) {
+    const count = Number(parts.COUNT);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Line ${line.line}: invalid COUNT "${parts.COUNT}"`);
+    }
+    recurrence.count = count;
+  }
+  if (parts.UNTIL !== undefined) {
+    const until = parseDateTime({ ...line, params: {}, value: parts.UNTIL });
+    if (!until) {
+      throw new Error(`Line ${line.line}: invalid UNTIL "${parts.UNTIL}"`);
+    }
+    recurrence.until = new Date(until.date.getFullYear(), until.date.getMonth(), until.date.getDate());
+  }
+  return recurrence;
+}
+
+/**
+ * Read a DATE or DATE-TIME value: UTC ("Z"), in a TZID, or floating local time
+ */
+function parseDateTime(line: ContentLine): { date: Date; allDay: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(line.value.trim());
+  if (!match) return null;
+
+  const [year, month, day, hours = 0, minutes = 0, seconds = 0] = match.slice(1, 7).map(part =>
+    part === undefined ? undefined : Number(part)
+  ) as number[];
+  const allDay = match[4] === undefined;
+
+  if (allDay) {
+    return { date: new Date(year, month - 1, day), allDay };
+  }
+  if (match[7]) {
+    return { date: new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds)), allDay };
+  }
+
+  const timezone = line.params.TZID;
+  if (timezone) {
+    // Wall time in the event's timezone; correct the offset once more in case the guess crossed a DST change
+    const wallTime = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+    let utc = wallTime - AvailabilityService.getTimezoneOffset(timezone, new Date(wallTime)) * 60000;
+    utc = wallTime - AvailabilityService.getTimezoneOffset(timezone, new Date(utc)) * 60000;
+    return { date: new Date(utc), allDay };
+  }
+
+  return { date: new Date(year, month - 1, day, hours, minutes, seconds), allDay };
+}
+
+/**
+ * Minutes in an RFC 5545 duration such as "PT1H30M" or "P1D"
+ */
+function parseDuration(value: string): number | null {
+  const match = /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match || value.trim() === 'P' || value.trim().endsWith('T')) return null;
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map(part => Number(part || 0));
+  return Math.round(((weeks * 7 + days) * 24 + hours) * 60 + minutes + seconds / 60);
+}
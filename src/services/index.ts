@@ -4,18 +4,41 @@ export type { AuthResult } from './authService';
 export { MigrationService } from './migrationService';
 export type { MigrationResult, MigrationStatus } from './migrationService';
 export { ScheduleService } from './schedule';
-export type { ScheduledSession } from './schedule';
+export type { ScheduledSession, SessionRecurrence, RecurrenceFrequency } from './schedule';
+export { ICalendarService } from './icalendar';
+export type { ImportedSession, ICSParseResult } from './icalendar';
 export { NotificationService } from './notifications';
 export type { LocalNotification } from './notifications';
 export { PushNotificationService } from './pushNotificationService';
 export type { PushNotificationData } from './pushNotificationService';
 export { ConnectionService } from './connections';
-export { UserPatternService } from './userPatterns';
+export { UserPatternService, PROFICIENCY_LEVELS } from './userPatterns';
 export { UserSearchService } from './userSearch';
 export type { UserProfile } from './userSearch';
+export { MatchScoringService } from './matchScoring';
+export type { MatchProfile, MatchFactor, MatchFactorResult, MatchScore, MatchScoreFactor, MatchWeights } from './matchScoring';
+export { LocationService, LOCATION_GRID_KM } from './location';
+export type { ResolvedLocation } from './location';
 export { supabase } from './supabase';
+export { MemoryRepository, SupabaseRepository, RepositoryError } from './repository';
+export type { DataRepository, Row, Filter, Query, ChangeEvent, ChangeSubscription } from './repository';
+export { RepositoryProvider } from './repositoryProvider';
+export { createLocalSupabaseClient } from './localSupabase';
 export { PatternLibraryService } from './patternLibrary';
+export { PatternShareService, PATTERN_SHARE_VERSION, PATTERN_LINK_PREFIX } from './patternShare';
+export type { SharedPatternDocument, SharedPatternListDocument, PatternImportResult, PatternLinkTarget } from './patternShare';
+export { PatternModerationService } from './patternModeration';
+export type { ReviewQueueItem, PatternReviewResult } from './patternModeration';
+export { PatternRatingService } from './patternRatings';
+export type { PatternRatingSummary } from './patternRatings';
+export { PropService, PROP_TYPES } from './props';
+export type { PropCountsParseResult } from './props';
+export { PassingNotationService } from './passingNotation';
+export type { PassingNotationParseResult, PassingNotationImportResult } from './passingNotation';
 export { SyncService } from './sync';
+export type { OfflineService, OfflineOperation, SyncStatus, SyncResult, DeadLetter } from './sync';
+export { CONFLICT_RESOLVERS, compareClocks, mergeClocks } from './syncConflicts';
+export type { VectorClock, ConflictResolver } from './syncConflicts';
 export { ErrorService } from './errorService';
 export type { ErrorType, ErrorSeverity } from './errorService';
 export { PerformanceService } from './performanceService';
@@ -23,3 +46,19 @@ export { ValidationService } from './validationService';
 export { CacheService, CacheKeys } from './cacheService';
 export { ConfigService } from './configService';
 export { PatternIntelligenceService } from './patternIntelligence';
+export { SiteswapService } from './siteswap';
+export type { ParsedSiteswap, SiteswapAnalysis } from './siteswap';
+export { PatternDerivationService } from './patternDerivation';
+export type { DerivedPatternFields, PatternConsistencyReport } from './patternDerivation';
+export { PrechacService } from './prechac';
+export type { PassingConversion, CompletedSiteswap } from './prechac';
+export { PatternSimulatorService } from './patternSimulator';
+export type { SimulationModel, SimulationFrame } from './patternSimulator';
+export { PrerequisiteGraphService } from './prerequisiteGraph';
+export type { PrerequisiteGraph, LibraryHealthReport } from './prerequisiteGraph';
+export { PracticeService } from './practice';
+export type { PracticeLog, PracticeReview, PracticeSuggestion } from './practice';
+export { AvailabilityService } from './availability';
+export type { AvailabilitySchedule } from './availability';
+export { GroupFinderService } from './groupFinder';
+export type { GroupCandidate, GroupScoreFactor } from './groupFinder';
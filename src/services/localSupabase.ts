@@ -0,0 +1,302 @@
+/**
+ * Local Supabase stand-in
+ * A client with the subset of the supabase-js query API our scripts use,
+ * backed by a MemoryRepository. `test-config.js` hands it out instead of the
+ * real client when PATTERNPALS_BACKEND=local, so the test-*.js flows run
+ * offline against a deterministic copy of the data.
+ */
+
+import {
+  ChangeEvent,
+  ChangeEventType,
+  Filter,
+  FilterOperator,
+  MemoryRepository,
+  Query,
+  RepositoryError,
+  Row,
+  Unsubscribe,
+} from './repository';
+
+export interface LocalResponse {
+  data: any;
+  error: { message: string; code?: string } | null;
+  count: number | null;
+}
+
+type Action = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+const NO_ROWS_CODE = 'PGRST116'; // What PostgREST returns when single() finds no row
+
+class LocalQueryBuilder implements PromiseLike<LocalResponse> {
+  private action: Action = 'select';
+  private query: Query = { filters: [] };
+  private columns: string[] | null = null;
+  private returning = false;
+  private countRows = false;
+  private head = false;
+  private payload: Row | Row[] = [];
+  private onConflict: string[] = ['id'];
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private repository: MemoryRepository, private table: string) {}
+
+  select(columns = '*', options: { count?: 'exact'; head?: boolean } = {}): this {
+    if (this.action !== 'select') this.returning = true;
+    this.columns = parseColumns(columns);
+    this.countRows = !!options.count;
+    this.head = !!options.head;
+    return this;
+  }
+
+  insert(rows: Row | Row[]): this {
+    this.action = 'insert';
+    this.payload = rows;
+    return this;
+  }
+
+  update(changes: Row): this {
+    this.action = 'update';
+    this.payload = changes;
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.action = 'upsert';
+    this.payload = rows;
+    if (options.onConflict) this.onConflict = options.onConflict.split(',').map(column => column.trim());
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any): this { return this.where(column, 'eq', value); }
+  neq(column: string, value: any): this { return this.where(column, 'neq', value); }
+  gt(column: string, value: any): this { return this.where(column, 'gt', value); }
+  gte(column: string, value: any): this { return this.where(column, 'gte', value); }
+  lt(column: string, value: any): this { return this.where(column, 'lt', value); }
+  lte(column: string, value: any): this { return this.where(column, 'lte', value); }
+  in(column: string, values: any[]): this { return this.where(column, 'in', values); }
+  is(column: string, value: any): this { return this.where(column, 'is', value); }
+  ilike(column: string, pattern: string): this { return this.where(column, 'ilike', pattern); }
+  contains(column: string, values: any[]): this { return this.where(column, 'contains', values); }
+
+  or(expression: string): this {
+    this.query.anyOf = parseOr(expression);
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.query.orderBy = { column, ascending: options.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.query.limit = count;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.query.offset = from;
+    this.query.limit = to - from + 1;
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = LocalResponse, TResult2 = never>(
+    onfulfilled?: ((value: LocalResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private where(column: string, operator: FilterOperator, value: any): this {
+    this.query.filters!.push({ column, operator, value });
+    return this;
+  }
+
+  private async execute(): Promise<LocalResponse> {
+    try {
+      const rows = await this.run();
+      // Counts ignore paging, as in PostgREST
+      const count = this.countRows && this.action === 'select' ? await this.repository.count(this.table, this.query) : null;
+      if (this.head) return { data: null, error: null, count };
+
+      const data = this.columns ? rows.map(row => project(row, this.columns!)) : rows;
+      if (this.cardinality === 'many') {
+        return { data: this.action === 'select' || this.returning ? data : null, error: null, count };
+      }
+      if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+        return {
+          data: null,
+          error: { message: 'JSON object requested, multiple (or no) rows returned', code: NO_ROWS_CODE },
+          count,
+        };
+      }
+      return { data: data[0] ?? null, error: null, count };
+    } catch (error) {
+      return {
+        data: null,
+        error: { message: error instanceof Error ? error.message : String(error), code: error instanceof RepositoryError ? error.code : undefined },
+        count: null,
+      };
+    }
+  }
+
+  private async run(): Promise<Row[]> {
+    switch (this.action) {
+      case 'insert':
+        return this.repository.insert(this.table, this.payload);
+      case 'update':
+        return this.repository.update(this.table, this.payload as Row, this.query);
+      case 'upsert':
+        return this.repository.upsert(this.table, this.payload, this.onConflict);
+      case 'delete':
+        return this.repository.delete(this.table, this.query);
+      default:
+        return this.head ? [] : this.repository.select(this.table, this.query);
+    }
+  }
+}
+
+type RealtimeBinding = {
+  event: ChangeEventType | '*';
+  table: string;
+  filter?: Filter;
+  callback: (payload: any) => void;
+};
+
+class LocalChannel {
+  private bindings: RealtimeBinding[] = [];
+  private unsubscribes: Unsubscribe[] = [];
+
+  constructor(private repository: MemoryRepository, readonly topic: string) {}
+
+  on(type: string, options: { event?: string; table?: string; filter?: string }, callback: (payload: any) => void): this {
+    if (type !== 'postgres_changes' || !options.table) {
+      throw new RepositoryError(`Local Supabase only emulates postgres_changes, not ${type}`);
+    }
+    this.bindings.push({
+      event: (options.event || '*') as RealtimeBinding['event'],
+      table: options.table,
+      filter: options.filter ? parseRealtimeFilter(options.filter) : undefined,
+      callback,
+    });
+    return this;
+  }
+
+  subscribe(callback?: (status: string) => void): this {
+    this.unsubscribes = this.bindings.map(binding => this.repository.subscribe(
+      this.topic,
+      { table: binding.table, event: binding.event, filter: binding.filter },
+      (event: ChangeEvent) => binding.callback({
+        schema: 'public',
+        table: event.table,
+        eventType: event.eventType,
+        new: event.new,
+        old: event.old,
+        commit_timestamp: new Date().toISOString(),
+      })
+    ));
+    callback?.('SUBSCRIBED');
+    return this;
+  }
+
+  unsubscribe(): Promise<'ok'> {
+    this.unsubscribes.forEach(unsubscribe => unsubscribe());
+    this.unsubscribes = [];
+    return Promise.resolve('ok');
+  }
+}
+
+/**
+ * Create a client that answers `from()`, `channel()` and `removeChannel()` from the repository
+ */
+export function createLocalSupabaseClient(repository: MemoryRepository) {
+  return {
+    from: (table: string) => new LocalQueryBuilder(repository, table),
+    channel: (topic: string) => new LocalChannel(repository, topic),
+    removeChannel: (channel: LocalChannel) => channel.unsubscribe(),
+  };
+}
+
+function parseColumns(columns: string): string[] | null {
+  const names = columns.split(',').map(column => column.trim()).filter(Boolean);
+  if (names.includes('*')) return null;
+  names.forEach(name => {
+    if (name.includes('(')) throw new RepositoryError(`Local Supabase doesn't support embedded selects: ${name}`);
+  });
+  return names;
+}
+
+function project(row: Row, columns: string[]): Row {
+  const projected: Row = {};
+  columns.forEach(column => {
+    projected[column] = row[column] ?? null;
+  });
+  return projected;
+}
+
+/**
+ * Parse `a.eq.1,and(b.eq.2,c.is.null)` into groups where any group may match
+ */
+function parseOr(expression: string): Filter[][] {
+  return splitTopLevel(expression).map(part => {
+    const group = part.match(/^and\((.*)\)$/);
+    return group ? splitTopLevel(group[1]).map(parseCondition) : [parseCondition(part)];
+  });
+}
+
+function parseCondition(condition: string): Filter {
+  const match = condition.match(/^([^.]+)\.(eq|neq|gt|gte|lt|lte|in|is|ilike)\.(.*)$/);
+  if (!match) throw new RepositoryError(`Unsupported filter: ${condition}`);
+  const [, column, operator, raw] = match;
+  return { column, operator: operator as FilterOperator, value: parseValue(operator, raw) };
+}
+
+function parseRealtimeFilter(filter: string): Filter {
+  const match = filter.match(/^([^=]+)=(eq|neq|gt|gte|lt|lte|in)\.(.*)$/);
+  if (!match) throw new RepositoryError(`Unsupported realtime filter: ${filter}`);
+  const [, column, operator, raw] = match;
+  return { column, operator: operator as FilterOperator, value: parseValue(operator, raw) };
+}
+
+function parseValue(operator: string, raw: string): any {
+  const unquote = (text: string) => text.startsWith('"') && text.endsWith('"') ? text.slice(1, -1).replace(/\\"/g, '"') : text;
+  if (operator === 'in') return splitTopLevel(raw.replace(/^\(|\)$/g, '')).map(unquote);
+  if (operator === 'is') return raw === 'null' ? null : raw === 'true';
+  return unquote(raw);
+}
+
+// Split on commas that aren't inside parentheses or quotes
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
@@ -0,0 +1,198 @@
+/**
+ * Location service
+ * Turns free-text locations ("Berkeley, CA", "SW1A 1AA", "10115 Berlin") into
+ * coordinates using the bundled gazetteer, so nothing is sent to a geocoder.
+ * Coordinates are snapped to a grid before they're stored and distances are
+ * never shown finer than that grid.
+ */
+
+import { COUNTRY_NAMES, GAZETTEER, GazetteerPlace, POSTCODE_FORMATS } from '../data/gazetteer';
+import { GeoPoint } from '../types';
+
+export interface ResolvedLocation extends GeoPoint {
+  placeId: string;
+  label: string; // e.g. "Berkeley, CA" or "Berlin, DE"
+}
+
+export const LOCATION_GRID_KM = 5;
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = 111.32;
+
+interface PostcodeMatch {
+  place: GazetteerPlace;
+  length: number; // Length of the matching prefix; longer is more specific
+}
+
+export class LocationService {
+  /**
+   * The gazetteer place a location refers to, or null if it isn't known or
+   * could be more than one place (e.g. a ZIP code that's also a German PLZ).
+   * Extra parts such as a state, country or city narrow the match down.
+   */
+  static resolve(text: string): ResolvedLocation | null {
+    const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+    if (parts.length === 0) return null;
+
+    const hints: string[] = [];
+    const postcodeMatches: PostcodeMatch[] = [];
+    parts.forEach(part => {
+      const { matches, rest } = this.findPostcode(part);
+      postcodeMatches.push(...matches);
+      if (rest) hints.push(rest);
+    });
+
+    let candidates: GazetteerPlace[];
+    if (postcodeMatches.length > 0) {
+      const narrowed = this.narrow(postcodeMatches.map(match => match.place), hints);
+      // Postcode formats overlap between countries; without a hint it's a guess
+      if (new Set(narrowed.map(place => place.country)).size > 1) return null;
+      const best = Math.max(...postcodeMatches.filter(match => narrowed.includes(match.place)).map(match => match.length));
+      candidates = postcodeMatches
+        .filter(match => narrowed.includes(match.place) && match.length === best)
+        .map(match => match.place);
+    } else {
+      const [name, ...others] = hints;
+      candidates = this.narrow(GAZETTEER.filter(place => this.isNamed(place, name)), others);
+    }
+
+    const unique = Array.from(new Set(candidates));
+    return unique.length === 1 ? this.toLocation(unique[0]) : null;
+  }
+
+  /**
+   * Places whose name starts with what's been typed, for picking a location
+   */
+  static suggest(query: string, limit: number = 5): ResolvedLocation[] {
+    const typed = normalize(query);
+    if (!typed) return [];
+    return GAZETTEER
+      .filter(place => [place.name, ...(place.aliases || [])].some(name => normalize(name).startsWith(typed)))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .slice(0, limit)
+      .map(place => this.toLocation(place));
+  }
+
+  /**
+   * Snap a point to a grid of roughly gridKm squares
+   */
+  static roundForPrivacy(point: GeoPoint, gridKm: number = LOCATION_GRID_KM): GeoPoint {
+    const latStep = gridKm / KM_PER_DEGREE;
+    const latitude = Math.round(point.latitude / latStep) * latStep;
+    const lonStep = gridKm / (KM_PER_DEGREE * Math.max(Math.cos(toRadians(latitude)), 0.01));
+    const longitude = Math.round(point.longitude / lonStep) * lonStep;
+    return { latitude: round(latitude, 4), longitude: round(longitude, 4) };
+  }
+
+  /**
+   * Great-circle (haversine) distance in kilometres
+   */
+  static distanceKm(a: GeoPoint, b: GeoPoint): number {
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLon = toRadians(b.longitude - a.longitude);
+    const h = Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+  }
+
+  /**
+   * Distance between two users, if both have coordinates
+   */
+  static distanceBetween(a?: GeoPoint, b?: GeoPoint): number | undefined {
+    return a && b ? this.distanceKm(a, b) : undefined;
+  }
+
+  /**
+   * "Within 5 km", "12 km" or "340 km"; nothing finer than the privacy grid
+   */
+  static formatDistance(km: number): string {
+    if (km < LOCATION_GRID_KM) return `Within ${LOCATION_GRID_KM} km`;
+    if (km < 100) return `${Math.round(km)} km`;
+    return `${Math.round(km / 10) * 10} km`;
+  }
+
+  /**
+   * Postcodes in a part of the location ("SW1A 1AA", "10115 Berlin"). Words
+   * that aren't part of the postcode are returned to use as hints.
+   */
+  private static findPostcode(part: string): { matches: PostcodeMatch[]; rest: string } {
+    const words = part.toUpperCase().split(/\s+/);
+    for (let start = 0; start < words.length; start++) {
+      // Two-word postcodes ("SW1A 1AA") before single words
+      for (const length of [2, 1]) {
+        if (start + length > words.length) continue;
+        const code = words.slice(start, start + length).join(' ');
+        const matches = this.matchPostcode(code);
+        if (matches.length > 0) {
+          const rest = [...words.slice(0, start), ...words.slice(start + length)].join(' ');
+          return { matches, rest };
+        }
+      }
+    }
+    return { matches: [], rest: part };
+  }
+
+  private static matchPostcode(code: string): PostcodeMatch[] {
+    const compact = code.replace(/\s/g, '');
+    const matches: PostcodeMatch[] = [];
+    Object.keys(POSTCODE_FORMATS)
+      .filter(country => POSTCODE_FORMATS[country].test(code) || POSTCODE_FORMATS[country].test(compact))
+      .forEach(country => {
+        // A GB postcode area is its leading letters, so "B1" isn't Bristol's "BS"
+        const area = country === 'GB' ? compact.match(/^[A-Z]+/)![0] : null;
+        GAZETTEER.filter(place => place.country === country).forEach(place => {
+          const prefixes = (place.postcodes || []).filter(prefix =>
+            area !== null ? prefix === area : compact.startsWith(prefix));
+          if (prefixes.length > 0) {
+            matches.push({ place, length: Math.max(...prefixes.map(prefix => prefix.length)) });
+          }
+        });
+      });
+    return matches;
+  }
+
+  /**
+   * Keep the places every hint agrees with (a name, state, country code or
+   * country name); hints that match none of them are ignored
+   */
+  private static narrow(places: GazetteerPlace[], hints: string[]): GazetteerPlace[] {
+    return hints.reduce((remaining, hint) => {
+      const matching = remaining.filter(place => this.fitsHint(place, hint));
+      return matching.length > 0 ? matching : remaining;
+    }, places);
+  }
+
+  private static fitsHint(place: GazetteerPlace, hint: string): boolean {
+    const value = normalize(hint);
+    return this.isNamed(place, hint) ||
+      value === normalize(place.region || '') ||
+      value === place.country.toLowerCase() ||
+      (COUNTRY_NAMES[place.country] || []).includes(value);
+  }
+
+  private static isNamed(place: GazetteerPlace, name: string | undefined): boolean {
+    const value = normalize(name || '');
+    return !!value && [place.name, ...(place.aliases || [])].some(known => normalize(known) === value);
+  }
+
+  private static toLocation(place: GazetteerPlace): ResolvedLocation {
+    return {
+      placeId: place.id,
+      label: `${place.name}, ${place.region || place.country}`,
+      ...this.roundForPrivacy(place),
+    };
+  }
+}
+
+function normalize(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,293 @@
+/**
+ * Match scoring engine
+ * A match score is the weighted sum of independent factors (shared patterns,
+ * teaching and learning opportunities, experience, props, free time, location
+ * and proficiency). Each factor rates a pair of users from 0 to 1 and explains
+ * why; the weights come from the algorithm version in
+ * ConfigService app.matchingAlgorithmVersion, so scoring can be retuned
+ * without touching the factors.
+ */
+
+import { patterns, getPatternById } from '../data/patterns';
+import { Pattern } from '../types';
+import { AvailabilityService } from './availability';
+import { ConfigService } from './configService';
+import { LocationService } from './location';
+import { UserPatternService } from './userPatterns';
+import type { UserProfile } from './userSearch';
+
+// The parts of a profile the factors look at; app Users and search profiles both fit
+export type MatchProfile = Pick<UserProfile,
+  'experience' | 'knownPatterns' | 'wantToLearnPatterns' | 'preferredProps'> &
+  Partial<Pick<UserProfile, 'patternProficiency' | 'availability' | 'timezone' | 'location' | 'coordinates'>>;
+
+export interface MatchFactorResult {
+  value: number; // 0 (no contribution) to 1 (full weight)
+  detail: string; // Why, e.g. "3 patterns in common"
+}
+
+export interface MatchFactor {
+  id: string;
+  label: string;
+  evaluate(user1: MatchProfile, user2: MatchProfile): MatchFactorResult;
+}
+
+export interface MatchScoreFactor {
+  id: string;
+  label: string;
+  points: number; // Points this factor added to the score
+  maxPoints: number; // The factor's weight in this version
+  detail: string;
+}
+
+export interface MatchScore {
+  total: number; // 0-100
+  version: string;
+  factors: MatchScoreFactor[]; // Highest scoring first
+}
+
+// Factor weights (maximum points) per algorithm version
+export type MatchWeights = { [factorId: string]: number };
+
+const DEFAULT_VERSION = '1.0';
+const EXPERIENCE_LEVELS = ['Beginner', 'Intermediate', 'Advanced'];
+const MAX_PROFICIENCY_WEIGHT = 1.5; // "Can teach"
+
+// How many (weighted) patterns it takes for a pattern factor to reach full weight
+const SHARED_PATTERNS_FOR_FULL = 3;
+const OPPORTUNITIES_FOR_FULL = 2;
+
+// Partners this far apart or more get nothing for location
+const LOCATION_RANGE_KM = 50;
+
+const factors = new Map<string, MatchFactor>();
+const versions = new Map<string, MatchWeights>();
+
+export class MatchScoringService {
+  /**
+   * Score how well two users would practice together, with a breakdown by factor.
+   * Scores are from user1's point of view ("patterns you can teach").
+   */
+  static score(user1: MatchProfile, user2: MatchProfile, version?: string): MatchScore {
+    const resolved = this.resolveVersion(version ?? ConfigService.getValue('app', 'matchingAlgorithmVersion'));
+    const weights = versions.get(resolved)!;
+
+    const breakdown: MatchScoreFactor[] = Object.keys(weights)
+      .filter(id => weights[id] > 0 && factors.has(id))
+      .map(id => {
+        const factor = factors.get(id)!;
+        const { value, detail } = factor.evaluate(user1, user2);
+        const clamped = Math.max(0, Math.min(1, value));
+        return {
+          id,
+          label: factor.label,
+          points: Math.round(clamped * weights[id] * 10) / 10,
+          maxPoints: weights[id],
+          detail,
+        };
+      })
+      .sort((a, b) => b.points - a.points);
+
+    const total = breakdown.reduce((sum, factor) => sum + factor.points, 0);
+    return { total: Math.min(Math.round(total), 100), version: resolved, factors: breakdown };
+  }
+
+  /**
+   * Add a factor, or replace the one with the same ID. It only counts in
+   * versions that give it a weight.
+   */
+  static registerFactor(factor: MatchFactor): void {
+    factors.set(factor.id, factor);
+  }
+
+  /**
+   * Define an algorithm version's weights. Weights are maximum points and
+   * should add up to 100.
+   */
+  static registerVersion(version: string, weights: MatchWeights): void {
+    versions.set(version, { ...weights });
+  }
+
+  static getVersions(): string[] {
+    return Array.from(versions.keys());
+  }
+
+  private static resolveVersion(version: string): string {
+    if (versions.has(version)) return version;
+    console.warn(`MatchScoringService: Unknown matching algorithm version "${version}", using ${DEFAULT_VERSION}`);
+    return DEFAULT_VERSION;
+  }
+}
+
+// Pattern lists may hold pattern IDs or names depending on where the profile came from
+const findPattern = (key: string): Pattern | undefined =>
+  getPatternById(key) || patterns.find(pattern => pattern.name === key);
+
+const patternName = (key: string): string => findPattern(key)?.name || key;
+
+const proficiencyWeight = (user: MatchProfile, pattern: string): number =>
+  UserPatternService.getProficiencyWeight(user.patternProficiency?.[pattern]);
+
+const sharedPatterns = (user1: MatchProfile, user2: MatchProfile): string[] =>
+  user1.knownPatterns.filter(pattern => user2.knownPatterns.includes(pattern));
+
+// Patterns the teacher knows that the learner wants to learn
+const teachablePatterns = (teacher: MatchProfile, learner: MatchProfile): string[] =>
+  teacher.knownPatterns.filter(pattern => learner.wantToLearnPatterns.includes(pattern));
+
+/**
+ * Harder patterns, patterns with prerequisites and well rated patterns are
+ * worth more to teach
+ */
+const teachingWeight = (key: string): number => {
+  const pattern = findPattern(key);
+  if (!pattern) return 1;
+
+  let weight = pattern.difficulty === 'Advanced' ? 1.5 : pattern.difficulty === 'Intermediate' ? 1.2 : 1;
+  if (pattern.prerequisites.length > 0) weight *= 1.3;
+  if (pattern.communityRating && pattern.communityRating >= 4) weight *= 1.2;
+  return weight;
+};
+
+const countLabel = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const listPatterns = (keys: string[]): string => {
+  const names = keys.slice(0, 3).map(patternName).join(', ');
+  return keys.length > 3 ? `${names} +${keys.length - 3} more` : names;
+};
+
+const teachingFactor = (id: string, label: string, teacherIsUser1: boolean): MatchFactor => ({
+  id,
+  label,
+  evaluate: (user1, user2) => {
+    const [teacher, learner] = teacherIsUser1 ? [user1, user2] : [user2, user1];
+    const teachable = teachablePatterns(teacher, learner);
+    if (teachable.length === 0) return { value: 0, detail: 'None' };
+    const weighted = teachable.reduce((sum, pattern) => sum + teachingWeight(pattern), 0);
+    return { value: weighted / OPPORTUNITIES_FOR_FULL, detail: listPatterns(teachable) };
+  },
+});
+
+MatchScoringService.registerFactor({
+  id: 'sharedPatterns',
+  label: 'Patterns in common',
+  evaluate: (user1, user2) => {
+    const shared = sharedPatterns(user1, user2);
+    return {
+      value: shared.length / SHARED_PATTERNS_FOR_FULL,
+      detail: shared.length > 0 ? `${countLabel(shared.length, 'pattern')}: ${listPatterns(shared)}` : 'None yet',
+    };
+  },
+});
+
+MatchScoringService.registerFactor(teachingFactor('teaching', 'Patterns you can teach', true));
+MatchScoringService.registerFactor(teachingFactor('learning', 'Patterns you can learn', false));
+
+MatchScoringService.registerFactor({
+  id: 'experience',
+  label: 'Experience',
+  evaluate: (user1, user2) => {
+    const gap = Math.abs(EXPERIENCE_LEVELS.indexOf(user1.experience) - EXPERIENCE_LEVELS.indexOf(user2.experience));
+    if (gap === 0) return { value: 1, detail: `Both ${user1.experience}` };
+    if (gap === 1) return { value: 0.5, detail: 'One level apart' };
+    return { value: 0, detail: `${user1.experience} and ${user2.experience}` };
+  },
+});
+
+MatchScoringService.registerFactor({
+  id: 'props',
+  label: 'Props',
+  evaluate: (user1, user2) => {
+    const props1 = user1.preferredProps || [];
+    const props2 = user2.preferredProps || [];
+    const shared = props1.filter(prop => props2.includes(prop));
+    const smaller = Math.min(props1.length, props2.length);
+    return {
+      value: smaller > 0 ? shared.length / smaller : 0,
+      detail: shared.length > 0 ? `Both juggle ${shared.join(', ')}` : 'No props in common',
+    };
+  },
+});
+
+MatchScoringService.registerFactor({
+  id: 'availability',
+  label: 'Free time',
+  evaluate: (user1, user2) => {
+    const minutes = AvailabilityService.getOverlapMinutes([
+      { availability: user1.availability || [], timezone: user1.timezone },
+      { availability: user2.availability || [], timezone: user2.timezone },
+    ]);
+    const hours = Math.round(minutes / 30) / 2;
+    return {
+      value: AvailabilityService.getAvailabilityScore(minutes) / 20,
+      detail: minutes > 0 ? `${hours} hour${hours === 1 ? '' : 's'} a week free together` : 'No shared free time',
+    };
+  },
+});
+
+MatchScoringService.registerFactor({
+  id: 'location',
+  label: 'Location',
+  evaluate: (user1, user2) => {
+    const distance = LocationService.distanceBetween(user1.coordinates, user2.coordinates);
+    if (distance !== undefined) {
+      return {
+        value: 1 - distance / LOCATION_RANGE_KM,
+        detail: `${LocationService.formatDistance(distance)} away`,
+      };
+    }
+    // Locations the gazetteer doesn't know can only be compared as text
+    const place1 = user1.location?.trim().toLowerCase();
+    const place2 = user2.location?.trim().toLowerCase();
+    if (!place1 || !place2) return { value: 0, detail: 'Location not set' };
+    return place1 === place2
+      ? { value: 1, detail: `Both in ${user2.location!.trim()}` }
+      : { value: 0, detail: user2.location!.trim() };
+  },
+});
+
+MatchScoringService.registerFactor({
+  id: 'proficiency',
+  label: 'Proficiency',
+  evaluate: (user1, user2) => {
+    // How solid the pair is on what they'd practice: the weaker juggler on
+    // shared patterns and the teacher on teachable ones
+    const weights = [
+      ...sharedPatterns(user1, user2).map(pattern => Math.min(proficiencyWeight(user1, pattern), proficiencyWeight(user2, pattern))),
+      ...teachablePatterns(user1, user2).map(pattern => proficiencyWeight(user1, pattern)),
+      ...teachablePatterns(user2, user1).map(pattern => proficiencyWeight(user2, pattern)),
+    ];
+    if (weights.length === 0) return { value: 0, detail: 'No patterns to practice together' };
+    const average = weights.reduce((sum, weight) => sum + weight, 0) / weights.length;
+    return {
+      value: average / MAX_PROFICIENCY_WEIGHT,
+      detail: average >= MAX_PROFICIENCY_WEIGHT ? 'Can teach what you would practice'
+        : average >= 1 ? 'Solid on what you would practice'
+        : 'Still learning what you would practice',
+    };
+  },
+});
+
+// 1.0 keeps the emphasis of the original hard-coded score: patterns, level and free time
+MatchScoringService.registerVersion('1.0', {
+  sharedPatterns: 25,
+  teaching: 12,
+  learning: 12,
+  experience: 18,
+  availability: 18,
+  proficiency: 10,
+  props: 5,
+  location: 0,
+});
+
+// 2.0 spreads weight onto props and location for finding practice partners nearby
+MatchScoringService.registerVersion('2.0', {
+  sharedPatterns: 20,
+  teaching: 15,
+  learning: 15,
+  experience: 10,
+  availability: 15,
+  proficiency: 10,
+  props: 10,
+  location: 5,
+});
@@ -1,6 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { supabase, isSupabaseConfigured } from './supabase';
 import { Notification } from '../types';
+import { DataRepository, Row, eq } from './repository';
+import { RepositoryProvider } from './repositoryProvider';
 
 export interface LocalNotification {
   id: string;
@@ -13,8 +14,7 @@ export interface LocalNotification {
 }
 
 export class NotificationService {
-  private static STORAGE_KEY = 'user_notifications';
-  private static USE_SUPABASE = true; // Enable Supabase backend (will fallback to local if not configured)
+  private static STORAGE_KEY = 'user_notifications'; // Per-user keys used before the local repository
   private static pushNotificationService: any = null;
 
   /**
@@ -35,76 +35,114 @@ export class NotificationService {
     }
   }
 
-  /**
-   * Check if Supabase is properly configured
-   */
-  private static isSupabaseConfigured(): boolean {
-    return isSupabaseConfigured() === true;
-  }
-
   /**
    * Get all notifications for a user
    */
   static async getUserNotifications(userId: string): Promise<LocalNotification[]> {
     try {
-      if (this.USE_SUPABASE && this.isSupabaseConfigured() && supabase) {
-        console.log('NotificationService: Using Supabase backend for getUserNotifications');
-        // Use Supabase for real backend
-        const { data, error } = await supabase
-          .from('notifications')
-          .select('*')
-          .eq('user_id', userId)
-          .order('created_at', { ascending: false });
-
-        if (error) {
-          console.error('NotificationService: Supabase error (table may not exist), falling back to local:', error.message);
-          return this.getUserNotificationsLocal(userId);
-        }
-
-        // Convert Supabase data to LocalNotification format
-        return data.map(item => ({
-          id: item.id,
-          type: item.type as LocalNotification['type'],
-          title: item.title,
-          message: item.message,
-          read: item.read,
-          createdAt: new Date(item.created_at),
-          relatedId: item.related_id
-        }));
-      } else {
-        console.log('NotificationService: Using local storage fallback');
-        return this.getUserNotificationsLocal(userId);
-      }
+      return await this.selectNotifications(RepositoryProvider.get(), userId);
     } catch (error) {
-      console.error('Error in getUserNotifications:', error);
+      console.error('NotificationService: Error loading notifications (table may not exist), falling back to local:', error);
       return this.getUserNotificationsLocal(userId);
     }
   }
 
   /**
-   * Get notifications from local storage (fallback)
+   * Get notifications from the on-device repository (fallback)
    */
   private static async getUserNotificationsLocal(userId: string): Promise<LocalNotification[]> {
     try {
-      const key = `${this.STORAGE_KEY}_${userId}`;
-      const storedData = await AsyncStorage.getItem(key);
-      
-      if (storedData) {
-        const notifications = JSON.parse(storedData);
-        return notifications.map((item: any) => ({
-          ...item,
-          createdAt: new Date(item.createdAt)
-        }));
-      }
-
-      // Return some default notifications for demo
-      return this.getDefaultNotifications();
+      return await this.selectNotifications(RepositoryProvider.getLocal(), userId);
     } catch (error) {
       console.error('Error in getUserNotificationsLocal:', error);
       return this.getDefaultNotifications();
     }
   }
 
+  private static async selectNotifications(repository: DataRepository, userId: string): Promise<LocalNotification[]> {
+    await RepositoryProvider.seedLocalTable(repository, 'notifications', () => this.getLocalSeed());
+    let rows = await repository.select('notifications', {
+      filters: [eq('user_id', userId)],
+      orderBy: { column: 'created_at', ascending: false },
+    });
+
+    // Give each user on the demo store something to look at
+    if (rows.length === 0 && RepositoryProvider.isLocalStore(repository)) {
+      rows = await repository.insert('notifications', this.getDefaultNotifications()
+        .map(notification => this.toNotificationRow(userId, notification, notification.createdAt)));
+    }
+
+    return rows.map(row => ({
+      id: row.id,
+      type: row.type as LocalNotification['type'],
+      title: row.title,
+      message: row.message,
+      read: row.read,
+      createdAt: new Date(row.created_at),
+      relatedId: row.related_id ?? undefined
+    }));
+  }
+
+  /**
+   * Rows for a new on-device repository: notifications saved by older versions
+   */
+  private static async getLocalSeed(): Promise<Row[]> {
+    const prefix = `${this.STORAGE_KEY}_`;
+    const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(prefix));
+    const rows: Row[] = [];
+    for (const key of keys) {
+      const stored = await AsyncStorage.getItem(key);
+      if (stored) {
+        JSON.parse(stored).forEach((item: any) => {
+          rows.push(this.toNotificationRow(key.slice(prefix.length), item, new Date(item.createdAt)));
+        });
+      }
+      await AsyncStorage.removeItem(key);
+    }
+    return rows;
+  }
+
+  private static toNotificationRow(
+    userId: string,
+    notification: Omit<LocalNotification, 'id' | 'createdAt'>,
+    createdAt?: Date
+  ): Row {
+    return {
+      user_id: userId,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      read: notification.read,
+      related_id: notification.relatedId,
+      ...(createdAt ? { created_at: createdAt.toISOString() } : {})
+    };
+  }
+
+  /**
+   * Run a write against the active repository, retrying on the on-device one if the server fails
+   */
+  private static async write(
+    description: string,
+    operation: (repository: DataRepository) => Promise<unknown>
+  ): Promise<boolean> {
+    try {
+      await operation(RepositoryProvider.get());
+      return true;
+    } catch (error) {
+      console.error(`Error in ${description}:`, error);
+      if (!RepositoryProvider.isRemote()) return false;
+
+      console.log(`NotificationService: ${description} falling back to local`);
+      try {
+        await operation(RepositoryProvider.getLocal());
+        return true;
+      } catch (fallbackError) {
+        console.error(`Error in ${description} (local):`, fallbackError);
+        return false;
+      }
+    }
+  }
+
   /**
    * Add a new notification with push delivery
    */
@@ -113,35 +151,11 @@ export class NotificationService {
     notification: Omit<LocalNotification, 'id' | 'createdAt'>
   ): Promise<boolean> {
     try {
-      let success = false;
-
-      // Add to local/database storage first
-      if (this.USE_SUPABASE && this.isSupabaseConfigured() && supabase) {
-        console.log('NotificationService: Adding notification to Supabase');
-        // Add to Supabase
-        const { error } = await supabase
-          .from('notifications')
-          .insert({
-            user_id: userId,
-            type: notification.type,
-            title: notification.title,
-            message: notification.message,
-            read: notification.read,
-            related_id: notification.relatedId
-          });
-
-        if (error) {
-          console.error('NotificationService: Supabase error, falling back to local:', error);
-          success = await this.addNotificationLocal(userId, notification);
-        } else {
-          success = true;
-        }
-      } else {
-        console.log('NotificationService: Adding notification to local storage');
-        success = await this.addNotificationLocal(userId, notification);
-      }
+      // Add to the repository first
+      const success = await this.write('addNotification', repository =>
+        repository.insert('notifications', this.toNotificationRow(userId, notification)));
 
-      // Send push notification if local storage succeeded
+      // Send push notification if storing succeeded
       if (success && this.pushNotificationService) {
         try {
           await this.pushNotificationService.sendPushNotification(userId, {
@@ -167,7 +181,7 @@ export class NotificationService {
       return success;
     } catch (error) {
       console.error('Error in addNotification:', error);
-      return this.addNotificationLocal(userId, notification);
+      return false;
     }
   }
 
@@ -190,133 +204,20 @@ export class NotificationService {
     }
   }
 
-  /**
-   * Add notification to local storage (fallback)
-   */
-  private static async addNotificationLocal(
-    userId: string,
-    notification: Omit<LocalNotification, 'id' | 'createdAt'>
-  ): Promise<boolean> {
-    try {
-      const existingNotifications = await this.getUserNotificationsLocal(userId);
-      
-      const newNotification: LocalNotification = {
-        ...notification,
-        id: Date.now().toString(),
-        createdAt: new Date()
-      };
-
-      const updatedNotifications = [newNotification, ...existingNotifications];
-      
-      const key = `${this.STORAGE_KEY}_${userId}`;
-      await AsyncStorage.setItem(key, JSON.stringify(updatedNotifications));
-      
-      return true;
-    } catch (error) {
-      console.error('Error in addNotification:', error);
-      return false;
-    }
-  }
-
   /**
    * Mark a notification as read
    */
   static async markAsRead(userId: string, notificationId: string): Promise<boolean> {
-    try {
-      if (this.USE_SUPABASE && this.isSupabaseConfigured() && supabase) {
-        console.log('NotificationService: Marking notification as read in Supabase');
-        const { error } = await supabase
-          .from('notifications')
-          .update({ read: true })
-          .eq('id', notificationId)
-          .eq('user_id', userId);
-
-        if (error) {
-          console.error('NotificationService: Supabase error, falling back to local:', error);
-          return this.markAsReadLocal(userId, notificationId);
-        }
-
-        return true;
-      } else {
-        console.log('NotificationService: Marking notification as read in local storage');
-        return this.markAsReadLocal(userId, notificationId);
-      }
-    } catch (error) {
-      console.error('Error in markAsRead:', error);
-      return this.markAsReadLocal(userId, notificationId);
-    }
-  }
-
-  /**
-   * Mark notification as read in local storage (fallback)
-   */
-  private static async markAsReadLocal(userId: string, notificationId: string): Promise<boolean> {
-    try {
-      const notifications = await this.getUserNotificationsLocal(userId);
-      const updatedNotifications = notifications.map(notification =>
-        notification.id === notificationId
-          ? { ...notification, read: true }
-          : notification
-      );
-
-      const key = `${this.STORAGE_KEY}_${userId}`;
-      await AsyncStorage.setItem(key, JSON.stringify(updatedNotifications));
-      
-      return true;
-    } catch (error) {
-      console.error('Error in markAsReadLocal:', error);
-      return false;
-    }
+    return this.write('markAsRead', repository =>
+      repository.update('notifications', { read: true }, { filters: [eq('id', notificationId), eq('user_id', userId)] }));
   }
 
   /**
    * Mark all notifications as read
    */
   static async markAllAsRead(userId: string): Promise<boolean> {
-    try {
-      if (this.USE_SUPABASE && this.isSupabaseConfigured() && supabase) {
-        console.log('NotificationService: Marking all notifications as read in Supabase');
-        const { error } = await supabase
-          .from('notifications')
-          .update({ read: true })
-          .eq('user_id', userId)
-          .eq('read', false);
-
-        if (error) {
-          console.error('NotificationService: Supabase error, falling back to local:', error);
-          return this.markAllAsReadLocal(userId);
-        }
-
-        return true;
-      } else {
-        console.log('NotificationService: Marking all notifications as read in local storage');
-        return this.markAllAsReadLocal(userId);
-      }
-    } catch (error) {
-      console.error('Error in markAllAsRead:', error);
-      return this.markAllAsReadLocal(userId);
-    }
-  }
-
-  /**
-   * Mark all notifications as read in local storage (fallback)
-   */
-  private static async markAllAsReadLocal(userId: string): Promise<boolean> {
-    try {
-      const notifications = await this.getUserNotificationsLocal(userId);
-      const updatedNotifications = notifications.map(notification => ({
-        ...notification,
-        read: true
-      }));
-
-      const key = `${this.STORAGE_KEY}_${userId}`;
-      await AsyncStorage.setItem(key, JSON.stringify(updatedNotifications));
-      
-      return true;
-    } catch (error) {
-      console.error('Error in markAllAsRead:', error);
-      return false;
-    }
+    return this.write('markAllAsRead', repository =>
+      repository.update('notifications', { read: true }, { filters: [eq('user_id', userId), eq('read', false)] }));
   }
 
   /**
@@ -336,14 +237,8 @@ export class NotificationService {
    * Clear all notifications
    */
   static async clearAllNotifications(userId: string): Promise<boolean> {
-    try {
-      const key = `${this.STORAGE_KEY}_${userId}`;
-      await AsyncStorage.removeItem(key);
-      return true;
-    } catch (error) {
-      console.error('Error in clearAllNotifications:', error);
-      return false;
-    }
+    return this.write('clearAllNotifications', repository =>
+      repository.delete('notifications', { filters: [eq('user_id', userId)] }));
   }
 
   /**
@@ -0,0 +1,331 @@
+/**
+ * Passing notation file reader
+ * Reads plain-text repertoire files and Juggling Lab `pattern=` strings into
+ * patterns for the library, so a club's whole list can be added in one go.
+ *
+ * A file is a list of blocks separated by blank lines (or a new "Pattern:" line):
+ *
+ *   # 2-count, everyone passes every right hand throw
+ *   Pattern: 2-count
+ *   Jugglers: 2
+ *   A: 3p 3
+ *   B: 3p 3
+ *   Difficulty: Intermediate
+ *   Props: 6 clubs
+ *   Timing: fully_sync
+ *   Tags: classic, every other
+ *
+ * Only "Pattern:" and one local siteswap per juggler (keyed A, B, C...) are
+ * required. Props may be plain types ("clubs, balls") or counts ("5 clubs + 1 ball"). A line starting with "pattern=" is a Juggling Lab string such as
+ * `pattern=<3p 3|3p 3>;title=2-count;prop=club` and is a pattern on its own.
+ */
+
+import { ExperienceLevel, Pattern, PropCounts, PropType, TimingType } from '../types';
+import { CURRICULUM_PATTERNS, PatternLibraryService } from './patternLibrary';
+import { PatternDerivationService } from './patternDerivation';
+import { PatternShareService } from './patternShare';
+import { PropService } from './props';
+import { SiteswapService } from './siteswap';
+import { ValidationService } from './validationService';
+
+export interface PassingNotationParseResult {
+  patterns: Pattern[];
+  errors: string[]; // "Line 12: ..." messages for entries that were skipped
+}
+
+export interface PassingNotationImportResult extends PassingNotationParseResult {
+  duplicates: Pattern[]; // Library patterns that entries in the file matched
+}
+
+interface NotationEntry {
+  line: number;
+  name?: string;
+  jugglers?: number;
+  local: { [juggler: string]: string };
+  difficulty?: ExperienceLevel;
+  props?: PropType[];
+  propCounts?: PropCounts;
+  timing?: TimingType;
+  description?: string;
+  tags: string[];
+  errors: string[];
+}
+
+const DIFFICULTIES: ExperienceLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
+const TIMINGS: TimingType[] = ['fully_async', 'semi_sync', 'fully_sync'];
+const DEFAULT_DIFFICULTY: ExperienceLevel = 'Intermediate';
+const DEFAULT_PROPS: PropType[] = ['clubs'];
+const DEFAULT_SOURCE = 'Passing notation import';
+
+export class PassingNotationService {
+  /**
+   * Read every pattern in a file. Entries with problems are skipped with an
+   * error naming the line they start on (or the offending line).
+   */
+  static parse(text: string, sourceName: string = DEFAULT_SOURCE, now: Date = new Date()): PassingNotationParseResult {
+    const entries: NotationEntry[] = [];
+    const errors: string[] = [];
+    let current: NotationEntry | null = null;
+
+    const finish = () => {
+      if (current) entries.push(current);
+      current = null;
+    };
+
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+      const lineNumber = index + 1;
+      const line = rawLine.trim();
+
+      if (!line) {
+        finish();
+        return;
+      }
+      if (line.startsWith('#')) return;
+
+      if (/^pattern\s*=/i.test(line)) {
+        finish();
+        entries.push(this.parseJugglingLab(line, lineNumber));
+        return;
+      }
+
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        errors.push(`Line ${lineNumber}: Expected "Field: value" but found "${line}"`);
+        return;
+      }
+      const key = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).trim();
+
+      if (/^(pattern|name)$/i.test(key)) {
+        finish();
+        current = { line: lineNumber, name: value, local: {}, tags: [], errors: [] };
+        return;
+      }
+      if (!current) {
+        errors.push(`Line ${lineNumber}: "${key}" appears before a "Pattern:" line`);
+        return;
+      }
+      this.applyField(current, key, value, lineNumber);
+    });
+    finish();
+
+    const patterns: Pattern[] = [];
+    entries.forEach((entry, index) => {
+      const result = this.toPattern(entry, sourceName, now, index);
+      if (result.errors.length > 0) {
+        errors.push(...result.errors);
+      } else if (result.pattern) {
+        patterns.push(result.pattern);
+      }
+    });
+
+    return { patterns, errors: errors.sort((a, b) => lineOf(a) - lineOf(b)) };
+  }
+
+  /**
+   * Parse a file and add its patterns to the user's contributed patterns,
+   * skipping any the library (or an earlier entry in the file) already has
+   */
+  static async importFile(text: string, sourceName?: string): Promise<PassingNotationImportResult> {
+    const { patterns, errors } = this.parse(text, sourceName);
+    const library = [...CURRICULUM_PATTERNS, ...await PatternLibraryService.getUserContributedPatterns()];
+    const added: Pattern[] = [];
+    const duplicates: Pattern[] = [];
+
+    patterns.forEach(pattern => {
+      const duplicate = PatternShareService.findDuplicate(pattern, [...library, ...added]);
+      if (duplicate) {
+        duplicates.push(duplicate);
+      } else {
+        added.push(pattern);
+      }
+    });
+
+    if (added.length > 0 && !await PatternLibraryService.addUserPatterns(added)) {
+      return { patterns: [], duplicates, errors: [...errors, 'Could not save the imported patterns'] };
+    }
+    return { patterns: added, duplicates, errors };
+  }
+
+  /**
+   * Timing of a passing pattern from when each juggler passes: passes on the
+   * same beats are fully sync, passes that never coincide are fully async and
+   * anything in between is semi sync. Files can override this with "Timing:".
+   */
+  static inferTiming(local: { [juggler: string]: string }): TimingType {
+    const names = Object.keys(local);
+    if (names.length < 2) return 'fully_async';
+
+    const parsed = SiteswapService.parse(SiteswapService.combineLocal(local));
+    const passBeats = names.map((_, juggler) => new Set(
+      parsed.throws.filter(t => t.juggler === juggler && t.isPass).map(t => t.time)
+    ));
+    const [first, ...others] = passBeats;
+    const sameBeats = (a: Set<number>, b: Set<number>) => a.size === b.size && [...a].every(beat => b.has(beat));
+    const sharesBeat = (a: Set<number>, b: Set<number>) => [...a].some(beat => b.has(beat));
+
+    if (others.every(beats => sameBeats(first, beats))) return 'fully_sync';
+    if (passBeats.every((beats, i) => passBeats.every((other, j) => i === j || !sharesBeat(beats, other)))) {
+      return 'fully_async';
+    }
+    return 'semi_sync';
+  }
+
+  private static applyField(entry: NotationEntry, key: string, value: string, lineNumber: number): void {
+    const field = key.toLowerCase();
+    const fail = (message: string) => entry.errors.push(`Line ${lineNumber}: ${message}`);
+
+    if (/^[a-z]$/i.test(key)) {
+      const juggler = key.toUpperCase();
+      if (entry.local[juggler] !== undefined) {
+        fail(`Juggler ${juggler} already has a local siteswap`);
+      } else if (!value) {
+        fail(`Juggler ${juggler} has no local siteswap`);
+      } else {
+        entry.local[juggler] = SiteswapService.normalize(value);
+      }
+      return;
+    }
+
+    switch (field) {
+      case 'jugglers': {
+        const jugglers = Number(value);
+        if (!Number.isInteger(jugglers) || jugglers < 1) {
+          fail(`Jugglers must be a whole number, not "${value}"`);
+        } else {
+          entry.jugglers = jugglers;
+        }
+        break;
+      }
+      case 'difficulty': {
+        const difficulty = DIFFICULTIES.find(level => level.toLowerCase() === value.toLowerCase());
+        if (difficulty) entry.difficulty = difficulty;
+        else fail(`Difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+        break;
+      }
+      case 'props': {
+        const { props, counts, errors } = PropService.parsePropCounts(value);
+        const counted = Object.keys(counts).length;
+        if (errors.length > 0 || props.length === 0) {
+          fail(errors[0] || 'Props must list at least one prop');
+        } else if (counted > 0 && counted < props.length) {
+          fail('Give a count for every prop or for none of them');
+        } else {
+          entry.props = props;
+          if (counted > 0) entry.propCounts = counts;
+        }
+        break;
+      }
+      case 'timing': {
+        const timing = TIMINGS.find(option => option === value.toLowerCase().replace(/[\s-]+/g, '_'));
+        if (timing) entry.timing = timing;
+        else fail(`Timing must be one of ${TIMINGS.join(', ')}`);
+        break;
+      }
+      case 'description':
+        entry.description = value;
+        break;
+      case 'tags':
+        entry.tags = splitList(value);
+        break;
+      default:
+        fail(`Unknown field "${key}"`);
+    }
+  }
+
+  /**
+   * A Juggling Lab parameter string: "pattern=<3p|3p>;title=...;prop=club"
+   */
+  private static parseJugglingLab(line: string, lineNumber: number): NotationEntry {
+    const entry: NotationEntry = { line: lineNumber, local: {}, tags: [], errors: [] };
+    const params: { [key: string]: string } = {};
+    line.split(';').forEach(part => {
+      const separator = part.indexOf('=');
+      if (separator !== -1) {
+        params[part.slice(0, separator).trim().toLowerCase()] = part.slice(separator + 1).trim();
+      }
+    });
+
+    const notation = SiteswapService.normalize(params.pattern || '');
+    const parts = notation.startsWith('<') ? notation.replace(/^<|>$/g, '').split('|') : [notation];
+    parts.forEach((part, index) => {
+      entry.local[String.fromCharCode(65 + index)] = part;
+    });
+    entry.name = params.title || notation;
+
+    // Juggling Lab writes props in the singular
+    if (params.prop) {
+      const prop = PropService.toPropType(params.prop);
+      if (prop) entry.props = [prop];
+      else entry.errors.push(`Line ${lineNumber}: Juggling Lab prop "${params.prop}" is not a prop PatternPals knows`);
+    }
+    return entry;
+  }
+
+  private static toPattern(
+    entry: NotationEntry,
+    sourceName: string,
+    now: Date,
+    index: number
+  ): { pattern?: Pattern; errors: string[] } {
+    const at = `Line ${entry.line}`;
+    const errors = [...entry.errors];
+    const jugglerNames = Object.keys(entry.local);
+
+    if (!entry.name) errors.push(`${at}: Pattern has no name`);
+    if (jugglerNames.length === 0 || jugglerNames.some(name => !entry.local[name])) {
+      errors.push(`${at}: "${entry.name || 'Pattern'}" has no local siteswaps`);
+    } else if (entry.jugglers !== undefined && entry.jugglers !== jugglerNames.length) {
+      errors.push(`${at}: "${entry.name}" is for ${entry.jugglers} jugglers but lists ${jugglerNames.length} local siteswaps`);
+    }
+    if (errors.length > 0) return { errors };
+
+    const siteswap: Pattern['siteswap'] = { local: entry.local };
+    const validation = ValidationService.validateSiteswap(siteswap);
+    if (!validation.isValid) {
+      return { errors: validation.errors.map(error => `${at}: "${entry.name}": ${error}`) };
+    }
+
+    const props = entry.props || DEFAULT_PROPS;
+    const propTotal = Object.values(entry.propCounts || {}).reduce((sum, count) => sum + (count || 0), 0);
+    if (entry.propCounts && propTotal !== validation.numberOfProps) {
+      return { errors: [`${at}: "${entry.name}" lists ${propTotal} props but the siteswap uses ${validation.numberOfProps}`] };
+    }
+
+    const dateAdded = now.toISOString();
+    const pattern: Pattern = {
+      id: `user_${now.getTime()}_${index}`,
+      name: entry.name!,
+      difficulty: entry.difficulty || DEFAULT_DIFFICULTY,
+      requiredJugglers: jugglerNames.length,
+      props,
+      propCounts: entry.propCounts || (props.length === 1 ? { [props[0]]: validation.numberOfProps! } : undefined),
+      description: entry.description || `Imported from ${sourceName}`,
+      tags: entry.tags,
+      source: {
+        name: sourceName,
+        type: 'user_contributed',
+        contributorId: 'local',
+        dateAdded,
+        verificationStatus: 'pending',
+      },
+      prerequisites: [],
+      timing: entry.timing || this.inferTiming(entry.local),
+      createdBy: 'local',
+      isPublic: true,
+      lastModified: dateAdded,
+      numberOfProps: validation.numberOfProps!,
+      period: validation.period!,
+      siteswap,
+    };
+    return { pattern: PatternDerivationService.applyDerivedFields(pattern), errors: [] };
+  }
+}
+
+function lineOf(error: string): number {
+  return Number(error.match(/^Line (\d+)/)?.[1] || 0);
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
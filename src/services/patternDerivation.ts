@@ -0,0 +1,189 @@
+/**
+ * Pattern derivation service
+ * Computes a pattern's technical fields from its siteswap and reports library
+ * patterns whose hand-entered values disagree with the computed ones.
+ */
+
+import { Pattern } from '../types';
+import { CURRICULUM_PATTERNS, PatternLibraryService } from './patternLibrary';
+import { ParsedSiteswap, SiteswapService, SiteswapThrow } from './siteswap';
+import { ValidationService } from './validationService';
+
+export interface DerivedPatternFields {
+  numberOfProps: number;
+  period: number;
+  isGroundState: boolean;
+  squeezes: number;
+  orbits: {
+    [key: string]: number;
+  };
+}
+
+export interface DerivationResult {
+  isValid: boolean;
+  errors: string[];
+  fields?: DerivedPatternFields;
+}
+
+export interface PatternFieldMismatch {
+  field: keyof DerivedPatternFields;
+  stored: unknown;
+  computed: unknown;
+}
+
+export interface PatternConsistencyEntry {
+  patternId: string;
+  patternName: string;
+  errors: string[]; // Siteswap problems that prevented derivation
+  mismatches: PatternFieldMismatch[];
+}
+
+export interface PatternConsistencyReport {
+  checkedCount: number;
+  consistentCount: number;
+  inconsistent: PatternConsistencyEntry[];
+  generatedAt: string;
+}
+
+export class PatternDerivationService {
+  /**
+   * Derive technical fields from a pattern's siteswap
+   * (the global siteswap wins when both forms are present)
+   */
+  static derive(siteswap: Pattern['siteswap']): DerivationResult {
+    if (!siteswap.global && Object.keys(siteswap.local || {}).length === 0) {
+      return { isValid: false, errors: ['Pattern has no siteswap to derive from'] };
+    }
+
+    const validation = ValidationService.validateSiteswap(siteswap);
+    const primary = validation.global?.isValid ? validation.global : validation.local;
+    if (!validation.isValid || !primary?.parsed || primary.period === undefined) {
+      return { isValid: false, errors: validation.errors };
+    }
+
+    const minimal = SiteswapService.reduce(primary.parsed, primary.period);
+    return {
+      isValid: true,
+      errors: [],
+      fields: {
+        numberOfProps: primary.numberOfProps!,
+        period: primary.period,
+        isGroundState: primary.isGroundState!,
+        squeezes: this.countSqueezes(minimal),
+        orbits: this.decomposeOrbits(minimal),
+      },
+    };
+  }
+
+  /**
+   * Return a copy of the pattern with its technical fields filled from the siteswap.
+   * Patterns without a valid siteswap are returned unchanged.
+   */
+  static applyDerivedFields(pattern: Pattern): Pattern {
+    const { fields } = this.derive(pattern.siteswap);
+    return fields ? { ...pattern, ...fields } : pattern;
+  }
+
+  /**
+   * Split a pattern into orbits: the groups of throws a single set of props
+   * cycles through. Keys write the orbit's throws with every other throw as 0,
+   * values are the number of props in that orbit (645 gives "600": 2, "045": 3).
+   */
+  static decomposeOrbits(parsed: ParsedSiteswap): { [key: string]: number } {
+    const next = SiteswapService.linkThrows(parsed);
+    const orbits: { [key: string]: number } = {};
+    const visited = new Set<number>();
+
+    parsed.throws.forEach((t, start) => {
+      if (t.height === 0 || visited.has(start)) return;
+      const members = new Set<SiteswapThrow>();
+      let current: number | undefined = start;
+      while (current !== undefined && !visited.has(current)) {
+        visited.add(current);
+        members.add(parsed.throws[current]);
+        current = next.get(current);
+      }
+
+      const heightSum = Array.from(members).reduce((sum, member) => sum + member.height, 0);
+      const key = SiteswapService.format(parsed, member => members.has(member));
+      orbits[key] = (orbits[key] || 0) + heightSum / parsed.length;
+    });
+    return orbits;
+  }
+
+  /**
+   * A squeeze is a beat where one hand has to catch and throw more than one prop
+   */
+  static countSqueezes(parsed: ParsedSiteswap): number {
+    const counts = new Map<string, number>();
+    parsed.throws.forEach(t => {
+      if (t.height === 0) return;
+      const key = SiteswapService.slotKey(parsed, t.time, t.juggler, t.hand);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return Array.from(counts.values()).filter(count => count > 1).length;
+  }
+
+  /**
+   * Compare one pattern's stored technical fields with the derived values
+   */
+  static checkPattern(pattern: Pattern): PatternConsistencyEntry {
+    const entry: PatternConsistencyEntry = {
+      patternId: pattern.id,
+      patternName: pattern.name,
+      errors: [],
+      mismatches: [],
+    };
+
+    const result = this.derive(pattern.siteswap);
+    if (!result.fields) {
+      entry.errors = result.errors;
+      return entry;
+    }
+
+    const { fields } = result;
+    const compare = (field: keyof DerivedPatternFields, stored: unknown, computed: unknown) => {
+      if (stored !== undefined && JSON.stringify(stored) !== JSON.stringify(computed)) {
+        entry.mismatches.push({ field, stored, computed });
+      }
+    };
+
+    compare('numberOfProps', pattern.numberOfProps, fields.numberOfProps);
+    compare('period', pattern.period, fields.period);
+    compare('isGroundState', pattern.isGroundState, fields.isGroundState);
+    compare('squeezes', pattern.squeezes, fields.squeezes);
+    compare('orbits', pattern.orbits && this.sortKeys(pattern.orbits), this.sortKeys(fields.orbits));
+    return entry;
+  }
+
+  /**
+   * Build a consistency report for the given patterns (defaults to the curriculum)
+   */
+  static getConsistencyReport(patterns: Pattern[] = CURRICULUM_PATTERNS): PatternConsistencyReport {
+    const inconsistent = patterns
+      .map(pattern => this.checkPattern(pattern))
+      .filter(entry => entry.errors.length > 0 || entry.mismatches.length > 0);
+
+    return {
+      checkedCount: patterns.length,
+      consistentCount: patterns.length - inconsistent.length,
+      inconsistent,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Consistency report covering the curriculum and locally contributed patterns
+   */
+  static async getLibraryConsistencyReport(): Promise<PatternConsistencyReport> {
+    const contributed = await PatternLibraryService.getUserContributedPatterns();
+    return this.getConsistencyReport([...CURRICULUM_PATTERNS, ...contributed]);
+  }
+
+  private static sortKeys(map: { [key: string]: number }): { [key: string]: number } {
+    return Object.keys(map).sort().reduce((sorted, key) => {
+      sorted[key] = map[key];
+      return sorted;
+    }, {} as { [key: string]: number });
+  }
+}
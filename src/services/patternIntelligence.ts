@@ -1,6 +1,7 @@
 import { patterns, getRecommendedPatterns, EnhancedPatternResult } from '../data/patterns';
 import { UserProfile } from './userSearch';
 import { Pattern } from '../types';
+import { PrerequisiteGraphService } from './prerequisiteGraph';
 
 export interface SearchAnalytics {
   totalSearches: number;
@@ -49,23 +50,27 @@ export class PatternIntelligenceService {
     const knownSet = new Set(userProfile.knownPatterns);
     const steps: LearningPathStep[] = [];
     const visited = new Set<string>();
+    const graph = PrerequisiteGraphService.build(patterns);
 
-    // Build prerequisite chain
-    const buildPath = (pattern: Pattern) => {
+    // Collect the unknown prerequisite chain, stopping at patterns the user already knows
+    const collect = (pattern: Pattern) => {
       if (visited.has(pattern.id) || knownSet.has(pattern.name)) return;
       visited.add(pattern.id);
-
-      // Add prerequisites first
       for (const prereqId of pattern.prerequisites) {
-        const prereq = patterns.find(p => p.id === prereqId);
-        if (prereq && !knownSet.has(prereq.name)) {
-          buildPath(prereq);
-        }
+        const prereq = graph.patterns.get(prereqId);
+        if (prereq) collect(prereq);
       }
+    };
+    collect(target);
+
+    // Prerequisites first; patterns caught in a prerequisite cycle go last
+    const { order, blocked } = PrerequisiteGraphService.topologicalOrder(graph);
+    const pathIds = [...order, ...blocked].filter(id => visited.has(id));
 
-      // Add current pattern
+    for (const patternId of pathIds) {
+      const pattern = graph.patterns.get(patternId)!;
       const prerequisitesMet = pattern.prerequisites.every(prereqId => {
-        const prereq = patterns.find(p => p.id === prereqId);
+        const prereq = graph.patterns.get(prereqId);
         return prereq ? knownSet.has(prereq.name) : false;
       });
 
@@ -81,9 +86,7 @@ export class PatternIntelligenceService {
 
       // Mark as "known" for subsequent prerequisite checks
       knownSet.add(pattern.name);
-    };
-
-    buildPath(target);
+    }
 
     // Add recommended practice patterns for reinforcement
     if (timeframe === 'comprehensive') {
@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Pattern, PropType } from '../types';
+import { PropService } from './props';
 
 // Comprehensive juggling pattern library based on curriculum flowchart
 export const CURRICULUM_PATTERNS: Pattern[] = [
@@ -557,9 +558,16 @@ export class PatternLibraryService {
   }
 
   static async addUserPattern(pattern: Pattern): Promise<boolean> {
+    return this.addUserPatterns([pattern]);
+  }
+
+  /**
+   * Add several patterns in one write, e.g. from a passing notation file
+   */
+  static async addUserPatterns(patterns: Pattern[]): Promise<boolean> {
     try {
       const existing = await this.getUserContributedPatterns();
-      const updated = [...existing, pattern];
+      const updated = [...existing, ...patterns];
       await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(updated));
       return true;
     } catch (error) {
@@ -568,6 +576,42 @@ export class PatternLibraryService {
     }
   }
 
+  /**
+   * Replace a contributed pattern with a new version; patterns that aren't in
+   * this device's library are left alone
+   */
+  static async updateUserPattern(pattern: Pattern): Promise<boolean> {
+    try {
+      const existing = await this.getUserContributedPatterns();
+      if (!existing.some(p => p.id === pattern.id)) return false;
+      const updated = existing.map(p => (p.id === pattern.id ? pattern : p));
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(updated));
+      return true;
+    } catch (error) {
+      console.error('Error updating user pattern:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Rewrite stored patterns saved before prop counts existed. Returns how
+   * many patterns changed.
+   */
+  static async migrateProps(): Promise<number> {
+    try {
+      const existing = await this.getUserContributedPatterns();
+      const migrated = existing.map(pattern => PropService.migratePattern(pattern));
+      const changed = migrated.filter((pattern, i) => pattern !== existing[i]).length;
+      if (changed > 0) {
+        await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(migrated));
+      }
+      return changed;
+    } catch (error) {
+      console.error('Error migrating user pattern props:', error);
+      return 0;
+    }
+  }
+
   static async clearUserPatterns(): Promise<boolean> {
     try {
       await AsyncStorage.removeItem(this.STORAGE_KEY);
@@ -0,0 +1,596 @@
+/**
+ * Pattern moderation service
+ * Review queue for user-contributed patterns. Reviewers approve, request
+ * changes or reject with a comment; a pattern becomes community verified once
+ * enough reviewers other than its contributor approve the current version.
+ * Every submission, edit and verification is recorded as a PatternContribution,
+ * and every submission and edit also stores an immutable PatternRevision that
+ * the pattern can later be reverted to.
+ */
+
+import {
+  Pattern,
+  PatternContribution,
+  PatternFieldChange,
+  PatternReview,
+  PatternReviewDecision,
+  PatternRevision,
+  VerificationStatus,
+} from '../types';
+import { ConfigService } from './configService';
+import { PatternDerivationService } from './patternDerivation';
+import { CURRICULUM_PATTERNS, PatternLibraryService } from './patternLibrary';
+import { PrerequisiteGraphService } from './prerequisiteGraph';
+import { DataRepository, RepositoryError, Row, eq, isIn } from './repository';
+import { RepositoryProvider } from './repositoryProvider';
+import { SyncService } from './sync';
+import { ValidationResult, ValidationService } from './validationService';
+
+export interface ReviewQueueItem {
+  pattern: Pattern;
+  contributorId: string;
+  status: VerificationStatus;
+  revisedAt: Date; // When the current version was submitted
+  approvals: number; // Approvals of the current version
+  reviews: PatternReview[]; // Newest first
+}
+
+export interface PatternReviewResult {
+  success: boolean;
+  status?: VerificationStatus;
+  approvals?: number;
+  error?: string;
+}
+
+// Fields that record a pattern's bookkeeping rather than its content
+const UNTRACKED_FIELDS: (keyof Pattern)[] = ['id', 'source', 'lastModified', 'communityRating', 'ratingCount'];
+const QUEUE_STATUSES: VerificationStatus[] = ['pending', 'needs_review'];
+const MAX_REVISION_ATTEMPTS = 3; // Tries at numbering a revision when others edit at the same time
+
+export class PatternModerationService {
+  private static get requiredApprovals(): number {
+    return ConfigService.getValue('app', 'requiredPatternApprovals');
+  }
+
+  /**
+   * Validate a new or edited pattern, checking its prerequisites against the
+   * curriculum and every locally contributed pattern
+   */
+  static async validateSubmission(pattern: Partial<Pattern>): Promise<ValidationResult> {
+    const contributed = await PatternLibraryService.getUserContributedPatterns();
+    return ValidationService.validatePattern(pattern, [...CURRICULUM_PATTERNS, ...contributed]);
+  }
+
+  /**
+   * Problems the library health and consistency reports find, by pattern ID,
+   * so reviewers can see which contributions would break learning paths
+   */
+  static async getLibraryIssues(): Promise<{ [patternId: string]: string[] }> {
+    const issues: { [patternId: string]: string[] } = {};
+    const add = (patternId: string, issue: string) => {
+      issues[patternId] = [...(issues[patternId] || []), issue];
+    };
+
+    try {
+      const [health, consistency] = await Promise.all([
+        PrerequisiteGraphService.getLibraryHealthReport(),
+        PatternDerivationService.getLibraryConsistencyReport(),
+      ]);
+
+      health.missing.forEach(entry => add(entry.patternId, `Prerequisite "${entry.missingId}" does not match any pattern`));
+      health.cycles.forEach(cycle => cycle.forEach(patternId => add(patternId, 'Prerequisites form a cycle')));
+      health.unreachable.forEach(patternId => add(patternId, 'Prerequisites can never all be learned'));
+      consistency.inconsistent.forEach(entry => {
+        entry.errors.forEach(error => add(entry.patternId, error));
+        entry.mismatches.forEach(mismatch => add(entry.patternId, `${mismatch.field} does not match the siteswap`));
+      });
+    } catch (error) {
+      console.error('Error in getLibraryIssues:', error);
+    }
+
+    return issues;
+  }
+
+  /**
+   * Save a new pattern to the user's library and put it in the review queue
+   */
+  static async submitPattern(pattern: Pattern, contributorId: string): Promise<boolean> {
+    const validation = await this.validateSubmission(pattern);
+    if (!validation.isValid) {
+      console.error('Error in submitPattern:', validation.errors);
+      return false;
+    }
+
+    const submitted: Pattern = {
+      ...pattern,
+      createdBy: pattern.createdBy || contributorId,
+      source: { ...pattern.source, type: 'user_contributed', contributorId, verificationStatus: 'pending' },
+    };
+
+    const saved = await PatternLibraryService.addUserPattern(submitted);
+    if (!saved) return false;
+
+    try {
+      const repository = RepositoryProvider.get();
+      const now = new Date().toISOString();
+      await this.write(repository, 'contributed_patterns', {
+        id: submitted.id,
+        contributor_id: contributorId,
+        pattern: submitted,
+        verification_status: 'pending',
+        revised_at: now,
+        created_at: now,
+        updated_at: now,
+      });
+      const summary = `Submitted "${submitted.name}"`;
+      await this.recordRevision(repository, submitted, contributorId, 1, [], summary);
+      await this.recordContribution(repository, submitted.id, contributorId, 'creation', summary);
+      return true;
+    } catch (error) {
+      // The pattern is still in the user's library; it joins the queue on resubmission
+      console.error('Error in submitPattern:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Patterns waiting for review that this reviewer didn't contribute and
+   * hasn't already reviewed in their current version
+   */
+  static async getReviewQueue(reviewerId: string): Promise<ReviewQueueItem[]> {
+    try {
+      const repository = RepositoryProvider.get();
+      const rows = await repository.select('contributed_patterns', {
+        filters: [isIn('verification_status', QUEUE_STATUSES)],
+        orderBy: { column: 'revised_at', ascending: true },
+      });
+      const items = await Promise.all(rows
+        .filter(row => row.contributor_id !== reviewerId)
+        .map(row => this.toQueueItem(repository, row)));
+
+      return items.filter(item => !item.reviews.some(review =>
+        review.reviewerId === reviewerId && review.createdAt >= item.revisedAt));
+    } catch (error) {
+      console.error('Error in getReviewQueue:', error);
+      return [];
+    }
+  }
+
+  /**
+   * A contributed pattern's moderation state, or null if it was never submitted
+   */
+  static async getModerationStatus(patternId: string): Promise<ReviewQueueItem | null> {
+    try {
+      const repository = RepositoryProvider.get();
+      const [row] = await repository.select('contributed_patterns', { filters: [eq('id', patternId)] });
+      return row ? await this.toQueueItem(repository, row) : null;
+    } catch (error) {
+      console.error('Error in getModerationStatus:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record a review. Changes and rejections need a comment so the contributor
+   * knows what to fix; each reviewer reviews a version once.
+   */
+  static async reviewPattern(
+    patternId: string,
+    reviewerId: string,
+    decision: PatternReviewDecision,
+    comment?: string,
+    reviewerName?: string
+  ): Promise<PatternReviewResult> {
+    const trimmed = comment?.trim();
+    if (decision !== 'approve' && !trimmed) {
+      return { success: false, error: 'Please explain what needs to change' };
+    }
+
+    try {
+      const repository = RepositoryProvider.get();
+      const [row] = await repository.select('contributed_patterns', { filters: [eq('id', patternId)] });
+      if (!row) {
+        return { success: false, error: 'Pattern is not awaiting review' };
+      }
+      if (row.contributor_id === reviewerId) {
+        return { success: false, error: 'You cannot review your own pattern' };
+      }
+      if (!QUEUE_STATUSES.includes(row.verification_status)) {
+        return { success: false, error: `Pattern is already ${row.verification_status}` };
+      }
+
+      const current = await this.getCurrentReviews(repository, row);
+      if (current.some(review => review.reviewerId === reviewerId)) {
+        return { success: false, error: 'You have already reviewed this version' };
+      }
+
+      const now = new Date().toISOString();
+      const [reviewRow] = await repository.insert('pattern_reviews', {
+        pattern_id: patternId,
+        reviewer_id: reviewerId,
+        reviewer_name: reviewerName,
+        decision,
+        comment: trimmed,
+        created_at: now,
+      });
+      await this.queueSync('pattern_reviews', reviewRow, repository);
+
+      const reviews = [this.toReview(reviewRow), ...current];
+      const approvals = new Set(reviews.filter(review => review.decision === 'approve').map(review => review.reviewerId)).size;
+      let status = this.resolveStatus(row.verification_status, decision, approvals);
+      if (repository.kind === 'supabase') {
+        // Reviewers can't write other people's patterns there; the pattern_reviews trigger sets the status
+        const [reviewed] = await repository.select('contributed_patterns', { filters: [eq('id', patternId)] });
+        status = reviewed?.verification_status ?? row.verification_status;
+        if (reviewed && status !== row.verification_status) {
+          await PatternLibraryService.updateUserPattern(reviewed.pattern);
+        }
+      } else if (status !== row.verification_status) {
+        await this.setStatus(repository, row, status, now);
+      }
+      if (status === 'verified' && row.verification_status !== 'verified') {
+        await this.recordContribution(repository, patternId, reviewerId, 'verification',
+          `Verified after ${approvals} approvals`);
+      }
+
+      return { success: true, status, approvals };
+    } catch (error) {
+      console.error('Error in reviewPattern:', error);
+      return { success: false, error: 'Could not save the review' };
+    }
+  }
+
+  /**
+   * Change a contributed pattern. The edit is stored as a new revision, recorded
+   * with a field-level diff, and the pattern goes back into the queue, so
+   * earlier approvals no longer count. Only the contributor can edit; anyone
+   * else gets an error.
+   */
+  static async editPattern(
+    patternId: string,
+    editorId: string,
+    changes: Partial<Pattern>,
+    summary?: string
+  ): Promise<PatternContribution | null> {
+    const repository = RepositoryProvider.get();
+    const [row] = await repository.select('contributed_patterns', { filters: [eq('id', patternId)] });
+    if (!row) return null;
+    this.requireContributor(row, editorId);
+
+    try {
+      return await this.applyEdit(repository, row, { ...row.pattern, ...changes }, editorId, summary);
+    } catch (error) {
+      console.error('Error in editPattern:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Restore a pattern's content to an earlier revision. Reverting is itself an
+   * edit, so it adds a new revision rather than discarding the later ones.
+   * Only the contributor can revert; anyone else gets an error.
+   */
+  static async revertToRevision(
+    patternId: string,
+    revision: number,
+    editorId: string
+  ): Promise<PatternContribution | null> {
+    const repository = RepositoryProvider.get();
+    const [row] = await repository.select('contributed_patterns', { filters: [eq('id', patternId)] });
+    if (!row) return null;
+    this.requireContributor(row, editorId);
+
+    try {
+      const [target] = await repository.select('pattern_revisions', {
+        filters: [eq('pattern_id', patternId), eq('revision', revision)],
+      });
+      if (!target) return null;
+
+      return await this.applyEdit(repository, row, target.pattern, editorId, `Reverted to revision ${revision}`, revision);
+    } catch (error) {
+      console.error('Error in revertToRevision:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Every revision of a pattern, newest first
+   */
+  static async getRevisions(patternId: string): Promise<PatternRevision[]> {
+    try {
+      const rows = await RepositoryProvider.get().select('pattern_revisions', {
+        filters: [eq('pattern_id', patternId)],
+        orderBy: { column: 'revision', ascending: false },
+      });
+      return rows.map(row => this.toRevision(row));
+    } catch (error) {
+      console.error('Error in getRevisions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Submissions, edits and verifications of a pattern, oldest first
+   */
+  static async getContributions(patternId: string): Promise<PatternContribution[]> {
+    try {
+      const rows = await RepositoryProvider.get().select('pattern_contributions', {
+        filters: [eq('pattern_id', patternId)],
+        orderBy: { column: 'created_at', ascending: true },
+      });
+      return rows.map(row => this.toContribution(row));
+    } catch (error) {
+      console.error('Error in getContributions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Top-level fields whose content differs between two versions of a pattern
+   */
+  static diffPatterns(before: Pattern, after: Pattern): PatternFieldChange[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof Pattern)[]);
+    return Array.from(fields)
+      .filter(field => !UNTRACKED_FIELDS.includes(field))
+      .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+      .map(field => ({ field, before: before[field], after: after[field] }));
+  }
+
+  /**
+   * Replace a pattern's content, keeping its identity, source and ratings.
+   * Returns null when nothing actually changed.
+   */
+  private static async applyEdit(
+    repository: DataRepository,
+    row: Row,
+    content: Pattern,
+    editorId: string,
+    summary?: string,
+    revertedFrom?: number
+  ): Promise<PatternContribution | null> {
+    const before: Pattern = row.pattern;
+    const now = new Date().toISOString();
+    const after: Pattern = {
+      ...content,
+      id: before.id,
+      source: { ...before.source, type: 'user_contributed', verificationStatus: 'pending' },
+      lastModified: now,
+      communityRating: before.communityRating,
+      ratingCount: before.ratingCount,
+    };
+    const diff = this.diffPatterns(before, after);
+    if (diff.length === 0) return null;
+
+    const validation = await this.validateSubmission(after);
+    if (!validation.isValid) throw new Error(validation.errors[0]);
+
+    const description = summary || `Changed ${diff.map(change => change.field).join(', ')}`;
+
+    // The revision goes first, so an edit that loses a numbering race changes nothing
+    await this.recordNextRevision(repository, row, after, editorId, diff, description, now, revertedFrom);
+    await this.write(repository, 'contributed_patterns', {
+      ...row,
+      pattern: after,
+      verification_status: 'pending',
+      revised_at: now,
+      updated_at: now,
+    }, true);
+    await PatternLibraryService.updateUserPattern(after);
+
+    return this.recordContribution(repository, before.id, editorId, 'edit', description, diff);
+  }
+
+  /**
+   * Rejections and change requests take effect at once; approvals only count
+   * while no changes are outstanding
+   */
+  private static resolveStatus(
+    current: VerificationStatus,
+    decision: PatternReviewDecision,
+    approvals: number
+  ): VerificationStatus {
+    if (decision === 'reject') return 'rejected';
+    if (decision === 'request_changes') return 'needs_review';
+    if (current === 'pending' && approvals >= this.requiredApprovals) return 'verified';
+    return current;
+  }
+
+  private static requireContributor(row: Row, editorId: string): void {
+    if (row.contributor_id !== editorId) {
+      throw new Error('Only the person who contributed this pattern can change it');
+    }
+  }
+
+  private static async setStatus(repository: DataRepository, row: Row, status: VerificationStatus, now: string) {
+    const pattern: Pattern = {
+      ...row.pattern,
+      source: {
+        ...row.pattern.source,
+        type: status === 'verified' ? 'community_verified' : 'user_contributed',
+        verificationStatus: status,
+      },
+    };
+    // Not queued for sync: the server works the status out from the synced review
+    await repository.update('contributed_patterns', {
+      ...row,
+      pattern,
+      verification_status: status,
+      updated_at: now,
+    }, { filters: [eq('id', row.id)] });
+    await PatternLibraryService.updateUserPattern(pattern);
+  }
+
+  /**
+   * Reviews of the pattern's current version, newest first
+   */
+  private static async getCurrentReviews(repository: DataRepository, row: Row): Promise<PatternReview[]> {
+    const revisedAt = Date.parse(row.revised_at) || 0;
+    const reviews = await this.getReviews(repository, row.id);
+    return reviews.filter(review => review.createdAt.getTime() >= revisedAt);
+  }
+
+  private static async getReviews(repository: DataRepository, patternId: string): Promise<PatternReview[]> {
+    const rows = await repository.select('pattern_reviews', {
+      filters: [eq('pattern_id', patternId)],
+      orderBy: { column: 'created_at', ascending: false },
+    });
+    return rows.map(row => this.toReview(row));
+  }
+
+  private static async toQueueItem(repository: DataRepository, row: Row): Promise<ReviewQueueItem> {
+    const reviews = await this.getReviews(repository, row.id);
+    const revisedAt = new Date(row.revised_at);
+    const approvals = new Set(reviews
+      .filter(review => review.decision === 'approve' && review.createdAt >= revisedAt)
+      .map(review => review.reviewerId)).size;
+
+    return {
+      pattern: row.pattern,
+      contributorId: row.contributor_id,
+      status: row.verification_status,
+      revisedAt,
+      approvals,
+      reviews,
+    };
+  }
+
+  private static async recordContribution(
+    repository: DataRepository,
+    patternId: string,
+    contributorId: string,
+    contributionType: PatternContribution['contributionType'],
+    changes: string,
+    diff?: PatternFieldChange[]
+  ): Promise<PatternContribution> {
+    const [row] = await repository.insert('pattern_contributions', {
+      pattern_id: patternId,
+      contributor_id: contributorId,
+      contribution_type: contributionType,
+      changes,
+      diff,
+      created_at: new Date().toISOString(),
+    });
+    await this.queueSync('pattern_contributions', row, repository);
+    return this.toContribution(row);
+  }
+
+  /**
+   * Store an edit as the pattern's next revision. Two edits at once can pick
+   * the same number; the database rejects the second, which then tries again
+   * with the number after the one that won.
+   */
+  private static async recordNextRevision(
+    repository: DataRepository,
+    row: Row,
+    pattern: Pattern,
+    editorId: string,
+    diff: PatternFieldChange[],
+    summary: string,
+    createdAt: string,
+    revertedFrom?: number
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const [latest] = await repository.select('pattern_revisions', {
+        filters: [eq('pattern_id', pattern.id)],
+        orderBy: { column: 'revision', ascending: false },
+        limit: 1,
+      });
+      let revision = latest ? latest.revision + 1 : 1;
+
+      try {
+        if (!latest) {
+          // Submitted before revisions were kept: store what it was as the first one
+          await this.recordRevision(repository, row.pattern, row.contributor_id, revision++, [], 'Original submission', row.created_at);
+        }
+        await this.recordRevision(repository, pattern, editorId, revision, diff, summary, createdAt, revertedFrom);
+        return;
+      } catch (error) {
+        const isConflict = error instanceof RepositoryError && error.code === '23505';
+        if (!isConflict) throw error;
+        if (attempt >= MAX_REVISION_ATTEMPTS) {
+          throw new Error('This pattern is being edited by someone else, please try again');
+        }
+      }
+    }
+  }
+
+  private static async recordRevision(
+    repository: DataRepository,
+    pattern: Pattern,
+    authorId: string,
+    revision: number,
+    diff: PatternFieldChange[],
+    summary: string,
+    createdAt: string = new Date().toISOString(),
+    revertedFrom?: number
+  ): Promise<void> {
+    await this.write(repository, 'pattern_revisions', {
+      pattern_id: pattern.id,
+      revision,
+      author_id: authorId,
+      summary,
+      diff,
+      pattern,
+      reverted_from: revertedFrom,
+      created_at: createdAt,
+    });
+  }
+
+  private static async write(repository: DataRepository, table: string, row: Row, replace = false): Promise<void> {
+    const [saved] = replace
+      ? await repository.update(table, row, { filters: [eq('id', row.id)] })
+      : await repository.insert(table, row);
+    await this.queueSync(table, saved, repository);
+  }
+
+  /**
+   * Queue writes made on the on-device store so they reach Supabase later
+   */
+  private static async queueSync(table: string, row: Row, repository: DataRepository): Promise<void> {
+    if (!RepositoryProvider.isLocalStore(repository)) return;
+    await SyncService.queueOperation({
+      service: 'moderation',
+      action: 'upsert',
+      data: { table, row },
+      timestamp: Date.now(),
+    });
+  }
+
+  private static toReview(row: Row): PatternReview {
+    return {
+      id: row.id,
+      patternId: row.pattern_id,
+      reviewerId: row.reviewer_id,
+      reviewerName: row.reviewer_name ?? undefined,
+      decision: row.decision,
+      comment: row.comment ?? undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private static toRevision(row: Row): PatternRevision {
+    return {
+      id: row.id,
+      patternId: row.pattern_id,
+      revision: row.revision,
+      authorId: row.author_id,
+      summary: row.summary ?? undefined,
+      diff: row.diff || [],
+      pattern: row.pattern,
+      revertedFrom: row.reverted_from ?? undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private static toContribution(row: Row): PatternContribution {
+    return {
+      id: row.id,
+      patternId: row.pattern_id,
+      contributorId: row.contributor_id,
+      contributionType: row.contribution_type,
+      changes: row.changes ?? undefined,
+      diff: row.diff ?? undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
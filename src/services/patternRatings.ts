@@ -0,0 +1,206 @@
+/**
+ * Pattern rating service
+ * One editable 1-5 star rating (with optional written review) per user per
+ * pattern. Ratings are summarised into a pattern's communityRating and
+ * ratingCount, and a Bayesian average ranks patterns by popularity without
+ * letting a single five-star rating beat a pattern many people rated well.
+ */
+
+import { Pattern, PatternRating } from '../types';
+import { PatternLibraryService } from './patternLibrary';
+import { DataRepository, Row, eq, isIn } from './repository';
+import { RepositoryProvider } from './repositoryProvider';
+import { SyncService } from './sync';
+
+export interface PatternRatingSummary {
+  communityRating: number; // Average stars, to one decimal place
+  ratingCount: number;
+}
+
+// The Bayesian average treats every pattern as if it started with
+// PRIOR_WEIGHT ratings of PRIOR_RATING stars
+const PRIOR_RATING = 3;
+const PRIOR_WEIGHT = 5;
+const MAX_REVIEW_LENGTH = 1000;
+
+export class PatternRatingService {
+  /**
+   * Rate a pattern, replacing the user's earlier rating of it if there is one.
+   * Returns the pattern's updated summary, or null if the rating wasn't saved.
+   */
+  static async ratePattern(
+    patternId: string,
+    userId: string,
+    rating: number,
+    review?: string,
+    userName?: string
+  ): Promise<PatternRatingSummary | null> {
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      console.error('PatternRatingService: Rating must be a whole number of stars from 1 to 5');
+      return null;
+    }
+
+    try {
+      const repository = RepositoryProvider.get();
+      const now = new Date().toISOString();
+      const [existing] = await repository.select('pattern_ratings', {
+        filters: [eq('pattern_id', patternId), eq('user_id', userId)],
+      });
+      const [row] = await repository.upsert('pattern_ratings', {
+        ...(existing ? { id: existing.id } : {}),
+        pattern_id: patternId,
+        user_id: userId,
+        user_name: userName,
+        rating,
+        review: review?.trim().slice(0, MAX_REVIEW_LENGTH) || null,
+        updated_at: now,
+        ...(existing ? {} : { created_at: now }),
+      }, ['pattern_id', 'user_id']);
+      await this.queueSync('rate', row, repository);
+
+      return this.refreshSummary(repository, patternId);
+    } catch (error) {
+      console.error('Error in ratePattern:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove the user's rating of a pattern
+   */
+  static async removeRating(patternId: string, userId: string): Promise<boolean> {
+    try {
+      const repository = RepositoryProvider.get();
+      const [removed] = await repository.delete('pattern_ratings', {
+        filters: [eq('pattern_id', patternId), eq('user_id', userId)],
+      });
+      if (removed) {
+        await this.queueSync('remove', removed, repository);
+        await this.refreshSummary(repository, patternId);
+      }
+      return true;
+    } catch (error) {
+      console.error('Error in removeRating:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Every rating of a pattern, most recently updated first
+   */
+  static async getRatings(patternId: string): Promise<PatternRating[]> {
+    try {
+      const rows = await RepositoryProvider.get().select('pattern_ratings', {
+        filters: [eq('pattern_id', patternId)],
+        orderBy: { column: 'updated_at', ascending: false },
+      });
+      return rows.map(row => this.toRating(row));
+    } catch (error) {
+      console.error('Error in getRatings:', error);
+      return [];
+    }
+  }
+
+  static async getUserRating(patternId: string, userId: string): Promise<PatternRating | null> {
+    try {
+      const [row] = await RepositoryProvider.get().select('pattern_ratings', {
+        filters: [eq('pattern_id', patternId), eq('user_id', userId)],
+      });
+      return row ? this.toRating(row) : null;
+    } catch (error) {
+      console.error('Error in getUserRating:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Rating summaries keyed by pattern ID (all rated patterns when no IDs are given)
+   */
+  static async getSummaries(patternIds?: string[]): Promise<{ [patternId: string]: PatternRatingSummary }> {
+    try {
+      const rows = await RepositoryProvider.get().select('pattern_ratings', {
+        filters: patternIds ? [isIn('pattern_id', patternIds)] : [],
+      });
+      const grouped: { [patternId: string]: number[] } = {};
+      rows.forEach(row => {
+        (grouped[row.pattern_id] = grouped[row.pattern_id] || []).push(row.rating);
+      });
+      return Object.keys(grouped).reduce((summaries, patternId) => {
+        summaries[patternId] = this.summarize(grouped[patternId]);
+        return summaries;
+      }, {} as { [patternId: string]: PatternRatingSummary });
+    } catch (error) {
+      console.error('Error in getSummaries:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Copies of the patterns with communityRating and ratingCount filled in
+   */
+  static async applyRatings(patterns: Pattern[]): Promise<Pattern[]> {
+    const summaries = await this.getSummaries();
+    return patterns.map(pattern => summaries[pattern.id] ? { ...pattern, ...summaries[pattern.id] } : pattern);
+  }
+
+  /**
+   * Bayesian average of a pattern's rating, used to sort by popularity
+   */
+  static getPopularityScore(pattern: Pick<Pattern, 'communityRating' | 'ratingCount'>): number {
+    const count = pattern.ratingCount || 0;
+    const average = pattern.communityRating || 0;
+    return (PRIOR_RATING * PRIOR_WEIGHT + average * count) / (PRIOR_WEIGHT + count);
+  }
+
+  /**
+   * Recompute a pattern's summary and store it on the pattern if it's one of
+   * this device's contributed patterns (curriculum patterns get it from applyRatings)
+   */
+  private static async refreshSummary(repository: DataRepository, patternId: string): Promise<PatternRatingSummary> {
+    const rows = await repository.select('pattern_ratings', { filters: [eq('pattern_id', patternId)] });
+    const summary = this.summarize(rows.map(row => row.rating));
+
+    const contributed = await PatternLibraryService.getUserContributedPatterns();
+    const pattern = contributed.find(p => p.id === patternId);
+    if (pattern) {
+      await PatternLibraryService.updateUserPattern({
+        ...pattern,
+        communityRating: summary.ratingCount > 0 ? summary.communityRating : undefined,
+        ratingCount: summary.ratingCount > 0 ? summary.ratingCount : undefined,
+      });
+    }
+    return summary;
+  }
+
+  private static summarize(ratings: number[]): PatternRatingSummary {
+    if (ratings.length === 0) return { communityRating: 0, ratingCount: 0 };
+    const average = ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length;
+    return { communityRating: Math.round(average * 10) / 10, ratingCount: ratings.length };
+  }
+
+  /**
+   * Queue writes made on the on-device store so they reach Supabase later
+   */
+  private static async queueSync(action: 'rate' | 'remove', row: Row, repository: DataRepository): Promise<void> {
+    if (!RepositoryProvider.isLocalStore(repository)) return;
+    await SyncService.queueOperation({
+      service: 'ratings',
+      action,
+      data: this.toRating(row),
+      timestamp: Date.now(),
+    });
+  }
+
+  private static toRating(row: Row): PatternRating {
+    return {
+      id: row.id,
+      patternId: row.pattern_id,
+      userId: row.user_id,
+      userName: row.user_name ?? undefined,
+      rating: row.rating,
+      review: row.review ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    };
+  }
+}
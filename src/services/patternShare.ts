@@ -0,0 +1,438 @@
+/**
+ * Pattern sharing service
+ * A versioned JSON interchange format for pattern definitions and a user's
+ * pattern list, and patternpals:// links that open a pattern in the app.
+ * Imports are checked against the format and matched to patterns already in
+ * the library by siteswap or name, so sharing a curriculum pattern never
+ * creates a copy of it.
+ */
+
+import { Pattern, PatternProficiency, PatternStatus } from '../types';
+import { CURRICULUM_PATTERNS, PatternLibraryService } from './patternLibrary';
+import { PROP_TYPES, PropService } from './props';
+import { SiteswapService } from './siteswap';
+import { UserPatternService } from './userPatterns';
+import { ValidationService } from './validationService';
+
+export const PATTERN_SHARE_VERSION = 1;
+export const PATTERN_LINK_PREFIX = 'patternpals://pattern/';
+const SHARED_LINK_PATH = 'shared'; // patternpals://pattern/shared?data=<document>
+
+export interface SharedPatternDocument {
+  format: 'patternpals.pattern';
+  version: number;
+  exportedAt: string;
+  pattern: Pattern;
+}
+
+export interface SharedPatternEntry {
+  patternId: string;
+  status: PatternStatus;
+  proficiency?: PatternProficiency;
+  pattern?: Pattern; // Included when the pattern isn't part of the curriculum
+}
+
+export interface SharedPatternListDocument {
+  format: 'patternpals.pattern_list';
+  version: number;
+  exportedAt: string;
+  entries: SharedPatternEntry[];
+}
+
+export type PatternShareDocument = SharedPatternDocument | SharedPatternListDocument;
+
+export interface PatternShareParseResult {
+  document?: PatternShareDocument;
+  errors: string[];
+}
+
+export interface PatternImportResult {
+  status: 'imported' | 'duplicate' | 'invalid';
+  pattern?: Pattern; // The added pattern, or the library pattern it duplicates
+  errors: string[];
+  warnings: string[];
+}
+
+export interface PatternListImportResult {
+  statusesSet: number;
+  added: Pattern[]; // Patterns that were new to the library
+  skipped: string[]; // One message per entry that couldn't be imported
+}
+
+/**
+ * What a pattern link points at: a library pattern by ID, or a whole pattern
+ * carried in the link for patterns the recipient may not have
+ */
+export type PatternLinkTarget =
+  | { type: 'id'; patternId: string }
+  | { type: 'pattern'; pattern: Pattern };
+
+const DIFFICULTIES = ['Beginner', 'Intermediate', 'Advanced'];
+const TIMINGS = ['fully_async', 'semi_sync', 'fully_sync'];
+const SOURCE_TYPES = ['official', 'user_contributed', 'community_verified'];
+const STATUSES: PatternStatus[] = ['known', 'want_to_learn', 'want_to_avoid'];
+const PROFICIENCIES: PatternProficiency[] = ['learning', 'few_cycles', 'solid', 'can_teach'];
+
+export class PatternShareService {
+  /**
+   * Wrap a pattern in a versioned document
+   */
+  static createPatternDocument(pattern: Pattern, now: Date = new Date()): SharedPatternDocument {
+    return {
+      format: 'patternpals.pattern',
+      version: PATTERN_SHARE_VERSION,
+      exportedAt: now.toISOString(),
+      pattern,
+    };
+  }
+
+  /**
+   * Serialize a pattern for sharing as a file or message
+   */
+  static exportPattern(pattern: Pattern, now: Date = new Date()): string {
+    return JSON.stringify(this.createPatternDocument(pattern, now), null, 2);
+  }
+
+  /**
+   * Serialize a user's pattern statuses. Patterns outside the curriculum are
+   * included in full so the list can be imported on another device.
+   */
+  static async exportUserPatterns(userId: string, now: Date = new Date()): Promise<string> {
+    const userPatterns = await UserPatternService.exportUserPatterns(userId);
+    const contributed = await PatternLibraryService.getUserContributedPatterns();
+    const curriculumIds = new Set(CURRICULUM_PATTERNS.map(pattern => pattern.id));
+
+    const entries: SharedPatternEntry[] = userPatterns.map(userPattern => {
+      const entry: SharedPatternEntry = { patternId: userPattern.patternId, status: userPattern.status };
+      if (userPattern.proficiency) entry.proficiency = userPattern.proficiency;
+      if (!curriculumIds.has(userPattern.patternId)) {
+        const pattern = contributed.find(p => p.id === userPattern.patternId);
+        if (pattern) entry.pattern = pattern;
+      }
+      return entry;
+    });
+
+    const document: SharedPatternListDocument = {
+      format: 'patternpals.pattern_list',
+      version: PATTERN_SHARE_VERSION,
+      exportedAt: now.toISOString(),
+      entries,
+    };
+    return JSON.stringify(document, null, 2);
+  }
+
+  /**
+   * Parse and check a shared document, reporting every problem found
+   */
+  static parseDocument(input: string | unknown): PatternShareParseResult {
+    let value: unknown = input;
+    if (typeof input === 'string') {
+      try {
+        value = JSON.parse(input);
+      } catch {
+        return { errors: ['Not valid JSON'] };
+      }
+    }
+
+    if (!isObject(value)) {
+      return { errors: ['Document must be a JSON object'] };
+    }
+    if (typeof value.version !== 'number' || !Number.isInteger(value.version)) {
+      return { errors: ['Document version is missing'] };
+    }
+    if (value.version > PATTERN_SHARE_VERSION) {
+      return { errors: [`Document version ${value.version} is newer than this app supports (${PATTERN_SHARE_VERSION})`] };
+    }
+
+    const errors: string[] = [];
+    if (value.format === 'patternpals.pattern') {
+      errors.push(...this.checkPatternSchema(value.pattern, 'pattern'));
+    } else if (value.format === 'patternpals.pattern_list') {
+      if (!Array.isArray(value.entries)) {
+        errors.push('entries must be a list');
+      } else {
+        value.entries.forEach((entry, index) => errors.push(...this.checkEntrySchema(entry, `entries[${index}]`)));
+      }
+    } else {
+      errors.push(`Unknown document format "${String(value.format)}"`);
+    }
+
+    if (errors.length > 0) return { errors };
+    return { document: value as unknown as PatternShareDocument, errors };
+  }
+
+  /**
+   * Find a library pattern that a shared pattern duplicates: same ID, same
+   * siteswap, or same name (ignoring case and spacing)
+   */
+  static findDuplicate(pattern: Pattern, library: Pattern[] = CURRICULUM_PATTERNS): Pattern | undefined {
+    const siteswap = this.getSiteswapKey(pattern);
+    const name = normalizeName(pattern.name);
+    return library.find(candidate => candidate.id === pattern.id) ||
+      (siteswap ? library.find(candidate => this.getSiteswapKey(candidate) === siteswap) : undefined) ||
+      library.find(candidate => normalizeName(candidate.name) === name);
+  }
+
+  /**
+   * Add a shared pattern to the user's contributed patterns unless the
+   * curriculum or an earlier import already has it
+   */
+  static async importPattern(input: string | unknown): Promise<PatternImportResult> {
+    const parsed = this.parseDocument(input);
+    if (!parsed.document) {
+      return { status: 'invalid', errors: parsed.errors, warnings: [] };
+    }
+    if (parsed.document.format !== 'patternpals.pattern') {
+      return { status: 'invalid', errors: ['Document is a pattern list, not a single pattern'], warnings: [] };
+    }
+    return this.importSharedPattern(parsed.document.pattern);
+  }
+
+  /**
+   * Apply a shared pattern list to a user: patterns the library lacks are
+   * added, then each entry's status and proficiency are set
+   */
+  static async importUserPatterns(userId: string, input: string | unknown, userName?: string): Promise<PatternListImportResult> {
+    const result: PatternListImportResult = { statusesSet: 0, added: [], skipped: [] };
+    const parsed = this.parseDocument(input);
+    if (!parsed.document) {
+      result.skipped.push(...parsed.errors);
+      return result;
+    }
+    if (parsed.document.format !== 'patternpals.pattern_list') {
+      result.skipped.push('Document is a single pattern, not a pattern list');
+      return result;
+    }
+
+    const library = await this.getLibrary();
+    for (const entry of parsed.document.entries) {
+      let patternId = library.some(pattern => pattern.id === entry.patternId) ? entry.patternId : undefined;
+
+      if (!patternId && entry.pattern) {
+        const imported = await this.importSharedPattern(entry.pattern);
+        if (imported.status === 'invalid' || !imported.pattern) {
+          result.skipped.push(`${entry.pattern.name}: ${imported.errors.join('; ')}`);
+          continue;
+        }
+        if (imported.status === 'imported') result.added.push(imported.pattern);
+        patternId = imported.pattern.id;
+      }
+
+      if (!patternId) {
+        result.skipped.push(`Pattern "${entry.patternId}" is not in the library`);
+        continue;
+      }
+
+      const saved = await UserPatternService.setPatternStatus(userId, patternId, entry.status, userName, entry.proficiency);
+      if (saved) {
+        result.statusesSet++;
+      } else {
+        result.skipped.push(`Could not save status for "${patternId}"`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * A link that opens the pattern in the app. Curriculum patterns are linked
+   * by ID; anything else carries the whole pattern document.
+   */
+  static createPatternLink(pattern: Pattern): string {
+    if (CURRICULUM_PATTERNS.some(candidate => candidate.id === pattern.id)) {
+      return `${PATTERN_LINK_PREFIX}${encodeURIComponent(pattern.id)}`;
+    }
+    const document = JSON.stringify(this.createPatternDocument(pattern));
+    return `${PATTERN_LINK_PREFIX}${SHARED_LINK_PATH}?data=${encodeURIComponent(document)}`;
+  }
+
+  /**
+   * Read a patternpals://pattern/... link; returns null if it isn't one
+   */
+  static parsePatternLink(url: string): PatternLinkTarget | null {
+    if (!url.startsWith(PATTERN_LINK_PREFIX)) return null;
+
+    const rest = url.slice(PATTERN_LINK_PREFIX.length);
+    const queryStart = rest.indexOf('?');
+    const path = queryStart === -1 ? rest : rest.slice(0, queryStart);
+    const query = queryStart === -1 ? '' : rest.slice(queryStart + 1);
+    const data = query.split('&')
+      .map(pair => pair.split('='))
+      .find(([key]) => key === 'data')?.[1];
+
+    try {
+      return this.resolveLinkParams(
+        decodeURIComponent(path),
+        data !== undefined ? decodeURIComponent(data.replace(/\+/g, ' ')) : undefined
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Turn the route params a pattern link was opened with into a target.
+   * Navigation has already decoded the path and query string.
+   */
+  static resolveLinkParams(patternId?: string, data?: string): PatternLinkTarget | null {
+    if (patternId === SHARED_LINK_PATH) {
+      if (!data) return null;
+      const parsed = this.parseDocument(data);
+      if (!parsed.document || parsed.document.format !== 'patternpals.pattern') return null;
+      return { type: 'pattern', pattern: parsed.document.pattern };
+    }
+    return patternId ? { type: 'id', patternId } : null;
+  }
+
+  /**
+   * The siteswap a pattern is compared by, in canonical form
+   */
+  static getSiteswapKey(pattern: Pick<Pattern, 'siteswap'>): string | null {
+    const { global, local } = pattern.siteswap || {};
+    if (global && global.trim()) return SiteswapService.normalize(global);
+    if (local && Object.keys(local).length > 0) return SiteswapService.combineLocal(local);
+    return null;
+  }
+
+  /**
+   * The library pattern a shared pattern duplicates, if any, so a link can be
+   * previewed before anything is saved
+   */
+  static async findInLibrary(shared: Pattern): Promise<Pattern | undefined> {
+    return this.findDuplicate(shared, await this.getLibrary());
+  }
+
+  /**
+   * Add a pattern that has already passed parseDocument, e.g. one opened from a link
+   */
+  static async importSharedPattern(shared: Pattern): Promise<PatternImportResult> {
+    const library = await this.getLibrary();
+    const duplicate = this.findDuplicate(shared, library);
+    if (duplicate) {
+      return { status: 'duplicate', pattern: duplicate, errors: [], warnings: [] };
+    }
+
+    // Prerequisites can only point at patterns this device knows about
+    const warnings: string[] = [];
+    const knownIds = new Set(library.map(pattern => pattern.id));
+    const prerequisites = shared.prerequisites.filter(id => {
+      if (knownIds.has(id)) return true;
+      warnings.push(`Dropped prerequisite "${id}", which is not in the library`);
+      return false;
+    });
+
+    const now = new Date().toISOString();
+    const pattern: Pattern = {
+      ...shared,
+      prerequisites,
+      source: {
+        ...shared.source,
+        type: 'user_contributed',
+        dateAdded: shared.source.dateAdded || now,
+        verificationStatus: 'pending',
+      },
+      lastModified: now,
+    };
+
+    const validation = ValidationService.validatePattern(pattern, library);
+    if (!validation.isValid) {
+      return { status: 'invalid', errors: validation.errors, warnings };
+    }
+    warnings.push(...(validation.warnings || []));
+
+    const saved = await PatternLibraryService.addUserPattern(pattern);
+    if (!saved) {
+      return { status: 'invalid', errors: ['Could not save the pattern'], warnings };
+    }
+    return { status: 'imported', pattern, errors: [], warnings };
+  }
+
+  private static async getLibrary(): Promise<Pattern[]> {
+    return [...CURRICULUM_PATTERNS, ...await PatternLibraryService.getUserContributedPatterns()];
+  }
+
+  private static checkEntrySchema(value: unknown, path: string): string[] {
+    if (!isObject(value)) return [`${path} must be an object`];
+    const errors: string[] = [];
+    if (typeof value.patternId !== 'string' || !value.patternId) {
+      errors.push(`${path}.patternId is required`);
+    }
+    if (!STATUSES.includes(value.status as PatternStatus)) {
+      errors.push(`${path}.status must be one of ${STATUSES.join(', ')}`);
+    }
+    if (value.proficiency !== undefined && !PROFICIENCIES.includes(value.proficiency as PatternProficiency)) {
+      errors.push(`${path}.proficiency must be one of ${PROFICIENCIES.join(', ')}`);
+    }
+    if (value.pattern !== undefined) {
+      errors.push(...this.checkPatternSchema(value.pattern, `${path}.pattern`));
+    }
+    return errors;
+  }
+
+  /**
+   * Structural check of a shared pattern; ValidationService checks the content
+   * when it's imported
+   */
+  private static checkPatternSchema(value: unknown, path: string): string[] {
+    if (!isObject(value)) return [`${path} must be an object`];
+    const errors: string[] = [];
+    const expect = (field: string, valid: boolean, description: string) => {
+      if (!valid) errors.push(`${path}.${field} must be ${description}`);
+    };
+
+    expect('id', typeof value.id === 'string' && value.id.length > 0, 'a non-empty string');
+    expect('name', typeof value.name === 'string' && value.name.trim().length > 0, 'a non-empty string');
+    expect('difficulty', DIFFICULTIES.includes(value.difficulty as string), `one of ${DIFFICULTIES.join(', ')}`);
+    expect('requiredJugglers', isPositiveInteger(value.requiredJugglers), 'a positive whole number');
+    expect('props', Array.isArray(value.props) && value.props.every(prop => PropService.isPropType(prop)),
+      `a list of ${PROP_TYPES.join(', ')}`);
+    expect('propCounts', value.propCounts === undefined || (isObject(value.propCounts) &&
+      Object.entries(value.propCounts).every(([prop, count]) => PropService.isPropType(prop) && isPositiveInteger(count))),
+      'a count for each prop');
+    expect('description', typeof value.description === 'string', 'a string');
+    expect('tags', isStringList(value.tags), 'a list of strings');
+    expect('prerequisites', isStringList(value.prerequisites), 'a list of pattern IDs');
+    expect('timing', TIMINGS.includes(value.timing as string), `one of ${TIMINGS.join(', ')}`);
+    expect('numberOfProps', isPositiveInteger(value.numberOfProps), 'a positive whole number');
+    expect('period', isPositiveInteger(value.period), 'a positive whole number');
+
+    const source = value.source;
+    if (!isObject(source)) {
+      errors.push(`${path}.source must be an object`);
+    } else {
+      expect('source.name', typeof source.name === 'string', 'a string');
+      expect('source.type', SOURCE_TYPES.includes(source.type as string), `one of ${SOURCE_TYPES.join(', ')}`);
+    }
+
+    const siteswap = value.siteswap;
+    if (!isObject(siteswap)) {
+      errors.push(`${path}.siteswap must be an object`);
+    } else {
+      expect('siteswap.global', siteswap.global === undefined || typeof siteswap.global === 'string', 'a string');
+      expect('siteswap.local', siteswap.local === undefined || isStringMap(siteswap.local), 'a map of juggler to siteswap');
+      expect('siteswap.prechac', siteswap.prechac === undefined || isStringMap(siteswap.prechac), 'a map of juggler to siteswap');
+    }
+
+    return errors;
+  }
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isStringList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isStringMap(value: unknown): boolean {
+  return isObject(value) && Object.values(value).every(item => typeof item === 'string');
+}
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
@@ -0,0 +1,278 @@
+/**
+ * Pattern simulator
+ * Turns a pattern's siteswap into a time-stepped model of where every prop,
+ * hand and juggler is, so patterns can be animated without a video.
+ */
+
+import { Pattern } from '../types';
+import { ParsedSiteswap, SiteswapService, SiteswapThrow } from './siteswap';
+import { PrechacService } from './prechac';
+
+export interface SimulatorPoint {
+  x: number;
+  y: number;
+}
+
+export interface SimulatedJuggler {
+  index: number;
+  name: string;
+  x: number;
+  hands: [SimulatorPoint, SimulatorPoint]; // [left, right]
+}
+
+export interface SimulatedThrow extends SiteswapThrow {
+  throwHand: number;
+  catchHand: number;
+  propBase: number; // First prop id used by this throw's orbit
+  orbitProps: number; // Number of props travelling through the orbit
+  orbitOffset: number; // Beat this throw sits at along its orbit's path
+}
+
+export interface SimulationModel {
+  notation: string;
+  jugglers: SimulatedJuggler[];
+  throws: SimulatedThrow[];
+  cycleBeats: number; // Beats before every prop is back where it started
+  propCount: number;
+  dwellBeats: number;
+  isSync: boolean;
+  bounds: { minX: number; maxX: number; maxY: number };
+}
+
+export interface SimulatedProp {
+  propId: number;
+  x: number;
+  y: number;
+  inFlight: boolean;
+  isPass: boolean;
+  fromJuggler: number;
+  toJuggler: number;
+}
+
+export interface SimulationFrame {
+  beat: number;
+  props: SimulatedProp[];
+}
+
+export interface SimulationResult {
+  isValid: boolean;
+  errors: string[];
+  model?: SimulationModel;
+}
+
+const JUGGLER_SPACING = 2;
+const HAND_OFFSET = 0.25;
+const HEIGHT_PER_BEAT_SQUARED = 0.08;
+const DEFAULT_DWELL_RATIO = 0.5;
+
+export class PatternSimulatorService {
+  /**
+   * Build a simulation model for a pattern, using its local siteswaps when
+   * present and otherwise splitting a global siteswap between `requiredJugglers`
+   */
+  static simulate(pattern: Pattern, dwellRatio: number = DEFAULT_DWELL_RATIO): SimulationResult {
+    const { notation, names, errors } = this.getNotation(pattern);
+    if (!notation) {
+      return { isValid: false, errors };
+    }
+
+    const analysis = SiteswapService.analyze(notation);
+    if (!analysis.isValid || !analysis.parsed) {
+      return { isValid: false, errors: analysis.errors };
+    }
+
+    const parsed = this.evenCycle(analysis.parsed);
+    const startHands = this.getStartHands(pattern.handOrder, names);
+    const jugglers = names.map((name, index) => {
+      const x = (index - (names.length - 1) / 2) * JUGGLER_SPACING;
+      return {
+        index,
+        name,
+        x,
+        hands: [{ x: x - HAND_OFFSET, y: 0 }, { x: x + HAND_OFFSET, y: 0 }] as [SimulatorPoint, SimulatorPoint],
+      };
+    });
+
+    // Asynchronous hands alternate every beat from each juggler's starting hand
+    const handAt = (juggler: number, time: number) => (startHands[juggler] + time) % 2;
+    const throws: SimulatedThrow[] = parsed.throws.map(t => ({
+      ...t,
+      throwHand: parsed.isSync ? t.hand : handAt(t.juggler, t.time),
+      catchHand: parsed.isSync ? t.targetHand : handAt(t.targetJuggler, t.time + t.height),
+      propBase: 0,
+      orbitProps: 0,
+      orbitOffset: 0,
+    }));
+    this.assignProps(parsed, throws);
+
+    const maxHeight = Math.max(...throws.map(t => t.height));
+    return {
+      isValid: true,
+      errors: [],
+      model: {
+        notation,
+        jugglers,
+        throws,
+        cycleBeats: parsed.length,
+        propCount: analysis.numberOfProps!,
+        dwellBeats: dwellRatio * (parsed.isSync ? 2 : 1),
+        isSync: parsed.isSync,
+        bounds: {
+          minX: jugglers[0].x - JUGGLER_SPACING / 2,
+          maxX: jugglers[jugglers.length - 1].x + JUGGLER_SPACING / 2,
+          maxY: Math.max(1, HEIGHT_PER_BEAT_SQUARED * maxHeight * maxHeight),
+        },
+      },
+    };
+  }
+
+  /**
+   * Position of every prop at a moment in time (in beats, any non-negative value)
+   */
+  static getFrame(model: SimulationModel, beat: number): SimulationFrame {
+    const cycle = model.cycleBeats;
+    const now = ((beat % cycle) + cycle) % cycle;
+    const props: SimulatedProp[] = [];
+
+    model.throws.forEach(t => {
+      if (t.height === 0) return;
+
+      // Find the repetitions of this throw whose prop is still travelling
+      for (let rep = -Math.ceil(t.height / cycle) - 1; rep <= 0; rep++) {
+        const thrownAt = t.time + rep * cycle;
+        if (thrownAt > now || now >= thrownAt + t.height) continue;
+
+        const from = model.jugglers[t.juggler].hands[t.throwHand];
+        const to = model.jugglers[t.targetJuggler].hands[t.catchHand];
+        const dwell = Math.min(model.dwellBeats, t.height / 2);
+        const flight = t.height - dwell;
+        const elapsed = now - thrownAt;
+        const isHold = from === to && t.height <= 2;
+        const inFlight = !isHold && elapsed < flight;
+        const progress = inFlight ? elapsed / flight : 1;
+        const apex = HEIGHT_PER_BEAT_SQUARED * flight * flight;
+
+        props.push({
+          propId: t.propBase + mod((thrownAt - t.orbitOffset) / cycle, t.orbitProps),
+          x: isHold ? from.x : from.x + (to.x - from.x) * progress,
+          y: inFlight ? 4 * apex * progress * (1 - progress) : 0,
+          inFlight,
+          isPass: t.isPass,
+          fromJuggler: t.juggler,
+          toJuggler: t.targetJuggler,
+        });
+      }
+    });
+
+    props.sort((a, b) => a.propId - b.propId);
+    return { beat: now, props };
+  }
+
+  /**
+   * Pick the notation to animate along with a display name for each juggler
+   */
+  private static getNotation(pattern: Pattern): { notation?: string; names: string[]; errors: string[] } {
+    const { local, global } = pattern.siteswap || {};
+    const defaultNames = (count: number) =>
+      Array.from({ length: count }, (_, i) => String.fromCharCode(65 + i));
+
+    if (local && Object.keys(local).length > 0) {
+      return { notation: SiteswapService.combineLocal(local), names: Object.keys(local), errors: [] };
+    }
+
+    if (global) {
+      const normalized = SiteswapService.normalize(global);
+      if (normalized.startsWith('<')) {
+        return { notation: normalized, names: defaultNames(normalized.split('|').length), errors: [] };
+      }
+      if (pattern.requiredJugglers > 1) {
+        const conversion = PrechacService.globalToLocal(normalized, pattern.requiredJugglers);
+        if (!conversion.isValid || !conversion.local) {
+          return { names: [], errors: conversion.errors };
+        }
+        return {
+          notation: `<${conversion.local.join('|')}>`,
+          names: defaultNames(pattern.requiredJugglers),
+          errors: [],
+        };
+      }
+      return { notation: normalized, names: defaultNames(1), errors: [] };
+    }
+
+    return { names: [], errors: ['Pattern has no siteswap to animate'] };
+  }
+
+  /**
+   * Read each juggler's first hand from hand order text like "(AR, BR)(AL, BL)".
+   * Jugglers start with their right hand unless the hand order says otherwise.
+   */
+  private static getStartHands(handOrder: string | undefined, names: string[]): number[] {
+    const starts = names.map(() => 1);
+    if (!handOrder) return starts;
+
+    const seen = new Set<number>();
+    const tokens = handOrder.match(/[A-Za-z0-9]+/g) || [];
+    tokens.forEach(token => {
+      const side = token.slice(-1).toUpperCase();
+      const juggler = names.indexOf(token.slice(0, -1));
+      if (juggler === -1 || seen.has(juggler) || (side !== 'L' && side !== 'R')) return;
+      seen.add(juggler);
+      starts[juggler] = side === 'L' ? 0 : 1;
+    });
+    return starts;
+  }
+
+  /**
+   * Asynchronous patterns with an odd length swap hands each repetition,
+   * so animate two repetitions to get back to the same hands
+   */
+  private static evenCycle(parsed: ParsedSiteswap): ParsedSiteswap {
+    if (parsed.isSync || parsed.length % 2 === 0) return parsed;
+    return {
+      ...parsed,
+      length: parsed.length * 2,
+      throws: [...parsed.throws, ...parsed.throws.map(t => ({ ...t, time: t.time + parsed.length }))],
+    };
+  }
+
+  /**
+   * Give every prop a stable id by walking each orbit and recording how far
+   * along the orbit's path each throw sits
+   */
+  private static assignProps(parsed: ParsedSiteswap, throws: SimulatedThrow[]): void {
+    const next = SiteswapService.linkThrows(parsed);
+    const visited = new Set<number>();
+    let propBase = 0;
+
+    throws.forEach((t, start) => {
+      if (t.height === 0 || visited.has(start)) return;
+
+      const members: number[] = [];
+      let current: number | undefined = start;
+      while (current !== undefined && !visited.has(current)) {
+        visited.add(current);
+        members.push(current);
+        current = next.get(current);
+      }
+
+      let offset = throws[start].time;
+      let heightSum = 0;
+      members.forEach(index => {
+        throws[index].orbitOffset = offset;
+        offset += throws[index].height;
+        heightSum += throws[index].height;
+      });
+
+      const orbitProps = heightSum / parsed.length;
+      members.forEach(index => {
+        throws[index].propBase = propBase;
+        throws[index].orbitProps = orbitProps;
+      });
+      propBase += orbitProps;
+    });
+  }
+}
+
+function mod(value: number, divisor: number): number {
+  return ((Math.round(value) % divisor) + divisor) % divisor;
+}
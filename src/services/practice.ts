@@ -0,0 +1,274 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PatternStatus } from '../types';
+import { SyncService } from './sync';
+import { UserPatternService } from './userPatterns';
+
+export interface PracticeLog {
+  id: string;
+  userId: string;
+  patternId: string;
+  practicedAt: Date;
+  duration: number; // minutes
+  maxCatches?: number;
+  cleanRuns?: number;
+  partnerId?: string; // Passing partner, for patterns with more than one juggler
+  notes?: string;
+  createdAt: Date;
+}
+
+export interface PracticeReview {
+  patternId: string;
+  sessionCount: number;
+  totalMinutes: number;
+  bestCatches?: number;
+  lastPracticedAt?: Date;
+  intervalDays: number;
+  easeFactor: number;
+  dueDate: Date;
+}
+
+export interface PracticeSuggestion {
+  patternId: string;
+  status: PatternStatus;
+  review: PracticeReview;
+  overdueDays: number;
+  reason: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_LEARNING_INTERVAL = 3; // Days - patterns still being learned stay in frequent rotation
+
+export class PracticeService {
+  private static STORAGE_KEY = 'practice_logs';
+
+  /**
+   * Get all practice logs for a user, oldest first
+   */
+  static async getPracticeLogs(userId: string, patternId?: string): Promise<PracticeLog[]> {
+    try {
+      const key = `${this.STORAGE_KEY}_${userId}`;
+      const storedData = await AsyncStorage.getItem(key);
+      if (!storedData) return [];
+
+      const logs: PracticeLog[] = JSON.parse(storedData).map((item: any) => ({
+        ...item,
+        practicedAt: new Date(item.practicedAt),
+        createdAt: new Date(item.createdAt)
+      }));
+
+      return logs
+        .filter(log => !patternId || log.patternId === patternId)
+        .sort((a, b) => a.practicedAt.getTime() - b.practicedAt.getTime());
+    } catch (error) {
+      console.error('Error in getPracticeLogs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a practice session for a pattern
+   */
+  static async logPractice(
+    userId: string,
+    log: Omit<PracticeLog, 'id' | 'userId' | 'createdAt'>
+  ): Promise<PracticeLog | null> {
+    try {
+      if (log.duration <= 0) {
+        console.error('Practice duration must be positive');
+        return null;
+      }
+
+      const existingLogs = await this.getPracticeLogs(userId);
+      const newLog: PracticeLog = {
+        ...log,
+        id: `practice_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        userId,
+        createdAt: new Date()
+      };
+
+      const key = `${this.STORAGE_KEY}_${userId}`;
+      await AsyncStorage.setItem(key, JSON.stringify([...existingLogs, newLog]));
+
+      await SyncService.queueOperation({
+        service: 'practice',
+        action: 'add',
+        data: newLog,
+        timestamp: Date.now(),
+      });
+
+      return newLog;
+    } catch (error) {
+      console.error('Error in logPractice:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a practice log
+   */
+  static async deletePracticeLog(userId: string, logId: string): Promise<boolean> {
+    try {
+      const existingLogs = await this.getPracticeLogs(userId);
+      const key = `${this.STORAGE_KEY}_${userId}`;
+      await AsyncStorage.setItem(key, JSON.stringify(existingLogs.filter(log => log.id !== logId)));
+
+      await SyncService.queueOperation({
+        service: 'practice',
+        action: 'delete',
+        data: { id: logId },
+        timestamp: Date.now(),
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error in deletePracticeLog:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Spaced-repetition state for one pattern, replayed from its practice logs.
+   * Each practice day grows the review interval by the ease factor; beating your
+   * best catches makes the pattern easier, dropping well below it makes it harder.
+   */
+  static getReview(patternId: string, logs: PracticeLog[], isLearning: boolean = false): PracticeReview {
+    const patternLogs = logs
+      .filter(log => log.patternId === patternId)
+      .sort((a, b) => a.practicedAt.getTime() - b.practicedAt.getTime());
+
+    // Several sessions on the same day count as one review
+    const days = new Map<string, PracticeLog[]>();
+    patternLogs.forEach(log => {
+      const day = toDateKey(log.practicedAt);
+      days.set(day, [...(days.get(day) || []), log]);
+    });
+
+    let intervalDays = 0;
+    let easeFactor = DEFAULT_EASE;
+    let bestCatches: number | undefined;
+    let reviews = 0;
+
+    days.forEach(dayLogs => {
+      const catches = Math.max(...dayLogs.map(log => log.maxCatches ?? log.cleanRuns ?? 0));
+      const hasScore = dayLogs.some(log => log.maxCatches !== undefined || log.cleanRuns !== undefined);
+
+      if (hasScore && bestCatches !== undefined) {
+        if (catches > bestCatches) {
+          easeFactor += 0.1;
+        } else if (catches < bestCatches / 2) {
+          easeFactor = Math.max(MIN_EASE, easeFactor - 0.2);
+          reviews = 0; // Start the interval over
+        }
+      }
+      if (hasScore) {
+        bestCatches = Math.max(bestCatches ?? 0, catches);
+      }
+
+      reviews++;
+      intervalDays = reviews === 1 ? 1 : reviews === 2 ? 3 : Math.round(intervalDays * easeFactor);
+    });
+
+    if (isLearning) {
+      intervalDays = Math.min(intervalDays, MAX_LEARNING_INTERVAL);
+    }
+
+    const lastPracticedAt = patternLogs.length > 0 ? patternLogs[patternLogs.length - 1].practicedAt : undefined;
+    const dueDate = lastPracticedAt
+      ? addDays(startOfDay(lastPracticedAt), intervalDays)
+      : startOfDay(new Date());
+
+    return {
+      patternId,
+      sessionCount: patternLogs.length,
+      totalMinutes: patternLogs.reduce((total, log) => total + log.duration, 0),
+      bestCatches,
+      lastPracticedAt,
+      intervalDays,
+      easeFactor,
+      dueDate
+    };
+  }
+
+  /**
+   * Known and in-progress patterns that are due for practice on `date`, most overdue first.
+   * A want-to-learn pattern counts as in progress once it has been practiced.
+   */
+  static async getPracticeSuggestions(
+    userId: string,
+    date: Date = new Date(),
+    limit: number = 5
+  ): Promise<PracticeSuggestion[]> {
+    try {
+      const [userPatterns, logs] = await Promise.all([
+        UserPatternService.getUserPatterns(userId),
+        this.getPracticeLogs(userId)
+      ]);
+      const today = startOfDay(date);
+
+      const suggestions = userPatterns
+        .filter(userPattern => userPattern.status !== 'want_to_avoid')
+        .map(userPattern => {
+          const isLearning = userPattern.status === 'want_to_learn';
+          const review = this.getReview(userPattern.patternId, logs, isLearning);
+          const overdueDays = review.sessionCount > 0
+            ? Math.round((today.getTime() - review.dueDate.getTime()) / DAY_MS)
+            : 0;
+          return { patternId: userPattern.patternId, status: userPattern.status, review, overdueDays, isLearning };
+        })
+        .filter(entry => entry.overdueDays >= 0 && (!entry.isLearning || entry.review.sessionCount > 0))
+        .sort((a, b) => b.overdueDays - a.overdueDays || a.review.intervalDays - b.review.intervalDays)
+        .slice(0, limit);
+
+      return suggestions.map(({ patternId, status, review, overdueDays }) => ({
+        patternId,
+        status,
+        review,
+        overdueDays,
+        reason: this.getSuggestionReason(review, overdueDays, status)
+      }));
+    } catch (error) {
+      console.error('Error in getPracticeSuggestions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Clear all practice data for a user
+   */
+  static async clearPracticeLogs(userId: string): Promise<boolean> {
+    try {
+      await AsyncStorage.removeItem(`${this.STORAGE_KEY}_${userId}`);
+      return true;
+    } catch (error) {
+      console.error('Error in clearPracticeLogs:', error);
+      return false;
+    }
+  }
+
+  private static getSuggestionReason(review: PracticeReview, overdueDays: number, status: PatternStatus): string {
+    if (review.sessionCount === 0) {
+      return 'Not practiced yet - log a session to start tracking it';
+    }
+    if (status === 'want_to_learn') {
+      return 'Still learning - short gaps between sessions help it stick';
+    }
+    if (overdueDays > 0) {
+      return `Overdue by ${overdueDays} day${overdueDays === 1 ? '' : 's'}`;
+    }
+    return `Due today (every ${review.intervalDays} day${review.intervalDays === 1 ? '' : 's'})`;
+  }
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
@@ -0,0 +1,300 @@
+/**
+ * Prechac / passing siteswap converter
+ * Converts between the three ways a passing pattern is written:
+ *  - global: one vanilla siteswap that N jugglers take turns throwing ("86277")
+ *  - local: each juggler's own throws in their own beats ("4p3" / "3p4")
+ *  - prechac: each juggler's throws as global height / N ("3.5p 3")
+ */
+
+import { Pattern } from '../types';
+import { SiteswapService } from './siteswap';
+
+export interface PassingConversion {
+  isValid: boolean;
+  errors: string[];
+  jugglers: number;
+  global?: string;
+  local?: string[]; // One entry per juggler
+  prechac?: string[]; // One entry per juggler
+}
+
+export interface CompletedSiteswap {
+  siteswap: Pattern['siteswap'];
+  errors: string[];
+}
+
+const DEFAULT_JUGGLER_NAMES = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I'];
+
+export class PrechacService {
+  /**
+   * Split a global siteswap between jugglers and write each one's local and Prechac form
+   */
+  static globalToLocal(global: string, jugglers: number): PassingConversion {
+    if (jugglers < 2) {
+      return { isValid: false, errors: ['A passing pattern needs at least two jugglers'], jugglers };
+    }
+
+    const analysis = SiteswapService.analyze(global);
+    if (!analysis.isValid || !analysis.parsed) {
+      return { isValid: false, errors: analysis.errors, jugglers };
+    }
+    const { parsed } = analysis;
+    if (parsed.types.some(type => type !== 'vanilla')) {
+      return {
+        isValid: false,
+        errors: ['Global siteswap must be vanilla notation (no passes, multiplexes or synchronous throws)'],
+        jugglers,
+      };
+    }
+
+    const heights = parsed.throws.map(t => t.height);
+    return this.fromGlobalHeights(heights, jugglers);
+  }
+
+  /**
+   * Merge each juggler's local siteswap back into one global siteswap
+   */
+  static localToGlobal(local: string[]): PassingConversion {
+    const jugglers = local.length;
+    if (jugglers < 2) {
+      return { isValid: false, errors: ['A passing pattern needs at least two jugglers'], jugglers };
+    }
+
+    let parsed;
+    try {
+      parsed = SiteswapService.parse(`<${local.join('|')}>`);
+    } catch (error) {
+      return { isValid: false, errors: [(error as Error).message], jugglers };
+    }
+    if (parsed.isSync || parsed.types.includes('multiplex')) {
+      return {
+        isValid: false,
+        errors: ['Only asynchronous local siteswaps without multiplexes have a global form'],
+        jugglers,
+      };
+    }
+
+    // Juggler j's local beat m is global beat m * N + j
+    const heights: number[] = new Array(parsed.length * jugglers);
+    for (const t of parsed.throws) {
+      const height = jugglers * t.height + t.targetJuggler - t.juggler;
+      if (height < 0 || (t.isPass && height === 0)) {
+        return {
+          isValid: false,
+          errors: [`Juggler ${t.juggler + 1}'s pass on beat ${t.time + 1} is too low to reach juggler ${t.targetJuggler + 1}`],
+          jugglers,
+        };
+      }
+      heights[t.time * jugglers + t.juggler] = height;
+    }
+
+    return this.fromGlobalHeights(heights, jugglers);
+  }
+
+  /**
+   * Turn each juggler's Prechac notation into the global siteswap
+   */
+  static prechacToGlobal(prechac: string[]): PassingConversion {
+    const jugglers = prechac.length;
+    if (jugglers < 2) {
+      return { isValid: false, errors: ['A passing pattern needs at least two jugglers'], jugglers };
+    }
+
+    const errors: string[] = [];
+    const sequences = prechac.map((notation, juggler) => {
+      const { heights, errors: parseErrors } = this.parsePrechac(notation, jugglers);
+      errors.push(...parseErrors.map(error => `Juggler ${juggler + 1}: ${error}`));
+      return heights;
+    });
+    if (errors.length > 0) {
+      return { isValid: false, errors, jugglers };
+    }
+
+    const length = sequences.reduce((acc, seq) => lcm(acc, seq.length), 1);
+    const heights: number[] = [];
+    for (let beat = 0; beat < length; beat++) {
+      sequences.forEach(seq => heights.push(seq[beat % seq.length]));
+    }
+    return this.fromGlobalHeights(heights, jugglers);
+  }
+
+  /**
+   * Fill in whichever of global, local and Prechac siteswap are missing from
+   * the first form provided, and check the provided forms describe the same pattern
+   */
+  static complete(siteswap: Pattern['siteswap'], jugglerNames?: string[]): CompletedSiteswap {
+    const localEntries = Object.entries(siteswap.local || {});
+    const prechacEntries = Object.entries(siteswap.prechac || {});
+    const names = jugglerNames
+      || (localEntries.length > 0 ? localEntries.map(([name]) => name) : null)
+      || (prechacEntries.length > 0 ? prechacEntries.map(([name]) => name) : null)
+      || DEFAULT_JUGGLER_NAMES.slice(0, 2);
+
+    const conversions: Array<{ form: string; conversion: PassingConversion }> = [];
+    if (siteswap.global) {
+      // "<3p|3p>" style globals already list each juggler's local siteswap
+      const normalized = SiteswapService.normalize(siteswap.global);
+      conversions.push({
+        form: 'Global',
+        conversion: normalized.startsWith('<')
+          ? this.localToGlobal(normalized.replace(/^<|>$/g, '').split('|'))
+          : this.globalToLocal(siteswap.global, names.length),
+      });
+    }
+    if (localEntries.length > 1) {
+      conversions.push({ form: 'Local', conversion: this.localToGlobal(localEntries.map(([, value]) => value)) });
+    }
+    if (prechacEntries.length > 1) {
+      conversions.push({ form: 'Prechac', conversion: this.prechacToGlobal(prechacEntries.map(([, value]) => value)) });
+    }
+
+    if (conversions.length === 0) {
+      return { siteswap, errors: [] };
+    }
+
+    const errors: string[] = [];
+    conversions.forEach(({ form, conversion }) => {
+      errors.push(...conversion.errors.map(error => `${form} siteswap: ${error}`));
+    });
+    if (errors.length > 0) {
+      return { siteswap, errors };
+    }
+
+    const [source, ...others] = conversions;
+    others.forEach(({ form, conversion }) => {
+      if (!this.isSameGlobal(source.conversion.global!, conversion.global!)) {
+        errors.push(
+          `${form} siteswap describes global ${conversion.global} but the ${source.form.toLowerCase()} siteswap gives ${source.conversion.global}`
+        );
+      }
+    });
+
+    const toMap = (values: string[]) => names.reduce((map, name, index) => {
+      map[name] = values[index];
+      return map;
+    }, {} as { [juggler: string]: string });
+
+    return {
+      siteswap: {
+        global: siteswap.global || source.conversion.global,
+        local: localEntries.length > 0 ? siteswap.local : toMap(source.conversion.local!),
+        prechac: prechacEntries.length > 0 ? siteswap.prechac : toMap(source.conversion.prechac!),
+      },
+      errors,
+    };
+  }
+
+  /**
+   * Two global siteswaps describe the same pattern if one is a rotation of the other
+   */
+  static isSameGlobal(a: string, b: string): boolean {
+    const heightsA = SiteswapService.parse(a).throws.map(t => t.height);
+    const heightsB = SiteswapService.parse(b).throws.map(t => t.height);
+    const length = lcm(heightsA.length, heightsB.length);
+    const expand = (heights: number[]) =>
+      Array.from({ length }, (_, i) => heights[i % heights.length]);
+    const expandedA = expand(heightsA);
+    const expandedB = expand(heightsB);
+
+    for (let shift = 0; shift < length; shift++) {
+      if (expandedA.every((height, i) => height === expandedB[(i + shift) % length])) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private static fromGlobalHeights(heights: number[], jugglers: number): PassingConversion {
+    const global = heights.map(writeHeight).join('');
+    const analysis = SiteswapService.analyze(global);
+    if (!analysis.isValid) {
+      return { isValid: false, errors: analysis.errors, jugglers, global };
+    }
+
+    // Each juggler needs a whole number of repetitions of the global pattern
+    const length = lcm(heights.length, jugglers);
+    const local: string[] = [];
+    const prechac: string[] = [];
+
+    for (let juggler = 0; juggler < jugglers; juggler++) {
+      const localThrows: string[] = [];
+      const prechacThrows: string[] = [];
+      for (let beat = juggler; beat < length; beat += jugglers) {
+        const height = heights[beat % heights.length];
+        const target = (juggler + height) % jugglers;
+        const isPass = target !== juggler;
+        const localHeight = (height + juggler - target) / jugglers;
+
+        if (isPass && localHeight <= 0) {
+          return {
+            isValid: false,
+            errors: [`Global throw ${writeHeight(height)} on beat ${beat + 1} is too low to write as a local pass`],
+            jugglers,
+            global,
+          };
+        }
+
+        let localThrow = writeHeight(localHeight);
+        if (isPass) localThrow += jugglers > 2 ? `p${target + 1}` : 'p';
+        localThrows.push(localThrow);
+        prechacThrows.push(`${formatPrechacHeight(height / jugglers)}${isPass ? 'p' : ''}`);
+      }
+      local.push(localThrows.join(''));
+      prechac.push(prechacThrows.join(' '));
+    }
+
+    return { isValid: true, errors: [], jugglers, global, local, prechac };
+  }
+
+  /**
+   * Prechac throws are written with a single-digit whole part, optionally
+   * separated by spaces: "4.5p 2.5p" or "4.5p2.5p"
+   */
+  private static parsePrechac(notation: string, jugglers: number): { heights: number[]; errors: string[] } {
+    const heights: number[] = [];
+    const errors: string[] = [];
+    const compact = notation.replace(/\s+/g, '').toLowerCase();
+    const tokenPattern = /(\d(?:\.\d+)?)(p?)/y;
+
+    while (tokenPattern.lastIndex < compact.length) {
+      const start = tokenPattern.lastIndex;
+      const match = tokenPattern.exec(compact);
+      if (!match) {
+        errors.push(`Unexpected "${compact.charAt(start)}" at position ${start + 1}`);
+        break;
+      }
+
+      const [token, value, pass] = match;
+      const height = Math.round(parseFloat(value) * jugglers);
+      if (Math.abs(height / jugglers - parseFloat(value)) > 0.01) {
+        errors.push(`"${token}" is not a multiple of 1/${jugglers}`);
+      } else if ((height % jugglers !== 0) !== (pass === 'p')) {
+        errors.push(pass
+          ? `"${token}" is marked as a pass but lands back on the thrower`
+          : `"${token}" lands on another juggler and must be marked with "p"`);
+      }
+      heights.push(height);
+    }
+
+    if (heights.length === 0 && errors.length === 0) {
+      errors.push('Prechac siteswap is empty');
+    }
+    return { heights, errors };
+  }
+}
+
+function writeHeight(height: number): string {
+  return height < 10 ? String(height) : String.fromCharCode(87 + height);
+}
+
+function formatPrechacHeight(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(parseFloat(value.toFixed(2)));
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+function lcm(a: number, b: number): number {
+  return (a * b) / gcd(a, b);
+}
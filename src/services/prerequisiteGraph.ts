@@ -0,0 +1,270 @@
+/**
+ * Prerequisite graph service
+ * Analyzes the graph formed by Pattern.prerequisites: ordering, cycles,
+ * dangling IDs, tiers and transitive ancestors/descendants.
+ */
+
+import { Pattern } from '../types';
+import { CURRICULUM_PATTERNS, PatternLibraryService } from './patternLibrary';
+
+export interface PrerequisiteGraph {
+  patterns: Map<string, Pattern>;
+  prerequisites: Map<string, string[]>; // pattern -> patterns it requires
+  dependents: Map<string, string[]>; // pattern -> patterns that require it
+}
+
+export interface MissingPrerequisite {
+  patternId: string;
+  missingId: string;
+}
+
+export interface TopologicalResult {
+  order: string[]; // Prerequisites always come before the patterns that need them
+  blocked: string[]; // Patterns on or after a cycle that cannot be ordered
+}
+
+export interface LibraryHealthReport {
+  patternCount: number;
+  rootCount: number; // Patterns with no prerequisites
+  maxTier: number;
+  tiers: { [patternId: string]: number };
+  missing: MissingPrerequisite[];
+  cycles: string[][];
+  unreachable: string[];
+  isHealthy: boolean;
+  generatedAt: string;
+}
+
+export class PrerequisiteGraphService {
+  /**
+   * Build the graph for a set of patterns (defaults to the curriculum)
+   */
+  static build(patterns: Pattern[] = CURRICULUM_PATTERNS): PrerequisiteGraph {
+    const graph: PrerequisiteGraph = {
+      patterns: new Map(),
+      prerequisites: new Map(),
+      dependents: new Map(),
+    };
+
+    patterns.forEach(pattern => {
+      graph.patterns.set(pattern.id, pattern);
+      graph.prerequisites.set(pattern.id, Array.from(new Set(pattern.prerequisites || [])));
+      if (!graph.dependents.has(pattern.id)) graph.dependents.set(pattern.id, []);
+    });
+
+    graph.prerequisites.forEach((prerequisiteIds, patternId) => {
+      prerequisiteIds.forEach(prerequisiteId => {
+        graph.dependents.set(prerequisiteId, [...(graph.dependents.get(prerequisiteId) || []), patternId]);
+      });
+    });
+
+    return graph;
+  }
+
+  /**
+   * Prerequisite IDs that don't match any pattern in the graph
+   */
+  static findMissing(graph: PrerequisiteGraph): MissingPrerequisite[] {
+    const missing: MissingPrerequisite[] = [];
+    graph.prerequisites.forEach((prerequisiteIds, patternId) => {
+      prerequisiteIds
+        .filter(id => !graph.patterns.has(id))
+        .forEach(missingId => missing.push({ patternId, missingId }));
+    });
+    return missing;
+  }
+
+  /**
+   * Every cycle in the graph, one entry per strongly connected group of patterns
+   */
+  static findCycles(graph: PrerequisiteGraph): string[][] {
+    // Tarjan's strongly connected components
+    let counter = 0;
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+
+    const visit = (id: string) => {
+      index.set(id, counter);
+      lowLink.set(id, counter);
+      counter++;
+      stack.push(id);
+      onStack.add(id);
+
+      (graph.prerequisites.get(id) || []).filter(p => graph.patterns.has(p)).forEach(prerequisiteId => {
+        if (!index.has(prerequisiteId)) {
+          visit(prerequisiteId);
+          lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(prerequisiteId)!));
+        } else if (onStack.has(prerequisiteId)) {
+          lowLink.set(id, Math.min(lowLink.get(id)!, index.get(prerequisiteId)!));
+        }
+      });
+
+      if (lowLink.get(id) === index.get(id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== id);
+
+        const isSelfLoop = (graph.prerequisites.get(id) || []).includes(id);
+        if (component.length > 1 || isSelfLoop) {
+          cycles.push(component.reverse());
+        }
+      }
+    };
+
+    graph.patterns.forEach((_, id) => {
+      if (!index.has(id)) visit(id);
+    });
+    return cycles;
+  }
+
+  /**
+   * Order patterns so each comes after all of its prerequisites.
+   * Missing prerequisite IDs are ignored; patterns stuck behind a cycle are reported as blocked.
+   */
+  static topologicalOrder(graph: PrerequisiteGraph): TopologicalResult {
+    const remaining = new Map<string, number>();
+    graph.prerequisites.forEach((prerequisiteIds, id) => {
+      remaining.set(id, prerequisiteIds.filter(p => graph.patterns.has(p)).length);
+    });
+
+    // Kahn's algorithm, keeping library order among patterns that are ready together
+    const queue = Array.from(graph.patterns.keys()).filter(id => remaining.get(id) === 0);
+    const order: string[] = [];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      order.push(id);
+      (graph.dependents.get(id) || []).forEach(dependentId => {
+        if (!graph.patterns.has(dependentId)) return;
+        const count = remaining.get(dependentId)! - 1;
+        remaining.set(dependentId, count);
+        if (count === 0) queue.push(dependentId);
+      });
+    }
+
+    const ordered = new Set(order);
+    return {
+      order,
+      blocked: Array.from(graph.patterns.keys()).filter(id => !ordered.has(id)),
+    };
+  }
+
+  /**
+   * Tier of each orderable pattern: 0 for patterns with no prerequisites,
+   * otherwise one more than its highest-tier prerequisite
+   */
+  static computeTiers(graph: PrerequisiteGraph): Map<string, number> {
+    const tiers = new Map<string, number>();
+    this.topologicalOrder(graph).order.forEach(id => {
+      const prerequisiteTiers = (graph.prerequisites.get(id) || [])
+        .filter(p => tiers.has(p))
+        .map(p => tiers.get(p)!);
+      tiers.set(id, prerequisiteTiers.length > 0 ? Math.max(...prerequisiteTiers) + 1 : 0);
+    });
+    return tiers;
+  }
+
+  /**
+   * Every pattern that must be learned before this one, directly or indirectly
+   */
+  static getAncestors(graph: PrerequisiteGraph, patternId: string): string[] {
+    return this.walk(graph.prerequisites, patternId);
+  }
+
+  /**
+   * Every pattern that builds on this one, directly or indirectly
+   */
+  static getDescendants(graph: PrerequisiteGraph, patternId: string): string[] {
+    return this.walk(graph.dependents, patternId);
+  }
+
+  /**
+   * Patterns that can never have all their prerequisites met because
+   * they depend (directly or indirectly) on a missing ID or a cycle
+   */
+  static findUnreachable(graph: PrerequisiteGraph): string[] {
+    const broken = new Set<string>(this.topologicalOrder(graph).blocked);
+    this.findMissing(graph).forEach(({ patternId }) => {
+      broken.add(patternId);
+      this.getDescendants(graph, patternId).forEach(id => broken.add(id));
+    });
+    return Array.from(graph.patterns.keys()).filter(id => broken.has(id));
+  }
+
+  /**
+   * Check a new or edited pattern's prerequisites against the library it joins
+   */
+  static validatePrerequisites(pattern: Partial<Pattern>, library: Pattern[] = CURRICULUM_PATTERNS): string[] {
+    const errors: string[] = [];
+    const prerequisites = pattern.prerequisites || [];
+    const id = pattern.id || '__new_pattern__';
+
+    if (prerequisites.includes(id)) {
+      errors.push('A pattern cannot be its own prerequisite');
+    }
+
+    const candidate = { ...pattern, id, prerequisites } as Pattern;
+    const graph = this.build([...library.filter(p => p.id !== id), candidate]);
+
+    this.findMissing(graph)
+      .filter(entry => entry.patternId === id)
+      .forEach(entry => errors.push(`Prerequisite "${entry.missingId}" does not match any pattern`));
+
+    const cycle = this.findCycles(graph).find(members => members.includes(id) && members.length > 1);
+    if (cycle) {
+      const names = cycle.map(memberId => graph.patterns.get(memberId)?.name || memberId);
+      errors.push(`Prerequisites form a cycle: ${names.join(' → ')}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Health report for a set of patterns (defaults to the curriculum)
+   */
+  static getHealthReport(patterns: Pattern[] = CURRICULUM_PATTERNS): LibraryHealthReport {
+    const graph = this.build(patterns);
+    const tiers = this.computeTiers(graph);
+    const missing = this.findMissing(graph);
+    const cycles = this.findCycles(graph);
+    const unreachable = this.findUnreachable(graph);
+
+    return {
+      patternCount: graph.patterns.size,
+      rootCount: Array.from(graph.prerequisites.values()).filter(ids => ids.length === 0).length,
+      maxTier: tiers.size > 0 ? Math.max(...tiers.values()) : 0,
+      tiers: Object.fromEntries(tiers),
+      missing,
+      cycles,
+      unreachable,
+      isHealthy: missing.length === 0 && cycles.length === 0 && unreachable.length === 0,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Health report covering the curriculum and locally contributed patterns
+   */
+  static async getLibraryHealthReport(): Promise<LibraryHealthReport> {
+    const contributed = await PatternLibraryService.getUserContributedPatterns();
+    return this.getHealthReport([...CURRICULUM_PATTERNS, ...contributed]);
+  }
+
+  private static walk(edges: Map<string, string[]>, start: string): string[] {
+    const seen = new Set<string>();
+    const stack = [...(edges.get(start) || [])];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (seen.has(id) || id === start) continue;
+      seen.add(id);
+      stack.push(...(edges.get(id) || []));
+    }
+    return Array.from(seen);
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Prop model
+ * Prop types, per-prop counts ("5 clubs + 1 ball") and the rules for reading,
+ * formatting and filtering patterns by them. Patterns stored before counts
+ * existed only list their prop types; a single-type pattern's count is its
+ * numberOfProps, while mixed patterns without counts are matched by type only.
+ */
+
+import { Pattern, PropCounts, PropType } from '../types';
+
+export const PROP_TYPES: PropType[] = ['clubs', 'balls', 'rings', 'scarves', 'torches', 'hats'];
+
+const SINGULAR: { [prop in PropType]: string } = {
+  clubs: 'club',
+  balls: 'ball',
+  rings: 'ring',
+  scarves: 'scarf',
+  torches: 'torch',
+  hats: 'hat',
+};
+
+// Other names props go by in notation files and free text
+const ALIASES: { [name: string]: PropType } = {
+  beanbag: 'balls',
+  beanbags: 'balls',
+  bag: 'balls',
+  bags: 'balls',
+  scarfs: 'scarves',
+};
+
+type PropFields = Pick<Pattern, 'props' | 'numberOfProps' | 'propCounts'>;
+
+export interface PropCountsParseResult {
+  props: PropType[];
+  counts: PropCounts; // Only the props that were given a count
+  errors: string[];
+}
+
+export class PropService {
+  static isPropType(value: unknown): value is PropType {
+    return PROP_TYPES.includes(value as PropType);
+  }
+
+  /**
+   * The prop type a name refers to, accepting singular names ("club") and aliases
+   */
+  static toPropType(name: string): PropType | undefined {
+    const value = name.trim().toLowerCase();
+    if (this.isPropType(value)) return value;
+    return PROP_TYPES.find(prop => SINGULAR[prop] === value) || ALIASES[value];
+  }
+
+  /**
+   * How many of each prop a pattern uses, as far as is known
+   */
+  static getPropCounts(pattern: PropFields): PropCounts {
+    if (pattern.propCounts) return { ...pattern.propCounts };
+    if (pattern.props.length === 1 && pattern.numberOfProps > 0) {
+      return { [pattern.props[0]]: pattern.numberOfProps };
+    }
+    return {};
+  }
+
+  static formatCount(prop: PropType, count: number): string {
+    return `${count} ${count === 1 ? SINGULAR[prop] : prop}`;
+  }
+
+  /**
+   * "6 clubs", "5 clubs + 1 ball", or "6 props: clubs, balls" when the split isn't known
+   */
+  static formatProps(pattern: PropFields): string {
+    const counts = this.getPropCounts(pattern);
+    if (pattern.props.length > 0 && pattern.props.every(prop => counts[prop])) {
+      return pattern.props.map(prop => this.formatCount(prop, counts[prop]!)).join(' + ');
+    }
+    return `${pattern.numberOfProps} props: ${pattern.props.join(', ')}`;
+  }
+
+  /**
+   * Read a prop list such as "clubs", "5 clubs + 1 ball" or "6 club, 1 ring"
+   */
+  static parsePropCounts(text: string): PropCountsParseResult {
+    const result: PropCountsParseResult = { props: [], counts: {}, errors: [] };
+    text.split(/\s*(?:,|\+|&|\band\b)\s*/i).filter(Boolean).forEach(item => {
+      const match = item.trim().match(/^(?:(\d+)\s*x?\s+)?(.+)$/i);
+      const prop = match ? this.toPropType(match[2]) : undefined;
+      if (!match || !prop) {
+        result.errors.push(`"${item.trim()}" is not a prop (use ${PROP_TYPES.join(', ')})`);
+        return;
+      }
+      if (result.props.includes(prop)) {
+        result.errors.push(`${prop} is listed more than once`);
+        return;
+      }
+      result.props.push(prop);
+      if (match[1] !== undefined) {
+        const count = Number(match[1]);
+        if (count < 1) result.errors.push(`${prop} needs a count of at least 1`);
+        else result.counts[prop] = count;
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Pick out the "<count> <prop>" phrases in a search query, e.g. "7 clubs"
+   */
+  static findPropCounts(query: string): PropCounts {
+    const counts: PropCounts = {};
+    const phrase = /(\d+)\s+([a-z]+)/gi;
+    let match: RegExpExecArray | null;
+    while ((match = phrase.exec(query)) !== null) {
+      const prop = this.toPropType(match[2]);
+      if (prop) counts[prop] = Number(match[1]);
+    }
+    return counts;
+  }
+
+  /**
+   * Whether a pattern can be juggled with the props available. A prop listed
+   * without a count (or with an undefined one) is available in any number.
+   */
+  static fitsProps(pattern: PropFields, available: PropType[] | PropCounts): boolean {
+    const limits: PropCounts = Array.isArray(available)
+      ? available.reduce((all, prop) => ({ ...all, [prop]: undefined }), {} as PropCounts)
+      : available;
+    const needed = this.getPropCounts(pattern);
+    return pattern.props.every(prop => prop in limits &&
+      (limits[prop] === undefined || needed[prop] === undefined || needed[prop]! <= limits[prop]!));
+  }
+
+  /**
+   * Whether a pattern uses exactly these counts of the props named
+   */
+  static usesCounts(pattern: PropFields, counts: PropCounts): boolean {
+    const known = this.getPropCounts(pattern);
+    return (Object.keys(counts) as PropType[]).every(prop => known[prop] === counts[prop]);
+  }
+
+  /**
+   * Bring a pattern saved under the old prop model up to date: singular or
+   * aliased prop names are renamed and a single prop type gets its count.
+   * Returns the pattern unchanged when there was nothing to do.
+   */
+  static migratePattern(pattern: Pattern): Pattern {
+    const props = (pattern.props as string[]).map(prop => this.toPropType(prop) || prop) as PropType[];
+    const renamed = props.some((prop, i) => prop !== pattern.props[i]);
+    const needsCounts = !pattern.propCounts && props.length === 1 && pattern.numberOfProps > 0;
+    if (!renamed && !needsCounts) return pattern;
+
+    const migrated: Pattern = { ...pattern, props };
+    return needsCounts ? { ...migrated, propCounts: this.getPropCounts(migrated) } : migrated;
+  }
+}
@@ -31,7 +31,7 @@ export interface PushToken {
 }
 
 export interface PushNotificationData {
-  type: 'new_match' | 'session_reminder' | 'session_invite' | 'workshop_announcement' | 'connection_request' | 'pattern_learned';
+  type: 'new_match' | 'session_reminder' | 'session_invite' | 'workshop_announcement' | 'connection_request' | 'pattern_learned' | 'chat_message';
   userId: string;
   title: string;
   body: string;
@@ -68,6 +68,7 @@ export class PushNotificationService {
   private static DELIVERY_STATUS_KEY = 'delivery_status';
   private static notificationListeners: any[] = [];
   private static isInitialized = false;
+  private static userId: string | null = null;
   private static deliveryQueue: QueuedNotification[] = [];
   private static retryInterval: any = null;
   private static webhookUrl: string | null = null;
@@ -76,6 +77,7 @@ export class PushNotificationService {
    * Initialize push notification service with enhanced real-time delivery
    */
   static async initialize(userId: string): Promise<string | null> {
+    this.userId = userId;
     if (this.isInitialized) {
       console.log('📱 PushNotificationService: Already initialized');
       return await this.getCurrentToken();
@@ -270,11 +272,22 @@ export class PushNotificationService {
     
     // You can show custom in-app notification here
     console.log('📱 Processing foreground notification:', { title, body, data });
+    this.markChatMessagesDelivered(data);
     
     // Optionally show custom toast or modal
     // This could integrate with your existing notification UI
   }
 
+  /**
+   * A chat message notification means the message has reached this device
+   */
+  private static async markChatMessagesDelivered(data: Record<string, any> | undefined): Promise<void> {
+    if (data?.type !== 'chat_message' || typeof data.conversationId !== 'string' || !this.userId) return;
+    // Imported here since the chat service reaches back to this one through real-time sync
+    const { ChatService } = await import('./chatService');
+    await ChatService.markMessagesDelivered(data.conversationId, this.userId);
+  }
+
   /**
    * Handle notification tap/response
    */
@@ -282,6 +295,7 @@ export class PushNotificationService {
     const { data } = response.notification.request.content;
     
     console.log('📱 Handling notification tap:', data);
+    this.markChatMessagesDelivered(data);
     
     // Navigate to relevant screen based on notification type
     if (data?.type && typeof data.type === 'string') {
@@ -309,6 +323,9 @@ export class PushNotificationService {
       case 'pattern_learned':
         // Navigate to activity feed
         break;
+      case 'chat_message':
+        // Navigate to the conversation in data.conversationId
+        break;
       default:
         // Navigate to notifications screen
         break;
@@ -596,6 +613,7 @@ export class PushNotificationService {
     }
 
     this.isInitialized = false;
+    this.userId = null;
     console.log('📱 PushNotificationService: Enhanced cleanup completed');
   }
 
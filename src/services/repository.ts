@@ -0,0 +1,483 @@
+/**
+ * Data repositories
+ * Services read and write snake_case table rows through a DataRepository
+ * instead of talking to Supabase directly. SupabaseRepository forwards to the
+ * real back end; MemoryRepository keeps the same tables in memory (optionally
+ * persisted) and emulates realtime change events, so the app runs the same
+ * code offline and scripts can run against a deterministic copy of the data.
+ *
+ * This module has no runtime dependencies so node scripts can load it too.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type Row = { [column: string]: any };
+
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'is' | 'ilike' | 'contains';
+
+export interface Filter {
+  column: string;
+  operator: FilterOperator;
+  value: any;
+}
+
+export interface Query {
+  filters?: Filter[]; // Every filter must match
+  anyOf?: Filter[][]; // At least one group must match in full
+  orderBy?: { column: string; ascending?: boolean };
+  limit?: number;
+  offset?: number;
+}
+
+export type ChangeEventType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface ChangeEvent {
+  table: string;
+  eventType: ChangeEventType;
+  new: Row; // Empty for deletes
+  old: Row; // Empty for inserts
+}
+
+export interface ChangeSubscription {
+  table: string;
+  event?: ChangeEventType | '*';
+  filter?: Filter; // Realtime only supports one filter per subscription
+}
+
+export type Unsubscribe = () => void;
+
+export interface DataRepository {
+  readonly kind: 'supabase' | 'memory';
+  select(table: string, query?: Query): Promise<Row[]>;
+  count(table: string, query?: Query): Promise<number>;
+  insert(table: string, rows: Row | Row[]): Promise<Row[]>;
+  update(table: string, changes: Row, query: Query): Promise<Row[]>;
+  upsert(table: string, rows: Row | Row[], onConflict?: string[]): Promise<Row[]>;
+  delete(table: string, query: Query): Promise<Row[]>;
+  rpc(fn: string, args?: Row): Promise<any>;
+  subscribe(channel: string, subscription: ChangeSubscription, onChange: (event: ChangeEvent) => void): Unsubscribe;
+}
+
+/**
+ * Thrown by repositories; `code` carries the back end's error code when there is one
+ */
+export class RepositoryError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+    this.name = 'RepositoryError';
+  }
+}
+
+export const eq = (column: string, value: any): Filter => ({ column, operator: 'eq', value });
+export const neq = (column: string, value: any): Filter => ({ column, operator: 'neq', value });
+export const isIn = (column: string, values: any[]): Filter => ({ column, operator: 'in', value: values });
+export const isNull = (column: string): Filter => ({ column, operator: 'is', value: null });
+export const gt = (column: string, value: any): Filter => ({ column, operator: 'gt', value });
+export const gte = (column: string, value: any): Filter => ({ column, operator: 'gte', value });
+export const lt = (column: string, value: any): Filter => ({ column, operator: 'lt', value });
+
+/**
+ * Repository backed by a Supabase client
+ */
+export class SupabaseRepository implements DataRepository {
+  readonly kind = 'supabase';
+
+  constructor(private client: SupabaseClient) {}
+
+  async select(table: string, query: Query = {}): Promise<Row[]> {
+    const { data, error } = await this.applyQuery(this.client.from(table).select('*'), query);
+    if (error) throw new RepositoryError(error.message, error.code);
+    return data || [];
+  }
+
+  async count(table: string, query: Query = {}): Promise<number> {
+    const { count, error } = await this.applyQuery(this.client.from(table).select('*', { count: 'exact', head: true }), query);
+    if (error) throw new RepositoryError(error.message, error.code);
+    return count || 0;
+  }
+
+  async insert(table: string, rows: Row | Row[]): Promise<Row[]> {
+    const { data, error } = await this.client.from(table).insert(rows).select();
+    if (error) throw new RepositoryError(error.message, error.code);
+    return data || [];
+  }
+
+  async update(table: string, changes: Row, query: Query): Promise<Row[]> {
+    const { data, error } = await this.applyQuery(this.client.from(table).update(changes), query).select();
+    if (error) throw new RepositoryError(error.message, error.code);
+    return data || [];
+  }
+
+  async upsert(table: string, rows: Row | Row[], onConflict: string[] = ['id']): Promise<Row[]> {
+    const { data, error } = await this.client.from(table).upsert(rows, { onConflict: onConflict.join(',') }).select();
+    if (error) throw new RepositoryError(error.message, error.code);
+    return data || [];
+  }
+
+  async delete(table: string, query: Query): Promise<Row[]> {
+    const { data, error } = await this.applyQuery(this.client.from(table).delete(), query).select();
+    if (error) throw new RepositoryError(error.message, error.code);
+    return data || [];
+  }
+
+  async rpc(fn: string, args: Row = {}): Promise<any> {
+    const { data, error } = await this.client.rpc(fn, args);
+    if (error) throw new RepositoryError(error.message, error.code);
+    return data;
+  }
+
+  subscribe(channel: string, subscription: ChangeSubscription, onChange: (event: ChangeEvent) => void): Unsubscribe {
+    const realtime = this.client
+      .channel(channel)
+      .on(
+        'postgres_changes' as any,
+        {
+          event: subscription.event || '*',
+          schema: 'public',
+          table: subscription.table,
+          filter: subscription.filter ? formatFilter(subscription.filter, '=') : undefined,
+        },
+        (payload: any) => onChange({
+          table: subscription.table,
+          eventType: payload.eventType,
+          new: payload.new || {},
+          old: payload.old || {},
+        })
+      )
+      .subscribe();
+    return () => {
+      this.client.removeChannel(realtime);
+    };
+  }
+
+  private applyQuery(builder: any, query: Query): any {
+    let result = builder;
+    (query.filters || []).forEach(filter => {
+      result = filter.operator === 'in'
+        ? result.in(filter.column, filter.value)
+        : result[filter.operator](filter.column, filter.value);
+    });
+    if (query.anyOf && query.anyOf.length > 0) {
+      result = result.or(query.anyOf
+        .map(group => group.length === 1 ? formatFilter(group[0]) : `and(${group.map(filter => formatFilter(filter)).join(',')})`)
+        .join(','));
+    }
+    if (query.orderBy) {
+      result = result.order(query.orderBy.column, { ascending: query.orderBy.ascending ?? true });
+    }
+    if (query.limit !== undefined) {
+      const offset = query.offset || 0;
+      result = result.range(offset, offset + query.limit - 1);
+    }
+    return result;
+  }
+}
+
+/**
+ * Filter in PostgREST syntax: `column.op.value` inside or(), `column=op.value` for realtime
+ */
+function formatFilter(filter: Filter, separator = '.'): string {
+  const quote = (value: any) => {
+    const text = String(value);
+    return /[,()"]/.test(text) ? `"${text.replace(/"/g, '\\"')}"` : text;
+  };
+  if (filter.operator === 'contains') {
+    return `${filter.column}${separator}cs.{${(filter.value as any[]).map(quote).join(',')}}`;
+  }
+  const value = filter.operator === 'in'
+    ? `(${(filter.value as any[]).map(quote).join(',')})`
+    : filter.value === null ? 'null' : quote(filter.value);
+  return `${filter.column}${separator}${filter.operator}.${value}`;
+}
+
+export interface RepositoryStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+export interface MemoryRepositoryOptions {
+  storage?: RepositoryStorage; // Persist tables here, e.g. AsyncStorage
+  storageKey?: string;
+  generateId?: () => string; // Pass a counter for repeatable IDs in scripts
+  now?: () => Date;
+}
+
+type Subscriber = {
+  subscription: ChangeSubscription;
+  onChange: (event: ChangeEvent) => void;
+};
+
+/**
+ * Repository that keeps every table in memory. Rows get an `id`, `created_at`
+ * and `updated_at` when they don't have one, like the database defaults, and
+ * subscribers receive change events just after each write.
+ */
+export class MemoryRepository implements DataRepository {
+  readonly kind = 'memory';
+
+  private tables: { [table: string]: Row[] } = {};
+  private subscribers: Subscriber[] = [];
+  private loaded: Promise<void> | null = null;
+  private persisting: Promise<void> = Promise.resolve();
+  private options: MemoryRepositoryOptions;
+
+  constructor(options: MemoryRepositoryOptions = {}) {
+    this.options = options;
+  }
+
+  async select(table: string, query: Query = {}): Promise<Row[]> {
+    const rows = await this.readTable(table);
+    let result = rows.filter(row => matchesQuery(row, query));
+    if (query.orderBy) {
+      const { column, ascending = true } = query.orderBy;
+      result = [...result].sort((a, b) => compareValues(a[column], b[column]) * (ascending ? 1 : -1));
+    }
+    if (query.limit !== undefined || query.offset !== undefined) {
+      const offset = query.offset || 0;
+      result = result.slice(offset, query.limit !== undefined ? offset + query.limit : undefined);
+    }
+    return result.map(copyRow);
+  }
+
+  async count(table: string, query: Query = {}): Promise<number> {
+    const rows = await this.readTable(table);
+    return rows.filter(row => matchesQuery(row, query)).length;
+  }
+
+  async insert(table: string, rows: Row | Row[]): Promise<Row[]> {
+    const existing = await this.getTable(table);
+    const now = this.now().toISOString();
+    const inserted = toArray(rows).map(row => ({
+      created_at: now,
+      updated_at: now,
+      ...copyRow(row),
+      id: row.id ?? this.generateId(),
+    }));
+    inserted.forEach(row => {
+      if (existing.some(other => other.id === row.id)) {
+        throw new RepositoryError(`duplicate key value violates unique constraint "${table}_pkey"`, '23505');
+      }
+    });
+    existing.push(...inserted);
+    await this.commit(table, inserted.map(row => ({ eventType: 'INSERT' as const, new: row, old: {} })));
+    return inserted.map(copyRow);
+  }
+
+  async update(table: string, changes: Row, query: Query): Promise<Row[]> {
+    const rows = await this.readTable(table);
+    const now = this.now().toISOString();
+    const events: ChangeEvent[] = [];
+    rows.forEach((row, index) => {
+      if (!matchesQuery(row, query)) return;
+      // Like the updated_at triggers; an explicit updated_at (e.g. from sync) wins
+      rows[index] = { ...row, updated_at: now, ...copyRow(changes) };
+      events.push({ table, eventType: 'UPDATE', new: rows[index], old: row });
+    });
+    await this.commit(table, events);
+    return events.map(event => copyRow(event.new));
+  }
+
+  async upsert(table: string, rows: Row | Row[], onConflict: string[] = ['id']): Promise<Row[]> {
+    const existing = await this.getTable(table);
+    const now = this.now().toISOString();
+    const events: ChangeEvent[] = [];
+    toArray(rows).forEach(row => {
+      const index = existing.findIndex(other => onConflict.every(column => sameValue(other[column], row[column])));
+      if (index >= 0) {
+        const updated = { ...existing[index], updated_at: now, ...copyRow(row) };
+        events.push({ table, eventType: 'UPDATE', new: updated, old: existing[index] });
+        existing[index] = updated;
+      } else {
+        const inserted = { created_at: now, updated_at: now, ...copyRow(row), id: row.id ?? this.generateId() };
+        events.push({ table, eventType: 'INSERT', new: inserted, old: {} });
+        existing.push(inserted);
+      }
+    });
+    await this.commit(table, events);
+    return events.map(event => copyRow(event.new));
+  }
+
+  async delete(table: string, query: Query): Promise<Row[]> {
+    const rows = await this.readTable(table);
+    const removed = rows.filter(row => matchesQuery(row, query));
+    if (removed.length === 0) return [];
+    this.tables[table] = rows.filter(row => !matchesQuery(row, query));
+    await this.commit(table, removed.map(row => ({ eventType: 'DELETE' as const, new: {}, old: row })));
+    return removed.map(copyRow);
+  }
+
+  // Database functions only exist on Supabase; callers do the same work with table operations here
+  async rpc(fn: string): Promise<any> {
+    throw new RepositoryError(`Function ${fn} is not available in the memory repository`);
+  }
+
+  subscribe(_channel: string, subscription: ChangeSubscription, onChange: (event: ChangeEvent) => void): Unsubscribe {
+    const subscriber: Subscriber = { subscription, onChange };
+    this.subscribers.push(subscriber);
+    return () => {
+      this.subscribers = this.subscribers.filter(other => other !== subscriber);
+    };
+  }
+
+  /**
+   * Whether the table has ever been written, even if it's empty now.
+   * Lets callers seed a table once without re-seeding it after it's cleared.
+   */
+  async hasTable(table: string): Promise<boolean> {
+    await this.load();
+    return table in this.tables;
+  }
+
+  /**
+   * Replace every table, e.g. with a fixture at the start of a script
+   */
+  async reset(tables: { [table: string]: Row[] } = {}): Promise<void> {
+    await this.load();
+    this.tables = JSON.parse(JSON.stringify(tables));
+    await this.persist();
+  }
+
+  async snapshot(): Promise<{ [table: string]: Row[] }> {
+    await this.load();
+    return JSON.parse(JSON.stringify(this.tables));
+  }
+
+  private async readTable(table: string): Promise<Row[]> {
+    await this.load();
+    return this.tables[table] || [];
+  }
+
+  // Writes create the table, so hasTable() only reports tables something was written to
+  private async getTable(table: string): Promise<Row[]> {
+    await this.load();
+    if (!this.tables[table]) this.tables[table] = [];
+    return this.tables[table];
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const { storage, storageKey } = this.options;
+        if (!storage || !storageKey) return;
+        try {
+          const stored = await storage.getItem(storageKey);
+          if (stored) this.tables = JSON.parse(stored);
+        } catch (error) {
+          console.error('MemoryRepository: Error loading stored tables:', error);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async commit(table: string, events: Omit<ChangeEvent, 'table'>[]): Promise<void> {
+    await this.persist();
+    if (events.length === 0) return;
+
+    // Deliver after the write returns, like realtime does
+    const delivered = events.map(event => ({ ...event, table, new: copyRow(event.new), old: copyRow(event.old) }));
+    const subscribers = [...this.subscribers];
+    Promise.resolve().then(() => delivered.forEach(event => {
+      subscribers
+        .filter(({ subscription }) => subscription.table === table &&
+          (!subscription.event || subscription.event === '*' || subscription.event === event.eventType) &&
+          (!subscription.filter || matchesFilter(event.eventType === 'DELETE' ? event.old : event.new, subscription.filter)))
+        .forEach(({ onChange }) => {
+          try {
+            onChange(event);
+          } catch (error) {
+            console.error('MemoryRepository: Error in change subscriber:', error);
+          }
+        });
+    }));
+  }
+
+  // Writes are chained so an older snapshot never overwrites a newer one
+  private persist(): Promise<void> {
+    const { storage, storageKey } = this.options;
+    if (!storage || !storageKey) return Promise.resolve();
+    this.persisting = this.persisting
+      .then(() => storage.setItem(storageKey, JSON.stringify(this.tables)))
+      .catch(error => console.error('MemoryRepository: Error saving tables:', error));
+    return this.persisting;
+  }
+
+  private generateId(): string {
+    if (this.options.generateId) return this.options.generateId();
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+      const r = Math.random() * 16 | 0;
+      const v = c === 'x' ? r : (r & 0x3 | 0x8);
+      return v.toString(16);
+    });
+  }
+
+  private now(): Date {
+    return this.options.now ? this.options.now() : new Date();
+  }
+}
+
+function matchesQuery(row: Row, query: Query): boolean {
+  if (!(query.filters || []).every(filter => matchesFilter(row, filter))) return false;
+  if (query.anyOf && query.anyOf.length > 0) {
+    return query.anyOf.some(group => group.every(filter => matchesFilter(row, filter)));
+  }
+  return true;
+}
+
+export function matchesFilter(row: Row, filter: Filter): boolean {
+  const value = row[filter.column];
+  switch (filter.operator) {
+    case 'eq':
+      return sameValue(value, filter.value);
+    case 'neq':
+      return value != null && !sameValue(value, filter.value);
+    case 'gt':
+      return value != null && compareValues(value, filter.value) > 0;
+    case 'gte':
+      return value != null && compareValues(value, filter.value) >= 0;
+    case 'lt':
+      return value != null && compareValues(value, filter.value) < 0;
+    case 'lte':
+      return value != null && compareValues(value, filter.value) <= 0;
+    case 'in':
+      return (filter.value as any[]).some(option => sameValue(value, option));
+    case 'is':
+      return filter.value === null ? value == null : value === filter.value;
+    case 'ilike': {
+      if (value == null) return false;
+      const pattern = String(filter.value)
+        .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/%/g, '.*')
+        .replace(/_/g, '.');
+      return new RegExp(`^${pattern}$`, 'i').test(String(value));
+    }
+    case 'contains': // Array columns holding every given value
+      return Array.isArray(value) && (filter.value as any[]).every(item => value.some(element => sameValue(element, item)));
+    default:
+      return false;
+  }
+}
+
+// Filters parsed from PostgREST strings carry text, so `'3'` matches `3` and `'true'` matches `true`
+function sameValue(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return false;
+  return String(a) === String(b);
+}
+
+// Nulls sort last, as they do in Postgres
+function compareValues(a: any, b: any): number {
+  if (a == null && b == null) return 0;
+  if (a == null) return 1;
+  if (b == null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function copyRow(row: Row): Row {
+  return JSON.parse(JSON.stringify(row));
+}
+
+function toArray(rows: Row | Row[]): Row[] {
+  return Array.isArray(rows) ? rows : [rows];
+}
@@ -0,0 +1,77 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase, isSupabaseConfigured } from './supabase';
+import { DataRepository, MemoryRepository, Row, SupabaseRepository } from './repository';
+
+const LOCAL_REPOSITORY_KEY = 'local_repository';
+
+/**
+ * Hands services the repository to use: Supabase when it's configured,
+ * otherwise the on-device MemoryRepository persisted to AsyncStorage
+ */
+export class RepositoryProvider {
+  private static current: DataRepository | null = null;
+  private static local: MemoryRepository | null = null;
+  private static remote: SupabaseRepository | null = null;
+  private static seeding: { [table: string]: Promise<void> } = {};
+
+  static get(): DataRepository {
+    if (!this.current) {
+      this.current = this.getRemote() || this.getLocal();
+    }
+    return this.current;
+  }
+
+  /**
+   * Use a specific repository, e.g. a MemoryRepository loaded with a fixture.
+   * Pass null to go back to the default.
+   */
+  static set(repository: DataRepository | null): void {
+    this.current = repository;
+  }
+
+  /**
+   * The on-device repository, used when offline and when the server rejects a write
+   */
+  static getLocal(): MemoryRepository {
+    if (!this.local) {
+      this.local = new MemoryRepository({ storage: AsyncStorage, storageKey: LOCAL_REPOSITORY_KEY });
+    }
+    return this.local;
+  }
+
+  static isRemote(): boolean {
+    return this.get().kind === 'supabase';
+  }
+
+  /**
+   * Whether the repository is the app's own on-device store. Services fill it
+   * with demo data; repositories passed to set() are left as they are.
+   */
+  static isLocalStore(repository: DataRepository = this.get()): repository is MemoryRepository {
+    return repository === this.local;
+  }
+
+  /**
+   * Fill a table of the on-device store the first time it's used, e.g. with
+   * data saved by older versions of the app or demo rows
+   */
+  static seedLocalTable(repository: DataRepository, table: string, getRows: () => Promise<Row[]>): Promise<void> {
+    if (!this.isLocalStore(repository)) return Promise.resolve();
+    const local = repository;
+    if (!this.seeding[table]) {
+      this.seeding[table] = (async () => {
+        if (await local.hasTable(table)) return;
+        await local.insert(table, await getRows());
+      })().catch(error => {
+        console.error(`RepositoryProvider: Error seeding ${table}:`, error);
+      });
+    }
+    return this.seeding[table];
+  }
+
+  private static getRemote(): SupabaseRepository | null {
+    if (!isSupabaseConfigured() || !supabase) return null;
+    if (!this.remote) this.remote = new SupabaseRepository(supabase);
+    return this.remote;
+  }
+}
@@ -1,5 +1,15 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SyncService } from './sync';
+import { ICalendarService } from './icalendar';
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export interface SessionRecurrence {
+  frequency: RecurrenceFrequency;
+  until?: Date; // Last day a session can fall on
+  count?: number; // Total number of sessions, including skipped ones
+  exceptions?: string[]; // YYYY-MM-DD dates with no session
+}
 
 export interface ScheduledSession {
   id: string;
@@ -12,10 +22,16 @@ export interface ScheduledSession {
   plannedPatterns: string[];
   status: 'scheduled' | 'active' | 'completed' | 'cancelled';
   notes?: string;
+  recurrence?: SessionRecurrence;
+  seriesId?: string; // Set on the individual sessions of a recurring series
+  icalUid?: string; // UID of the calendar event this session was imported from
   createdAt: Date;
   updatedAt: Date;
 }
 
+const RECURRENCE_HORIZON_DAYS = 90; // How far ahead and back recurring sessions are listed
+const OCCURRENCE_SEPARATOR = '@'; // Occurrence IDs look like `${seriesId}@2025-06-14`
+
 export class ScheduleService {
   private static STORAGE_KEY = 'scheduled_sessions';
 
@@ -29,12 +45,7 @@ export class ScheduleService {
       
       if (storedData) {
         const userSessions = JSON.parse(storedData);
-        return userSessions.map((item: any) => ({
-          ...item,
-          scheduledTime: new Date(item.scheduledTime),
-          createdAt: new Date(item.createdAt),
-          updatedAt: new Date(item.updatedAt)
-        }));
+        return userSessions.map((item: any) => this.reviveSession(item));
       }
 
       return [];
@@ -46,62 +57,75 @@ export class ScheduleService {
 
   /**
    * Get all sessions for a user
+   * Recurring sessions are listed individually for the last and next 90 days, as in the upcoming and past lists.
    */
   static async getAllSessions(userId: string): Promise<ScheduledSession[]> {
+    const storedSessions = await this.getStoredSessions(userId);
+    const now = new Date();
+    const from = new Date(now.getFullYear(), now.getMonth(), now.getDate() - RECURRENCE_HORIZON_DAYS);
+    const to = new Date(now.getFullYear(), now.getMonth(), now.getDate() + RECURRENCE_HORIZON_DAYS);
+
+    return this.expandSessions(storedSessions, from, to)
+      .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
+  }
+
+  /**
+   * Demo and user sessions as stored, with each recurring series as a single session
+   */
+  private static async getStoredSessions(userId: string): Promise<ScheduledSession[]> {
     try {
       const key = `${this.STORAGE_KEY}_${userId}`;
-      console.log('getAllSessions - loading from key:', key);
+      console.log('getStoredSessions - loading from key:', key);
       const storedData = await AsyncStorage.getItem(key);
-      console.log('getAllSessions - raw stored data:', storedData);
+      console.log('getStoredSessions - raw stored data:', storedData);
       
       // Get demo sessions first
       const demoSessions = this.getDemoSessions(userId);
       
       if (storedData) {
         const userSessions = JSON.parse(storedData);
-        console.log('getAllSessions - parsed user sessions:', userSessions.length, 'sessions found');
-        const mappedUserSessions = userSessions.map((item: any) => ({
-          ...item,
-          scheduledTime: new Date(item.scheduledTime),
-          createdAt: new Date(item.createdAt),
-          updatedAt: new Date(item.updatedAt)
-        }));
+        console.log('getStoredSessions - parsed user sessions:', userSessions.length, 'sessions found');
+        const mappedUserSessions = userSessions.map((item: any) => this.reviveSession(item));
         
         // Combine demo sessions with user sessions
         const allSessions = [...demoSessions, ...mappedUserSessions];
-        console.log('getAllSessions - returning', allSessions.length, 'total sessions (demo + user)');
+        console.log('getStoredSessions - returning', allSessions.length, 'total sessions (demo + user)');
         return allSessions;
       }
 
       // Return demo sessions if no user data
-      console.log('getAllSessions - no stored data, returning demo sessions');
+      console.log('getStoredSessions - no stored data, returning demo sessions');
       return demoSessions;
     } catch (error) {
-      console.error('Error in getAllSessions:', error);
+      console.error('Error in getStoredSessions:', error);
       return this.getDemoSessions(userId);
     }
   }
 
   /**
    * Get upcoming sessions (future sessions only)
+   * Recurring sessions are listed individually for the next 90 days.
    */
   static async getUpcomingSessions(userId: string): Promise<ScheduledSession[]> {
-    const allSessions = await this.getAllSessions(userId);
+    const allSessions = await this.getStoredSessions(userId);
     const now = new Date();
+    const horizon = new Date(now.getFullYear(), now.getMonth(), now.getDate() + RECURRENCE_HORIZON_DAYS);
     
-    return allSessions
+    return this.expandSessions(allSessions, now, horizon)
       .filter(session => session.scheduledTime > now && session.status !== 'cancelled')
       .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
   }
 
   /**
    * Get past sessions
+   * Recurring sessions are listed individually for the last 90 days.
    */
   static async getPastSessions(userId: string): Promise<ScheduledSession[]> {
-    const allSessions = await this.getAllSessions(userId);
+    const allSessions = await this.getStoredSessions(userId);
     const now = new Date();
+    const horizon = new Date(now.getFullYear(), now.getMonth(), now.getDate() - RECURRENCE_HORIZON_DAYS);
     
-    return allSessions
+    return this.expandSessions(allSessions, horizon, now)
       .filter(session => session.scheduledTime <= now || session.status === 'completed')
       .sort((a, b) => b.scheduledTime.getTime() - a.scheduledTime.getTime());
   }
@@ -189,15 +213,140 @@ export class ScheduleService {
 
   /**
    * Cancel a session
+   * Cancelling one session of a recurring series skips just that date.
    */
   static async cancelSession(userId: string, sessionId: string): Promise<boolean> {
+    const occurrence = parseOccurrenceId(sessionId);
+    if (occurrence) {
+      return this.skipOccurrence(userId, occurrence.seriesId, occurrence.date);
+    }
     return this.updateSession(userId, sessionId, { status: 'cancelled' });
   }
 
+  /**
+   * Skip one date of a recurring series
+   */
+  static async skipOccurrence(userId: string, seriesId: string, date: Date | string): Promise<boolean> {
+    const userSessions = await this.getUserSessions(userId);
+    const series = userSessions.find(session => session.id === seriesId);
+    if (!series?.recurrence) {
+      console.error('skipOccurrence: session is not recurring:', seriesId);
+      return false;
+    }
+
+    const dateKey = typeof date === 'string' ? date : toDateKey(date);
+    const exceptions = Array.from(new Set([...(series.recurrence.exceptions || []), dateKey])).sort();
+    return this.updateSession(userId, seriesId, {
+      recurrence: { ...series.recurrence, exceptions }
+    });
+  }
+
+  /**
+   * Individual sessions of a recurring series that start between `from` and `to`.
+   * Monthly series skip months that don't have the series' day of the month.
+   */
+  static getOccurrences(session: ScheduledSession, from: Date, to: Date): ScheduledSession[] {
+    if (!session.recurrence) {
+      return session.scheduledTime >= from && session.scheduledTime <= to ? [session] : [];
+    }
+
+    const { frequency, until, count, exceptions = [] } = session.recurrence;
+    const start = session.scheduledTime;
+    const occurrences: ScheduledSession[] = [];
+
+    // `generated` counts every session in the series, skipped or not, towards `count`
+    for (let step = 0, generated = 0; count === undefined || generated < count; step++) {
+      const time = frequency === 'monthly'
+        ? new Date(start.getFullYear(), start.getMonth() + step, start.getDate(), start.getHours(), start.getMinutes())
+        : new Date(start.getFullYear(), start.getMonth(), start.getDate() + step * (frequency === 'biweekly' ? 14 : 7), start.getHours(), start.getMinutes());
+
+      if (time > to || (until && time > endOfDay(until))) break;
+      if (frequency === 'monthly' && time.getDate() !== start.getDate()) continue;
+      generated++;
+
+      const dateKey = toDateKey(time);
+      if (time < from || exceptions.includes(dateKey)) continue;
+
+      occurrences.push({
+        ...session,
+        id: `${session.id}${OCCURRENCE_SEPARATOR}${dateKey}`,
+        seriesId: session.id,
+        scheduledTime: time,
+      });
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Export a user's own sessions (not demo sessions) as iCalendar text
+   */
+  static async exportToICS(userId: string): Promise<string> {
+    const userSessions = await this.getUserSessions(userId);
+    return ICalendarService.exportSessions(userSessions);
+  }
+
+  /**
+   * Import sessions from iCalendar text. Events already imported or exported
+   * from this app (matched by UID) are skipped rather than duplicated.
+   */
+  static async importFromICS(
+    userId: string,
+    icsText: string
+  ): Promise<{ imported: number; skipped: number; errors: string[] }> {
+    try {
+      const { sessions, errors } = ICalendarService.parseSessions(icsText);
+      const userSessions = await this.getUserSessions(userId);
+      const knownUids = new Set(userSessions.map(session => ICalendarService.getUid(session)));
+
+      let skipped = 0;
+      const newSessions: ScheduledSession[] = [];
+      sessions.forEach((imported, index) => {
+        if (knownUids.has(imported.icalUid)) {
+          skipped++;
+          return;
+        }
+        knownUids.add(imported.icalUid);
+        newSessions.push({
+          ...imported,
+          hostId: userId,
+          id: `user_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        });
+      });
+
+      if (newSessions.length > 0) {
+        const key = `${this.STORAGE_KEY}_${userId}`;
+        await AsyncStorage.setItem(key, JSON.stringify([...userSessions, ...newSessions]));
+
+        for (const session of newSessions) {
+          await SyncService.queueOperation({
+            service: 'sessions',
+            action: 'add',
+            data: session,
+            timestamp: Date.now(),
+          });
+        }
+      }
+
+      return { imported: newSessions.length, skipped, errors };
+    } catch (error) {
+      console.error('Error in importFromICS:', error);
+      return { imported: 0, skipped: 0, errors: ['Could not read calendar file'] };
+    }
+  }
+
   /**
    * Delete a session
+   * Deleting one session of a recurring series skips just that date.
    */
   static async deleteSession(userId: string, sessionId: string): Promise<boolean> {
+    const occurrence = parseOccurrenceId(sessionId);
+    if (occurrence) {
+      return this.skipOccurrence(userId, occurrence.seriesId, occurrence.date);
+    }
+
     try {
       // Only delete user sessions (not demo sessions)
       const userSessions = await this.getUserSessions(userId);
@@ -221,20 +370,15 @@ export class ScheduleService {
   }
 
   /**
-   * Get sessions for a specific date
+   * Get sessions for a specific date, including sessions of recurring series
    */
   static async getSessionsForDate(userId: string, date: Date): Promise<ScheduledSession[]> {
-    const allSessions = await this.getAllSessions(userId);
+    const allSessions = await this.getStoredSessions(userId);
     const targetDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
     
-    return allSessions.filter(session => {
-      const sessionDate = new Date(
-        session.scheduledTime.getFullYear(),
-        session.scheduledTime.getMonth(),
-        session.scheduledTime.getDate()
-      );
-      return sessionDate.getTime() === targetDate.getTime();
-    });
+    return allSessions
+      .flatMap(session => this.getOccurrences(session, targetDate, endOfDay(targetDate)))
+      .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
   }
 
   /**
@@ -247,7 +391,7 @@ export class ScheduleService {
     cancelled: number;
   }> {
     try {
-      const allSessions = await this.getAllSessions(userId);
+      const allSessions = await this.getStoredSessions(userId);
       const now = new Date();
 
       const stats = {
@@ -303,6 +447,28 @@ export class ScheduleService {
     }
   }
 
+  /**
+   * One-off sessions plus the individual sessions of recurring series.
+   * One-off sessions are kept whatever their date; callers filter them as before.
+   */
+  private static expandSessions(sessions: ScheduledSession[], from: Date, to: Date): ScheduledSession[] {
+    return sessions.flatMap(session =>
+      session.recurrence ? this.getOccurrences(session, from, to) : [session]
+    );
+  }
+
+  private static reviveSession(item: any): ScheduledSession {
+    return {
+      ...item,
+      scheduledTime: new Date(item.scheduledTime),
+      recurrence: item.recurrence
+        ? { ...item.recurrence, until: item.recurrence.until ? new Date(item.recurrence.until) : undefined }
+        : undefined,
+      createdAt: new Date(item.createdAt),
+      updatedAt: new Date(item.updatedAt)
+    };
+  }
+
   /**
    * Generate demo sessions for testing
    */
@@ -358,3 +524,16 @@ export class ScheduleService {
     ];
   }
 }
+
+function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function endOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+}
+
+function parseOccurrenceId(sessionId: string): { seriesId: string; date: string } | null {
+  const match = /^(.+)@(\d{4}-\d{2}-\d{2})$/.exec(sessionId);
+  return match ? { seriesId: match[1], date: match[2] } : null;
+}
@@ -225,6 +225,11 @@ export class SimpleAuthService {
               preferred_props: updatedProfile.preferredProps,
               known_patterns: updatedProfile.knownPatterns,
               want_to_learn_patterns: updatedProfile.wantToLearnPatterns,
+              availability: updatedProfile.availability,
+              timezone: updatedProfile.timezone,
+              location: updatedProfile.location || null,
+              latitude: updatedProfile.coordinates?.latitude ?? null,
+              longitude: updatedProfile.coordinates?.longitude ?? null,
               updated_at: new Date().toISOString()
             })
             .eq('id', userId);
@@ -243,11 +248,14 @@ export class SimpleAuthService {
         avatar: updatedProfile.avatar,
         experience: updatedProfile.experience,
         preferredProps: updatedProfile.preferredProps,
-        location: '',
+        location: updatedProfile.location || '',
+        coordinates: updatedProfile.coordinates,
         lastActive: 'Just now',
         bio: '',
         knownPatterns: updatedProfile.knownPatterns,
         wantToLearnPatterns: updatedProfile.wantToLearnPatterns,
+        availability: updatedProfile.availability,
+        timezone: updatedProfile.timezone,
       };
       
       await UserSearchService.addOrUpdateUser(searchableUser);
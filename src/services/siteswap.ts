@@ -0,0 +1,580 @@
+/**
+ * Siteswap engine
+ * Parses vanilla, synchronous, multiplex and passing siteswap notation and
+ * checks that every prop lands in a hand that is ready to throw it again.
+ */
+
+export type SiteswapNotationType = 'vanilla' | 'synchronous' | 'multiplex' | 'passing';
+
+export interface SiteswapThrow {
+  time: number; // beat the throw is made on, within one repetition
+  juggler: number; // 0-based index of the thrower
+  hand: number; // 0 = left, 1 = right (only meaningful for synchronous notation)
+  height: number;
+  isCrossing: boolean; // "x" modifier
+  isPass: boolean; // "p" modifier
+  targetJuggler: number;
+  targetHand: number;
+}
+
+export interface ParsedSiteswap {
+  notation: string; // normalized input (lowercase, no whitespace)
+  types: SiteswapNotationType[];
+  jugglers: number;
+  isSync: boolean;
+  length: number; // beats in one repetition as written (after "*" expansion)
+  throws: SiteswapThrow[];
+}
+
+export interface SiteswapAnalysis {
+  isValid: boolean;
+  errors: string[];
+  parsed?: ParsedSiteswap;
+  numberOfProps?: number;
+  period?: number;
+  isGroundState?: boolean;
+}
+
+class SiteswapParseError extends Error {}
+
+const MODIFIERS = ['p', 'x'];
+
+/**
+ * Cursor based parser for a single siteswap string
+ */
+class SiteswapParser {
+  private pos = 0;
+  private throws: SiteswapThrow[] = [];
+  private types = new Set<SiteswapNotationType>();
+
+  constructor(private readonly input: string) {}
+
+  parse(): ParsedSiteswap {
+    if (this.input.length === 0) {
+      throw new SiteswapParseError('Siteswap is empty');
+    }
+
+    const parts: Array<{ beats: SiteswapThrow[][]; isSync: boolean }> = [];
+    let jugglers = 1;
+
+    if (this.peek() === '<') {
+      this.types.add('passing');
+      jugglers = this.input.split('|').length;
+      if (jugglers < 2) {
+        throw new SiteswapParseError('Passing notation needs at least two jugglers separated by "|"');
+      }
+      this.expect('<');
+      for (let juggler = 0; juggler < jugglers; juggler++) {
+        parts.push(this.parseSequence(juggler, jugglers));
+        this.expect(juggler === jugglers - 1 ? '>' : '|');
+      }
+    } else {
+      parts.push(this.parseSequence(0, jugglers));
+    }
+
+    if (this.pos < this.input.length) {
+      throw this.unexpected();
+    }
+
+    const isSync = parts[0].isSync;
+    parts.forEach((part, index) => {
+      if (part.isSync !== isSync) {
+        throw new SiteswapParseError(
+          `Juggler ${index + 1} uses ${part.isSync ? 'synchronous' : 'asynchronous'} notation but juggler 1 does not`
+        );
+      }
+    });
+
+    // Parts of different lengths repeat until they line up
+    const length = parts.reduce((acc, part) => lcm(acc, part.beats.length), 1);
+    const step = isSync ? 2 : 1;
+    parts.forEach(part => {
+      for (let beat = 0; beat < length; beat++) {
+        part.beats[beat % part.beats.length].forEach(t => {
+          this.throws.push({ ...t, time: beat * step });
+        });
+      }
+    });
+
+    if (this.types.size === 0 || (this.types.size === 1 && this.types.has('multiplex'))) {
+      this.types.add(isSync ? 'synchronous' : 'vanilla');
+    }
+    if (isSync) this.types.add('synchronous');
+
+    return {
+      notation: this.input,
+      types: (['vanilla', 'synchronous', 'multiplex', 'passing'] as SiteswapNotationType[])
+        .filter(type => this.types.has(type)),
+      jugglers,
+      isSync,
+      length: length * step,
+      throws: this.throws,
+    };
+  }
+
+  /**
+   * Parse one juggler's throws up to "|", ">" or the end of input.
+   * Returns the throws grouped by beat (sync beats hold both hands).
+   */
+  private parseSequence(juggler: number, jugglers: number): { beats: SiteswapThrow[][]; isSync: boolean } {
+    const beats: SiteswapThrow[][] = [];
+    const isSync = this.peek() === '(';
+
+    while (this.pos < this.input.length && !['|', '>'].includes(this.peek())) {
+      if (isSync) {
+        if (this.peek() === '*') {
+          this.pos++;
+          const mirrored = beats.map(beat => beat.map(t => ({
+            ...t,
+            hand: 1 - t.hand,
+            targetHand: 1 - t.targetHand,
+          })));
+          beats.push(...mirrored);
+          if (this.pos < this.input.length && !['|', '>'].includes(this.peek())) {
+            throw new SiteswapParseError(`"*" at position ${this.pos} must end the synchronous sequence`);
+          }
+          continue;
+        }
+        if (this.peek() !== '(') {
+          throw new SiteswapParseError(
+            `Cannot mix synchronous and asynchronous throws (position ${this.pos + 1})`
+          );
+        }
+        this.expect('(');
+        const left = this.parseHand(juggler, jugglers, 0, true);
+        this.expect(',');
+        const right = this.parseHand(juggler, jugglers, 1, true);
+        this.expect(')');
+        beats.push([...left, ...right]);
+      } else {
+        if (this.peek() === '(' || this.peek() === '*') {
+          throw new SiteswapParseError(
+            `Cannot mix synchronous and asynchronous throws (position ${this.pos + 1})`
+          );
+        }
+        beats.push(this.parseHand(juggler, jugglers, beats.length % 2, false));
+      }
+    }
+
+    if (beats.length === 0) {
+      throw new SiteswapParseError(
+        jugglers > 1 ? `Juggler ${juggler + 1} has no throws` : 'Siteswap has no throws'
+      );
+    }
+
+    return { beats, isSync };
+  }
+
+  /**
+   * Parse the throws made by one hand on one beat: a single throw or a [multiplex]
+   */
+  private parseHand(juggler: number, jugglers: number, hand: number, isSync: boolean): SiteswapThrow[] {
+    if (this.peek() !== '[') {
+      return [this.parseThrow(juggler, jugglers, hand, isSync)];
+    }
+
+    const start = this.pos;
+    this.expect('[');
+    const throws: SiteswapThrow[] = [];
+    while (this.peek() !== ']') {
+      if (this.pos >= this.input.length) {
+        throw new SiteswapParseError(`Multiplex opened at position ${start + 1} is never closed`);
+      }
+      throws.push(this.parseThrow(juggler, jugglers, hand, isSync));
+    }
+    this.expect(']');
+
+    if (throws.length < 2) {
+      throw new SiteswapParseError(`Multiplex at position ${start + 1} must contain at least two throws`);
+    }
+    this.types.add('multiplex');
+    return throws;
+  }
+
+  private parseThrow(juggler: number, jugglers: number, hand: number, isSync: boolean): SiteswapThrow {
+    const start = this.pos;
+    const char = this.peek();
+    const height = throwHeight(char);
+    if (height === null) {
+      throw this.unexpected();
+    }
+    this.pos++;
+
+    let isCrossing = false;
+    let isPass = false;
+    let targetJuggler = juggler;
+
+    while (MODIFIERS.includes(this.peek())) {
+      const modifier = this.peek();
+      this.pos++;
+
+      if (modifier === 'x') {
+        if (!isSync) {
+          throw new SiteswapParseError(
+            `"x" at position ${this.pos} is only allowed in synchronous notation`
+          );
+        }
+        if (isCrossing) throw this.duplicateModifier('x');
+        isCrossing = true;
+      } else {
+        if (isPass) throw this.duplicateModifier('p');
+        if (jugglers < 2) {
+          throw new SiteswapParseError(
+            `Pass "${this.input.slice(start, this.pos)}" at position ${start + 1} needs a passing pattern with at least two jugglers`
+          );
+        }
+        isPass = true;
+        if (jugglers === 2) {
+          targetJuggler = 1 - juggler;
+        } else {
+          const target = /[1-9]/.test(this.peek()) ? parseInt(this.peek(), 10) : NaN;
+          if (isNaN(target)) {
+            throw new SiteswapParseError(
+              `Pass at position ${start + 1} must name the receiving juggler (e.g. "${char}p2") when more than two jugglers pass`
+            );
+          }
+          this.pos++;
+          if (target > jugglers) {
+            throw new SiteswapParseError(
+              `Pass at position ${start + 1} targets juggler ${target} but the pattern only has ${jugglers}`
+            );
+          }
+          if (target - 1 === juggler) {
+            throw new SiteswapParseError(`Pass at position ${start + 1} is thrown to its own juggler`);
+          }
+          targetJuggler = target - 1;
+        }
+      }
+    }
+
+    if (isSync && height % 2 !== 0) {
+      throw new SiteswapParseError(
+        `Synchronous throw "${this.input.slice(start, this.pos)}" at position ${start + 1} must have an even height`
+      );
+    }
+
+    // Passes without "x" land in the receiver's hand on the same side, like self throws
+    return {
+      time: 0,
+      juggler,
+      hand,
+      height,
+      isCrossing,
+      isPass,
+      targetJuggler,
+      targetHand: isCrossing ? 1 - hand : hand,
+    };
+  }
+
+  private peek(): string {
+    return this.input.charAt(this.pos);
+  }
+
+  private expect(char: string): void {
+    if (this.peek() !== char) {
+      if (this.pos >= this.input.length) {
+        throw new SiteswapParseError(`Siteswap ends early: expected "${char}"`);
+      }
+      throw new SiteswapParseError(
+        `Expected "${char}" at position ${this.pos + 1} but found "${this.peek()}"`
+      );
+    }
+    this.pos++;
+  }
+
+  private unexpected(): SiteswapParseError {
+    return new SiteswapParseError(`Unexpected "${this.peek()}" at position ${this.pos + 1}`);
+  }
+
+  private duplicateModifier(modifier: string): SiteswapParseError {
+    return new SiteswapParseError(`Duplicate "${modifier}" modifier at position ${this.pos}`);
+  }
+}
+
+/**
+ * Throw heights are 0-9 then a-z (10-35); "p" and "x" are reserved as modifiers
+ */
+function throwHeight(char: string): number | null {
+  if (/^[0-9]$/.test(char)) return parseInt(char, 10);
+  if (/^[a-z]$/.test(char) && !MODIFIERS.includes(char)) {
+    return char.charCodeAt(0) - 'a'.charCodeAt(0) + 10;
+  }
+  return null;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+function lcm(a: number, b: number): number {
+  return (a * b) / gcd(a, b);
+}
+
+export class SiteswapService {
+  /**
+   * Parse a siteswap string without checking that it is jugglable
+   */
+  static parse(notation: string): ParsedSiteswap {
+    return new SiteswapParser(this.normalize(notation)).parse();
+  }
+
+  /**
+   * Strip whitespace and lowercase so "3P 3" and "3p3" are treated the same
+   */
+  static normalize(notation: string): string {
+    return notation.replace(/\s+/g, '').toLowerCase();
+  }
+
+  /**
+   * Build a passing siteswap from each juggler's local siteswap,
+   * e.g. { A: '3p3', B: '3p3' } becomes "<3p3|3p3>"
+   */
+  static combineLocal(local: { [juggler: string]: string }): string {
+    const parts = Object.values(local).map(part => this.normalize(part));
+    return parts.length === 1 ? parts[0] : `<${parts.join('|')}>`;
+  }
+
+  /**
+   * Parse and fully validate a siteswap, computing props, period and ground state
+   */
+  static analyze(notation: string): SiteswapAnalysis {
+    let parsed: ParsedSiteswap;
+    try {
+      parsed = this.parse(notation);
+    } catch (error) {
+      if (error instanceof SiteswapParseError) {
+        return { isValid: false, errors: [error.message] };
+      }
+      throw error;
+    }
+
+    const total = parsed.throws.reduce((sum, t) => sum + t.height, 0);
+    if (total % parsed.length !== 0) {
+      const average = Math.round((total / parsed.length) * 100) / 100;
+      return {
+        isValid: false,
+        errors: [`Throw heights work out to ${average} props; a valid siteswap needs a whole number`],
+        parsed,
+      };
+    }
+
+    const errors = this.findCollisions(parsed);
+    if (errors.length > 0) {
+      return { isValid: false, errors, parsed };
+    }
+
+    return {
+      isValid: true,
+      errors: [],
+      parsed,
+      numberOfProps: total / parsed.length,
+      period: this.getPeriod(parsed),
+      isGroundState: this.isGroundState(parsed),
+    };
+  }
+
+  /**
+   * Write parsed throws back out as notation. Throws rejected by `include`
+   * are written as 0, which is how orbits are conventionally shown ("600").
+   */
+  static format(parsed: ParsedSiteswap, include: (t: SiteswapThrow) => boolean = () => true): string {
+    const step = parsed.isSync ? 2 : 1;
+    const writeThrow = (t: SiteswapThrow): string => {
+      let text = t.height < 10 ? String(t.height) : String.fromCharCode(87 + t.height);
+      if (t.isCrossing) text += 'x';
+      if (t.isPass) text += parsed.jugglers > 2 ? `p${t.targetJuggler + 1}` : 'p';
+      return text;
+    };
+    const writeHand = (throws: SiteswapThrow[]): string => {
+      const kept = throws.filter(include);
+      if (kept.length === 0) return '0';
+      return kept.length === 1 ? writeThrow(kept[0]) : `[${kept.map(writeThrow).join('')}]`;
+    };
+
+    const parts: string[] = [];
+    for (let juggler = 0; juggler < parsed.jugglers; juggler++) {
+      let part = '';
+      for (let time = 0; time < parsed.length; time += step) {
+        const throws = parsed.throws.filter(t => t.time === time && t.juggler === juggler);
+        part += parsed.isSync
+          ? `(${writeHand(throws.filter(t => t.hand === 0))},${writeHand(throws.filter(t => t.hand === 1))})`
+          : writeHand(throws);
+      }
+      parts.push(part);
+    }
+    return parts.length === 1 ? parts[0] : `<${parts.join('|')}>`;
+  }
+
+  /**
+   * Trim a parsed pattern down to one repetition of its minimal period
+   */
+  static reduce(parsed: ParsedSiteswap, period: number): ParsedSiteswap {
+    return {
+      ...parsed,
+      length: period,
+      throws: parsed.throws.filter(t => t.time < period),
+    };
+  }
+
+  /**
+   * Convenience check for callers that only need a yes/no answer
+   */
+  static isValid(notation: string): boolean {
+    return this.analyze(notation).isValid;
+  }
+
+  /**
+   * Follow each prop from throw to throw: maps the index of every non-zero throw
+   * in `parsed.throws` to the index of the throw that next sends the same prop.
+   * Multiplexed props are handed to that hand's throws in order.
+   */
+  static linkThrows(parsed: ParsedSiteswap): Map<number, number> {
+    const bySlot = new Map<string, number[]>();
+    parsed.throws.forEach((t, index) => {
+      if (t.height === 0) return;
+      const key = this.slotKey(parsed, t.time, t.juggler, t.hand);
+      bySlot.set(key, [...(bySlot.get(key) || []), index]);
+    });
+
+    const next = new Map<number, number>();
+    const claimed = new Map<string, number>();
+    parsed.throws.forEach((t, index) => {
+      if (t.height === 0) return;
+      const key = this.slotKey(parsed, t.time + t.height, t.targetJuggler, t.targetHand);
+      const used = claimed.get(key) || 0;
+      const candidates = bySlot.get(key) || [];
+      if (used < candidates.length) {
+        next.set(index, candidates[used]);
+        claimed.set(key, used + 1);
+      }
+    });
+    return next;
+  }
+
+  /**
+   * Key identifying where a throw is made or caught. Asynchronous hands alternate
+   * with the beat, so only synchronous patterns need the hand in the key.
+   */
+  static slotKey(parsed: ParsedSiteswap, time: number, juggler: number, hand: number): string {
+    const beat = ((time % parsed.length) + parsed.length) % parsed.length;
+    return parsed.isSync ? `${beat}:${juggler}:${hand}` : `${beat}:${juggler}`;
+  }
+
+  /**
+   * Compare how many props land in each hand with how many it throws on that beat
+   */
+  private static findCollisions(parsed: ParsedSiteswap): string[] {
+    const arrivals = new Map<string, number>();
+    const departures = new Map<string, number>();
+    const throwSlots = new Set<string>();
+
+    parsed.throws.forEach(t => {
+      const from = this.slotKey(parsed, t.time, t.juggler, t.hand);
+      throwSlots.add(from);
+      if (t.height === 0) return;
+      departures.set(from, (departures.get(from) || 0) + 1);
+      const to = this.slotKey(parsed, t.time + t.height, t.targetJuggler, t.targetHand);
+      arrivals.set(to, (arrivals.get(to) || 0) + 1);
+    });
+
+    const errors: string[] = [];
+    const keys = Array.from(new Set([...throwSlots, ...arrivals.keys()])).sort(compareSlotKeys);
+    keys.forEach(key => {
+      const landed = arrivals.get(key) || 0;
+      const thrown = departures.get(key) || 0;
+      if (landed === thrown) return;
+
+      const where = this.describeSlot(parsed, key);
+      if (landed > thrown) {
+        errors.push(`Collision on ${where}: ${landed} props land but only ${thrown} thrown`);
+      } else {
+        errors.push(`Nothing to throw on ${where}: ${thrown} thrown but only ${landed} land there`);
+      }
+    });
+    return errors;
+  }
+
+  private static describeSlot(parsed: ParsedSiteswap, key: string): string {
+    const [beat, juggler, hand] = key.split(':').map(Number);
+    let description = `beat ${beat + 1}`;
+    if (parsed.jugglers > 1) description += `, juggler ${juggler + 1}`;
+    if (parsed.isSync) description += hand === 0 ? ', left hand' : ', right hand';
+    return description;
+  }
+
+  /**
+   * Smallest number of beats after which the pattern repeats
+   */
+  private static getPeriod(parsed: ParsedSiteswap): number {
+    const step = parsed.isSync ? 2 : 1;
+    const beats = parsed.length / step;
+    const signatures: string[] = [];
+    for (let beat = 0; beat < beats; beat++) {
+      signatures.push(
+        parsed.throws
+          .filter(t => t.time === beat * step)
+          .map(t => parsed.isSync
+            ? `${t.juggler}:${t.hand}:${t.height}:${t.targetJuggler}:${t.targetHand}`
+            : `${t.juggler}:${t.height}:${t.targetJuggler}`)
+          .sort()
+          .join(',')
+      );
+    }
+
+    for (let candidate = 1; candidate < beats; candidate++) {
+      if (beats % candidate !== 0) continue;
+      if (signatures.every((sig, i) => sig === signatures[(i + candidate) % beats])) {
+        return candidate * step;
+      }
+    }
+    return parsed.length;
+  }
+
+  /**
+   * A pattern is ground state if, at some beat, its props are due to land in
+   * the earliest throw positions with no empty hand ahead of a filled one
+   */
+  private static isGroundState(parsed: ParsedSiteswap): boolean {
+    const step = parsed.isSync ? 2 : 1;
+    const slotsPerBeat = parsed.jugglers * (parsed.isSync ? 2 : 1);
+    const maxHeight = Math.max(...parsed.throws.map(t => t.height));
+    const repeats = Math.ceil(maxHeight / parsed.length) + 1;
+
+    for (let now = 0; now < parsed.length; now += step) {
+      // Hands due a prop on each upcoming beat
+      const filled = new Map<number, Set<string>>();
+      parsed.throws.forEach(t => {
+        if (t.height === 0) return;
+        for (let r = -repeats; r <= 0; r++) {
+          const thrownAt = t.time + r * parsed.length;
+          const landsAt = thrownAt + t.height;
+          if (thrownAt < now && landsAt >= now) {
+            const slots = filled.get(landsAt - now) || new Set<string>();
+            slots.add(`${t.targetJuggler}:${t.targetHand}`);
+            filled.set(landsAt - now, slots);
+          }
+        }
+      });
+
+      const lastBeat = Math.max(-1, ...filled.keys());
+      let packed = true;
+      for (let rel = 0; rel < lastBeat; rel += step) {
+        if ((filled.get(rel)?.size || 0) < slotsPerBeat) {
+          packed = false;
+          break;
+        }
+      }
+      if (packed) return true;
+    }
+    return false;
+  }
+}
+
+function compareSlotKeys(a: string, b: string): number {
+  const pa = a.split(':').map(Number);
+  const pb = b.split(':').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    if ((pa[i] || 0) !== (pb[i] || 0)) return (pa[i] || 0) - (pb[i] || 0);
+  }
+  return 0;
+}
@@ -55,6 +55,7 @@ export type Database = {
           experience: string;
           preferred_props: string[];
           availability: any[];
+          timezone: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -66,6 +67,7 @@ export type Database = {
           experience: string;
           preferred_props: string[];
           availability?: any[];
+          timezone?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -77,6 +79,7 @@ export type Database = {
           experience?: string;
           preferred_props?: string[];
           availability?: any[];
+          timezone?: string | null;
           updated_at?: string;
         };
       };
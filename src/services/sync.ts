@@ -1,18 +1,83 @@
+/**
+ * Offline sync engine
+ * Local changes are queued as operations, each stamped with a vector clock per
+ * record it touches. When online, every write is compared with the server
+ * copy: newer local changes are written, stale ones are dropped, and concurrent
+ * edits are merged by the service's resolver (see syncConflicts.ts).
+ * Failed operations are retried with exponential backoff and moved to a
+ * dead-letter list after MAX_ATTEMPTS, where they can be inspected or retried.
+ */
+
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from './supabase';
+import {
+  VectorClock,
+  CONFLICT_RESOLVERS,
+  compareClocks,
+  incrementClock,
+  mergeClocks,
+} from './syncConflicts';
 
-export type OfflineService = 'connections' | 'sessions' | 'patterns';
+export type OfflineService = 'connections' | 'sessions' | 'patterns' | 'practice' | 'moderation' | 'ratings';
 
 export interface OfflineOperation {
   service: OfflineService;
   action: string;
   data: any;
   timestamp: number;
+  id?: string; // Assigned when queued
+  clocks?: { [recordKey: string]: VectorClock }; // Clock of each record this operation writes
+  attempts?: number;
+  nextAttemptAt?: number;
+  lastError?: string;
+}
+
+export interface DeadLetter {
+  operation: OfflineOperation;
+  failedAt: number;
+  error: string;
+}
+
+export interface SyncStatus {
+  pending: number; // Operations waiting to sync, including ones being retried
+  retrying: number; // Pending operations that have failed at least once
+  failed: number; // Operations in the dead-letter list
+  isSyncing: boolean;
+  lastSyncAt?: Date;
+  lastError?: string;
+}
+
+export interface SyncResult {
+  synced: number;
+  conflictsResolved: number;
+  staleDropped: number;
+  retrying: number;
+  deadLettered: number;
+}
+
+/**
+ * One row an operation writes to (or deletes from) a table
+ */
+interface SyncWrite {
+  table: string;
+  match: { [column: string]: any }; // Columns that identify the row
+  row?: { [column: string]: any }; // Omitted for deletes
 }
 
 const QUEUE_KEY = 'offline_queue';
+const DEAD_LETTER_KEY = 'offline_dead_letter';
+const CLOCKS_KEY = 'sync_clocks';
+const DEVICE_ID_KEY = 'sync_device_id';
+const STATUS_KEY = 'sync_status';
+
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
 
 export class SyncService {
+  private static syncing = false;
+  private static deviceId: string | null = null;
+
   static async isOnline(): Promise<boolean> {
     try {
       if (!supabase) {
@@ -35,9 +100,12 @@ export class SyncService {
     await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
   }
 
+  /**
+   * Queue a local change, advancing this device's clock for every record it writes
+   */
   static async queueOperation(op: OfflineOperation): Promise<void> {
     const queue = await this.getQueue();
-    queue.push(op);
+    queue.push(await this.stampOperation(op));
     await this.saveQueue(queue);
   }
 
@@ -45,29 +113,408 @@ export class SyncService {
     await AsyncStorage.removeItem(QUEUE_KEY);
   }
 
-  static async sync(): Promise<void> {
-    if (!(await this.isOnline()) || !supabase) return;
+  /**
+   * Replay queued operations that are due. Operations on a record wait while an
+   * earlier operation on the same record is backing off, so changes stay in order.
+   */
+  static async sync(): Promise<SyncResult> {
+    const result: SyncResult = { synced: 0, conflictsResolved: 0, staleDropped: 0, retrying: 0, deadLettered: 0 };
+    if (this.syncing || !supabase || !(await this.isOnline())) return result;
+
+    this.syncing = true;
+    const done = new Set<string>();
+    const updated = new Map<string, OfflineOperation>();
+    const deadLetters: DeadLetter[] = [];
+    let lastError: string | undefined;
+
+    try {
+      let queue = await this.getQueue();
+      if (queue.some(op => !op.id || !op.clocks)) {
+        // Operations queued before versioning existed
+        const stamped: OfflineOperation[] = [];
+        for (const op of queue) {
+          stamped.push(op.id && op.clocks ? op : await this.stampOperation(op));
+        }
+        queue = stamped;
+        await this.saveQueue(queue);
+      }
+
+      const blockedRecords = new Set<string>();
+      const now = Date.now();
+
+      for (const op of queue) {
+        const writes = this.getWrites(op);
+        const recordKeys = writes.map(write => recordKey(write));
+
+        if (recordKeys.some(key => blockedRecords.has(key)) || (op.nextAttemptAt || 0) > now) {
+          recordKeys.forEach(key => blockedRecords.add(key));
+          continue;
+        }
+
+        try {
+          for (const write of writes) {
+            const outcome = await this.applyWrite(op, write);
+            if (outcome === 'merged') result.conflictsResolved++;
+            if (outcome === 'stale') result.staleDropped++;
+          }
+          done.add(op.id!);
+          result.synced++;
+        } catch (error) {
+          const message: string = error instanceof Error ? error.message : (error as any)?.message || String(error);
+          lastError = message;
+          console.error('Sync error:', message);
+          const attempts = (op.attempts || 0) + 1;
+
+          if (attempts >= MAX_ATTEMPTS) {
+            deadLetters.push({ operation: { ...op, attempts, lastError: message }, failedAt: Date.now(), error: message });
+            done.add(op.id!);
+            result.deadLettered++;
+          } else {
+            updated.set(op.id!, { ...op, attempts, lastError: message, nextAttemptAt: Date.now() + this.getBackoff(attempts) });
+            recordKeys.forEach(key => blockedRecords.add(key));
+            result.retrying++;
+          }
+        }
+      }
+
+      // Re-read the queue so operations queued while syncing aren't lost
+      const latest = await this.getQueue();
+      await this.saveQueue(
+        latest
+          .filter(op => !op.id || !done.has(op.id))
+          .map(op => (op.id && updated.get(op.id)) || op)
+      );
+      if (deadLetters.length > 0) {
+        await this.saveDeadLetters([...(await this.getDeadLetters()), ...deadLetters]);
+      }
+      await AsyncStorage.setItem(STATUS_KEY, JSON.stringify({ lastSyncAt: Date.now(), lastError }));
+    } catch (error) {
+      console.error('Error in sync:', error);
+    } finally {
+      this.syncing = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * Pending and failed counts for health reporting
+   */
+  static async getStatus(): Promise<SyncStatus> {
+    try {
+      const [queue, deadLetters, stored] = await Promise.all([
+        this.getQueue(),
+        this.getDeadLetters(),
+        AsyncStorage.getItem(STATUS_KEY),
+      ]);
+      const status = stored ? JSON.parse(stored) : {};
+      return {
+        pending: queue.length,
+        retrying: queue.filter(op => (op.attempts || 0) > 0).length,
+        failed: deadLetters.length,
+        isSyncing: this.syncing,
+        lastSyncAt: status.lastSyncAt ? new Date(status.lastSyncAt) : undefined,
+        lastError: status.lastError,
+      };
+    } catch (error) {
+      console.error('Error in getStatus:', error);
+      return { pending: 0, retrying: 0, failed: 0, isSyncing: this.syncing };
+    }
+  }
+
+  /**
+   * Operations that failed MAX_ATTEMPTS times, oldest first
+   */
+  static async getDeadLetters(): Promise<DeadLetter[]> {
+    const stored = await AsyncStorage.getItem(DEAD_LETTER_KEY);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  /**
+   * Put dead-lettered operations (all, or the given IDs) back in the queue with a fresh retry budget
+   */
+  static async retryDeadLetters(operationIds?: string[]): Promise<number> {
+    const deadLetters = await this.getDeadLetters();
+    const retry = deadLetters.filter(letter => !operationIds || operationIds.includes(letter.operation.id!));
+    if (retry.length === 0) return 0;
+
     const queue = await this.getQueue();
-    for (const op of queue) {
-      try {
-        switch (op.service) {
-          case 'connections':
-            await supabase.from('connections').upsert(op.data);
-            break;
-          case 'sessions':
-            await supabase.from('sessions').upsert(op.data);
-            break;
-          case 'patterns':
-            await supabase.from('user_patterns').upsert(op.data);
-            break;
-          default:
-            break;
+    await this.saveQueue([
+      ...queue,
+      ...retry.map(letter => ({ ...letter.operation, attempts: 0, nextAttemptAt: undefined, lastError: undefined })),
+    ]);
+    await this.saveDeadLetters(deadLetters.filter(letter => !retry.includes(letter)));
+    return retry.length;
+  }
+
+  /**
+   * Drop dead-lettered operations (all, or the given IDs) for good
+   */
+  static async discardDeadLetters(operationIds?: string[]): Promise<number> {
+    const deadLetters = await this.getDeadLetters();
+    const keep = operationIds ? deadLetters.filter(letter => !operationIds.includes(letter.operation.id!)) : [];
+    await this.saveDeadLetters(keep);
+    return deadLetters.length - keep.length;
+  }
+
+  private static async saveDeadLetters(deadLetters: DeadLetter[]): Promise<void> {
+    await AsyncStorage.setItem(DEAD_LETTER_KEY, JSON.stringify(deadLetters));
+  }
+
+  /**
+   * Write one row, comparing clocks with the server copy first
+   */
+  private static async applyWrite(
+    op: OfflineOperation,
+    write: SyncWrite
+  ): Promise<'written' | 'merged' | 'stale'> {
+    if (!supabase) throw new Error('Supabase is not configured');
+    const key = recordKey(write);
+    const localClock = op.clocks?.[key] || {};
+
+    const { data: remote, error: readError } = await supabase
+      .from(write.table)
+      .select('*')
+      .match(write.match)
+      .maybeSingle();
+    if (readError) throw readError;
+
+    const remoteClock: VectorClock = remote?.sync_clock || {};
+    const order = compareClocks(localClock, remoteClock);
+    const deviceId = await this.getDeviceId();
+    const mergedClock = mergeClocks(localClock, remoteClock);
+
+    // Deletes always win; a row that is already gone needs nothing
+    if (!write.row) {
+      if (remote) {
+        const { error } = await supabase.from(write.table).delete().match(write.match);
+        if (error) throw error;
+      }
+      await this.saveClock(key, mergedClock);
+      return 'written';
+    }
+
+    if (remote && (order === 'before' || order === 'equal')) {
+      // The server already has this change or a newer one
+      await this.saveClock(key, mergedClock);
+      return 'stale';
+    }
+
+    let row = write.row;
+    let outcome: 'written' | 'merged' = 'written';
+    if (remote && order === 'concurrent') {
+      row = CONFLICT_RESOLVERS[op.service](
+        { row: write.row, updatedAt: op.timestamp, deviceId },
+        { row: remote, updatedAt: Date.parse(remote.updated_at) || 0, deviceId: remote.sync_device_id || '' },
+        write.table
+      );
+      outcome = 'merged';
+    }
+
+    const clock = outcome === 'merged' ? incrementClock(mergedClock, deviceId) : mergedClock;
+    const { error } = await supabase.from(write.table).upsert({
+      ...stripSyncColumns(row),
+      ...write.match,
+      sync_clock: clock,
+      sync_device_id: deviceId,
+      updated_at: new Date(outcome === 'merged' ? Date.now() : op.timestamp).toISOString(),
+    }, { onConflict: Object.keys(write.match).join(',') });
+    if (error) throw error;
+
+    await this.saveClock(key, clock);
+    return outcome;
+  }
+
+  /**
+   * Rows each operation writes, mapped to the database's snake_case columns
+   */
+  private static getWrites(op: OfflineOperation): SyncWrite[] {
+    const { data } = op;
+    switch (op.service) {
+      case 'sessions':
+        if (op.action === 'delete') {
+          return [{ table: 'sessions', match: { id: data.id } }];
+        }
+        return [{
+          table: 'sessions',
+          match: { id: data.id },
+          row: {
+            host_id: data.hostId,
+            partner_id: data.partnerId ?? null,
+            partner_name: data.partnerName ?? null,
+            scheduled_time: toIso(data.scheduledTime),
+            duration: data.duration,
+            location: data.location ?? null,
+            planned_patterns: data.plannedPatterns || [],
+            status: data.status,
+            notes: data.notes ?? null,
+            recurrence: data.recurrence ?? null,
+            ical_uid: data.icalUid ?? null,
+            created_at: toIso(data.createdAt),
+          },
+        }];
+
+      case 'patterns': {
+        const match = { user_id: data.userId, pattern_id: data.patternId };
+        if (op.action === 'remove') {
+          return [{ table: 'user_patterns', match }];
+        }
+        return [{ table: 'user_patterns', match, row: { status: data.status, proficiency: data.proficiency ?? null } }];
+      }
+
+      case 'practice':
+        if (op.action === 'delete') {
+          return [{ table: 'practice_logs', match: { id: data.id } }];
+        }
+        return [{
+          table: 'practice_logs',
+          match: { id: data.id },
+          row: {
+            user_id: data.userId,
+            pattern_id: data.patternId,
+            practiced_at: toIso(data.practicedAt),
+            duration: data.duration,
+            max_catches: data.maxCatches ?? null,
+            clean_runs: data.cleanRuns ?? null,
+            partner_id: data.partnerId ?? null,
+            notes: data.notes ?? null,
+            created_at: toIso(data.createdAt),
+          },
+        }];
+
+      case 'connections': {
+        if (op.action === 'removeConnection') {
+          return [{ table: 'connections', match: { id: data.connectionId } }];
+        }
+        if (op.action === 'cancelRequest') {
+          return [{ table: 'connection_requests', match: { id: data.requestId } }];
+        }
+
+        const writes: SyncWrite[] = [];
+        const request = op.action === 'sendRequest' ? data : data.request;
+        if (request) {
+          writes.push({
+            table: 'connection_requests',
+            match: { id: request.id },
+            row: {
+              from_user_id: request.fromUserId,
+              to_user_id: request.toUserId,
+              from_user_name: request.fromUserName,
+              to_user_name: request.toUserName,
+              status: request.status,
+              message: request.message ?? null,
+              created_at: toIso(request.createdAt),
+            },
+          });
+        }
+        if (data.connection) {
+          writes.push({
+            table: 'connections',
+            match: { id: data.connection.id },
+            row: {
+              user1_id: data.connection.userId1,
+              user2_id: data.connection.userId2,
+              user1_name: data.connection.userName1,
+              user2_name: data.connection.userName2,
+              status: data.connection.status,
+              connected_at: toIso(data.connection.connectedAt),
+            },
+          });
+        }
+        return writes;
+      }
+
+      case 'ratings': {
+        const match = { pattern_id: data.patternId, user_id: data.userId };
+        if (op.action === 'remove') {
+          return [{ table: 'pattern_ratings', match }];
         }
-      } catch (err) {
-        console.error('Sync error:', err);
-        // keep operation in queue if failed
+        return [{
+          table: 'pattern_ratings',
+          match,
+          row: {
+            user_name: data.userName ?? null,
+            rating: data.rating,
+            review: data.review ?? null,
+            created_at: toIso(data.createdAt),
+          },
+        }];
+      }
+
+      // Moderation rows are queued in their table's columns already
+      case 'moderation': {
+        const { id, ...row } = data.row;
+        return [{ table: data.table, match: { id }, row }];
       }
+
+      default:
+        return [];
     }
-    await this.clearQueue();
   }
+
+  /**
+   * Give an operation an ID and advance this device's clock for the records it writes
+   */
+  private static async stampOperation(op: OfflineOperation): Promise<OfflineOperation> {
+    const deviceId = await this.getDeviceId();
+    const clocks = await this.getClocks();
+    const stamped: { [recordKey: string]: VectorClock } = {};
+
+    this.getWrites(op).forEach(write => {
+      const key = recordKey(write);
+      clocks[key] = incrementClock(clocks[key], deviceId);
+      stamped[key] = clocks[key];
+    });
+    await AsyncStorage.setItem(CLOCKS_KEY, JSON.stringify(clocks));
+
+    return {
+      ...op,
+      id: op.id || `op_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      clocks: stamped,
+      attempts: op.attempts || 0,
+    };
+  }
+
+  private static async getClocks(): Promise<{ [recordKey: string]: VectorClock }> {
+    const stored = await AsyncStorage.getItem(CLOCKS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  }
+
+  /**
+   * Remember what the server has seen so later local edits are ordered after it
+   */
+  private static async saveClock(key: string, clock: VectorClock): Promise<void> {
+    const clocks = await this.getClocks();
+    clocks[key] = mergeClocks(clocks[key], clock);
+    await AsyncStorage.setItem(CLOCKS_KEY, JSON.stringify(clocks));
+  }
+
+  private static async getDeviceId(): Promise<string> {
+    if (this.deviceId) return this.deviceId;
+    let deviceId = await AsyncStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      await AsyncStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    this.deviceId = deviceId;
+    return deviceId;
+  }
+
+  private static getBackoff(attempts: number): number {
+    return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempts - 1));
+  }
+}
+
+function recordKey(write: SyncWrite): string {
+  const match = Object.keys(write.match).sort().map(column => `${column}=${write.match[column]}`).join('&');
+  return `${write.table}:${match}`;
+}
+
+function toIso(value: Date | string | undefined): string {
+  return value ? new Date(value).toISOString() : new Date().toISOString();
+}
+
+function stripSyncColumns(row: { [column: string]: any }): { [column: string]: any } {
+  const { sync_clock, sync_device_id, updated_at, ...rest } = row;
+  return rest;
 }
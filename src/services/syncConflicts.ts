@@ -0,0 +1,121 @@
+/**
+ * Sync conflict resolution
+ * Vector clocks track which device edits each record has seen. When a queued
+ * change and the server copy were edited concurrently, the service's resolver
+ * merges them. Resolvers are pure and only depend on their inputs, so every
+ * device ends up with the same result whichever order it syncs in.
+ */
+
+import type { OfflineService } from './sync';
+
+export type VectorClock = { [deviceId: string]: number };
+
+export type ClockOrder = 'before' | 'after' | 'equal' | 'concurrent';
+
+export interface VersionedRow {
+  row: { [column: string]: any };
+  updatedAt: number; // ms since epoch of the edit
+  deviceId: string; // Breaks updatedAt ties
+}
+
+export type ConflictResolver = (
+  local: VersionedRow,
+  remote: VersionedRow,
+  table: string
+) => { [column: string]: any };
+
+/**
+ * How clock `a` relates to clock `b`: 'after' means `a` has seen every edit in `b` and more
+ */
+export function compareClocks(a: VectorClock = {}, b: VectorClock = {}): ClockOrder {
+  let aAhead = false;
+  let bAhead = false;
+  new Set([...Object.keys(a), ...Object.keys(b)]).forEach(device => {
+    const aCount = a[device] || 0;
+    const bCount = b[device] || 0;
+    if (aCount > bCount) aAhead = true;
+    if (bCount > aCount) bAhead = true;
+  });
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+}
+
+export function mergeClocks(a: VectorClock = {}, b: VectorClock = {}): VectorClock {
+  const merged: VectorClock = { ...a };
+  Object.entries(b).forEach(([device, count]) => {
+    merged[device] = Math.max(merged[device] || 0, count);
+  });
+  return merged;
+}
+
+export function incrementClock(clock: VectorClock = {}, deviceId: string): VectorClock {
+  return { ...clock, [deviceId]: (clock[deviceId] || 0) + 1 };
+}
+
+/**
+ * The later edit wins; ties go to the higher device ID
+ */
+export function lastWriterWins(local: VersionedRow, remote: VersionedRow): VersionedRow {
+  if (local.updatedAt !== remote.updatedAt) {
+    return local.updatedAt > remote.updatedAt ? local : remote;
+  }
+  return local.deviceId > remote.deviceId ? local : remote;
+}
+
+/**
+ * Last writer wins for the whole row, except `column`, which keeps whichever
+ * value ranks higher (e.g. a cancellation isn't undone by an older edit)
+ */
+function mergeByRank(
+  local: VersionedRow,
+  remote: VersionedRow,
+  column: string,
+  ranks: { [value: string]: number }
+): { [column: string]: any } {
+  const winner = lastWriterWins(local, remote);
+  const localRank = ranks[local.row[column]] ?? -1;
+  const remoteRank = ranks[remote.row[column]] ?? -1;
+  if (localRank === remoteRank) return { ...winner.row };
+  return { ...winner.row, [column]: localRank > remoteRank ? local.row[column] : remote.row[column] };
+}
+
+const SESSION_STATUS_RANK = { scheduled: 0, active: 1, completed: 2, cancelled: 3 };
+const REQUEST_STATUS_RANK = { pending: 0, accepted: 1, declined: 1 }; // Answered beats pending; two answers fall back to last writer
+const CONNECTION_STATUS_RANK = { active: 0, blocked: 1 };
+const PATTERN_STATUS_RANK = { want_to_learn: 0, want_to_avoid: 0, known: 1 }; // Learning a pattern isn't undone by an older edit
+const PROFICIENCY_RANK: { [level: string]: number } = { learning: 0, few_cycles: 1, solid: 2, can_teach: 3 };
+
+/**
+ * Resolvers for concurrent edits, one per offline service.
+ * Deletes are handled before resolvers run: a delete always wins.
+ */
+export const CONFLICT_RESOLVERS: { [service in OfflineService]: ConflictResolver } = {
+  sessions: (local, remote) => mergeByRank(local, remote, 'status', SESSION_STATUS_RANK),
+
+  connections: (local, remote, table) => table === 'connection_requests'
+    ? mergeByRank(local, remote, 'status', REQUEST_STATUS_RANK)
+    : mergeByRank(local, remote, 'status', CONNECTION_STATUS_RANK),
+
+  patterns: (local, remote) => {
+    const merged = mergeByRank(local, remote, 'status', PATTERN_STATUS_RANK);
+    if (local.row.status === 'known' && remote.row.status === 'known') {
+      // Both devices marked it known: keep the higher proficiency
+      const localLevel = PROFICIENCY_RANK[local.row.proficiency] ?? -1;
+      const remoteLevel = PROFICIENCY_RANK[remote.row.proficiency] ?? -1;
+      merged.proficiency = localLevel >= remoteLevel ? local.row.proficiency : remote.row.proficiency;
+    }
+    return merged;
+  },
+
+  // Practice logs are append-only, so concurrent edits only happen to the same log's notes
+  practice: (local, remote) => ({ ...lastWriterWins(local, remote).row }),
+
+  // Reviews and contribution records are append-only; a contributed pattern's
+  // status follows its latest review or edit
+  moderation: (local, remote) => ({ ...lastWriterWins(local, remote).row }),
+
+  // A user's rating of a pattern is theirs alone, so the latest edit wins
+  ratings: (local, remote) => ({ ...lastWriterWins(local, remote).row }),
+};
@@ -1,9 +1,16 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase, isSupabaseConfigured } from './supabase';
-import { PatternStatus, UserPattern } from '../types';
+import { PatternProficiency, PatternStatus, UserPattern } from '../types';
 import { SyncService } from './sync';
 import { RealTimeSyncService } from './realTimeSync';
 
+export const PROFICIENCY_LEVELS: { value: PatternProficiency; label: string; weight: number }[] = [
+  { value: 'learning', label: 'Learning', weight: 0.25 },
+  { value: 'few_cycles', label: 'A few cycles', weight: 0.5 },
+  { value: 'solid', label: 'Solid', weight: 1 },
+  { value: 'can_teach', label: 'Can teach', weight: 1.5 },
+];
+
 export class UserPatternService {
   private static STORAGE_KEY = 'user_patterns';
   private static USE_SUPABASE = true; // Enable Supabase backend (will fallback to local if not configured)
@@ -39,6 +46,7 @@ export class UserPatternService {
           userId: item.user_id,
           patternId: item.pattern_id,
           status: item.status as PatternStatus,
+          proficiency: this.resolveProficiency(item.status, item.proficiency),
           updatedAt: new Date(item.created_at)
         }));
 
@@ -70,6 +78,7 @@ export class UserPatternService {
           userId: item.userId,
           patternId: item.patternId,
           status: item.status as PatternStatus,
+          proficiency: this.resolveProficiency(item.status, item.proficiency),
           updatedAt: new Date(item.updatedAt || Date.now())
         }));
       }
@@ -82,13 +91,15 @@ export class UserPatternService {
   }
 
   /**
-   * Set or update a pattern status for a user
+   * Set or update a pattern status for a user.
+   * Known patterns keep their existing proficiency unless a new one is given.
    */
   static async setPatternStatus(
     userId: string, 
     patternId: string, 
     status: PatternStatus,
-    userName?: string
+    userName?: string,
+    proficiency?: PatternProficiency
   ): Promise<boolean> {
     try {
       const key = `${this.STORAGE_KEY}_${userId}`;
@@ -102,12 +113,14 @@ export class UserPatternService {
       const filteredPatterns = existingPatterns.filter(p => p.patternId !== patternId);
       
       // Add new entry
+      const keepProficiency = existingPattern?.status === status ? existingPattern.proficiency : undefined;
       const updatedPatterns = [
         ...filteredPatterns,
         { 
           userId, 
           patternId, 
           status,
+          proficiency: this.resolveProficiency(status, proficiency || keepProficiency),
           updatedAt: new Date()
         }
       ];
@@ -136,6 +149,64 @@ export class UserPatternService {
     }
   }
 
+  /**
+   * Set how well a user juggles a pattern.
+   * "Learning" keeps the pattern in want-to-learn; any other level marks it known.
+   */
+  static async setPatternProficiency(
+    userId: string,
+    patternId: string,
+    proficiency: PatternProficiency,
+    userName?: string
+  ): Promise<boolean> {
+    const status: PatternStatus = proficiency === 'learning' ? 'want_to_learn' : 'known';
+    return this.setPatternStatus(userId, patternId, status, userName, proficiency);
+  }
+
+  /**
+   * Matching weight for a proficiency level (solid = 1)
+   */
+  static getProficiencyWeight(proficiency?: PatternProficiency): number {
+    return PROFICIENCY_LEVELS.find(level => level.value === proficiency)?.weight ?? 1;
+  }
+
+  /**
+   * Fill in a proficiency for entries saved before proficiency levels existed:
+   * known patterns default to solid, anything else has no level unless one was saved
+   */
+  private static resolveProficiency(status: PatternStatus, proficiency?: string): PatternProficiency | undefined {
+    if (status === 'want_to_avoid') return undefined;
+    if (PROFICIENCY_LEVELS.some(level => level.value === proficiency)) {
+      const level = proficiency as PatternProficiency;
+      if (status === 'known' && level === 'learning') return 'few_cycles';
+      if (status === 'want_to_learn' && level !== 'learning') return undefined;
+      return level;
+    }
+    return status === 'known' ? 'solid' : undefined;
+  }
+
+  /**
+   * Rewrite a user's stored patterns with proficiency filled in
+   */
+  static async migrateProficiency(userId: string): Promise<number> {
+    try {
+      const key = `${this.STORAGE_KEY}_${userId}`;
+      const storedData = await AsyncStorage.getItem(key);
+      if (!storedData) return 0;
+
+      const stored: any[] = JSON.parse(storedData);
+      const needsMigration = stored.filter(item => item.proficiency === undefined && item.status === 'known');
+      if (needsMigration.length === 0) return 0;
+
+      const migrated = await this.getUserPatternsLocal(userId);
+      await AsyncStorage.setItem(key, JSON.stringify(migrated));
+      return needsMigration.length;
+    } catch (error) {
+      console.error('Error in migrateProficiency:', error);
+      return 0;
+    }
+  }
+
   /**
    * Remove a pattern status for a user
    */
@@ -233,7 +304,8 @@ export class UserPatternService {
   }
 
   /**
-   * Export user pattern data
+   * Export user pattern data as stored; PatternShareService.exportUserPatterns
+   * wraps it in the versioned format other devices can import
    */
   static async exportUserPatterns(userId: string): Promise<UserPattern[]> {
     return this.getUserPatterns(userId);
@@ -1,7 +1,12 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { supabase, isSupabaseConfigured } from './supabase';
+import { DataRepository, Row, neq } from './repository';
+import { RepositoryProvider } from './repositoryProvider';
 // Import patterns for semantic understanding
 import { patterns, getPatternById } from '../data/patterns';
+import { GeoPoint, Match, PatternProficiency, TimeBlock } from '../types';
+import { AvailabilityService } from './availability';
+import { LocationService } from './location';
+import { MatchProfile, MatchScore, MatchScoringService } from './matchScoring';
 
 export interface UserProfile {
   id: string;
@@ -10,10 +15,14 @@ export interface UserProfile {
   experience: 'Beginner' | 'Intermediate' | 'Advanced';
   preferredProps: string[];
   location?: string;
+  coordinates?: GeoPoint; // Rounded to the privacy grid, see LocationService
   lastActive: string;
   bio?: string;
   knownPatterns: string[];
   wantToLearnPatterns: string[];
+  patternProficiency?: { [pattern: string]: PatternProficiency }; // Keyed like knownPatterns; known patterns without an entry count as solid
+  availability?: TimeBlock[];
+  timezone?: string; // IANA timezone the availability is written in
 }
 
 // Add new interfaces for enhanced search
@@ -24,6 +33,8 @@ export interface SearchOptions {
   includeLocation?: boolean;
   maxDistance?: number;
   experienceRange?: ('Beginner' | 'Intermediate' | 'Advanced')[];
+  radiusKm?: number; // Only users within this distance of origin
+  origin?: GeoPoint; // Defaults to the searching user's coordinates
 }
 
 export interface EnhancedSearchResult extends UserProfile {
@@ -32,112 +43,114 @@ export interface EnhancedSearchResult extends UserProfile {
   teachingOpportunities: string[];
   learningOpportunities: string[];
   sharedPatterns: string[];
+  distanceKm?: number; // From the search origin, when both have coordinates
 }
 
-export class UserSearchService {
-  private static USERS_KEY = 'all_users';
-  private static USE_SUPABASE = true; // Enable Supabase backend (will fallback to local if not configured)
+// How far from a place named in a search query users still count as "in" it
+const NEARBY_KM = 25;
 
-  /**
-   * Check if Supabase is properly configured
-   */
-  private static isSupabaseConfigured(): boolean {
-    return isSupabaseConfigured() === true;
-  }
+export class UserSearchService {
+  private static USERS_KEY = 'all_users'; // Where profiles were stored before the local repository
 
   /**
    * Get all users in the system (excluding current user)
    */
   static async getAllUsers(currentUserId: string): Promise<UserProfile[]> {
     try {
-      console.log(`UserSearchService: getAllUsers called for user ${currentUserId}`);
-      
-      if (this.USE_SUPABASE && this.isSupabaseConfigured() && supabase) {
-        console.log('UserSearchService: Using Supabase backend');
-        // Use Supabase for real backend
-        const { data, error } = await supabase
-          .from('users')
-          .select('*')
-          .neq('id', currentUserId)
-          .order('updated_at', { ascending: false });
-
-        if (error) {
-          console.error('Supabase error getting users:', error);
-          console.log('UserSearchService: Falling back to local storage due to Supabase error');
-          return this.getAllUsersLocal(currentUserId);
-        }
-
-        const users = data.map((user: any) => ({
-          id: user.id,
-          name: user.name,
-          avatar: user.avatar,
-          experience: user.experience,
-          preferredProps: user.preferred_props || [],
-          location: user.location,
-          lastActive: this.formatLastActive(user.updated_at),
-          bio: user.bio || '',
-          knownPatterns: user.known_patterns || [],
-          wantToLearnPatterns: user.want_to_learn_patterns || [],
-        }));
-
-        console.log(`UserSearchService: Loaded ${users.length} users from Supabase`);
-        return users;
-      } else {
-        // Fallback to AsyncStorage for development/testing
-        console.log('UserSearchService: Using local storage for getting users (Supabase not configured or disabled)');
-        const localUsers = await this.getAllUsersLocal(currentUserId);
-        console.log(`UserSearchService: getAllUsers returning ${localUsers.length} users from local storage`);
-        return localUsers;
-      }
+      const users = await this.selectUsers(RepositoryProvider.get(), currentUserId);
+      console.log(`UserSearchService: Loaded ${users.length} users from ${this.getBackendStatus()}`);
+      return users;
     } catch (error) {
       console.error('Error getting all users:', error);
-      console.log('UserSearchService: Falling back to local storage due to error');
-      const fallbackUsers = await this.getAllUsersLocal(currentUserId);
-      console.log(`UserSearchService: Error fallback returning ${fallbackUsers.length} users`);
-      return fallbackUsers;
+      console.log('UserSearchService: Falling back to the local repository');
+      return this.getAllUsersLocal(currentUserId);
     }
   }
 
   /**
-   * Get users from local storage (fallback)
+   * Get users from the on-device repository (fallback)
    */
   private static async getAllUsersLocal(currentUserId: string): Promise<UserProfile[]> {
     try {
-      console.log(`UserSearchService: Getting users from local storage, excluding user ${currentUserId}`);
-      const stored = await AsyncStorage.getItem(this.USERS_KEY);
-      console.log(`UserSearchService: Raw stored data:`, stored ? `exists (${stored.length} chars)` : 'null');
-      
-      if (stored) {
-        const users = JSON.parse(stored);
-        console.log(`UserSearchService: Parsed ${users.length} users from storage:`);
-        users.forEach((user: UserProfile, index: number) => {
-          console.log(`  ${index + 1}. ${user.name} (${user.id})`);
-        });
-        
-        const filteredUsers = users.filter((user: UserProfile) => user.id !== currentUserId);
-        console.log(`UserSearchService: After filtering current user ${currentUserId}, ${filteredUsers.length} users remain:`);
-        filteredUsers.forEach((user: UserProfile, index: number) => {
-          console.log(`  ${index + 1}. ${user.name} (${user.id})`);
-        });
-        return filteredUsers;
-      }
-
-      // Return demo users if no stored data
-      console.log('UserSearchService: No stored users found, returning demo users');
-      const demoUsers = this.getDemoUsers().filter(user => user.id !== currentUserId);
-      console.log(`UserSearchService: Returning ${demoUsers.length} demo users:`);
-      demoUsers.forEach((user: UserProfile, index: number) => {
-        console.log(`  ${index + 1}. ${user.name} (${user.id})`);
-      });
-      return demoUsers;
+      return await this.selectUsers(RepositoryProvider.getLocal(), currentUserId);
     } catch (error) {
-      console.error('Error getting users from local storage:', error);
-      const demoUsers = this.getDemoUsers().filter(user => user.id !== currentUserId);
-      console.log(`UserSearchService: Error fallback - returning ${demoUsers.length} demo users`);
-      return demoUsers;
+      console.error('Error getting users from the local repository:', error);
+      return this.getDemoUsers().filter(user => user.id !== currentUserId);
     }
   }
 
+  private static async selectUsers(repository: DataRepository, currentUserId: string): Promise<UserProfile[]> {
+    await RepositoryProvider.seedLocalTable(repository, 'users', () => this.getLocalSeed());
+    const rows = await repository.select('users', {
+      filters: currentUserId ? [neq('id', currentUserId)] : [],
+      orderBy: { column: 'updated_at', ascending: false },
+    });
+    return rows.map(row => this.toUserProfile(row));
+  }
+
+  /**
+   * Rows for a new on-device repository: profiles saved by older versions, or demo users
+   */
+  private static async getLocalSeed(): Promise<Row[]> {
+    const stored = await AsyncStorage.getItem(this.USERS_KEY);
+    const users: UserProfile[] = stored ? JSON.parse(stored) : this.getDemoUsers();
+    if (stored) {
+      console.log(`UserSearchService: Moving ${users.length} stored users into the local repository`);
+      await AsyncStorage.removeItem(this.USERS_KEY);
+    }
+    return users.map(user => this.toUserRow(user, parseLastActive(user.lastActive)));
+  }
+
+  private static toUserProfile(row: Row): UserProfile {
+    return {
+      id: row.id,
+      name: row.name,
+      avatar: row.avatar,
+      experience: row.experience,
+      preferredProps: row.preferred_props || [],
+      location: row.location,
+      coordinates: this.toCoordinates(row),
+      lastActive: this.formatLastActive(row.updated_at),
+      bio: row.bio || '',
+      knownPatterns: row.known_patterns || [],
+      wantToLearnPatterns: row.want_to_learn_patterns || [],
+      patternProficiency: row.pattern_proficiency || {},
+      availability: row.availability || [],
+      timezone: row.timezone || undefined,
+    };
+  }
+
+  private static toUserRow(user: UserProfile, updatedAt: Date = new Date()): Row {
+    return {
+      id: user.id,
+      name: user.name,
+      avatar: user.avatar,
+      experience: user.experience,
+      preferred_props: user.preferredProps,
+      location: user.location,
+      latitude: user.coordinates?.latitude ?? null,
+      longitude: user.coordinates?.longitude ?? null,
+      bio: user.bio,
+      known_patterns: user.knownPatterns,
+      want_to_learn_patterns: user.wantToLearnPatterns,
+      pattern_proficiency: user.patternProficiency || {},
+      availability: user.availability,
+      timezone: user.timezone,
+      updated_at: updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Stored coordinates, or the gazetteer's for rows saved before they existed
+   */
+  private static toCoordinates(row: Row): GeoPoint | undefined {
+    if (typeof row.latitude === 'number' && typeof row.longitude === 'number') {
+      return { latitude: row.latitude, longitude: row.longitude };
+    }
+    const resolved = row.location ? LocationService.resolve(row.location) : null;
+    return resolved ? { latitude: resolved.latitude, longitude: resolved.longitude } : undefined;
+  }
+
   /**
    * Format last active timestamp
    */
@@ -194,117 +207,68 @@ export class UserSearchService {
    */
   static async addOrUpdateUser(user: UserProfile): Promise<boolean> {
     try {
-      if (this.USE_SUPABASE && this.isSupabaseConfigured() && supabase) {
-        // Use Supabase for real backend
-        const { error } = await supabase
-          .from('users')
-          .upsert({
-            id: user.id,
-            name: user.name,
-            avatar: user.avatar,
-            experience: user.experience,
-            preferred_props: user.preferredProps,
-            location: user.location,
-            bio: user.bio,
-            known_patterns: user.knownPatterns,
-            want_to_learn_patterns: user.wantToLearnPatterns,
-            updated_at: new Date().toISOString()
-          }, {
-            onConflict: 'id'
-          });
-
-        if (error) {
-          console.error('Supabase error adding/updating user:', error);
-          console.log('UserSearchService: Falling back to local storage due to Supabase error');
-          return this.addOrUpdateUserLocal(user);
-        }
+      await this.upsertUser(RepositoryProvider.get(), user);
+      console.log(`UserSearchService: Saved user ${user.name} to ${this.getBackendStatus()}`);
+      return true;
+    } catch (error) {
+      console.error('Error adding/updating user:', error);
+      if (!RepositoryProvider.isRemote()) return false;
 
-        console.log(`UserSearchService: Successfully saved user ${user.name} to Supabase`);
+      console.log('UserSearchService: Falling back to the local repository');
+      try {
+        await this.upsertUser(RepositoryProvider.getLocal(), user);
         return true;
-      } else {
-        // Fallback to AsyncStorage for development/testing
-        console.log('UserSearchService: Using local storage for saving user (Supabase not configured or disabled)');
-        return this.addOrUpdateUserLocal(user);
+      } catch (fallbackError) {
+        console.error('UserSearchService: Error saving user locally:', fallbackError);
+        return false;
       }
-    } catch (error) {
-      console.error('Error adding/updating user:', error);
-      console.log('UserSearchService: Falling back to local storage due to error');
-      return this.addOrUpdateUserLocal(user);
     }
   }
 
+  private static async upsertUser(repository: DataRepository, user: UserProfile): Promise<void> {
+    // Seed first so saving the first profile doesn't hide the demo users
+    await RepositoryProvider.seedLocalTable(repository, 'users', () => this.getLocalSeed());
+    await repository.upsert('users', this.toUserRow(user));
+  }
+
   /**
-   * Add or update user locally (fallback)
+   * Compatibility score (0-100) between users, weighted by the configured
+   * matching algorithm version
    */
-  private static async addOrUpdateUserLocal(user: UserProfile): Promise<boolean> {
-    try {
-      console.log(`UserSearchService: Adding/updating user ${user.name} (${user.id}) locally`);
-      
-      const existingUsers = await this.getAllUsersLocal('');  // Get all users, don't filter by current user
-      console.log(`UserSearchService: Found ${existingUsers.length} existing users before adding/updating`);
-      
-      const userIndex = existingUsers.findIndex(u => u.id === user.id);
-      
-      if (userIndex >= 0) {
-        console.log(`UserSearchService: Updating existing user at index ${userIndex}`);
-        existingUsers[userIndex] = user;
-      } else {
-        console.log(`UserSearchService: Adding new user (total will be ${existingUsers.length + 1})`);
-        existingUsers.push(user);
-      }
+  static calculateCompatibilityScore(user1: UserProfile, user2: UserProfile): number {
+    return MatchScoringService.score(user1, user2).total;
+  }
 
-      const dataToStore = JSON.stringify(existingUsers);
-      console.log(`UserSearchService: Storing ${existingUsers.length} users to key '${this.USERS_KEY}' (${dataToStore.length} chars)`);
-      
-      await AsyncStorage.setItem(this.USERS_KEY, dataToStore);
-      
-      // Verify the storage worked
-      const verification = await AsyncStorage.getItem(this.USERS_KEY);
-      console.log(`UserSearchService: Verification - stored data ${verification ? 'exists' : 'is null'} (${verification?.length || 0} chars)`);
-      
-      return true;
-    } catch (error) {
-      console.error('UserSearchService: Error adding/updating user locally:', error);
-      return false;
-    }
+  /**
+   * Compatibility score with the points each factor contributed
+   */
+  static getCompatibilityBreakdown(user1: MatchProfile, user2: MatchProfile): MatchScore {
+    return MatchScoringService.score(user1, user2);
   }
 
   /**
-   * Calculate compatibility score between users based on patterns
+   * Build a match between two users, including the weekly windows they are both free
+   * (shown in user1's timezone)
    */
-  static calculateCompatibilityScore(user1: UserProfile, user2: UserProfile): number {
-    const user1Known = new Set(user1.knownPatterns);
-    const user1WantToLearn = new Set(user1.wantToLearnPatterns);
+  static createMatch(user1: UserProfile, user2: UserProfile): Match {
     const user2Known = new Set(user2.knownPatterns);
-    const user2WantToLearn = new Set(user2.wantToLearnPatterns);
-
-    // Shared patterns both know
-    const sharedKnown = [...user1Known].filter(pattern => user2Known.has(pattern));
-    
-    // Teaching opportunities (user1 knows what user2 wants to learn)
-    const user1CanTeachUser2 = [...user1Known].filter(pattern => user2WantToLearn.has(pattern));
-    
-    // Learning opportunities (user2 knows what user1 wants to learn)
-    const user2CanTeachUser1 = [...user2Known].filter(pattern => user1WantToLearn.has(pattern));
 
-    // Base score from shared patterns
-    let score = sharedKnown.length * 15;
-    
-    // Bonus for teaching opportunities (mutual learning)
-    score += (user1CanTeachUser2.length + user2CanTeachUser1.length) * 10;
-    
-    // Experience level compatibility bonus
-    const experienceLevels = ['Beginner', 'Intermediate', 'Advanced'];
-    const user1Level = experienceLevels.indexOf(user1.experience);
-    const user2Level = experienceLevels.indexOf(user2.experience);
-    const levelDiff = Math.abs(user1Level - user2Level);
-    
-    if (levelDiff === 0) score += 20; // Same level
-    else if (levelDiff === 1) score += 10; // Adjacent levels
-    // No bonus for 2+ level difference
-
-    // Cap the score at 100
-    return Math.min(score, 100);
+    return {
+      id: `match_${user1.id}_${user2.id}`,
+      user1Id: user1.id,
+      user2Id: user2.id,
+      score: this.calculateCompatibilityScore(user1, user2),
+      sharedAvailability: AvailabilityService.findSharedWindows([
+        { availability: user1.availability || [], timezone: user1.timezone },
+        { availability: user2.availability || [], timezone: user2.timezone },
+      ]),
+      sharedPatterns: user1.knownPatterns.filter(pattern => user2Known.has(pattern)),
+      teachingOpportunities: {
+        user1CanTeach: user1.knownPatterns.filter(pattern => user2.wantToLearnPatterns.includes(pattern)),
+        user2CanTeach: user2.knownPatterns.filter(pattern => user1.wantToLearnPatterns.includes(pattern)),
+      },
+      createdAt: new Date(),
+    };
   }
 
   /**
@@ -322,19 +286,30 @@ export class UserSearchService {
         includeBio = true,
         includeLocation = true,
         maxDistance = 0.6,
-        experienceRange = ['Beginner', 'Intermediate', 'Advanced']
+        experienceRange = ['Beginner', 'Intermediate', 'Advanced'],
+        radiusKm,
       } = options;
 
-      const allUsers = await this.getAllUsers(currentUserId);
       const currentUser = await this.getCurrentUserProfile(currentUserId);
-      
+      const origin = options.origin || currentUser?.coordinates;
+      const distanceTo = (user: UserProfile) => LocationService.distanceBetween(origin, user.coordinates);
+
+      // Without an origin there's nothing to measure from, so the radius is ignored
+      const allUsers = (await this.getAllUsers(currentUserId)).filter(user => {
+        if (radiusKm === undefined || !origin) return true;
+        const distance = distanceTo(user);
+        return distance !== undefined && distance <= radiusKm;
+      });
+
       if (!query.trim()) {
-        return this.convertToEnhancedResults(allUsers, currentUser);
+        return this.convertToEnhancedResults(allUsers, currentUser, distanceTo);
       }
 
       const results: EnhancedSearchResult[] = [];
       const queryLower = query.toLowerCase().trim();
       const queryWords = queryLower.split(/\s+/);
+      // A query naming a place ("Oakland", "94110") also finds users near it
+      const queryPlace = includeLocation ? LocationService.resolve(query) : null;
 
       for (const user of allUsers) {
         if (!experienceRange.includes(user.experience)) continue;
@@ -360,7 +335,11 @@ export class UserSearchService {
 
         // Location matching
         if (includeLocation && user.location) {
-          const locationScore = this.calculateFieldScore(user.location, queryWords, fuzzyMatch, maxDistance);
+          let locationScore = this.calculateFieldScore(user.location, queryWords, fuzzyMatch, maxDistance);
+          const placeDistance = LocationService.distanceBetween(queryPlace || undefined, user.coordinates);
+          if (placeDistance !== undefined && placeDistance <= NEARBY_KM) {
+            locationScore = Math.max(locationScore, 1 - placeDistance / NEARBY_KM);
+          }
           if (locationScore > 0) {
             searchScore += locationScore * 1.2;
             matchedFields.push('location');
@@ -388,7 +367,8 @@ export class UserSearchService {
             matchedFields,
             teachingOpportunities: teachingOps,
             learningOpportunities: learningOps,
-            sharedPatterns
+            sharedPatterns,
+            distanceKm: distanceTo(user),
           });
         }
       }
@@ -512,84 +492,10 @@ export class UserSearchService {
   }
 
   /**
-   * Enhanced compatibility scoring with pattern relationship awareness
+   * Compatibility with the searching user, if they have a profile
    */
   private static calculateEnhancedCompatibilityScore(user1: UserProfile | null, user2: UserProfile): number {
-    if (!user1) return 0;
-
-    const user1Known = new Set(user1.knownPatterns);
-    const user1WantToLearn = new Set(user1.wantToLearnPatterns);
-    const user2Known = new Set(user2.knownPatterns);
-    const user2WantToLearn = new Set(user2.wantToLearnPatterns);
-
-    let score = 0;
-
-    // Shared patterns (practicing together)
-    const sharedKnown = [...user1Known].filter(pattern => user2Known.has(pattern));
-    score += sharedKnown.length * 20; // Higher weight for shared patterns
-
-    // Teaching opportunities with difficulty progression awareness
-    const user1CanTeach = [...user1Known].filter(pattern => user2WantToLearn.has(pattern));
-    const user2CanTeach = [...user2Known].filter(pattern => user1WantToLearn.has(pattern));
-    
-    // Weight teaching opportunities by pattern difficulty and prerequisites
-    for (const patternName of user1CanTeach) {
-      const pattern = patterns.find(p => p.name === patternName);
-      const weight = this.getPatternTeachingWeight(pattern);
-      score += 15 * weight;
-    }
-
-    for (const patternName of user2CanTeach) {
-      const pattern = patterns.find(p => p.name === patternName);
-      const weight = this.getPatternTeachingWeight(pattern);
-      score += 15 * weight;
-    }
-
-    // Experience level synergy
-    const experienceLevels = ['Beginner', 'Intermediate', 'Advanced'];
-    const user1Level = experienceLevels.indexOf(user1.experience);
-    const user2Level = experienceLevels.indexOf(user2.experience);
-    const levelDiff = Math.abs(user1Level - user2Level);
-    
-    if (levelDiff === 0) score += 25; // Same level - great for peer learning
-    else if (levelDiff === 1) score += 15; // One level apart - good mentor/student dynamic
-    else score += 5; // Two levels apart - still valuable but less ideal
-
-    // Prop compatibility bonus
-    const user1Props = new Set(user1.preferredProps || []);
-    const user2Props = new Set(user2.preferredProps || []);
-    const sharedProps = [...user1Props].filter(prop => user2Props.has(prop));
-    score += sharedProps.length * 10;
-
-    return Math.min(score, 100);
-  }
-
-  /**
-   * Calculate teaching weight based on pattern complexity and prerequisites
-   */
-  private static getPatternTeachingWeight(pattern: any): number {
-    if (!pattern) return 1;
-
-    let weight = 1;
-
-    // More complex patterns are more valuable to teach
-    switch (pattern.difficulty) {
-      case 'Advanced': weight *= 1.5; break;
-      case 'Intermediate': weight *= 1.2; break;
-      case 'Beginner': weight *= 1.0; break;
-    }
-
-    // Patterns with prerequisites are more valuable
-    if (pattern.prerequisites && pattern.prerequisites.length > 0) {
-      weight *= 1.3;
-    }
-
-    // Popular/highly rated patterns are more valuable
-    if (pattern.communityRating && pattern.communityRating >= 4.0) {
-      weight *= 1.2;
-    }
-
-    return weight;
+    return user1 ? MatchScoringService.score(user1, user2).total : 0;
   }
 
   /**
@@ -631,14 +537,19 @@ export class UserSearchService {
   /**
    * Convert regular user profiles to enhanced search results
    */
-  private static convertToEnhancedResults(users: UserProfile[], currentUser: UserProfile | null): EnhancedSearchResult[] {
+  private static convertToEnhancedResults(
+    users: UserProfile[],
+    currentUser: UserProfile | null,
+    distanceTo: (user: UserProfile) => number | undefined
+  ): EnhancedSearchResult[] {
     return users.map(user => ({
       ...user,
       searchScore: 0,
       matchedFields: [],
       teachingOpportunities: this.findTeachingOpportunities(currentUser, user),
       learningOpportunities: this.findLearningOpportunities(currentUser, user),
-      sharedPatterns: this.findSharedPatterns(currentUser, user)
+      sharedPatterns: this.findSharedPatterns(currentUser, user),
+      distanceKm: distanceTo(user),
     }));
   }
 
@@ -671,6 +582,12 @@ export class UserSearchService {
         bio: 'Passionate juggler and passing pattern inventor. Love teaching and learning new patterns!',
         knownPatterns: ['6 Count', 'Walking Pass', '645', 'Custom Double Spin', 'Chocolate Bar', 'Countdown', 'Social Distancing'],
         wantToLearnPatterns: ['Madison Marmosets', 'Benzene Ring'],
+        patternProficiency: { '6 Count': 'can_teach', 'Walking Pass': 'can_teach', '645': 'can_teach', 'Social Distancing': 'few_cycles' },
+        availability: [
+          { day: 'tuesday', startTime: '18:00', endTime: '21:00' },
+          { day: 'saturday', startTime: '10:00', endTime: '14:00' },
+        ],
+        timezone: 'America/Los_Angeles',
       },
       {
         id: 'alex_chen',
@@ -704,6 +621,7 @@ export class UserSearchService {
         bio: 'New to passing but eager to learn!',
         knownPatterns: ['6 Count'],
         wantToLearnPatterns: ['Walking Pass', '645'],
+        patternProficiency: { '6 Count': 'few_cycles' },
       },
       {
         id: 'emma_watson',
@@ -736,16 +654,16 @@ export class UserSearchService {
    * Get current backend status for debugging
    */
   static getBackendStatus(): string {
-    return this.USE_SUPABASE && this.isSupabaseConfigured() ? 'Supabase' : 'Local Storage';
+    return RepositoryProvider.isRemote() ? 'Supabase' : 'Local Storage';
   }
 
   /**
-   * Clear all stored users (for debugging)
+   * Clear all users from the on-device repository (for debugging)
    */
   static async clearAllUsers(): Promise<boolean> {
     try {
       console.log('UserSearchService: Clearing all stored users');
-      await AsyncStorage.removeItem(this.USERS_KEY);
+      await RepositoryProvider.getLocal().delete('users', {});
       console.log('UserSearchService: Successfully cleared all users');
       return true;
     } catch (error) {
@@ -753,11 +671,17 @@ export class UserSearchService {
       return false;
     }
   }
+}
 
-  /**
-   * Get storage key for debugging
-   */
-  static getStorageKey(): string {
-    return this.USERS_KEY;
+/**
+ * Turn the "3 hours ago" text older versions stored back into a date
+ */
+function parseLastActive(lastActive: string | undefined): Date {
+  const match = (lastActive || '').match(/(\d+)\s+(minute|hour|day)s?\s+ago/);
+  if (!match) {
+    const date = new Date(lastActive || '');
+    return isNaN(date.getTime()) ? new Date() : date;
   }
+  const unitMs = { minute: 60 * 1000, hour: 60 * 60 * 1000, day: 24 * 60 * 60 * 1000 }[match[2] as 'minute' | 'hour' | 'day'];
+  return new Date(Date.now() - Number(match[1]) * unitMs);
 }
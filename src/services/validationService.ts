@@ -4,6 +4,12 @@
  */
 
 import { User, Pattern, ExperienceLevel, PropType, PatternStatus } from '../types';
+import { SiteswapService, SiteswapAnalysis } from './siteswap';
+import { PrechacService } from './prechac';
+import { PrerequisiteGraphService } from './prerequisiteGraph';
+import { PROP_TYPES, PropService } from './props';
+import { PATTERN_LINK_PREFIX } from './patternShare';
+import type { ChatMessage, ChatMessageMetadata } from './chatService';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -11,6 +17,15 @@ export interface ValidationResult {
   warnings?: string[];
 }
 
+export interface SiteswapValidationResult extends ValidationResult {
+  jugglers?: number;
+  numberOfProps?: number;
+  period?: number;
+  isGroundState?: boolean;
+  global?: SiteswapAnalysis;
+  local?: SiteswapAnalysis;
+}
+
 export interface ValidationRule<T> {
   field: keyof T;
   required?: boolean;
@@ -72,8 +87,9 @@ class ValidationService {
 
   /**
    * Validate pattern data
+   * Prerequisites are checked against `library` (defaults to the curriculum)
    */
-  static validatePattern(pattern: Partial<Pattern>): ValidationResult {
+  static validatePattern(pattern: Partial<Pattern>, library?: Pattern[]): ValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
 
@@ -107,6 +123,10 @@ class ValidationService {
       }
     }
 
+    if (pattern.propCounts) {
+      errors.push(...this.validatePropCounts(pattern));
+    }
+
     if (!pattern.description || pattern.description.trim().length === 0) {
       errors.push('Pattern description is required');
     } else if (pattern.description.length < 10) {
@@ -127,9 +147,30 @@ class ValidationService {
       const siteswapValidation = this.validateSiteswap(pattern.siteswap);
       if (!siteswapValidation.isValid) {
         errors.push(...siteswapValidation.errors);
+      } else {
+        warnings.push(...(siteswapValidation.warnings || []));
+
+        if (pattern.numberOfProps && siteswapValidation.numberOfProps !== undefined &&
+            pattern.numberOfProps !== siteswapValidation.numberOfProps) {
+          errors.push(
+            `Number of props is ${pattern.numberOfProps} but the siteswap uses ${siteswapValidation.numberOfProps}`
+          );
+        }
+
+        if (pattern.requiredJugglers && siteswapValidation.jugglers !== undefined &&
+            pattern.requiredJugglers !== siteswapValidation.jugglers) {
+          errors.push(
+            `Pattern requires ${pattern.requiredJugglers} jugglers but the siteswap describes ${siteswapValidation.jugglers}`
+          );
+        }
       }
     }
 
+    // Prerequisite validation
+    if (pattern.prerequisites && pattern.prerequisites.length > 0) {
+      errors.push(...PrerequisiteGraphService.validatePrerequisites(pattern, library));
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -139,33 +180,71 @@ class ValidationService {
 
   /**
    * Validate siteswap notation
+   * Local siteswaps are combined into one passing pattern (one part per juggler)
+   * and checked for collisions alongside the global siteswap.
    */
-  private static validateSiteswap(siteswap: Pattern['siteswap']): ValidationResult {
+  static validateSiteswap(siteswap: Pattern['siteswap']): SiteswapValidationResult {
     const errors: string[] = [];
+    const warnings: string[] = [];
+    let global: SiteswapAnalysis | undefined;
+    let local: SiteswapAnalysis | undefined;
 
     if (siteswap.global) {
-      // Basic siteswap validation - check for valid characters
-      const validSiteswapPattern = /^[\d\w\(\),p\[\]x\-\s]+$/;
-      if (!validSiteswapPattern.test(siteswap.global)) {
-        errors.push('Global siteswap contains invalid characters');
+      global = SiteswapService.analyze(siteswap.global);
+      errors.push(...global.errors.map(error => `Global siteswap: ${error}`));
+    }
+
+    const localEntries = Object.entries(siteswap.local || {});
+    if (localEntries.length > 0) {
+      local = SiteswapService.analyze(SiteswapService.combineLocal(siteswap.local!));
+      if (!local.isValid) {
+        const jugglers = localEntries.map(([juggler]) => juggler);
+        errors.push(...local.errors.map(error => `Local siteswap: ${this.nameJugglers(error, jugglers)}`));
       }
     }
 
-    if (siteswap.local) {
-      Object.entries(siteswap.local).forEach(([juggler, notation]) => {
-        const validSiteswapPattern = /^[\d\w\(\),p\[\]x\-\s]+$/;
-        if (!validSiteswapPattern.test(notation)) {
-          errors.push(`Local siteswap for ${juggler} contains invalid characters`);
-        }
-      });
+    if (global?.isValid && local?.isValid && global.numberOfProps !== local.numberOfProps) {
+      errors.push(
+        `Global siteswap uses ${global.numberOfProps} props but the local siteswaps use ${local.numberOfProps}`
+      );
+    }
+
+    // Passing patterns written in more than one form must describe the same pattern
+    const isPassing = localEntries.length > 1 || Object.keys(siteswap.prechac || {}).length > 1;
+    if (errors.length === 0 && isPassing) {
+      errors.push(...PrechacService.complete(siteswap).errors);
+    }
+
+    const primary = global?.isValid ? global : local;
+    if (primary?.isValid && !primary.isGroundState) {
+      warnings.push('Siteswap is an excited state pattern and needs a transition to start from a ground state');
     }
 
     return {
       isValid: errors.length === 0,
-      errors
+      errors,
+      warnings,
+      // A vanilla global siteswap is shared by however many jugglers the local form names
+      jugglers: local?.isValid ? local.parsed?.jugglers
+        : global?.parsed?.types.includes('passing') ? global.parsed.jugglers : undefined,
+      numberOfProps: primary?.numberOfProps,
+      period: primary?.period,
+      isGroundState: primary?.isGroundState,
+      global,
+      local
     };
   }
 
+  /**
+   * Replace "juggler 2" style numbering with the names used as local siteswap keys
+   */
+  private static nameJugglers(message: string, names: string[]): string {
+    return message.replace(/juggler (\d+)/g, (match, index) => {
+      const name = names[Number(index) - 1];
+      return name ? `juggler ${name}` : match;
+    });
+  }
+
   /**
    * Validate pattern status update
    */
@@ -190,6 +269,94 @@ class ValidationService {
     };
   }
 
+  /**
+   * Validate a chat message against the metadata schema of its type.
+   * pattern_share and session_invite messages need metadata; other kinds
+   * only need text.
+   */
+  static validateChatMessage(
+    messageType: ChatMessage['messageType'],
+    messageText: string,
+    metadata?: ChatMessageMetadata
+  ): ValidationResult {
+    const errors: string[] = [];
+    const data: { [key: string]: any } | undefined =
+      metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata : undefined;
+
+    if (!messageText || messageText.trim().length === 0) {
+      errors.push('Message text is required');
+    } else if (messageType === 'text' && messageText.length > 1000) {
+      errors.push('Messages must be less than 1000 characters');
+    }
+
+    switch (messageType) {
+      case 'text':
+      case 'image':
+        break;
+
+      case 'pattern_share':
+        if (!data) {
+          errors.push('Shared patterns need pattern details');
+          break;
+        }
+        if (!this.isNonEmptyString(data.patternId)) errors.push('Shared pattern ID is required');
+        if (!this.isNonEmptyString(data.patternName)) errors.push('Shared pattern name is required');
+        if (typeof data.link !== 'string' || !data.link.startsWith(PATTERN_LINK_PREFIX)) {
+          errors.push('Shared pattern link is invalid');
+        }
+        if (data.siteswap !== undefined && typeof data.siteswap !== 'string') {
+          errors.push('Shared pattern siteswap is invalid');
+        }
+        if (typeof data.difficulty !== 'string' || !this.isValidExperienceLevel(data.difficulty)) {
+          errors.push('Shared pattern difficulty is invalid');
+        }
+        if (!Number.isInteger(data.requiredJugglers) || data.requiredJugglers < 1) {
+          errors.push('Shared pattern juggler count is invalid');
+        }
+        break;
+
+      case 'session_invite':
+        if (!data) {
+          errors.push('Session invites need session details');
+          break;
+        }
+        if (typeof data.scheduledTime !== 'string' || isNaN(Date.parse(data.scheduledTime))) {
+          errors.push('Session time is invalid');
+        }
+        if (!Number.isInteger(data.duration) || data.duration < 15 || data.duration > 480) {
+          errors.push('Session length must be between 15 minutes and 8 hours');
+        }
+        if (!this.isNonEmptyString(data.location)) {
+          errors.push('Session location is required');
+        } else if (data.location.length > 200) {
+          errors.push('Session location must be less than 200 characters');
+        }
+        if (!Array.isArray(data.plannedPatterns) || data.plannedPatterns.some((name: unknown) => typeof name !== 'string')) {
+          errors.push('Planned patterns are invalid');
+        }
+        if (data.notes !== undefined && typeof data.notes !== 'string') {
+          errors.push('Session notes are invalid');
+        }
+        if (!data.responses || typeof data.responses !== 'object' ||
+            Object.values(data.responses).some(response => response !== 'accepted' && response !== 'declined')) {
+          errors.push('Session invite responses are invalid');
+        }
+        break;
+
+      default:
+        errors.push('Invalid message type');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  private static isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0;
+  }
+
   /**
    * Email validation
    */
@@ -208,8 +375,43 @@ class ValidationService {
   /**
    * Prop type validation
    */
-  private static isValidPropType(prop: string): prop is PropType {
-    return ['clubs', 'balls', 'rings'].includes(prop);
+  static isValidPropType(prop: string): prop is PropType {
+    return PropService.isPropType(prop);
+  }
+
+  /**
+   * Per-prop counts must cover exactly the pattern's prop types and add up to
+   * its number of props
+   */
+  private static validatePropCounts(pattern: Partial<Pattern>): string[] {
+    const errors: string[] = [];
+    const counts = pattern.propCounts || {};
+    const props = pattern.props || [];
+    const counted = Object.keys(counts);
+
+    const unknown = counted.filter(prop => !this.isValidPropType(prop));
+    if (unknown.length > 0) {
+      errors.push(`Prop counts name unknown props: ${unknown.join(', ')} (use ${PROP_TYPES.join(', ')})`);
+    }
+    const notListed = counted.filter(prop => this.isValidPropType(prop) && !props.includes(prop));
+    if (notListed.length > 0) {
+      errors.push(`Prop counts include props the pattern doesn't use: ${notListed.join(', ')}`);
+    }
+    const uncounted = props.filter(prop => counts[prop] === undefined);
+    if (uncounted.length > 0) {
+      errors.push(`Prop counts are missing for: ${uncounted.join(', ')}`);
+    }
+
+    const values = Object.values(counts) as number[];
+    if (values.some(count => !Number.isInteger(count) || count < 1)) {
+      errors.push('Each prop count must be a whole number of at least 1');
+    } else {
+      const total = values.reduce((sum, count) => sum + count, 0);
+      if (pattern.numberOfProps && total !== pattern.numberOfProps) {
+        errors.push(`Prop counts add up to ${total} but the pattern uses ${pattern.numberOfProps} props`);
+      }
+    }
+    return errors;
   }
 
   /**
@@ -1,14 +1,19 @@
 export type ExperienceLevel = 'Beginner' | 'Intermediate' | 'Advanced';
 
-export type PropType = 'clubs' | 'balls' | 'rings';
+export type PropType = 'clubs' | 'balls' | 'rings' | 'scarves' | 'torches' | 'hats';
+
+// How many of each prop a pattern uses, e.g. { clubs: 5, balls: 1 }
+export type PropCounts = { [prop in PropType]?: number };
 
 export type PatternStatus = 'known' | 'want_to_learn' | 'want_to_avoid';
 
+export type PatternProficiency = 'learning' | 'few_cycles' | 'solid' | 'can_teach';
+
 export type TimingType = 'fully_async' | 'semi_sync' | 'fully_sync';
 
 export type SourceType = 'official' | 'user_contributed' | 'community_verified';
 
-export type VerificationStatus = 'pending' | 'verified' | 'needs_review';
+export type VerificationStatus = 'pending' | 'verified' | 'needs_review' | 'rejected';
 
 export type WeekDay = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
 
@@ -18,6 +23,12 @@ export interface TimeBlock {
   endTime: string; // HH:MM format
 }
 
+// Rounded to a grid before it's stored, so it never pinpoints a home
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
 export interface User {
   id: string;
   name: string;
@@ -25,6 +36,9 @@ export interface User {
   experience: ExperienceLevel;
   preferredProps: PropType[];
   availability: TimeBlock[];
+  timezone?: string; // IANA timezone the availability is written in
+  location?: string; // Place name, e.g. "Berkeley, CA"
+  coordinates?: GeoPoint; // From the offline gazetteer
   knownPatterns: string[]; // Pattern IDs
   wantToLearnPatterns: string[]; // Pattern IDs
   avoidPatterns: string[]; // Pattern IDs
@@ -38,6 +52,7 @@ export interface Pattern {
   difficulty: ExperienceLevel;
   requiredJugglers: number;
   props: PropType[];
+  propCounts?: PropCounts; // Set when known; the counts add up to numberOfProps
   description: string;
   tags: string[];
   
@@ -94,6 +109,7 @@ export interface UserPattern {
   userId: string;
   patternId: string;
   status: PatternStatus;
+  proficiency?: PatternProficiency; // How well a known or in-progress pattern is juggled
 }
 
 export interface Match {
@@ -137,9 +153,11 @@ export interface PatternRating {
   id: string;
   patternId: string;
   userId: string;
+  userName?: string;
   rating: number; // 1-5 stars
   review?: string;
   createdAt: Date;
+  updatedAt?: Date; // Set when the rating or review is edited
 }
 
 export interface PatternContribution {
@@ -148,5 +166,37 @@ export interface PatternContribution {
   contributorId: string;
   contributionType: 'creation' | 'edit' | 'verification';
   changes?: string; // Description of what was changed
+  diff?: PatternFieldChange[]; // Field-level changes made by an edit
+  createdAt: Date;
+}
+
+export interface PatternFieldChange {
+  field: keyof Pattern;
+  before: unknown;
+  after: unknown;
+}
+
+// An immutable snapshot of a contributed pattern after one submission, edit or revert
+export interface PatternRevision {
+  id: string;
+  patternId: string;
+  revision: number; // 1 for the original submission
+  authorId: string;
+  summary?: string;
+  diff: PatternFieldChange[]; // Changes from the previous revision
+  pattern: Pattern; // The pattern as it was after this revision
+  revertedFrom?: number; // Set when this revision restored an earlier one
+  createdAt: Date;
+}
+
+export type PatternReviewDecision = 'approve' | 'request_changes' | 'reject';
+
+export interface PatternReview {
+  id: string;
+  patternId: string;
+  reviewerId: string;
+  reviewerName?: string;
+  decision: PatternReviewDecision;
+  comment?: string;
   createdAt: Date;
 }
@@ -0,0 +1,12 @@
+-- Migration to support availability-aware matching in PatternPals
+-- Stores the timezone each user's availability is written in
+-- Run this in Supabase Dashboard -> SQL Editor -> New Query
+
+-- IANA timezone name, e.g. 'America/Los_Angeles' (NULL is read as UTC)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+-- Verify the changes
+SELECT 'Migration completed successfully!' as status;
+SELECT column_name, is_nullable, data_type
+FROM information_schema.columns
+WHERE table_name = 'users' AND column_name IN ('availability', 'timezone');
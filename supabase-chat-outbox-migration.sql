@@ -0,0 +1,70 @@
+-- Migration for offline chat sending in PatternPals
+-- Messages carry the ID the sending device gave them, so resending a message after a dropped
+-- connection can't store it twice, and "delivered" now means a recipient's device has it.
+-- Run this in Supabase Dashboard -> SQL Editor -> New Query
+
+-- Client-generated message ID; unique per sender so a resend is recognised
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS client_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chat_messages_sender_client_id
+  ON chat_messages(sender_id, client_id)
+  WHERE client_id IS NOT NULL;
+
+-- delivered_at used to be set as soon as a message was saved. Recipients'
+-- devices now set it when the message reaches them.
+DROP TRIGGER IF EXISTS mark_delivered_on_insert ON chat_messages;
+DROP FUNCTION IF EXISTS mark_message_delivered();
+
+-- Only the sender and a 1:1 recipient update messages directly
+DROP POLICY IF EXISTS "Users can update their own messages" ON chat_messages;
+CREATE POLICY "Users can update their own messages" ON chat_messages
+  FOR UPDATE USING (sender_id = auth.uid() OR recipient_id = auth.uid());
+
+-- Members mark other people's messages in a conversation delivered; this sets delivered_at and nothing else
+CREATE OR REPLACE FUNCTION mark_messages_delivered(target_conversation_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    delivered_count INTEGER;
+BEGIN
+    IF NOT is_conversation_member(target_conversation_id) THEN
+        RETURN 0;
+    END IF;
+
+    UPDATE chat_messages
+    SET delivered_at = NOW()
+    WHERE conversation_id = target_conversation_id
+      AND sender_id <> auth.uid()
+      AND delivered_at IS NULL;
+
+    GET DIAGNOSTICS delivered_count = ROW_COUNT;
+    RETURN delivered_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Group members answer session invites; this records the caller's own answer and nothing else
+CREATE OR REPLACE FUNCTION respond_to_session_invite(target_message_id UUID, invite_response TEXT)
+RETURNS SETOF chat_messages AS $$
+BEGIN
+    IF invite_response NOT IN ('accepted', 'declined') THEN
+        RAISE EXCEPTION 'Invalid invite response';
+    END IF;
+
+    RETURN QUERY
+    UPDATE chat_messages
+    SET metadata = metadata || jsonb_build_object(
+      'responses',
+      COALESCE(metadata->'responses', '{}'::jsonb) || jsonb_build_object(auth.uid()::text, invite_response)
+    )
+    WHERE id = target_message_id
+      AND message_type = 'session_invite'
+      AND sender_id <> auth.uid()
+      AND is_conversation_member(conversation_id)
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Verify the changes
+SELECT 'Migration completed successfully!' as status;
+SELECT column_name, is_nullable, data_type
+FROM information_schema.columns
+WHERE table_name = 'chat_messages' AND column_name IN ('client_id', 'delivered_at');
@@ -0,0 +1,41 @@
+-- Migration for chat preferences in PatternPals
+-- Conversations can be pinned, archived and muted for a while or until unmuted. Senders check
+-- whether a recipient has muted a conversation before notifying them.
+-- Run this in Supabase Dashboard -> SQL Editor -> New Query
+
+-- Archived conversations are listed last; muted_until ends a timed mute (NULL mutes until turned off)
+ALTER TABLE chat_preferences ADD COLUMN IF NOT EXISTS is_archived BOOLEAN DEFAULT FALSE;
+ALTER TABLE chat_preferences ADD COLUMN IF NOT EXISTS muted_until TIMESTAMPTZ;
+
+-- Senders read a recipient's mute settings, so members can see each other's preferences
+DROP POLICY IF EXISTS "Members can view conversation preferences" ON chat_preferences;
+CREATE POLICY "Members can view conversation preferences" ON chat_preferences
+  FOR SELECT USING (is_conversation_member(conversation_id));
+
+-- The unread badge leaves out conversations the user has muted
+CREATE OR REPLACE FUNCTION get_unread_message_count(target_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    unread_count INTEGER;
+BEGIN
+    SELECT COUNT(*)
+    INTO unread_count
+    FROM chat_messages msg
+    JOIN chat_conversation_members m
+      ON m.conversation_id = msg.conversation_id AND m.user_id = target_user_id
+    LEFT JOIN chat_preferences p
+      ON p.conversation_id = msg.conversation_id AND p.user_id = target_user_id
+    WHERE msg.sender_id <> target_user_id
+      AND (m.last_read_at IS NULL OR msg.created_at > m.last_read_at)
+      AND NOT (COALESCE(p.is_muted, FALSE) AND (p.muted_until IS NULL OR p.muted_until > NOW()));
+
+    RETURN COALESCE(unread_count, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Verify the changes
+SELECT 'Migration completed successfully!' as status;
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'chat_preferences'
+ORDER BY ordinal_position;
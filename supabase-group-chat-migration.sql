@@ -0,0 +1,213 @@
+-- Migration for group chat in PatternPals
+-- Conversations get a member list with owner/member roles and per-member read markers,
+-- so passing groups can chat together. Existing 1:1 conversations become two-member conversations.
+-- Run this in Supabase Dashboard -> SQL Editor -> New Query
+
+-- Conversation members; last_read_at marks how far each member has read
+CREATE TABLE IF NOT EXISTS chat_conversation_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES chat_conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  joined_at TIMESTAMPTZ DEFAULT NOW(),
+  last_read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(conversation_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_conversation_members_user_id ON chat_conversation_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_chat_conversation_members_conversation_id ON chat_conversation_members(conversation_id);
+
+-- Groups have a title and creator instead of a fixed pair of users
+ALTER TABLE chat_conversations ADD COLUMN IF NOT EXISTS is_group BOOLEAN DEFAULT FALSE;
+ALTER TABLE chat_conversations ADD COLUMN IF NOT EXISTS title TEXT;
+ALTER TABLE chat_conversations ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE chat_conversations ALTER COLUMN user1_id DROP NOT NULL;
+ALTER TABLE chat_conversations ALTER COLUMN user2_id DROP NOT NULL;
+ALTER TABLE chat_conversations ALTER COLUMN user1_name DROP NOT NULL;
+ALTER TABLE chat_conversations ALTER COLUMN user2_name DROP NOT NULL;
+
+ALTER TABLE chat_conversations DROP CONSTRAINT IF EXISTS chat_conversations_check;
+ALTER TABLE chat_conversations ADD CONSTRAINT chat_conversations_check CHECK (
+  (is_group AND title IS NOT NULL) OR
+  (NOT is_group AND user1_id IS NOT NULL AND user2_id IS NOT NULL AND user1_id < user2_id)
+);
+
+-- Group messages go to every member, so they have no single recipient
+ALTER TABLE chat_messages ALTER COLUMN recipient_id DROP NOT NULL;
+
+-- Existing 1:1 conversations get both members. Each has read up to the last
+-- message they sent or had marked as read.
+INSERT INTO chat_conversation_members (conversation_id, user_id, user_name, role, joined_at, last_read_at)
+SELECT c.id, m.user_id, COALESCE(m.user_name, 'Unknown'), 'member', c.created_at,
+  (SELECT MAX(msg.created_at) FROM chat_messages msg
+   WHERE msg.conversation_id = c.id
+     AND (msg.sender_id = m.user_id OR (msg.recipient_id = m.user_id AND msg.read_at IS NOT NULL)))
+FROM chat_conversations c
+CROSS JOIN LATERAL (VALUES (c.user1_id, c.user1_name), (c.user2_id, c.user2_name)) AS m(user_id, user_name)
+WHERE NOT c.is_group
+ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+-- 1:1 conversations created by the database functions get their members too
+CREATE OR REPLACE FUNCTION add_direct_conversation_members()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.is_group THEN
+    INSERT INTO chat_conversation_members (conversation_id, user_id, user_name, role)
+    VALUES (NEW.id, NEW.user1_id, COALESCE(NEW.user1_name, 'Unknown'), 'member'),
+           (NEW.id, NEW.user2_id, COALESCE(NEW.user2_name, 'Unknown'), 'member')
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS add_members_on_new_conversation ON chat_conversations;
+CREATE TRIGGER add_members_on_new_conversation
+  AFTER INSERT ON chat_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION add_direct_conversation_members();
+
+-- Membership checks for policies; SECURITY DEFINER so policies on the members
+-- table can use them without recursing into themselves
+CREATE OR REPLACE FUNCTION is_conversation_member(target_conversation_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM chat_conversation_members
+    WHERE conversation_id = target_conversation_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION is_conversation_owner(target_conversation_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM chat_conversation_members
+    WHERE conversation_id = target_conversation_id AND user_id = auth.uid() AND role = 'owner'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION conversation_has_members(target_conversation_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM chat_conversation_members WHERE conversation_id = target_conversation_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+ALTER TABLE chat_conversation_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view conversation members" ON chat_conversation_members;
+CREATE POLICY "Members can view conversation members" ON chat_conversation_members
+  FOR SELECT USING (is_conversation_member(conversation_id));
+
+-- Owners add people; a group's creator adds the first members while it has none;
+-- 1:1 participants add each other and nobody else
+DROP POLICY IF EXISTS "Owners can add conversation members" ON chat_conversation_members;
+CREATE POLICY "Owners can add conversation members" ON chat_conversation_members
+  FOR INSERT WITH CHECK (
+    is_conversation_owner(conversation_id) OR
+    EXISTS (
+      SELECT 1 FROM chat_conversations c
+      WHERE c.id = conversation_id AND (
+        (c.is_group AND c.created_by = auth.uid() AND NOT conversation_has_members(c.id)) OR
+        (NOT c.is_group AND (c.user1_id = auth.uid() OR c.user2_id = auth.uid()) AND
+          user_id IN (c.user1_id, c.user2_id) AND role = 'member')
+      )
+    )
+  );
+
+-- Members move their own read marker; owners change roles
+DROP POLICY IF EXISTS "Members can update their membership" ON chat_conversation_members;
+DROP POLICY IF EXISTS "Members can update their read marker" ON chat_conversation_members;
+CREATE POLICY "Members can update their read marker" ON chat_conversation_members
+  FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Owners can update memberships" ON chat_conversation_members;
+CREATE POLICY "Owners can update memberships" ON chat_conversation_members
+  FOR UPDATE USING (is_conversation_owner(conversation_id)) WITH CHECK (is_conversation_owner(conversation_id));
+
+-- Policies pick rows, not columns, so a trigger keeps everything but last_read_at owner-only
+-- (auth.uid() is NULL for the service role and the SQL editor, which may change anything)
+CREATE OR REPLACE FUNCTION check_conversation_member_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND
+     (NEW.conversation_id, NEW.user_id, NEW.user_name, NEW.role, NEW.joined_at) IS DISTINCT FROM
+     (OLD.conversation_id, OLD.user_id, OLD.user_name, OLD.role, OLD.joined_at) AND
+     NOT is_conversation_owner(OLD.conversation_id) THEN
+    RAISE EXCEPTION 'Only conversation owners can change memberships';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_member_update ON chat_conversation_members;
+CREATE TRIGGER check_member_update
+  BEFORE UPDATE ON chat_conversation_members
+  FOR EACH ROW
+  EXECUTE FUNCTION check_conversation_member_update();
+
+-- Members leave; owners remove people
+DROP POLICY IF EXISTS "Members can leave and owners can remove" ON chat_conversation_members;
+CREATE POLICY "Members can leave and owners can remove" ON chat_conversation_members
+  FOR DELETE USING (user_id = auth.uid() OR is_conversation_owner(conversation_id));
+
+-- Conversations and messages are visible to members rather than a fixed pair
+DROP POLICY IF EXISTS "Users can view their conversations" ON chat_conversations;
+CREATE POLICY "Users can view their conversations" ON chat_conversations
+  FOR SELECT USING (is_conversation_member(id) OR created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create conversations with connected users" ON chat_conversations;
+CREATE POLICY "Users can create conversations with connected users" ON chat_conversations
+  FOR INSERT WITH CHECK (
+    (is_group AND created_by = auth.uid()) OR
+    (NOT is_group AND (user1_id = auth.uid() OR user2_id = auth.uid()) AND
+      EXISTS (
+        SELECT 1 FROM connections
+        WHERE (chat_conversations.user1_id = connections.user1_id AND chat_conversations.user2_id = connections.user2_id) OR
+              (chat_conversations.user1_id = connections.user2_id AND chat_conversations.user2_id = connections.user1_id)
+      ))
+  );
+
+DROP POLICY IF EXISTS "Users can update their conversations" ON chat_conversations;
+CREATE POLICY "Users can update their conversations" ON chat_conversations
+  FOR UPDATE USING (is_conversation_member(id));
+
+DROP POLICY IF EXISTS "Users can view messages in their conversations" ON chat_messages;
+CREATE POLICY "Users can view messages in their conversations" ON chat_messages
+  FOR SELECT USING (is_conversation_member(conversation_id));
+
+DROP POLICY IF EXISTS "Users can send messages in their conversations" ON chat_messages;
+CREATE POLICY "Users can send messages in their conversations" ON chat_messages
+  FOR INSERT WITH CHECK (sender_id = auth.uid() AND is_conversation_member(conversation_id));
+
+-- Recipients of 1:1 messages still set read_at on them
+DROP POLICY IF EXISTS "Users can update their own messages" ON chat_messages;
+CREATE POLICY "Users can update their own messages" ON chat_messages
+  FOR UPDATE USING (sender_id = auth.uid() OR recipient_id = auth.uid());
+
+-- Unread messages are those from other members after the user's read marker
+CREATE OR REPLACE FUNCTION get_unread_message_count(target_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    unread_count INTEGER;
+BEGIN
+    SELECT COUNT(*)
+    INTO unread_count
+    FROM chat_messages msg
+    JOIN chat_conversation_members m
+      ON m.conversation_id = msg.conversation_id AND m.user_id = target_user_id
+    WHERE msg.sender_id <> target_user_id
+      AND (m.last_read_at IS NULL OR msg.created_at > m.last_read_at);
+
+    RETURN COALESCE(unread_count, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Verify the changes
+SELECT 'Migration completed successfully!' as status;
+SELECT c.is_group, COUNT(DISTINCT c.id) AS conversations, COUNT(m.id) AS members
+FROM chat_conversations c
+LEFT JOIN chat_conversation_members m ON m.conversation_id = c.id
+GROUP BY c.is_group;
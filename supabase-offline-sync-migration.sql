@@ -0,0 +1,58 @@
+-- Migration for the offline sync engine in PatternPals
+-- Adds per-record vector clocks so queued offline changes can be compared with the server copy
+-- Run this in Supabase Dashboard -> SQL Editor -> New Query
+-- (after supabase-practice-logs-migration.sql, which creates practice_logs)
+
+-- Scheduled sessions were previously only stored on the device
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY,
+  host_id UUID NOT NULL,
+  partner_id UUID,
+  partner_name TEXT,
+  scheduled_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration INTEGER NOT NULL DEFAULT 60,
+  location TEXT,
+  planned_patterns TEXT[] DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'active', 'completed', 'cancelled')),
+  notes TEXT,
+  recurrence JSONB,
+  ical_uid TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Vector clock ({ deviceId: editCount }) and the device that wrote the current version
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS sync_clock JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS sync_device_id TEXT;
+ALTER TABLE practice_logs ADD COLUMN IF NOT EXISTS sync_clock JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE practice_logs ADD COLUMN IF NOT EXISTS sync_device_id TEXT;
+ALTER TABLE connection_requests ADD COLUMN IF NOT EXISTS sync_clock JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE connection_requests ADD COLUMN IF NOT EXISTS sync_device_id TEXT;
+ALTER TABLE connections ADD COLUMN IF NOT EXISTS sync_clock JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE connections ADD COLUMN IF NOT EXISTS sync_device_id TEXT;
+ALTER TABLE connections ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE user_patterns ADD COLUMN IF NOT EXISTS sync_clock JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE user_patterns ADD COLUMN IF NOT EXISTS sync_device_id TEXT;
+ALTER TABLE user_patterns ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Pattern statuses are synced by (user_id, pattern_id); keep only the newest row of any duplicates first
+DELETE FROM user_patterns a USING user_patterns b
+  WHERE a.user_id = b.user_id AND a.pattern_id = b.pattern_id AND a.created_at < b.created_at;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_patterns_user_pattern ON user_patterns(user_id, pattern_id);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_host_id ON sessions(host_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_partner_id ON sessions(partner_id);
+
+-- Hosts manage their sessions; partners can see the sessions they're invited to
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Hosts can manage their sessions" ON sessions;
+CREATE POLICY "Hosts can manage their sessions" ON sessions
+    FOR ALL USING (host_id = auth.uid()) WITH CHECK (host_id = auth.uid());
+
+DROP POLICY IF EXISTS "Partners can view their sessions" ON sessions;
+CREATE POLICY "Partners can view their sessions" ON sessions
+    FOR SELECT USING (partner_id = auth.uid());
+
+-- Verify the changes
+SELECT 'Migration completed successfully!' as status;
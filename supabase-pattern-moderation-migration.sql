@@ -0,0 +1,174 @@
+-- Migration for community moderation of user-contributed patterns in PatternPals
+-- Adds the review queue, reviews and the contribution log
+-- Run this in Supabase Dashboard -> SQL Editor -> New Query
+
+-- Contributed patterns awaiting (or past) review; the full Pattern is kept as JSON
+CREATE TABLE IF NOT EXISTS contributed_patterns (
+  id TEXT PRIMARY KEY,
+  contributor_id TEXT NOT NULL,
+  pattern JSONB NOT NULL,
+  verification_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (verification_status IN ('pending', 'verified', 'needs_review', 'rejected')),
+  revised_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- Only reviews after this count towards approval
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS pattern_reviews (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  pattern_id TEXT NOT NULL REFERENCES contributed_patterns(id) ON DELETE CASCADE,
+  reviewer_id TEXT NOT NULL,
+  reviewer_name TEXT,
+  decision TEXT NOT NULL CHECK (decision IN ('approve', 'request_changes', 'reject')),
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS pattern_contributions (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  pattern_id TEXT NOT NULL,
+  contributor_id TEXT NOT NULL,
+  contribution_type TEXT NOT NULL CHECK (contribution_type IN ('creation', 'edit', 'verification')),
+  changes TEXT,
+  diff JSONB, -- [{ field, before, after }] for edits
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Vector clock columns used by the offline sync engine
+ALTER TABLE contributed_patterns ADD COLUMN IF NOT EXISTS sync_clock JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE contributed_patterns ADD COLUMN IF NOT EXISTS sync_device_id TEXT;
+ALTER TABLE pattern_reviews ADD COLUMN IF NOT EXISTS sync_clock JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE pattern_reviews ADD COLUMN IF NOT EXISTS sync_device_id TEXT;
+ALTER TABLE pattern_contributions ADD COLUMN IF NOT EXISTS sync_clock JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE pattern_contributions ADD COLUMN IF NOT EXISTS sync_device_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_contributed_patterns_status ON contributed_patterns(verification_status);
+CREATE INDEX IF NOT EXISTS idx_pattern_reviews_pattern_id ON pattern_reviews(pattern_id);
+CREATE INDEX IF NOT EXISTS idx_pattern_contributions_pattern_id ON pattern_contributions(pattern_id);
+
+ALTER TABLE contributed_patterns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pattern_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pattern_contributions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view contributed patterns" ON contributed_patterns;
+CREATE POLICY "Users can view contributed patterns" ON contributed_patterns
+    FOR SELECT USING (true);
+
+-- Only contributors write their own patterns, and new ones start pending
+DROP POLICY IF EXISTS "Users can manage contributed patterns" ON contributed_patterns;
+DROP POLICY IF EXISTS "Contributors can add their patterns" ON contributed_patterns;
+CREATE POLICY "Contributors can add their patterns" ON contributed_patterns
+    FOR INSERT WITH CHECK (contributor_id = auth.uid()::text AND verification_status = 'pending');
+
+DROP POLICY IF EXISTS "Contributors can update their patterns" ON contributed_patterns;
+CREATE POLICY "Contributors can update their patterns" ON contributed_patterns
+    FOR UPDATE USING (contributor_id = auth.uid()::text) WITH CHECK (contributor_id = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Contributors can delete their patterns" ON contributed_patterns;
+CREATE POLICY "Contributors can delete their patterns" ON contributed_patterns
+    FOR DELETE USING (contributor_id = auth.uid()::text);
+
+-- Contributors can put an edited pattern back in the queue; every other status
+-- change comes from the review trigger below (clients run as anon/authenticated)
+CREATE OR REPLACE FUNCTION check_contributed_pattern_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.verification_status IS DISTINCT FROM OLD.verification_status AND
+       NEW.verification_status <> 'pending' AND
+       current_user IN ('anon', 'authenticated') THEN
+        RAISE EXCEPTION 'Pattern status is set by reviews';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_status_on_update ON contributed_patterns;
+CREATE TRIGGER check_status_on_update
+    BEFORE UPDATE ON contributed_patterns
+    FOR EACH ROW
+    EXECUTE FUNCTION check_contributed_pattern_status();
+
+DROP POLICY IF EXISTS "Users can view pattern reviews" ON pattern_reviews;
+CREATE POLICY "Users can view pattern reviews" ON pattern_reviews
+    FOR SELECT USING (true);
+
+-- Reviewers review as themselves, and never their own patterns
+DROP POLICY IF EXISTS "Users can create pattern reviews" ON pattern_reviews;
+CREATE POLICY "Users can create pattern reviews" ON pattern_reviews
+    FOR INSERT WITH CHECK (
+      reviewer_id = auth.uid()::text AND
+      NOT EXISTS (
+        SELECT 1 FROM contributed_patterns p
+        WHERE p.id = pattern_id AND p.contributor_id = auth.uid()::text
+      )
+    );
+
+-- Apply a review to its pattern: a rejection or change request takes effect at once;
+-- a pending pattern is verified once enough different reviewers approve its current version
+-- (keep required_approvals in step with requiredPatternApprovals in configService.ts)
+CREATE OR REPLACE FUNCTION apply_pattern_review()
+RETURNS TRIGGER AS $$
+DECLARE
+    required_approvals CONSTANT INTEGER := 3;
+    target contributed_patterns%ROWTYPE;
+    new_status TEXT;
+    approvals INTEGER;
+BEGIN
+    SELECT * INTO target FROM contributed_patterns WHERE id = NEW.pattern_id FOR UPDATE;
+    IF NOT FOUND OR target.verification_status NOT IN ('pending', 'needs_review') THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.decision = 'reject' THEN
+        new_status := 'rejected';
+    ELSIF NEW.decision = 'request_changes' THEN
+        new_status := 'needs_review';
+    ELSE
+        SELECT COUNT(DISTINCT reviewer_id) INTO approvals
+        FROM pattern_reviews
+        WHERE pattern_id = NEW.pattern_id
+          AND decision = 'approve'
+          AND created_at >= target.revised_at
+          AND reviewer_id <> target.contributor_id;
+        new_status := CASE
+          WHEN target.verification_status = 'pending' AND approvals >= required_approvals THEN 'verified'
+          ELSE target.verification_status
+        END;
+    END IF;
+
+    IF new_status <> target.verification_status THEN
+        UPDATE contributed_patterns
+        SET verification_status = new_status,
+            pattern = jsonb_set(
+              jsonb_set(pattern, '{source,verificationStatus}', to_jsonb(new_status)),
+              '{source,type}',
+              to_jsonb(CASE WHEN new_status = 'verified' THEN 'community_verified' ELSE 'user_contributed' END)
+            ),
+            updated_at = NOW()
+        WHERE id = NEW.pattern_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS apply_review_on_insert ON pattern_reviews;
+CREATE TRIGGER apply_review_on_insert
+    AFTER INSERT ON pattern_reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_pattern_review();
+
+DROP POLICY IF EXISTS "Users can view pattern contributions" ON pattern_contributions;
+CREATE POLICY "Users can view pattern contributions" ON pattern_contributions
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Users can create pattern contributions" ON pattern_contributions;
+CREATE POLICY "Users can create pattern contributions" ON pattern_contributions
+    FOR INSERT WITH CHECK (true);
+
+-- Verify the changes
+SELECT 'Migration completed successfully!' as status;
+SELECT table_name FROM information_schema.tables
+WHERE table_name IN ('contributed_patterns', 'pattern_reviews', 'pattern_contributions');
@@ -0,0 +1,17 @@
+-- Migration to add pattern proficiency levels to PatternPals
+-- Replaces the binary "known" status with learning / few_cycles / solid / can_teach
+-- Run this in Supabase Dashboard -> SQL Editor -> New Query
+
+-- Per-pattern proficiency on user_patterns
+ALTER TABLE user_patterns ADD COLUMN IF NOT EXISTS proficiency TEXT
+  CHECK (proficiency IN ('learning', 'few_cycles', 'solid', 'can_teach'));
+
+-- Existing known patterns become "solid", which matches how matching weighted them before
+UPDATE user_patterns SET proficiency = 'solid' WHERE status = 'known' AND proficiency IS NULL;
+
+-- Proficiency map on users, keyed like known_patterns
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pattern_proficiency JSONB DEFAULT '{}'::jsonb;
+
+-- Verify the changes
+SELECT 'Migration completed successfully!' as status;
+SELECT proficiency, COUNT(*) FROM user_patterns GROUP BY proficiency;
@@ -0,0 +1,37 @@
+-- Migration for pattern ratings and reviews in PatternPals
+-- One editable star rating (with an optional written review) per user per pattern
+-- Run this in Supabase Dashboard -> SQL Editor -> New Query
+
+CREATE TABLE IF NOT EXISTS pattern_ratings (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  pattern_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  user_name TEXT,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  review TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (pattern_id, user_id)
+);
+
+-- Vector clock columns used by the offline sync engine
+ALTER TABLE pattern_ratings ADD COLUMN IF NOT EXISTS sync_clock JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE pattern_ratings ADD COLUMN IF NOT EXISTS sync_device_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_pattern_ratings_pattern_id ON pattern_ratings(pattern_id);
+
+ALTER TABLE pattern_ratings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view pattern ratings" ON pattern_ratings;
+CREATE POLICY "Users can view pattern ratings" ON pattern_ratings
+    FOR SELECT USING (true);
+
+-- Everyone reads ratings; each user writes only their own
+DROP POLICY IF EXISTS "Users can manage pattern ratings" ON pattern_ratings;
+CREATE POLICY "Users can manage pattern ratings" ON pattern_ratings
+    FOR ALL USING (user_id = auth.uid()::text) WITH CHECK (user_id = auth.uid()::text);
+
+-- Verify the changes
+SELECT 'Migration completed successfully!' as status;
+SELECT table_name FROM information_schema.tables
+WHERE table_name = 'pattern_ratings';
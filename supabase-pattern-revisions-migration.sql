@@ -0,0 +1,48 @@
+-- Migration for pattern revision history in PatternPals
+-- Keeps an immutable snapshot of a contributed pattern after every submission and edit
+-- Run this in Supabase Dashboard -> SQL Editor -> New Query
+
+CREATE TABLE IF NOT EXISTS pattern_revisions (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  pattern_id TEXT NOT NULL REFERENCES contributed_patterns(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL CHECK (revision >= 1),
+  author_id TEXT NOT NULL,
+  summary TEXT,
+  diff JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ field, before, after }] from the previous revision
+  pattern JSONB NOT NULL, -- The full pattern after this revision
+  reverted_from INTEGER, -- The revision this one restored, if it was a revert
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (pattern_id, revision) -- Concurrent edits can't both take the next number
+);
+
+-- Vector clock columns used by the offline sync engine
+ALTER TABLE pattern_revisions ADD COLUMN IF NOT EXISTS sync_clock JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE pattern_revisions ADD COLUMN IF NOT EXISTS sync_device_id TEXT;
+
+-- Also enforces the unique revision numbers on tables created before the constraint
+DROP INDEX IF EXISTS idx_pattern_revisions_pattern_id;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pattern_revisions_pattern_revision ON pattern_revisions(pattern_id, revision);
+
+ALTER TABLE pattern_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are never changed once written, so there is no update or delete policy
+DROP POLICY IF EXISTS "Users can view pattern revisions" ON pattern_revisions;
+CREATE POLICY "Users can view pattern revisions" ON pattern_revisions
+    FOR SELECT USING (true);
+
+-- Revisions are written by their author, who must be the pattern's contributor
+DROP POLICY IF EXISTS "Users can create pattern revisions" ON pattern_revisions;
+CREATE POLICY "Users can create pattern revisions" ON pattern_revisions
+    FOR INSERT WITH CHECK (
+      author_id = auth.uid()::text AND
+      EXISTS (
+        SELECT 1 FROM contributed_patterns p
+        WHERE p.id = pattern_id AND p.contributor_id = auth.uid()::text
+      )
+    );
+
+-- Verify the changes
+SELECT 'Migration completed successfully!' as status;
+SELECT table_name FROM information_schema.tables
+WHERE table_name = 'pattern_revisions';
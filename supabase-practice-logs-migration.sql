@@ -0,0 +1,30 @@
+-- Migration for practice logging in PatternPals
+-- Practice sessions logged on the device are synced here, so spaced-repetition reminders follow the user
+-- Run this in Supabase Dashboard -> SQL Editor -> New Query
+
+-- IDs are generated on the device, which logs practice offline
+CREATE TABLE IF NOT EXISTS practice_logs (
+  id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL,
+  pattern_id TEXT NOT NULL,
+  practiced_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration INTEGER NOT NULL CHECK (duration > 0), -- minutes
+  max_catches INTEGER,
+  clean_runs INTEGER,
+  partner_id UUID, -- Passing partner, for patterns with more than one juggler
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_practice_logs_user_id ON practice_logs(user_id);
+
+ALTER TABLE practice_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their practice logs" ON practice_logs
+    FOR ALL USING (user_id = auth.uid());
+
+-- Verify the changes
+SELECT 'Migration completed successfully!' as status;
+SELECT table_name FROM information_schema.tables
+WHERE table_name = 'practice_logs';
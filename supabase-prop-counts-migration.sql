@@ -0,0 +1,47 @@
+-- Migration for the extended prop model in PatternPals
+-- Adds scarves, torches and hats as prop types and per-prop counts on contributed patterns
+-- Run this in Supabase Dashboard -> SQL Editor -> New Query
+
+-- Singular or aliased prop names saved by older clients become the plural prop
+-- types, and anything that isn't a prop is dropped so the check below holds
+UPDATE users SET preferred_props = ARRAY(
+  SELECT DISTINCT mapped FROM (
+    SELECT CASE prop
+      WHEN 'club' THEN 'clubs'
+      WHEN 'ball' THEN 'balls'
+      WHEN 'beanbag' THEN 'balls'
+      WHEN 'beanbags' THEN 'balls'
+      WHEN 'bag' THEN 'balls'
+      WHEN 'bags' THEN 'balls'
+      WHEN 'ring' THEN 'rings'
+      WHEN 'scarf' THEN 'scarves'
+      WHEN 'scarfs' THEN 'scarves'
+      WHEN 'torch' THEN 'torches'
+      WHEN 'hat' THEN 'hats'
+      ELSE prop
+    END AS mapped
+    FROM unnest(preferred_props) AS prop
+  ) AS props
+  WHERE mapped IN ('clubs', 'balls', 'rings', 'scarves', 'torches', 'hats')
+)
+WHERE NOT preferred_props <@ ARRAY['clubs', 'balls', 'rings', 'scarves', 'torches', 'hats'];
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_preferred_props_check;
+ALTER TABLE users ADD CONSTRAINT users_preferred_props_check
+  CHECK (preferred_props <@ ARRAY['clubs', 'balls', 'rings', 'scarves', 'torches', 'hats']);
+
+-- Contributed patterns with a single prop type get propCounts from numberOfProps;
+-- mixed patterns keep no counts until their contributor adds them
+UPDATE contributed_patterns
+SET pattern = jsonb_set(
+  pattern,
+  '{propCounts}',
+  jsonb_build_object(pattern->'props'->>0, (pattern->>'numberOfProps')::int)
+)
+WHERE jsonb_array_length(pattern->'props') = 1
+  AND NOT pattern ? 'propCounts'
+  AND (pattern->>'numberOfProps')::int > 0;
+
+-- Verify the changes
+SELECT 'Migration completed successfully!' as status;
+SELECT COUNT(*) AS patterns_with_counts FROM contributed_patterns WHERE pattern ? 'propCounts';
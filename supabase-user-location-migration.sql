@@ -0,0 +1,20 @@
+-- Migration for location-based partner discovery in PatternPals
+-- Stores coordinates for each user's location, resolved on the device from the bundled gazetteer
+-- Run this in Supabase Dashboard -> SQL Editor -> New Query
+
+-- Approximate coordinates, already snapped to a ~5 km grid by the app so they
+-- never pinpoint where someone lives. NULL when the location isn't recognised.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_coordinates_check;
+ALTER TABLE users ADD CONSTRAINT users_coordinates_check CHECK (
+  (latitude IS NULL AND longitude IS NULL) OR
+  (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+);
+
+-- Verify the changes
+SELECT 'Migration completed successfully!' as status;
+SELECT column_name, is_nullable, data_type
+FROM information_schema.columns
+WHERE table_name = 'users' AND column_name IN ('location', 'latitude', 'longitude');
@@ -1,23 +1,76 @@
 // Test configuration - loads from environment variables
 // This ensures test scripts don't have hardcoded credentials
+//
+// Set PATTERNPALS_BACKEND=local to run the scripts offline against an
+// in-memory stand-in for Supabase. Its tables are saved to
+// PATTERNPALS_LOCAL_DB (a JSON file in the temp directory by default), so
+// e.g. populate-database.js and test-connection-flow.js see the same data.
+// Delete the file to start again from an empty database.
 
 const { createClient } = require('@supabase/supabase-js');
 require('dotenv').config();
 
+const BACKEND = process.env.PATTERNPALS_BACKEND || 'supabase';
+
 // Get credentials from environment variables
 const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL;
 const SUPABASE_ANON_KEY = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
 
-if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
-  console.error('❌ Missing Supabase credentials!');
-  console.log('💡 Make sure you have a .env file with:');
-  console.log('   EXPO_PUBLIC_SUPABASE_URL=your-project-url');
-  console.log('   EXPO_PUBLIC_SUPABASE_ANON_KEY=your-anon-key');
-  console.log('');
-  console.log('📋 Copy .env.example to .env and fill in your credentials');
-  process.exit(1);
+function createLocalClient() {
+  const { execSync } = require('child_process');
+  const fs = require('fs');
+  const path = require('path');
+  const os = require('os');
+
+  // Compiled into the same directory every run, overwriting the last build
+  const outDir = path.join(os.tmpdir(), 'patternpals-local-supabase');
+  fs.mkdirSync(outDir, { recursive: true });
+  execSync(`npx tsc src/services/repository.ts src/services/localSupabase.ts --target ES2017 --module commonjs --skipLibCheck --outDir ${outDir}`);
+  const { MemoryRepository } = require(path.join(outDir, 'repository.js'));
+  const { createLocalSupabaseClient } = require(path.join(outDir, 'localSupabase.js'));
+
+  const dbFile = process.env.PATTERNPALS_LOCAL_DB || path.join(os.tmpdir(), 'patternpals-local-db.json');
+  const stored = fs.existsSync(dbFile) ? fs.readFileSync(dbFile, 'utf8') : null;
+
+  // Sequential IDs keep runs repeatable; carry on after the highest one saved
+  // (not the row count, which drops after a delete and would reuse an ID)
+  let nextId = stored
+    ? Object.values(JSON.parse(stored)).flat().reduce((highest, row) => {
+      const match = /^00000000-0000-4000-8000-(\d{12})$/.exec(String(row.id));
+      return match ? Math.max(highest, Number(match[1])) : highest;
+    }, 0)
+    : 0;
+  const generateId = () => `00000000-0000-4000-8000-${String(++nextId).padStart(12, '0')}`;
+
+  const repository = new MemoryRepository({
+    storage: {
+      getItem: async () => (fs.existsSync(dbFile) ? fs.readFileSync(dbFile, 'utf8') : null),
+      setItem: async (_key, value) => fs.writeFileSync(dbFile, value),
+    },
+    storageKey: 'local_repository',
+    generateId,
+  });
+
+  console.log(`🗄️  Using local Supabase stand-in (${dbFile})`);
+  return { supabase: createLocalSupabaseClient(repository), repository };
 }
 
-const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+if (BACKEND === 'local') {
+  const { supabase, repository } = createLocalClient();
+  module.exports = { supabase, repository, BACKEND };
+} else {
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    console.error('❌ Missing Supabase credentials!');
+    console.log('💡 Make sure you have a .env file with:');
+    console.log('   EXPO_PUBLIC_SUPABASE_URL=your-project-url');
+    console.log('   EXPO_PUBLIC_SUPABASE_ANON_KEY=your-anon-key');
+    console.log('');
+    console.log('📋 Copy .env.example to .env and fill in your credentials');
+    console.log('   ...or run with PATTERNPALS_BACKEND=local to use the offline stand-in');
+    process.exit(1);
+  }
 
-module.exports = { supabase, SUPABASE_URL, SUPABASE_ANON_KEY };
+  const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+
+  module.exports = { supabase, SUPABASE_URL, SUPABASE_ANON_KEY, BACKEND };
+}